@@ -40,13 +40,21 @@ if ([string]::IsNullOrWhiteSpace($projectRef)) {
     Write-Host ""
     Write-Host "1. Supabase Dashboard:" -ForegroundColor Cyan
     Write-Host "   - Go to Edge Functions in your Supabase dashboard" -ForegroundColor White
-    Write-Host "   - Deploy each function: registration-guide-guru, compliance-guide-guru, hr-guide-guru, branding-guide-guru" -ForegroundColor White
+    Write-Host "   - Deploy each function: registration-guide-guru, compliance-guide-guru, hr-guide-guru, branding-guide-guru, financial-planning-guide-guru, generation-worker, regenerate-guide-section, ask, idea-tuning, normalize-answer, document-share, documents" -ForegroundColor White
     Write-Host ""
     Write-Host "2. Supabase CLI (if logged in):" -ForegroundColor Cyan
     Write-Host "   supabase functions deploy registration-guide-guru --project-ref YOUR_PROJECT_REF" -ForegroundColor White
     Write-Host "   supabase functions deploy compliance-guide-guru --project-ref YOUR_PROJECT_REF" -ForegroundColor White
     Write-Host "   supabase functions deploy hr-guide-guru --project-ref YOUR_PROJECT_REF" -ForegroundColor White
     Write-Host "   supabase functions deploy branding-guide-guru --project-ref YOUR_PROJECT_REF" -ForegroundColor White
+    Write-Host "   supabase functions deploy financial-planning-guide-guru --project-ref YOUR_PROJECT_REF" -ForegroundColor White
+    Write-Host "   supabase functions deploy generation-worker --project-ref YOUR_PROJECT_REF" -ForegroundColor White
+    Write-Host "   supabase functions deploy regenerate-guide-section --project-ref YOUR_PROJECT_REF" -ForegroundColor White
+    Write-Host "   supabase functions deploy ask --project-ref YOUR_PROJECT_REF" -ForegroundColor White
+    Write-Host "   supabase functions deploy idea-tuning --project-ref YOUR_PROJECT_REF" -ForegroundColor White
+    Write-Host "   supabase functions deploy normalize-answer --project-ref YOUR_PROJECT_REF" -ForegroundColor White
+    Write-Host "   supabase functions deploy document-share --project-ref YOUR_PROJECT_REF" -ForegroundColor White
+    Write-Host "   supabase functions deploy documents --project-ref YOUR_PROJECT_REF" -ForegroundColor White
     Write-Host ""
     exit 0
 }
@@ -59,7 +67,15 @@ $functions = @(
     "registration-guide-guru",
     "compliance-guide-guru",
     "hr-guide-guru",
-    "branding-guide-guru"
+    "branding-guide-guru",
+    "financial-planning-guide-guru",
+    "generation-worker",
+    "regenerate-guide-section",
+    "ask",
+    "idea-tuning",
+    "normalize-answer",
+    "document-share",
+    "documents"
 )
 
 foreach ($function in $functions) {
@@ -11,10 +11,20 @@ import Footer from './components/Footer';
 import Signup from './components/Signup';
 import Login from './components/Login';
 import ChatInterface from './components/ChatInterface';
+import SharedDocuments from './components/SharedDocuments';
 import { auth } from './lib/auth';
+import { getRedirect, navigate, useRoute } from './lib/router';
+
+// Pages the components ask for with onNavigate, and where they live
+const PAGE_PATHS: Record<string, string> = {
+  home: '/',
+  login: '/login',
+  signup: '/signup',
+  chat: '/chat'
+};
 
 function App() {
-  const [currentPage, setCurrentPage] = useState('home');
+  const route = useRoute();
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
 
@@ -38,16 +48,27 @@ function App() {
     };
   }, []);
 
-  // Protect chat route - redirect to login if not authenticated
+  // Route guards: protected pages need a signed-in user, guest pages a signed-out one
+  const redirect = isCheckingAuth ? null : getRedirect(route, isAuthenticated);
+
   useEffect(() => {
-    if (!isCheckingAuth && currentPage === 'chat' && !isAuthenticated) {
-      setCurrentPage('login');
+    if (redirect) {
+      navigate(redirect, { replace: true });
+    }
+  }, [redirect]);
+
+  const handleNavigate = (page: string) => {
+    // After signing in, go back to the page that sent the user to login
+    if (page === 'chat' && route.name === 'login' && route.next) {
+      navigate(route.next, { replace: true });
+      return;
     }
-  }, [currentPage, isAuthenticated, isCheckingAuth]);
+    navigate(PAGE_PATHS[page] || '/');
+  };
 
   const renderPage = () => {
-    // Show loading while checking auth
-    if (isCheckingAuth) {
+    // Show loading while checking auth or leaving a guarded page
+    if (isCheckingAuth || redirect) {
       return (
         <div className="min-h-screen bg-black flex items-center justify-center">
           <div className="text-white text-xl">Loading...</div>
@@ -55,46 +76,42 @@ function App() {
       );
     }
 
-    switch (currentPage) {
+    switch (route.name) {
       case 'chat':
-        // Protected route - only accessible when authenticated
-        if (!isAuthenticated) {
-          return (
-            <>
-              <Header onNavigate={setCurrentPage} />
-              <Login onNavigate={setCurrentPage} />
-              <Footer onNavigate={setCurrentPage} />
-            </>
-          );
-        }
-        return <ChatInterface onNavigate={setCurrentPage} />;
+      case 'document':
+      case 'history':
+      case 'mentors':
+        return <ChatInterface route={route} onNavigate={handleNavigate} />;
+      case 'share':
+        // Open to anyone with the link, signed in or not
+        return <SharedDocuments token={route.token} />;
       case 'signup':
         return (
           <>
-            <Header onNavigate={setCurrentPage} />
-            <Signup onNavigate={setCurrentPage} />
-            <Footer onNavigate={setCurrentPage} />
+            <Header onNavigate={handleNavigate} />
+            <Signup onNavigate={handleNavigate} />
+            <Footer onNavigate={handleNavigate} />
           </>
           );
       case 'login':
         return (
           <>
-            <Header onNavigate={setCurrentPage} />
-            <Login onNavigate={setCurrentPage} />
-            <Footer onNavigate={setCurrentPage} />
+            <Header onNavigate={handleNavigate} />
+            <Login onNavigate={handleNavigate} />
+            <Footer onNavigate={handleNavigate} />
           </>
         );
        default:
         return (
           <>
-            <Header onNavigate={setCurrentPage} />
-            <Hero onNavigate={setCurrentPage} />
+            <Header onNavigate={handleNavigate} />
+            <Hero onNavigate={handleNavigate} />
             <Benefits />
             <HowItWorks />
-            <Pricing onNavigate={setCurrentPage} />
+            <Pricing onNavigate={handleNavigate} />
             <Testimonials />
             <FAQ />
-            <Footer onNavigate={setCurrentPage} />
+            <Footer onNavigate={handleNavigate} />
           </>
         );
     }
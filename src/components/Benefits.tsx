@@ -1,24 +1,26 @@
 import React from 'react';
 import { Shield, User, Lightbulb } from 'lucide-react';
+import { useLanguage } from '../lib/i18n';
 
 const Benefits = () => {
+  const { t } = useLanguage();
   const benefits = [
     {
       icon: Lightbulb,
-      title: 'Instant Guidance Anytime',
-      description: 'Get answers on business, taxes, HR, or marketing by typing or speaking directly through the chat interface.',
+      title: t('benefits.instantTitle'),
+      description: t('benefits.instantText'),
       accent: 'bg-white-500/10 border-white-500/20'
     },
     {
       icon: Shield,
-      title: 'Stay Compliant with Ease',
-      description: 'A simple tool that helps first‑time founders handle compliance without confusion or fear of complexity.',
+      title: t('benefits.compliantTitle'),
+      description: t('benefits.compliantText'),
       accent: 'bg-white-500/10 border-white-500/20'
     },
     {
       icon: User,
-      title: 'Direct Access to Mentors',
-      description: 'Connect with trusted mentors through shared contact details for personalized support when you need it.',
+      title: t('benefits.mentorsTitle'),
+      description: t('benefits.mentorsText'),
       accent: 'bg-white-500/10 border-white-500/20'
     }
   ];
@@ -29,10 +31,10 @@ const Benefits = () => {
         {/* Section Header */}
         <div className="text-center mb-16">
           <h2 className="text-3xl lg:text-4xl font-bold text-white mb-6">
-            Why Choose Startup Companion?
+            {t('benefits.title')}
           </h2>
           <p className="text-xl text-gray-400 max-w-3xl mx-auto">
-            Everything you need to transform your service business idea into a thriving reality
+            {t('benefits.subtitle')}
           </p>
         </div>
 
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Palette, Upload, X } from 'lucide-react';
+import { BRAND_FONTS, getBrandKit, saveBrandKit, type BrandKit } from '../lib/brand';
+import { useLanguage } from '../lib/i18n';
+
+interface BrandKitDialogProps {
+  userId: string;
+  businessId: string;
+  businessName: string;
+  onClose: () => void;
+}
+
+// Shown in the color pickers until the business has colors of its own
+const DEFAULT_PRIMARY = '#1E3A8A';
+const DEFAULT_SECONDARY = '#F59E0B';
+
+const BrandKitDialog: React.FC<BrandKitDialogProps> = ({ userId, businessId, businessName, onClose }) => {
+  const { t } = useLanguage();
+  const [kit, setKit] = useState<BrandKit | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getBrandKit(businessId).then(saved => {
+      setKit(saved ?? {
+        useBrandTheme: false,
+        primaryColor: null,
+        secondaryColor: null,
+        headingFont: null,
+        bodyFont: null,
+        logo: null,
+        source: null
+      });
+      setLoading(false);
+    });
+  }, [businessId]);
+
+  const update = (changes: Partial<BrandKit>) => setKit(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const handleSave = async () => {
+    if (!kit) return;
+    setIsSaving(true);
+    setError(null);
+    const result = await saveBrandKit(
+      userId,
+      businessId,
+      {
+        ...kit,
+        primaryColor: kit.primaryColor ?? DEFAULT_PRIMARY,
+        secondaryColor: kit.secondaryColor ?? DEFAULT_SECONDARY
+      },
+      logoFile
+    );
+    setIsSaving(false);
+
+    if (!result.success) {
+      setError(result.error || t('brandKit.saveError'));
+      return;
+    }
+    onClose();
+  };
+
+  const inputClass = 'w-full bg-gray-900 border border-gray-700 text-white rounded-lg px-3 py-2 text-sm placeholder-gray-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+      <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-gray-800 border border-gray-700 rounded-lg p-6 space-y-5">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center space-x-2">
+            <Palette className="h-5 w-5 text-purple-400" />
+            <div>
+              <h3 className="text-white font-semibold">{t('brandKit.title', { business: businessName })}</h3>
+              <p className="text-xs text-gray-400">{t('brandKit.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('common.close')}>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading || !kit ? (
+          <div className="flex items-center space-x-2 text-sm text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>{t('brandKit.loading')}</span>
+          </div>
+        ) : (
+          <>
+            <label className="flex items-center space-x-3 text-sm text-white">
+              <input
+                type="checkbox"
+                checked={kit.useBrandTheme}
+                onChange={(e) => update({ useBrandTheme: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-600 bg-gray-900"
+              />
+              <span>{t('brandKit.useBrand')}</span>
+            </label>
+
+            {kit.source === 'branding_guide' && (
+              <p className="text-xs text-gray-400">{t('brandKit.fromGuide')}</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400">{t('brandKit.primaryColor')}</span>
+                <input
+                  type="color"
+                  value={kit.primaryColor ?? DEFAULT_PRIMARY}
+                  onChange={(e) => update({ primaryColor: e.target.value.toUpperCase() })}
+                  className="h-10 w-full bg-gray-900 border border-gray-700 rounded-lg"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400">{t('brandKit.secondaryColor')}</span>
+                <input
+                  type="color"
+                  value={kit.secondaryColor ?? DEFAULT_SECONDARY}
+                  onChange={(e) => update({ secondaryColor: e.target.value.toUpperCase() })}
+                  className="h-10 w-full bg-gray-900 border border-gray-700 rounded-lg"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400">{t('brandKit.headingFont')}</span>
+                <select value={kit.headingFont ?? ''} onChange={(e) => update({ headingFont: e.target.value || null })} className={inputClass}>
+                  <option value="">{t('brandKit.defaultFont')}</option>
+                  {BRAND_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400">{t('brandKit.bodyFont')}</span>
+                <select value={kit.bodyFont ?? ''} onChange={(e) => update({ bodyFont: e.target.value || null })} className={inputClass}>
+                  <option value="">{t('brandKit.defaultFont')}</option>
+                  {BRAND_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                </select>
+              </label>
+            </div>
+
+            <div className="space-y-1">
+              <span className="text-xs text-gray-400">{t('brandKit.logoLabel')}</span>
+              <div className="flex items-center space-x-3">
+                <label className="flex items-center space-x-2 cursor-pointer bg-gray-900 hover:bg-gray-700 border border-gray-700 text-white px-3 py-2 rounded-lg text-sm transition-colors duration-200">
+                  <Upload className="h-4 w-4" />
+                  <span>{logoFile ? logoFile.name : kit.logo ? t('brandKit.replaceLogo') : t('brandKit.uploadLogo')}</span>
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    onChange={(e) => setLogoFile(e.target.files?.[0] ?? null)}
+                    className="hidden"
+                  />
+                </label>
+                {(kit.logo || logoFile) && (
+                  <button
+                    onClick={() => {
+                      setLogoFile(null);
+                      update({ logo: null });
+                    }}
+                    className="text-sm text-gray-400 hover:text-white"
+                  >
+                    {t('brandKit.removeLogo')}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <div className="flex items-center justify-end space-x-2">
+              <button onClick={onClose} className="px-4 py-2 text-sm text-gray-300 hover:text-white">
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors duration-200"
+              >
+                {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+                <span>{isSaving ? t('brandKit.saving') : t('brandKit.save')}</span>
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitDialog;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Building2, FileCheck, Loader2, Plus, RefreshCw } from 'lucide-react';
+import type { Business } from '../lib/businesses';
+import { useLanguage } from '../lib/i18n';
+
+interface BusinessSwitcherProps {
+  businesses: Business[];
+  activeBusinessId: string | null;
+  /** Opens the business's latest guides */
+  onSelect: (business: Business) => void;
+  /** Starts new guides for the business from its saved answers */
+  onStartGuides: (business: Business) => void;
+  /** Starts a new conversation that is not linked to a business yet */
+  onNewBusiness: () => void;
+  isBusy?: boolean;
+}
+
+const BusinessSwitcher: React.FC<BusinessSwitcherProps> = ({
+  businesses,
+  activeBusinessId,
+  onSelect,
+  onStartGuides,
+  onNewBusiness,
+  isBusy = false
+}) => {
+  const { t } = useLanguage();
+
+  return (
+    <aside className="hidden md:flex w-64 flex-col border-r border-gray-800 bg-gray-950">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+        <p className="text-xs uppercase tracking-widest text-gray-400">{t('businesses.title')}</p>
+        {isBusy && <Loader2 className="h-4 w-4 animate-spin text-blue-400" />}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {businesses.length === 0 ? (
+          <p className="px-2 py-3 text-sm text-gray-500">
+            {t('businesses.empty')}
+          </p>
+        ) : (
+          businesses.map(business => {
+            const isActive = business.id === activeBusinessId;
+            return (
+              <div
+                key={business.id}
+                className={`rounded-lg p-2 transition-colors duration-200 ${
+                  isActive ? 'bg-blue-600/20 border border-blue-500/40' : 'border border-transparent hover:bg-gray-800/80'
+                }`}
+              >
+                <button
+                  onClick={() => onSelect(business)}
+                  disabled={isBusy}
+                  className="flex w-full items-center space-x-2 text-left disabled:opacity-50"
+                  title={t('businesses.open')}
+                >
+                  <Building2 className={`h-4 w-4 flex-shrink-0 ${isActive ? 'text-blue-400' : 'text-gray-400'}`} />
+                  <span className="truncate text-sm text-white">{business.name}</span>
+                </button>
+                {isActive && (
+                  <div className="mt-2 flex items-center space-x-3 pl-6">
+                    <button
+                      onClick={() => onSelect(business)}
+                      disabled={isBusy}
+                      className="flex items-center space-x-1 text-xs text-blue-300 hover:text-blue-200 disabled:opacity-50"
+                    >
+                      <FileCheck className="h-3 w-3" />
+                      <span>{t('businesses.guides')}</span>
+                    </button>
+                    <button
+                      onClick={() => onStartGuides(business)}
+                      disabled={isBusy}
+                      className="flex items-center space-x-1 text-xs text-blue-300 hover:text-blue-200 disabled:opacity-50"
+                    >
+                      <RefreshCw className="h-3 w-3" />
+                      <span>{t('businesses.newGuides')}</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="border-t border-gray-800 p-2">
+        <button
+          onClick={onNewBusiness}
+          disabled={isBusy}
+          className="flex w-full items-center justify-center space-x-2 rounded-lg border border-gray-700 px-3 py-2 text-sm text-gray-200 transition-colors duration-200 hover:border-blue-500 hover:text-white disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          <span>{t('businesses.newBusiness')}</span>
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default BusinessSwitcher;
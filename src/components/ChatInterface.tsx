@@ -1,14 +1,69 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, User, Bot, Phone, Mail, FileCheck, History, Loader2, FileText, Palette, Shield, Users, CheckCircle2, Star } from 'lucide-react';
+import { Send, User, Bot, Phone, Mail, FileCheck, History, Loader2, FileText, IndianRupee, Palette, Shield, Users, CheckCircle2, Star } from 'lucide-react';
 import { auth } from '../lib/auth';
 import { submitRating, getMentorForService } from '../lib/rating';
-import { createSession, saveChatMessage, updateSessionStatus } from '../lib/session';
+import {
+  createSession,
+  getResumableSession,
+  getServiceDisplayName,
+  getSession,
+  getSessionMessages,
+  saveChatMessage,
+  updateSessionStatus,
+  type ResumableSession
+} from '../lib/session';
 import { supabase } from '../lib/supabase';
-import { getDocumentsBySession, getDocumentsByUser, type GeneratedDocument } from '../lib/documentService';
+import { navigate, routeToPath, type Route } from '../lib/router';
+import type { ShareTarget } from '../lib/shares';
+import { getDocumentById, getDocumentDownloadUrl, getDocumentsBySession, getDocumentsByUser, getStartupKitUrl, subscribeToSessionDocuments, type GeneratedDocument, type GuideStructuredData } from '../lib/documentService';
 import { fetchActiveMentors, type MentorProfile } from '../lib/mentors';
+import { enqueueGenerationJobs, subscribeToGenerationProgress } from '../lib/generationJobs';
+import { regenerateGuideSection, type GuideSectionHeading } from '../lib/guideSections';
+import { askFollowUpQuestion, type AnswerCitation, type FollowUpTurn } from '../lib/followUp';
+import { sendIdeaTuningMessage, type IdeaPrefill, type IdeaTuningTurn } from '../lib/ideaTuning';
+import {
+  applyAnswer,
+  formatQuestion,
+  getMissingQuestions,
+  getNextQuestion,
+  getQuestionText,
+  isHelpRequest,
+  loadQuestionnaire,
+  needsNormalization,
+  parseAnswer,
+  parseYesNo,
+  type QuestionDefinition,
+  type QuestionnaireDefinition
+} from '../lib/questionnaire';
+import { DEFAULT_QUESTIONNAIRE } from '../lib/defaultQuestionnaire';
+import {
+  DEFAULT_LANGUAGE,
+  getLanguage,
+  hasMessage,
+  loadLanguagePreference,
+  saveLanguagePreference,
+  setLanguage,
+  translationsOf,
+  useLanguage
+} from '../lib/i18n';
+import { normalizeAnswer, type NormalizedAnswer } from '../lib/answerNormalizer';
+import { getGuidesAffectedBy, type GuideType } from '../lib/profileReview';
+import {
+  assignSessionToBusiness,
+  createBusiness,
+  getBusinesses,
+  getLatestGuideSession,
+  startBusinessSession,
+  type Business
+} from '../lib/businesses';
 import DocumentDashboard from './DocumentDashboard';
 import DocumentViewer from './DocumentViewer';
 import DocumentHistory from './DocumentHistory';
+import ProfileReviewCard from './ProfileReviewCard';
+import BusinessSwitcher from './BusinessSwitcher';
+import ShareDialog from './ShareDialog';
+import BrandKitDialog from './BrandKitDialog';
+import LanguageSelector from './LanguageSelector';
 
 interface Message {
   id: string;
@@ -28,24 +83,81 @@ interface Message {
     expertise: string;
     service: string;
   }>;
+  /** Guide sections a follow-up answer was based on */
+  citations?: AnswerCitation[];
+  /** A coach reply in the idea tuning conversation, used to rebuild it when the session is resumed */
+  ideaTuningReply?: boolean;
 }
 
 interface Document {
   id: string;
-  type: 'registration' | 'branding' | 'compliance' | 'hr';
+  type: 'registration' | 'branding' | 'compliance' | 'hr' | 'financial_planning';
   title: string;
   keyPoints: string[];
   fullContent: string;
-  pdfUrl?: string;
-  status: 'generating' | 'completed' | 'failed';
+  structuredData?: GuideStructuredData | null;
+  hasPdf?: boolean;
+  status: 'pending' | 'generating' | 'completed' | 'failed';
 }
 
+const isDocumentInProgress = (doc: Document) => doc.status === 'pending' || doc.status === 'generating';
+
+// Saved messages are matched in every language, in case the founder switched language since
+const isGenerationStartedMessage = (content: string) => translationsOf('generation.started').some(text => content.includes(text));
+const isRatingPromptMessage = (content: string) => translationsOf('rating.question').some(text => content.includes(text));
+
+// Replies that move idea tuning on, in English, Hindi, Marathi and Tamil
+const CONTINUE_TO_QUESTIONNAIRE = /^(yes|y|continue|proceed|हाँ|हां|आगे बढ़ें|हो|पुढे|ஆம்|தொடர்)$/i;
+const FINISH_IDEA_TUNING = /^(done|finish|summari[sz]e|हो गया|बस|झाले|संपले|முடிந்தது|போதும்)$/i;
+
+// Same titles the database gives a guide when its job is queued
+const DOCUMENT_TITLES: Record<Document['type'], string> = {
+  registration: 'Registration Guide',
+  branding: 'Branding Guide',
+  compliance: 'Compliance Guide',
+  hr: 'HR Setup Guide',
+  financial_planning: 'Financial Planning Guide'
+};
+
+const toDocument = (doc: GeneratedDocument): Document => ({
+  id: doc.id,
+  type: doc.document_type,
+  title: doc.document_title,
+  keyPoints: Array.isArray(doc.key_points) ? doc.key_points : [],
+  fullContent: doc.full_content || '',
+  structuredData: doc.structured_data || null,
+  hasPdf: !!doc.pdf_file_name,
+  status: doc.generation_status
+});
+
+const toMessage = (row: any): Message => ({
+  id: row.id,
+  type: row.message_type,
+  content: row.content,
+  timestamp: new Date(row.created_at),
+  citations: row.message_metadata?.citations,
+  ideaTuningReply: row.message_metadata?.ideaTuningReply === true
+});
+
+// The idea tuning turns of a saved conversation: each coach reply and the founder message before it
+const toIdeaTuningTurns = (messages: Message[]): IdeaTuningTurn[] =>
+  messages.flatMap((message, index) => {
+    const previous = messages[index - 1];
+    if (!message.ideaTuningReply || previous?.type !== 'user') return [];
+    return [
+      { role: 'user' as const, content: previous.content },
+      { role: 'assistant' as const, content: message.content }
+    ];
+  });
+
 interface ChatInterfaceProps {
   onNavigate?: (page: string) => void;
+  /** The chat, dashboard, document, history or mentors page the URL points at */
+  route?: Route;
 }
 
 type ViewMode = 'chat' | 'dashboard' | 'document' | 'history' | 'mentors';
-type FlowStage = 'initial' | 'questioning' | 'generating' | 'documents' | 'rating';
+type FlowStage = 'initial' | 'idea_tuning' | 'questioning' | 'reviewing' | 'generating' | 'documents' | 'rating';
 
 // Document Generation Loader Component
 interface DocumentGenerationLoaderProps {
@@ -53,11 +165,13 @@ interface DocumentGenerationLoaderProps {
 }
 
 const DocumentGenerationLoader: React.FC<DocumentGenerationLoaderProps> = ({ documents }) => {
+  const { t } = useLanguage();
   const documentTypes = [
-    { type: 'registration', label: 'Registration Guide', icon: FileText, color: 'text-blue-400' },
-    { type: 'compliance', label: 'Compliance Guide', icon: Shield, color: 'text-green-400' },
-    { type: 'hr', label: 'HR Setup Guide', icon: Users, color: 'text-orange-400' },
-    { type: 'branding', label: 'Branding Guide', icon: Palette, color: 'text-purple-400' }
+    { type: 'registration', label: t('guide.registration'), icon: FileText, color: 'text-blue-400' },
+    { type: 'compliance', label: t('guide.compliance'), icon: Shield, color: 'text-green-400' },
+    { type: 'hr', label: t('guide.hr'), icon: Users, color: 'text-orange-400' },
+    { type: 'branding', label: t('guide.branding'), icon: Palette, color: 'text-purple-400' },
+    { type: 'financial_planning', label: t('guide.financial_planning'), icon: IndianRupee, color: 'text-teal-400' }
   ];
 
   const getDocumentStatus = (type: string) => {
@@ -66,6 +180,12 @@ const DocumentGenerationLoader: React.FC<DocumentGenerationLoaderProps> = ({ doc
     return doc.status;
   };
 
+  // Text streamed so far for a guide that is still being written
+  const getLiveContent = (type: string) => {
+    const doc = documents.find(d => d.type === type);
+    return doc?.status === 'generating' ? doc.fullContent : '';
+  };
+
   // Count completed documents
   const completedCount = documents.filter(doc => doc.status === 'completed').length;
   const totalCount = documentTypes.length;
@@ -73,13 +193,15 @@ const DocumentGenerationLoader: React.FC<DocumentGenerationLoaderProps> = ({ doc
   return (
     <div className="space-y-3">
       <div className="flex items-center justify-between mb-3">
-        <p className="text-sm font-medium text-gray-300">Generating Documents:</p>
+        <p className="text-sm font-medium text-gray-300">{t('generation.loaderTitle')}</p>
         <p className="text-xs text-gray-400">
-          {completedCount}/{totalCount} completed
+          {t('generation.loaderCompleted', { completed: completedCount, total: totalCount })}
         </p>
       </div>
       {documentTypes.map(({ type, label, icon: Icon, color }) => {
         const status = getDocumentStatus(type);
+        const liveContent = getLiveContent(type);
+        const wordCount = liveContent ? liveContent.trim().split(/\s+/).length : 0;
         const isGenerating = status === 'generating';
         const isCompleted = status === 'completed';
         const isFailed = status === 'failed';
@@ -101,7 +223,7 @@ const DocumentGenerationLoader: React.FC<DocumentGenerationLoaderProps> = ({ doc
             <div className={`flex-shrink-0 ${color} ${isGenerating ? 'animate-pulse' : ''}`}>
               <Icon className="h-5 w-5" />
             </div>
-            <div className="flex-1">
+            <div className="flex-1 min-w-0">
               <p className={`text-sm ${
                 isCompleted ? 'text-green-300' : 
                 isFailed ? 'text-red-300' : 
@@ -110,8 +232,16 @@ const DocumentGenerationLoader: React.FC<DocumentGenerationLoaderProps> = ({ doc
               }`}>
                 {label}
               </p>
-              {isGenerating && (
-                <p className="text-xs text-gray-400 mt-1">Creating content...</p>
+              {isGenerating && !liveContent && (
+                <p className="text-xs text-gray-400 mt-1">{t('generation.creating')}</p>
+              )}
+              {isGenerating && liveContent && (
+                <>
+                  <p className="text-xs text-gray-400 mt-1">{t('generation.writing', { count: wordCount })}</p>
+                  <p className="mt-2 max-h-24 overflow-hidden whitespace-pre-line rounded bg-gray-900/60 p-2 text-xs text-gray-300">
+                    {liveContent.slice(-280)}
+                  </p>
+                </>
               )}
             </div>
             <div className="flex-shrink-0">
@@ -140,16 +270,11 @@ const DocumentGenerationLoader: React.FC<DocumentGenerationLoaderProps> = ({ doc
   );
 };
 
-const QUESTIONS = [
-  { id: 1, field: 'business_name', prompt: 'What is the company name or preferred company name?' },
-  { id: 2, field: 'company_description', prompt: 'Please provide a brief description of the company or company website' },
-  { id: 3, field: 'location', prompt: 'Which location will the business operate in?' },
-  { id: 4, field: 'partners_info', prompt: 'Who will be the partners or directors? (How many and their roles?)' },
-  { id: 5, field: 'color_preference', prompt: 'What color tone would you prefer for branding? (Earthy, Bright, Professional, etc.)' },
-  { id: 6, field: 'style_preference', prompt: 'What style would you prefer? (Conservative/Classic, Modern/Contemporary, Expressive/Bold)' }
-];
+// Profile fields idea tuning fills in, in the order they are listed to the founder
+const PREFILL_FIELDS = ['business_name', 'company_description', 'location', 'industry'] as const;
 
-const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
+const ChatInterface = ({ onNavigate, route }: ChatInterfaceProps) => {
+  const { language, t } = useLanguage();
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
   const [currentUser, setCurrentUser] = useState<any>(null);
@@ -158,7 +283,14 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
   // New state for sequential flow
   const [viewMode, setViewMode] = useState<ViewMode>('chat');
   const [flowStage, setFlowStage] = useState<FlowStage>('initial');
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  // Confirmed Idea questionnaire, loaded when the flow starts, and the question awaiting an answer
+  const [questionnaire, setQuestionnaire] = useState<QuestionnaireDefinition>(DEFAULT_QUESTIONNAIRE);
+  const [currentQuestion, setCurrentQuestion] = useState<QuestionDefinition | null>(null);
+  // Structured answer waiting for the founder to confirm it before it is saved
+  const [pendingAnswer, setPendingAnswer] = useState<NormalizedAnswer | null>(null);
+  // Profile review card: before the first generation, or to edit answers once guides exist
+  const [profileReviewMode, setProfileReviewMode] = useState<'generate' | 'update' | null>(null);
+  const [isConfirmingReview, setIsConfirmingReview] = useState(false);
   const [businessProfile, setBusinessProfile] = useState<any>({});
   const [documents, setDocuments] = useState<Document[]>([]);
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
@@ -170,17 +302,38 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
   const [mentorsLoading, setMentorsLoading] = useState<boolean>(false);
   const [mentorsError, setMentorsError] = useState<string | null>(null);
   const [hasGeneratedDocuments, setHasGeneratedDocuments] = useState<boolean>(false);
+  // Guides queued from the questionnaire; the dashboard opens once all of them finish
+  const [awaitingDocumentTypes, setAwaitingDocumentTypes] = useState<string[]>([]);
+  // Follow-up questions about the guides and their answers, sent back as conversation context
+  const [followUpHistory, setFollowUpHistory] = useState<FollowUpTurn[]>([]);
+  const [isAnswering, setIsAnswering] = useState(false);
+  // Idea tuning conversation, and the fields it filled in once the idea has been summarised
+  const [ideaTuningTurns, setIdeaTuningTurns] = useState<IdeaTuningTurn[]>([]);
+  const [ideaPrefill, setIdeaPrefill] = useState<IdeaPrefill | null>(null);
+  // Unfinished session found on load, until the user continues it or starts fresh
+  const [resumeOffer, setResumeOffer] = useState<ResumableSession | null>(null);
+  // Business workspaces in the switcher, and the one the open session belongs to
+  const [businesses, setBusinesses] = useState<Business[]>([]);
+  const [activeBusinessId, setActiveBusinessId] = useState<string | null>(null);
+  const [isSwitchingBusiness, setIsSwitchingBusiness] = useState(false);
+  // Guide or business whose share links are being managed
+  const [shareDialog, setShareDialog] = useState<{ target: ShareTarget; title: string } | null>(null);
+  // Business whose brand kit is being edited
+  const [brandDialog, setBrandDialog] = useState<Business | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Routes still being opened; the URL is only updated from the view once they are done
+  const pendingRoutesRef = useRef(0);
+  const [openedRouteCount, setOpenedRouteCount] = useState(0);
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, isAnswering, profileReviewMode]);
 
   // Scroll to bottom when documents status changes (for loader visibility)
   useEffect(() => {
     if ((flowStage === 'generating' || flowStage === 'documents') && 
-        documents.some(doc => doc.status === 'generating')) {
+        documents.some(isDocumentInProgress)) {
       scrollToBottom();
     }
   }, [documents, flowStage]);
@@ -189,6 +342,23 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
     initializeChat();
   }, []);
 
+  // Deep links and the back and forward buttons: show what the URL points at
+  useEffect(() => {
+    if (!currentUser || !route) return;
+    openRoute(route);
+  }, [route, currentUser?.id]);
+
+  // Keep the URL in step with the view, so every screen can be bookmarked
+  useEffect(() => {
+    if (!currentUser || pendingRoutesRef.current > 0) return;
+
+    const path = getViewPath();
+    if (path) {
+      // The first session replaces the bare /chat entry instead of adding one
+      navigate(path, { replace: route?.name === 'chat' && !route.sessionId });
+    }
+  }, [viewMode, currentSessionId, selectedDocument?.id, currentUser?.id, openedRouteCount]);
+
   useEffect(() => {
     if (currentUser?.id) {
       checkUserHasDocuments(currentUser.id);
@@ -201,6 +371,38 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
     }
   }, [currentSessionId, viewMode]);
 
+  // Document status and live text for the current session come from Realtime
+  useEffect(() => {
+    if (!currentSessionId) return;
+
+    const unsubscribeDocuments = subscribeToSessionDocuments(
+      currentSessionId,
+      applyDocumentChange,
+      loadDocumentsFromDatabase
+    );
+    const unsubscribeProgress = subscribeToGenerationProgress(currentSessionId, updateLiveContent);
+
+    return () => {
+      unsubscribeDocuments();
+      unsubscribeProgress();
+    };
+  }, [currentSessionId]);
+
+  useEffect(() => {
+    if (awaitingDocumentTypes.length === 0) return;
+
+    const allFinished = awaitingDocumentTypes.every(type =>
+      documents.some(doc => doc.type === type && !isDocumentInProgress(doc))
+    );
+    if (!allFinished) return;
+
+    console.log('All documents finished. Navigating to document dashboard...');
+    setAwaitingDocumentTypes([]);
+    setFlowStage('rating'); // Set to 'rating' stage so we can prompt for feedback when user returns to chat
+    setViewMode('dashboard');
+    setHasGeneratedDocuments(true);
+  }, [documents, awaitingDocumentTypes]);
+
   const initializeChat = async () => {
     try {
       console.log('Initializing chat...');
@@ -217,6 +419,14 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
       console.log('User authenticated:', user.id);
       setCurrentUser(user);
 
+      // The saved language wins; a language picked before signing in becomes the saved one
+      const savedLanguage = await loadLanguagePreference(user.id);
+      if (savedLanguage && savedLanguage !== getLanguage()) {
+        setLanguage(savedLanguage);
+      } else if (!savedLanguage && getLanguage() !== DEFAULT_LANGUAGE) {
+        await saveLanguagePreference(user.id, getLanguage());
+      }
+
       const { data: { session: authSession } } = await supabase.auth.getSession();
       if (!authSession) {
         console.error('No active auth session found, redirecting to login');
@@ -227,37 +437,21 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
       }
 
       console.log('Auth session verified, access token present:', !!authSession.access_token);
+      setBusinesses(await getBusinesses(user.id));
 
-      console.log('Creating initial session for user:', user.id);
-      const session = await createSession(user.id, 'chat_session');
-      if (session) {
-        setCurrentSessionId(session);
-        console.log('Initial session created successfully:', session);
-      } else {
-        console.error('Failed to create initial session');
-        const errorMessage: Message = {
-          id: 'error-1',
-          type: 'ai',
-          content: 'We encountered an issue starting your session. This may be due to a database connection problem. Please try refreshing the page. If the issue persists, please log out and log back in.',
-          timestamp: new Date()
-        };
-        setMessages([errorMessage]);
+      // A link to a saved session or guide is opened by openRoute instead
+      if ((route?.name === 'chat' && route.sessionId) || route?.name === 'document') {
         return;
       }
 
-      // Show initial welcome message
-      const welcomeMessage: Message = {
-        id: '1',
-        type: 'ai',
-        content: 'Welcome to StartUP Companion! I\'m here to help you launch your business.\n\nPlease choose an option:\n\n1. Idea Tuning - My idea is not firmed up yet\n2. Confirmed Idea - I\'m ready to get my business documents\n\nJust type the number (1 or 2) to get started!',
-        timestamp: new Date()
-      };
-      setMessages([welcomeMessage]);
-
-      // Save welcome message to database
-      if (session && user) {
-        await saveChatMessage(session, user.id, 'ai', welcomeMessage.content);
+      const resumable = await getResumableSession(user.id);
+      if (resumable) {
+        console.log('Found an unfinished session:', resumable.id);
+        setResumeOffer(resumable);
+        return;
       }
+
+      await startNewSession(user.id);
     } catch (error) {
       console.error('Failed to initialize chat:', error);
       if (onNavigate) {
@@ -266,6 +460,313 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
     }
   };
 
+  const startNewSession = async (userId: string) => {
+    console.log('Creating initial session for user:', userId);
+    const session = await createSession(userId, 'chat_session');
+    if (session) {
+      setCurrentSessionId(session);
+      console.log('Initial session created successfully:', session);
+    } else {
+      console.error('Failed to create initial session');
+      const errorMessage: Message = {
+        id: 'error-1',
+        type: 'ai',
+        content: t('chat.sessionError'),
+        timestamp: new Date()
+      };
+      setMessages([errorMessage]);
+      return;
+    }
+
+    // Show initial welcome message
+    const welcomeMessage: Message = {
+      id: '1',
+      type: 'ai',
+      content: t('chat.welcome'),
+      timestamp: new Date()
+    };
+    setMessages([welcomeMessage]);
+
+    // Save welcome message to database
+    await saveChatMessage(session, userId, 'ai', welcomeMessage.content);
+  };
+
+  const handleStartFresh = async () => {
+    if (!resumeOffer || !currentUser) return;
+
+    await updateSessionStatus(resumeOffer.id, 'abandoned');
+    setResumeOffer(null);
+    await startNewSession(currentUser.id);
+  };
+
+  const handleContinueSession = async () => {
+    if (!resumeOffer) return;
+
+    setResumeOffer(null);
+    setActiveBusinessId(resumeOffer.business_id);
+    await restoreSession(resumeOffer.id, resumeOffer.service_type);
+  };
+
+  // Clears what belongs to the open session before another one is shown
+  const resetSessionState = () => {
+    setMessages([]);
+    setDocuments([]);
+    setProfileReviewMode(null);
+    setPendingAnswer(null);
+    setCurrentQuestion(null);
+    setAwaitingDocumentTypes([]);
+    setAwaitingRating(false);
+    setFollowUpHistory([]);
+    setIdeaTuningTurns([]);
+    setIdeaPrefill(null);
+  };
+
+  /**
+   * Reopens a saved session: rebuilds the chat from chat_messages and works
+   * out the stage from what was saved - generated guides, the idea tuning
+   * replies, or the next unanswered question of the questionnaire.
+   */
+  const restoreSession = async (sessionId: string, serviceType: string) => {
+    if (!currentUser) return;
+
+    resetSessionState();
+    setCurrentSessionId(sessionId);
+
+    const [rows, dbDocuments, { data: profile }] = await Promise.all([
+      getSessionMessages(sessionId),
+      getDocumentsBySession(sessionId),
+      supabase.from('business_profiles').select('*').eq('session_id', sessionId).maybeSingle()
+    ]);
+    const restoredMessages = rows.map(toMessage);
+    const restoredProfile = profile || {};
+    setBusinessProfile(restoredProfile);
+
+    // currentSessionId is not updated until the next render, so save with the id directly
+    const postMessage = async (content: string) => {
+      const message: Message = { id: Date.now().toString(), type: 'ai', content, timestamp: new Date() };
+      setMessages([...restoredMessages, message]);
+      await saveChatMessage(sessionId, currentUser.id, 'ai', content);
+    };
+
+    if (dbDocuments.length > 0) {
+      const restoredDocs = dbDocuments.map(toDocument);
+      setMessages(restoredMessages);
+      setDocuments(restoredDocs);
+      setHasGeneratedDocuments(true);
+
+      const inProgress = restoredDocs.filter(isDocumentInProgress).map(doc => doc.type);
+      if (inProgress.length > 0) {
+        setFlowStage('documents');
+        setAwaitingDocumentTypes(inProgress);
+      } else {
+        setFlowStage('rating');
+      }
+      return;
+    }
+
+    if (serviceType === 'idea_tuning') {
+      setFlowStage('idea_tuning');
+      setIdeaTuningTurns(toIdeaTuningTurns(restoredMessages));
+
+      if (restoredProfile.has_idea_tuning && restoredProfile.idea_tuning_output) {
+        setIdeaPrefill({
+          business_name: restoredProfile.business_name || null,
+          company_description: restoredProfile.company_description || '',
+          location: restoredProfile.location || null,
+          industry: restoredProfile.industry || null
+        });
+        await postMessage(t('chat.welcomeBackIdea'));
+      } else {
+        await postMessage(t('chat.welcomeBackTuning'));
+      }
+      return;
+    }
+
+    if (serviceType === 'confirmed_idea_flow') {
+      const definition = await loadQuestionnaire('confirmed_idea');
+      setQuestionnaire(definition);
+
+      const nextQuestion = getNextQuestion(definition, restoredProfile);
+      if (nextQuestion) {
+        setCurrentQuestion(nextQuestion);
+        setFlowStage('questioning');
+        await postMessage(`${t('chat.welcomeBackQuestion')}\n\n${formatQuestion(definition, nextQuestion, restoredProfile, getLanguage())}`);
+      } else {
+        setFlowStage('reviewing');
+        setProfileReviewMode('generate');
+        await postMessage(t('chat.welcomeBackReview'));
+      }
+      return;
+    }
+
+    // The user had not picked an option yet; the welcome message is in the history
+    setMessages(restoredMessages);
+    setFlowStage('initial');
+  };
+
+  const getViewPath = (): string | null => {
+    switch (viewMode) {
+      case 'chat':
+        return currentSessionId ? routeToPath({ name: 'chat', sessionId: currentSessionId }) : null;
+      case 'dashboard':
+        return currentSessionId ? routeToPath({ name: 'chat', sessionId: currentSessionId, guides: true }) : null;
+      case 'document':
+        return selectedDocument ? routeToPath({ name: 'document', documentId: selectedDocument.id }) : null;
+      case 'history':
+        return routeToPath({ name: 'history' });
+      case 'mentors':
+        return routeToPath({ name: 'mentors' });
+      default:
+        return null;
+    }
+  };
+
+  const openRoute = async (target: Route) => {
+    pendingRoutesRef.current += 1;
+    try {
+      if (target.name === 'history') {
+        if (viewMode !== 'history') {
+          setViewMode('history');
+          await loadHistoryDocuments();
+        }
+      } else if (target.name === 'mentors') {
+        setViewMode('mentors');
+      } else if (target.name === 'document') {
+        if (selectedDocument?.id === target.documentId) {
+          setViewMode('document');
+        } else {
+          await openDocumentLink(target.documentId);
+        }
+      } else if (target.name === 'chat') {
+        if (target.sessionId && target.sessionId !== currentSessionId) {
+          await openSessionLink(target.sessionId);
+        }
+        setViewMode(target.guides ? 'dashboard' : 'chat');
+      }
+    } finally {
+      pendingRoutesRef.current -= 1;
+      setOpenedRouteCount(count => count + 1);
+    }
+  };
+
+  // Opens a session from a link; RLS only returns the user's own sessions
+  const openSessionLink = async (sessionId: string): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    const session = await getSession(sessionId);
+    if (!session) {
+      console.warn('Linked session not found:', sessionId);
+      navigate(routeToPath({ name: 'chat' }), { replace: true });
+      if (!currentSessionId) {
+        await startNewSession(currentUser.id);
+      }
+      return false;
+    }
+
+    setResumeOffer(null);
+    setActiveBusinessId(session.business_id || null);
+    await restoreSession(session.id, session.service_type);
+    return true;
+  };
+
+  // Opens a guide from a link, with the session it was generated in behind it
+  const openDocumentLink = async (documentId: string) => {
+    const doc = await getDocumentById(documentId);
+    if (!doc) {
+      console.warn('Linked document not found:', documentId);
+      navigate(routeToPath({ name: 'history' }), { replace: true });
+      return;
+    }
+
+    if (doc.session_id !== currentSessionId) {
+      await openSessionLink(doc.session_id);
+    }
+    handleViewHistoryDocument(doc);
+  };
+
+  // Opens the latest guides of a business from the switcher
+  const handleSelectBusiness = async (business: Business) => {
+    if (!currentUser) return;
+
+    setIsSwitchingBusiness(true);
+    const sessionId = await getLatestGuideSession(business.id);
+    if (sessionId) {
+      setResumeOffer(null);
+      setActiveBusinessId(business.id);
+      await restoreSession(sessionId, 'confirmed_idea_flow');
+      setViewMode('dashboard');
+    } else {
+      // Guides of the business are still being generated or were deleted; start new ones
+      await handleStartBusinessGuides(business);
+    }
+    setIsSwitchingBusiness(false);
+  };
+
+  /**
+   * Starts new guides for an existing business. Its latest answers are copied
+   * into a new session and shown in the review card, so nothing is asked again.
+   */
+  const handleStartBusinessGuides = async (business: Business) => {
+    if (!currentUser) return;
+
+    setIsSwitchingBusiness(true);
+    const started = await startBusinessSession(currentUser.id, business.id);
+    if (!started) {
+      setIsSwitchingBusiness(false);
+      const errorMessage: Message = {
+        id: Date.now().toString(),
+        type: 'ai',
+        content: t('chat.businessStartError', { business: business.name }),
+        timestamp: new Date()
+      };
+      setMessages(prev => [...prev, errorMessage]);
+      return;
+    }
+
+    resetSessionState();
+    setResumeOffer(null);
+    setActiveBusinessId(business.id);
+    setCurrentSessionId(started.sessionId);
+    setQuestionnaire(await loadQuestionnaire('confirmed_idea'));
+    setBusinessProfile(started.profile);
+    setFlowStage('reviewing');
+    setProfileReviewMode('generate');
+    setViewMode('chat');
+    setIsSwitchingBusiness(false);
+
+    const content = t('chat.businessNewGuides', { business: business.name });
+    setMessages([{ id: Date.now().toString(), type: 'ai', content, timestamp: new Date() }]);
+    await saveChatMessage(started.sessionId, currentUser.id, 'ai', content);
+  };
+
+  const handleNewBusiness = async () => {
+    if (!currentUser) return;
+
+    resetSessionState();
+    setResumeOffer(null);
+    setActiveBusinessId(null);
+    setBusinessProfile({});
+    setFlowStage('initial');
+    setViewMode('chat');
+    await startNewSession(currentUser.id);
+  };
+
+  // Files the session under the active business, or a new one named after the profile
+  const assignSessionBusiness = async (profile: any) => {
+    if (!currentUser || !currentSessionId) return;
+
+    let businessId = activeBusinessId;
+    if (!businessId) {
+      const business = await createBusiness(currentUser.id, profile.business_name || '');
+      if (!business) return;
+      businessId = business.id;
+      setActiveBusinessId(businessId);
+    }
+
+    await assignSessionToBusiness(currentSessionId, businessId);
+    setBusinesses(await getBusinesses(currentUser.id));
+  };
+
   const checkUserHasDocuments = async (userId: string) => {
     try {
       const { data, error } = await supabase
@@ -294,9 +795,9 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
     const { mentors: mentorProfiles, error } = await fetchActiveMentors();
     setMentors(mentorProfiles);
     if (error) {
-      setMentorsError('Unable to load mentors right now. Please try again.');
+      setMentorsError(t('mentors.loadError'));
     } else if (mentorProfiles.length === 0) {
-      setMentorsError('We will be onboarding mentors shortly. Please check back soon.');
+      setMentorsError(t('mentors.empty'));
     }
     setMentorsLoading(false);
   };
@@ -321,7 +822,10 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
         currentSessionId,
         currentUser.id,
         message.type,
-        message.content
+        message.content,
+        message.citations ? { citations: message.citations }
+          : message.ideaTuningReply ? { ideaTuningReply: true }
+          : undefined
       );
       if (!saved) {
         console.error('Failed to save message to database:', message.content.substring(0, 50));
@@ -336,7 +840,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
   };
 
   const handleSendMessage = async () => {
-    if (!inputText.trim()) return;
+    if (!inputText.trim() || isAnswering || resumeOffer) return;
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -352,10 +856,63 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
     // Handle different stages
     if (flowStage === 'initial') {
       await handleInitialChoice(userInput);
+    } else if (flowStage === 'idea_tuning') {
+      await handleIdeaTuningMessage(userInput);
     } else if (flowStage === 'questioning') {
       await handleQuestionResponse(userInput);
+    } else if (flowStage === 'reviewing') {
+      const reviewMessage: Message = {
+        id: Date.now().toString(),
+        type: 'ai',
+        content: t('chat.reviewHint'),
+        timestamp: new Date()
+      };
+      await addMessageAndSave(reviewMessage);
     } else if (flowStage === 'rating') {
       await handleRatingResponse(userInput);
+    } else if (flowStage === 'documents') {
+      await handleFollowUpQuestion(userInput);
+    }
+  };
+
+  const handleFollowUpQuestion = async (question: string) => {
+    if (!currentSessionId || !currentUser) return;
+
+    setIsAnswering(true);
+    const result = await askFollowUpQuestion(currentSessionId, question, followUpHistory);
+    setIsAnswering(false);
+
+    if (!result.success || !result.answer) {
+      const errorMessage: Message = {
+        id: Date.now().toString(),
+        type: 'ai',
+        content: result.error || t('chat.followUpError'),
+        timestamp: new Date()
+      };
+      await addMessageAndSave(errorMessage);
+      return;
+    }
+
+    setFollowUpHistory(prev => [
+      ...prev,
+      { role: 'user' as const, content: question },
+      { role: 'assistant' as const, content: result.answer! }
+    ].slice(-6));
+
+    const answerMessage: Message = {
+      id: Date.now().toString(),
+      type: 'ai',
+      content: result.answer,
+      timestamp: new Date(),
+      citations: result.citations
+    };
+    await addMessageAndSave(answerMessage);
+  };
+
+  const handleViewCitation = (citation: AnswerCitation) => {
+    const doc = documents.find(d => d.id === citation.documentId || (d.type === citation.documentType && d.status === 'completed'));
+    if (doc) {
+      handleViewDocument(doc);
     }
   };
 
@@ -363,76 +920,243 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
     const choice = userInput.trim();
 
     if (choice === '1') {
-      // Idea Tuning - placeholder
+      await startIdeaTuning();
+    } else if (choice === '2') {
+      await startConfirmedIdeaFlow();
+    } else {
       const aiMessage: Message = {
         id: Date.now().toString(),
         type: 'ai',
-        content: 'Idea Tuning service will be available soon! This feature will help you refine and validate your business concept.\n\nFor now, if you have a confirmed idea, please type "2" to proceed with document generation.',
+        content: t('chat.choosePrompt'),
         timestamp: new Date()
       };
       await addMessageAndSave(aiMessage);
-    } else if (choice === '2') {
-      // Confirmed Idea - start questioning flow
-      if (currentSessionId) {
-        console.log('Updating session to confirmed_idea_flow:', currentSessionId);
-        const { error } = await supabase
-          .from('user_sessions')
-          .update({
-            service_type: 'confirmed_idea_flow',
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', currentSessionId);
-
-        if (error) {
-          console.error('Failed to update session type:', error);
-          console.error('Error details:', {
-            message: error.message,
-            details: error.details,
-            hint: error.hint
-          });
-        }
-      }
+    }
+  };
 
-      // Reset business profile state for new flow
-      setBusinessProfile({});
-      setCurrentQuestionIndex(0);
+  const updateSessionServiceType = async (serviceType: 'idea_tuning' | 'confirmed_idea_flow') => {
+    if (!currentSessionId) return;
 
-      setFlowStage('questioning');
-      const aiMessage: Message = {
+    console.log(`Updating session to ${serviceType}:`, currentSessionId);
+    const { error } = await supabase
+      .from('user_sessions')
+      .update({
+        service_type: serviceType,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', currentSessionId);
+
+    if (error) {
+      console.error('Failed to update session type:', error);
+      console.error('Error details:', {
+        message: error.message,
+        details: error.details,
+        hint: error.hint
+      });
+    }
+  };
+
+  const startIdeaTuning = async () => {
+    if (!currentSessionId || !currentUser) return;
+
+    await updateSessionServiceType('idea_tuning');
+    setIdeaTuningTurns([]);
+    setIdeaPrefill(null);
+    setFlowStage('idea_tuning');
+
+    setIsAnswering(true);
+    const result = await sendIdeaTuningMessage(currentSessionId, []);
+    setIsAnswering(false);
+
+    const aiMessage: Message = {
+      id: Date.now().toString(),
+      type: 'ai',
+      content: result.response?.reply || result.error || t('ideaTuning.error'),
+      timestamp: new Date()
+    };
+    await addMessageAndSave(aiMessage);
+  };
+
+  const handleIdeaTuningMessage = async (userInput: string) => {
+    if (!currentSessionId || !currentUser) return;
+
+    const input = userInput.trim();
+    if (ideaPrefill && CONTINUE_TO_QUESTIONNAIRE.test(input.normalize('NFC'))) {
+      await startConfirmedIdeaFlow(ideaPrefill);
+      return;
+    }
+
+    // "done" wraps up with the topics covered so far; anything else continues the conversation
+    const finish = FINISH_IDEA_TUNING.test(input.normalize('NFC'));
+    const turns: IdeaTuningTurn[] = finish ? ideaTuningTurns : [...ideaTuningTurns, { role: 'user', content: input }];
+
+    setIsAnswering(true);
+    const result = await sendIdeaTuningMessage(currentSessionId, turns, finish);
+    setIsAnswering(false);
+
+    if (!result.success || !result.response) {
+      const errorMessage: Message = {
         id: Date.now().toString(),
         type: 'ai',
-        content: `Great! I'll ask you 6 quick questions to gather the information we need.\n\nQuestion 1 of 6:\n${QUESTIONS[0].prompt}`,
+        content: result.error || t('ideaTuning.error'),
         timestamp: new Date()
       };
-      await addMessageAndSave(aiMessage);
-    } else {
+      await addMessageAndSave(errorMessage);
+      return;
+    }
+
+    const { reply, complete, summary, prefill } = result.response;
+
+    if (!complete || !summary || !prefill) {
+      setIdeaPrefill(null);
+      setIdeaTuningTurns([...turns, { role: 'assistant', content: reply || '' }]);
       const aiMessage: Message = {
         id: Date.now().toString(),
         type: 'ai',
-        content: 'Please type 1 for Idea Tuning or 2 for Confirmed Idea to proceed.',
-        timestamp: new Date()
+        content: reply || '',
+        timestamp: new Date(),
+        ideaTuningReply: true
       };
       await addMessageAndSave(aiMessage);
+      return;
+    }
+
+    setIdeaTuningTurns(turns);
+    setIdeaPrefill(prefill);
+
+    const filledIn = PREFILL_FIELDS
+      .filter(field => prefill[field])
+      .map(field => t(`ideaTuning.field.${field}`));
+
+    const summaryMessage: Message = {
+      id: Date.now().toString(),
+      type: 'ai',
+      content: t('ideaTuning.summary', {
+        summary: summary.replace(/^#+\s+/gm, ''),
+        filledIn: filledIn.length > 0 ? t('ideaTuning.filledIn', { fields: filledIn.join(', ') }) : ''
+      }),
+      timestamp: new Date()
+    };
+    await addMessageAndSave(summaryMessage);
+  };
+
+  /**
+   * Starts the Confirmed Idea questionnaire. Fields prefilled by idea tuning
+   * are already saved on the profile, so their questions are skipped.
+   */
+  const startConfirmedIdeaFlow = async (prefill?: IdeaPrefill) => {
+    await updateSessionServiceType('confirmed_idea_flow');
+
+    const initialProfile: any = {};
+    if (prefill) {
+      PREFILL_FIELDS.forEach(field => {
+        const value = prefill[field];
+        if (value) initialProfile[field] = value;
+      });
     }
+
+    // Reset business profile state for new flow
+    setBusinessProfile(initialProfile);
+    const definition = await loadQuestionnaire('confirmed_idea');
+    setQuestionnaire(definition);
+    console.log(`Using questionnaire ${definition.slug} v${definition.version}`);
+
+    const firstQuestion = getNextQuestion(definition, initialProfile);
+    if (!firstQuestion) {
+      await finishQuestionnaire(initialProfile);
+      return;
+    }
+    setCurrentQuestion(firstQuestion);
+
+    setFlowStage('questioning');
+    const intro = prefill ? t('questionnaire.introPrefilled') : t('questionnaire.intro');
+    const aiMessage: Message = {
+      id: Date.now().toString(),
+      type: 'ai',
+      content: `${intro}\n\n${formatQuestion(definition, firstQuestion, initialProfile, getLanguage())}`,
+      timestamp: new Date()
+    };
+    await addMessageAndSave(aiMessage);
   };
 
   const handleQuestionResponse = async (userInput: string) => {
-    const currentQuestion = QUESTIONS[currentQuestionIndex];
+    if (!currentQuestion) return;
+    const questionText = getQuestionText(currentQuestion, getLanguage());
+
+    if (pendingAnswer) {
+      const confirmed = parseYesNo(userInput);
+      setPendingAnswer(null);
+      if (confirmed) {
+        await saveAnswerAndContinue({ ...businessProfile, ...pendingAnswer.fields });
+        return;
+      }
+      if (confirmed === false) {
+        const retryMessage: Message = {
+          id: Date.now().toString(),
+          type: 'ai',
+          content: `${t('questionnaire.retry')}\n\n${questionText.prompt}`,
+          timestamp: new Date()
+        };
+        await addMessageAndSave(retryMessage);
+        return;
+      }
+      // Anything else is a corrected answer to the same question
+    }
 
-    // Store answer in business profile
-    const updatedProfile = { ...businessProfile };
+    if (isHelpRequest(userInput)) {
+      const helpMessage: Message = {
+        id: Date.now().toString(),
+        type: 'ai',
+        content: `${questionText.helpText || t('questionnaire.defaultHelp')}\n\n${questionText.prompt}`,
+        timestamp: new Date()
+      };
+      await addMessageAndSave(helpMessage);
+      return;
+    }
 
-    if (currentQuestion.field === 'partners_info') {
-      // Parse partners information
-      updatedProfile[currentQuestion.field] = [{ info: userInput }];
-    } else {
-      updatedProfile[currentQuestion.field] = userInput;
+    const parsed = parseAnswer(currentQuestion, userInput, getLanguage());
+    if (parsed.error !== undefined) {
+      const retryMessage: Message = {
+        id: Date.now().toString(),
+        type: 'ai',
+        content: `${parsed.error}\n\n${questionText.prompt}`,
+        timestamp: new Date()
+      };
+      await addMessageAndSave(retryMessage);
+      return;
     }
 
+    if (needsNormalization(currentQuestion, parsed.value) && currentUser && currentSessionId) {
+      setIsAnswering(true);
+      const result = await normalizeAnswer(currentSessionId, currentQuestion.normalize!, userInput.trim());
+      setIsAnswering(false);
+
+      if (result.success && result.normalized) {
+        setPendingAnswer(result.normalized);
+        const confirmMessage: Message = {
+          id: Date.now().toString(),
+          type: 'ai',
+          content: t('questionnaire.confirmNormalized', { summary: result.normalized.summary }),
+          timestamp: new Date()
+        };
+        await addMessageAndSave(confirmMessage);
+        return;
+      }
+      // Keep the questionnaire moving with the answer as typed
+      console.warn('Could not normalize answer, saving it as typed:', result.error);
+    }
+
+    await saveAnswerAndContinue(applyAnswer(businessProfile, currentQuestion, parsed.value));
+  };
+
+  const saveAnswerAndContinue = async (updatedProfile: any) => {
+    if (!currentQuestion) return;
+
+    // Store answer in business profile
     setBusinessProfile(updatedProfile);
 
     // Save to database
-    console.log(`Saving answer for question ${currentQuestionIndex + 1}:`, currentQuestion.field);
+    console.log('Saving answer for question:', currentQuestion.id);
     const saved = await updateBusinessProfile(updatedProfile);
 
     if (!saved) {
@@ -440,33 +1164,79 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
       const errorMessage: Message = {
         id: Date.now().toString(),
         type: 'ai',
-        content: 'Sorry, there was an error saving your response. Please try again or refresh the page.',
+        content: t('questionnaire.saveError'),
         timestamp: new Date()
       };
       await addMessageAndSave(errorMessage);
       return;
     }
 
-    // Show confirmation and next question
-    if (currentQuestionIndex < QUESTIONS.length - 1) {
-      const nextIndex = currentQuestionIndex + 1;
-      setCurrentQuestionIndex(nextIndex);
+    // Show confirmation and next question, skipping answered and conditional questions
+    const nextQuestion = getNextQuestion(questionnaire, updatedProfile, currentQuestion.id);
+    if (nextQuestion) {
+      setCurrentQuestion(nextQuestion);
 
       const aiMessage: Message = {
         id: Date.now().toString(),
         type: 'ai',
-        content: `Got it!\n\nQuestion ${nextIndex + 1} of 6:\n${QUESTIONS[nextIndex].prompt}`,
+        content: `${t('questionnaire.gotIt')}\n\n${formatQuestion(questionnaire, nextQuestion, updatedProfile, getLanguage())}`,
         timestamp: new Date()
       };
       await addMessageAndSave(aiMessage);
     } else {
-      // All questions answered - start generation
-      console.log('All questions answered. Final profile:', updatedProfile);
+      await finishQuestionnaire(updatedProfile);
+    }
+  };
+
+  const finishQuestionnaire = async (profile: any) => {
+    // All questions answered - review the profile before generation
+    console.log('All questions answered. Final profile:', profile);
+    setCurrentQuestion(null);
+    setFlowStage('reviewing');
+    setProfileReviewMode('generate');
+    const aiMessage: Message = {
+      id: Date.now().toString(),
+      type: 'ai',
+      content: t('questionnaire.complete'),
+      timestamp: new Date()
+    };
+    await addMessageAndSave(aiMessage);
+  };
+
+  /**
+   * Saves an answer edited in the profile review card. It goes through the
+   * same validation and normalization as the chat, without the confirmation
+   * step: the card shows the saved result.
+   */
+  const handleSaveReviewedAnswer = async (question: QuestionDefinition, input: string): Promise<string | null> => {
+    const parsed = parseAnswer(question, input, getLanguage());
+    if (parsed.error !== undefined) return parsed.error;
+
+    let updatedProfile = applyAnswer(businessProfile, question, parsed.value);
+    if (needsNormalization(question, parsed.value) && currentUser && currentSessionId) {
+      const result = await normalizeAnswer(currentSessionId, question.normalize!, input.trim());
+      if (result.success && result.normalized) {
+        updatedProfile = { ...businessProfile, ...result.normalized.fields };
+      } else {
+        console.warn('Could not normalize answer, saving it as typed:', result.error);
+      }
+    }
+
+    const saved = await updateBusinessProfile(updatedProfile);
+    if (!saved) return t('review.saveError');
+
+    setBusinessProfile(updatedProfile);
+    return null;
+  };
+
+  const handleConfirmProfileReview = async (editedQuestions: QuestionDefinition[]) => {
+    if (profileReviewMode === 'generate') {
+      setIsConfirmingReview(true);
       setFlowStage('generating');
       const aiMessage: Message = {
         id: Date.now().toString(),
         type: 'ai',
-        content: 'Perfect! I have all the information I need.\n\nProcessing your information and generating your business documents...\n\nThis may take a few moments. Please wait.',
+        content: `${t('generation.started')}\n\n${t('generation.wait')}`,
         timestamp: new Date()
       };
       await addMessageAndSave(aiMessage);
@@ -474,9 +1244,63 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
       // Small delay to ensure database is updated
       await new Promise(resolve => setTimeout(resolve, 500));
 
+      setProfileReviewMode(null);
+      setIsConfirmingReview(false);
       // Trigger document generation
       await generateAllDocuments();
+      return;
     }
+
+    setProfileReviewMode(null);
+    const affectedGuides = getGuidesAffectedBy(editedQuestions);
+    if (affectedGuides.length === 0) return;
+
+    const aiMessage: Message = {
+      id: Date.now().toString(),
+      type: 'ai',
+      content: t('generation.regenerating', { guides: affectedGuides.map(type => t(`guide.${type}`)).join(', ') }),
+      timestamp: new Date()
+    };
+    await addMessageAndSave(aiMessage);
+    await regenerateGuides(affectedGuides);
+  };
+
+  // Queues new versions of some guides and shows their progress on the dashboard
+  const regenerateGuides = async (documentTypes: GuideType[]) => {
+    if (!currentSessionId || !currentUser) return;
+
+    setDocuments(prev => prev.map(doc =>
+      documentTypes.includes(doc.type) ? { ...doc, status: 'pending' as const, fullContent: '' } : doc
+    ));
+    setViewMode('dashboard');
+
+    const jobs = await enqueueGenerationJobs(currentUser.id, currentSessionId, documentTypes);
+    if (jobs.length === 0) {
+      setDocuments(prev => prev.map(doc =>
+        documentTypes.includes(doc.type) ? { ...doc, status: 'failed' as const } : doc
+      ));
+    }
+  };
+
+  // Reopens the review card from the dashboard with the saved profile
+  const handleEditProfile = async () => {
+    if (!currentSessionId) return;
+
+    const { data: dbProfile, error } = await supabase
+      .from('business_profiles')
+      .select('*')
+      .eq('session_id', currentSessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading business profile for review:', error);
+      return;
+    }
+
+    setQuestionnaire(await loadQuestionnaire('confirmed_idea'));
+    setBusinessProfile(dbProfile || {});
+    setProfileReviewMode('update');
+    setViewMode('chat');
   };
 
   const updateBusinessProfile = async (profile: any): Promise<boolean> => {
@@ -576,15 +1400,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
       const dbDocuments = await getDocumentsBySession(currentSessionId);
       console.log('Loaded documents from database:', dbDocuments);
 
-      const formattedDocs: Document[] = dbDocuments.map(doc => ({
-        id: doc.id,
-        type: doc.document_type,
-        title: doc.document_title,
-        keyPoints: Array.isArray(doc.key_points) ? doc.key_points : [],
-        fullContent: doc.full_content || '',
-        pdfUrl: doc.pdf_url || undefined,
-        status: doc.generation_status
-      }));
+      const formattedDocs: Document[] = dbDocuments.map(toDocument);
 
       setDocuments(formattedDocs);
       if (formattedDocs.length > 0) {
@@ -607,7 +1423,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
       const errorMessage: Message = {
         id: Date.now().toString(),
         type: 'ai',
-        content: 'Sorry, there was an error. Please refresh the page and try again.',
+        content: t('generation.error'),
         timestamp: new Date()
       };
       await addMessageAndSave(errorMessage);
@@ -628,7 +1444,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
       const errorMessage: Message = {
         id: Date.now().toString(),
         type: 'ai',
-        content: 'Sorry, we encountered an error retrieving your business information. Please try again.',
+        content: t('generation.profileError'),
         timestamp: new Date()
       };
       await addMessageAndSave(errorMessage);
@@ -640,33 +1456,44 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
       const errorMessage: Message = {
         id: Date.now().toString(),
         type: 'ai',
-        content: 'Sorry, we could not find your business information. Please start over.',
+        content: t('generation.profileMissing'),
         timestamp: new Date()
       };
       await addMessageAndSave(errorMessage);
       return;
     }
 
-    // Validate that all required fields are present
-    const requiredFields = ['business_name', 'company_description', 'location', 'partners_info', 'color_preference', 'style_preference'];
-    const missingFields = requiredFields.filter(field => !dbProfile[field]);
-
-    if (missingFields.length > 0) {
-      console.warn('Business profile missing fields:', missingFields);
-      console.log('Current profile data:', dbProfile);
+    // The review card blocks generation while required answers are missing;
+    // this catches a profile changed elsewhere since the card was confirmed
+    const missingQuestions = getMissingQuestions(questionnaire, dbProfile);
+    if (missingQuestions.length > 0) {
+      console.warn('Business profile missing answers:', missingQuestions.map(question => question.id));
+      setBusinessProfile(dbProfile);
+      setFlowStage('reviewing');
+      setProfileReviewMode('generate');
+      const reviewMessage: Message = {
+        id: Date.now().toString(),
+        type: 'ai',
+        content: t('generation.missingAnswers', {
+          questions: missingQuestions.map(question => getQuestionText(question, getLanguage()).prompt).join(' / ')
+        }),
+        timestamp: new Date()
+      };
+      await addMessageAndSave(reviewMessage);
+      return;
     }
 
     console.log('Validation passed. Starting document generation with profile:', dbProfile);
+    await assignSessionBusiness(dbProfile);
 
-    const documentTypes = ['registration', 'branding', 'compliance', 'hr'];
+    const documentTypes = ['registration', 'branding', 'compliance', 'hr', 'financial_planning'];
     const initialDocs: Document[] = documentTypes.map(type => ({
       id: `${type}-${Date.now()}`,
       type: type as any,
-      title: `${type.charAt(0).toUpperCase() + type.slice(1)} Guide`,
+      title: DOCUMENT_TITLES[type as Document['type']],
       keyPoints: [],
       fullContent: '',
-      status: 'generating' as const,
-      progressStage: 'content' as const
+      status: 'pending' as const
     }));
 
     // Initialize documents and set flow stage, but KEEP user on chat interface
@@ -675,175 +1502,69 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
     // Keep viewMode as 'chat' - don't navigate to dashboard yet
     // User will see the progress message in chat interface
 
-    // Call edge functions for each document type (these run in parallel)
-    console.log('Starting document generation for all types...');
-    const promises = documentTypes.map(type => generateDocument(type));
-    await Promise.allSettled(promises);
-
-    console.log('All document generation promises settled. Checking completion status...');
-
-    // Poll the database to check if all documents are completed
-    // This ensures we wait for documents to be fully saved to the database
-    let allCompleted = false;
-    let attempts = 0;
-    const maxAttempts = 60; // Maximum 60 seconds wait time (1 minute)
-    const pollInterval = 2000; // Check every 2 seconds
-
-    while (!allCompleted && attempts < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
-      
-      try {
-        // Check database directly to see if all documents are completed
-        const { data: dbDocuments, error } = await supabase
-          .from('generated_documents')
-          .select('document_type, generation_status')
-          .eq('session_id', currentSessionId)
-          .eq('user_id', currentUser.id);
-
-        if (error) {
-          console.error('Error checking document status:', error);
-          attempts++;
-          continue;
-        }
-
-        if (dbDocuments && dbDocuments.length >= documentTypes.length) {
-          // Check if all documents are completed (not generating)
-          const allDone = dbDocuments.every(doc => 
-            doc.generation_status === 'completed' || doc.generation_status === 'failed'
-          );
-          
-          if (allDone) {
-            console.log('All documents completed! Loading final documents...');
-            allCompleted = true;
-            
-            // Load the final documents from database
-            await loadDocumentsFromDatabase();
-            
-            // Wait a moment for state to update
-            await new Promise(resolve => setTimeout(resolve, 500));
-            
-            break;
-          } else {
-            // Some documents still generating, update UI with current status
-            await loadDocumentsFromDatabase();
-          }
-        } else {
-          // Not all documents created yet, continue waiting
-          console.log(`Waiting for documents... (${dbDocuments?.length || 0}/${documentTypes.length} created)`);
-        }
-      } catch (error) {
-        console.error('Error polling document status:', error);
-      }
-
-      attempts++;
-    }
-
-    if (!allCompleted) {
-      console.warn('Document generation timeout - navigating to dashboard anyway');
-      // Load whatever documents we have
-      await loadDocumentsFromDatabase();
+    // Queue one background job per guide; the worker keeps generating even if
+    // this tab is closed. Status changes arrive through the generated_documents
+    // subscription, and the effect above opens the dashboard once all are done.
+    console.log('Queueing document generation for all types...');
+    setAwaitingDocumentTypes(documentTypes);
+    const jobs = await enqueueGenerationJobs(currentUser.id, currentSessionId, documentTypes);
+
+    if (jobs.length === 0) {
+      console.error('Failed to queue document generation');
+      setAwaitingDocumentTypes([]);
+      setDocuments(prev => prev.map(doc => ({ ...doc, status: 'failed' as const })));
+      const errorMessage: Message = {
+        id: Date.now().toString(),
+        type: 'ai',
+        content: t('generation.queueError'),
+        timestamp: new Date()
+      };
+      await addMessageAndSave(errorMessage);
     }
-
-    // All documents are generated (or timeout reached) - now navigate to dashboard
-    console.log('Navigating to document dashboard...');
-    setFlowStage('rating'); // Set to 'rating' stage so we can prompt for feedback when user returns to chat
-    setViewMode('dashboard');
-    setHasGeneratedDocuments(true);
   };
 
-  const generateDocument = async (type: string) => {
-    try {
-      console.log('Generating document:', type);
-      let functionName = '';
-      if (type === 'registration') functionName = 'registration-guide-guru';
-      else if (type === 'branding') functionName = 'branding-guide-guru';
-      else if (type === 'compliance') functionName = 'compliance-guide-guru';
-      else if (type === 'hr') functionName = 'hr-guide-guru';
-
-      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${functionName}`;
-
-      // Get the user's session token for authentication
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        console.error('No active session found');
-        return null;
-      }
+  // Merges a realtime row change into the documents shown in the loader and dashboard
+  const applyDocumentChange = (changedDoc: GeneratedDocument) => {
+    const changed = toDocument(changedDoc);
 
-      const headers = {
-        'Authorization': `Bearer ${session.access_token}`,
-        'Content-Type': 'application/json',
-      };
+    setDocuments(prev => {
+      const existing = prev.find(doc => doc.type === changed.type);
+      if (!existing) return [...prev, changed];
 
-      console.log('Fetching latest profile for session:', currentSessionId);
-      const { data: latestProfile } = await supabase
-        .from('business_profiles')
-        .select('*')
-        .eq('session_id', currentSessionId)
-        .maybeSingle();
-
-      console.log('Business profile for generation:', latestProfile);
-
-      console.log('Calling edge function:', apiUrl);
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          message: 'generate_document',
-          sessionId: currentSessionId,
-          userId: currentUser.id,
-          businessProfile: latestProfile || businessProfile
-        })
+      return prev.map(doc => {
+        if (doc.type !== changed.type) return doc;
+        // Keep the streamed text while the guide is being written; the row only
+        // holds the previous version's content until the worker saves the new one
+        if (changed.status === 'generating') {
+          return { ...changed, fullContent: doc.status === 'generating' ? doc.fullContent : '' };
+        }
+        return changed;
       });
+    });
 
-      if (response.ok) {
-        const result = await response.json();
+    if (changed.status === 'completed') {
+      setHasGeneratedDocuments(true);
+    }
+  };
 
-        // Check if the response contains an error
-        if (result.error || result.userMessage) {
-          console.error(`Error from edge function for ${type}:`, result);
-          setDocuments(prev => prev.map(doc =>
-            doc.type === type ? { ...doc, status: 'failed' as const } : doc
-          ));
-          return;
-        }
+  // Live text broadcast by the worker for a guide that is still being written
+  const updateLiveContent = (documentType: string, content: string) => {
+    setDocuments(prev => prev.map(doc =>
+      doc.type === documentType && doc.status === 'generating' ? { ...doc, fullContent: content } : doc
+    ));
+  };
 
-        // Validate that we have actual content
-        const fullContent = result.fullContent || result.response || '';
-        if (!fullContent || fullContent.length < 100) {
-          console.error(`Invalid or empty content received for ${type} document`);
-          setDocuments(prev => prev.map(doc =>
-            doc.type === type ? { ...doc, status: 'failed' as const } : doc
-          ));
-          return;
-        }
+  const handleRetryDocument = async (document: Document) => {
+    if (!currentSessionId || !currentUser) return;
 
-        // Log warning if PDF generation failed but document succeeded
-        if (result.warning) {
-          console.warn(`${type} document:`, result.warning);
-        }
+    setDocuments(prev => prev.map(doc =>
+      doc.type === document.type ? { ...doc, status: 'pending' as const, fullContent: '' } : doc
+    ));
 
-        // Update document status with valid content
-        setDocuments(prev => prev.map(doc =>
-          doc.type === type ? {
-            ...doc,
-            status: 'completed' as const,
-            keyPoints: result.keyPoints || [],
-            fullContent: fullContent,
-            pdfUrl: result.pdfUrl
-          } : doc
-        ));
-      } else {
-        // Mark as failed for non-200 responses
-        const errorData = await response.json().catch(() => ({}));
-        console.error(`Failed to generate ${type} document:`, errorData);
-        setDocuments(prev => prev.map(doc =>
-          doc.type === type ? { ...doc, status: 'failed' as const } : doc
-        ));
-      }
-    } catch (error) {
-      console.error(`Error generating ${type} document:`, error);
+    const jobs = await enqueueGenerationJobs(currentUser.id, currentSessionId, [document.type]);
+    if (jobs.length === 0) {
       setDocuments(prev => prev.map(doc =>
-        doc.type === type ? { ...doc, status: 'failed' as const } : doc
+        doc.type === document.type ? { ...doc, status: 'failed' as const } : doc
       ));
     }
   };
@@ -865,7 +1586,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
       const thankYouMessage: Message = {
         id: Date.now().toString(),
         type: 'ai',
-        content: `Thank you for your ${rating}-star rating! ${rating >= 4 ? '🎉 We\'re glad you had a great experience!' : ''}`,
+        content: `${t('rating.thanks', { rating })} ${rating >= 4 ? t('rating.glad') : ''}`,
         timestamp: new Date()
       };
       await addMessageAndSave(thankYouMessage);
@@ -875,7 +1596,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
           const feedbackMessage: Message = {
             id: (Date.now() + 1).toString(),
             type: 'ai',
-            content: 'We\'re sorry to hear that. Could you briefly tell us what went wrong or what we could improve? Your feedback helps us serve you better.',
+            content: t('rating.sorry'),
             timestamp: new Date()
           };
           await addMessageAndSave(feedbackMessage);
@@ -886,7 +1607,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
           const finalMessage: Message = {
             id: (Date.now() + 1).toString(),
             type: 'ai',
-            content: 'All your documents are available in the dashboard. You can view or download them anytime. Thank you for using StartUP Companion!',
+            content: t('rating.final'),
             timestamp: new Date()
           };
           await addMessageAndSave(finalMessage);
@@ -905,13 +1626,13 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
       const feedbackThankYou: Message = {
         id: Date.now().toString(),
         type: 'ai',
-        content: 'Thank you for your feedback. Let us connect you with our expert mentors who can provide personalized guidance for each area of your business.',
+        content: t('rating.feedbackThanks'),
         timestamp: new Date()
       };
       await addMessageAndSave(feedbackThankYou);
 
       // Get mentors for each service type
-      const serviceTypes = ['registration', 'branding', 'compliance', 'hr'];
+      const serviceTypes = ['registration', 'branding', 'compliance', 'hr', 'financial_planning'];
       const mentorPromises = serviceTypes.map(type => getMentorForService(type));
       const mentors = await Promise.all(mentorPromises);
 
@@ -922,7 +1643,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
           email: mentor!.email,
           phone: mentor!.phone || '',
           expertise: mentor!.specialization.join(', '),
-          service: serviceTypes[index].charAt(0).toUpperCase() + serviceTypes[index].slice(1)
+          service: getServiceName(serviceTypes[index])
         }));
 
       if (mentorCards.length > 0) {
@@ -930,7 +1651,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
           const mentorMessage: Message = {
             id: (Date.now() + 1).toString(),
             type: 'ai',
-            content: '📞 Your Recommended Mentors',
+            content: t('rating.mentorsTitle'),
             timestamp: new Date(),
             mentorCards: mentorCards
           };
@@ -946,11 +1667,14 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
         // No mentors found, still update flow stage
         setFlowStage('documents');
       }
+    } else if (!/^\s*-?\d+(\.\d+)?\s*$/.test(userInput)) {
+      // Anything that is not a number is a question about the guides rather than a rating
+      await handleFollowUpQuestion(userInput);
     } else {
       const errorMessage: Message = {
         id: Date.now().toString(),
         type: 'ai',
-        content: 'Please provide a valid rating between 1 and 5.',
+        content: t('rating.invalid'),
         timestamp: new Date()
       };
       await addMessageAndSave(errorMessage);
@@ -962,12 +1686,36 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
     setViewMode('document');
   };
 
-  const handleDownloadPdf = (doc: Document) => {
-    if (doc.pdfUrl) {
-      window.open(doc.pdfUrl, '_blank');
+  const handleRegenerateSection = async (doc: Document, section: GuideSectionHeading, instruction: string) => {
+    if (!currentUser) return t('section.signIn');
+
+    const result = await regenerateGuideSection(doc.id, section, instruction);
+    if (!result.success || !result.guide) {
+      return result.error || t('section.error');
+    }
+
+    const { fullContent, keyPoints, structuredData, hasPdf } = result.guide;
+    const applyUpdate = (current: Document): Document =>
+      current.id === doc.id ? { ...current, fullContent, keyPoints, structuredData, hasPdf } : current;
+
+    setSelectedDocument(prev => (prev ? applyUpdate(prev) : prev));
+    setDocuments(prev => prev.map(applyUpdate));
+    return null;
+  };
+
+  // Signed URLs come with an attachment header, so the page stays where it is
+  const startDownload = (result: { success: boolean; url?: string }) => {
+    if (result.success && result.url) {
+      window.location.assign(result.url);
     }
   };
 
+  const downloadPdf = async (documentId: string) => startDownload(await getDocumentDownloadUrl(documentId));
+
+  const handleDownloadPdf = (doc: Document) => downloadPdf(doc.id);
+
+  const handleDownloadKit = async (documentIds: string[]) => startDownload(await getStartupKitUrl(documentIds));
+
   const handleBackToDashboard = () => {
     setSelectedDocument(null);
     setViewMode('dashboard');
@@ -1000,14 +1748,14 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
       if (!ratingSubmitted) {
         // Check if rating message already exists in messages
         const hasRatingMessage = messages.some(msg => 
-          msg.type === 'ai' && msg.content.includes('How would you rate your experience?')
+          msg.type === 'ai' && isRatingPromptMessage(msg.content)
         );
         
         if (!hasRatingMessage) {
           const ratingMessage: Message = {
             id: Date.now().toString(),
             type: 'ai',
-            content: '🎉 All your business documents have been generated!\n\nYou can view them in the document dashboard.\n\nHow would you rate your experience?\n\nPlease type a number from 1-5:\n\n1 ⭐ - Poor\n2 ⭐⭐ - Fair\n3 ⭐⭐⭐ - Good\n4 ⭐⭐⭐⭐ - Very Good\n5 ⭐⭐⭐⭐⭐ - Excellent',
+            content: t('rating.prompt', { question: t('rating.question') }),
             timestamp: new Date()
           };
           await addMessageAndSave(ratingMessage);
@@ -1053,97 +1801,15 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
       title: doc.document_title,
       keyPoints: Array.isArray(doc.key_points) ? doc.key_points : typeof doc.key_points === 'string' ? JSON.parse(doc.key_points) : [],
       fullContent: doc.full_content,
-      pdfUrl: doc.pdf_url || undefined,
+      structuredData: doc.structured_data || null,
+      hasPdf: !!doc.pdf_file_name,
       status: doc.generation_status === 'completed' ? 'completed' : doc.generation_status === 'failed' ? 'failed' : 'generating'
     };
     setSelectedDocument(viewDoc);
     setViewMode('document');
   };
 
-  const handleDownloadHistoryDocument = async (doc: GeneratedDocument) => {
-    // If we have pdf_file_name but no pdf_url, download directly from storage
-    if (doc.pdf_file_name && !doc.pdf_url) {
-      try {
-        const { data, error } = await supabase.storage
-          .from('business-documents')
-          .download(doc.pdf_file_name);
-        
-        if (error) {
-          console.error('Error downloading from Supabase storage:', error);
-          return;
-        }
-        
-        const blob = data;
-        const url = window.URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        
-        const fileName = doc.pdf_file_name.split('/').pop() || `${doc.document_title.replace(/\s+/g, '_')}.pdf`;
-        link.download = fileName;
-        
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        window.URL.revokeObjectURL(url);
-        return;
-      } catch (error) {
-        console.error('Error downloading PDF:', error);
-        return;
-      }
-    }
-    
-    // If we have pdf_url, use the existing logic
-    if (!doc.pdf_url) return;
-    
-    try {
-      let blob: Blob;
-      
-      // Check if it's a Supabase storage URL
-      if (doc.pdf_url.includes('supabase') && doc.pdf_file_name) {
-        // Use Supabase client to download (handles authentication)
-        const { data, error } = await supabase.storage
-          .from('business-documents')
-          .download(doc.pdf_file_name);
-        
-        if (error) {
-          console.error('Error downloading from Supabase storage:', error);
-          throw error;
-        }
-        
-        blob = data;
-      } else {
-        // Regular HTTP fetch for public URLs
-        const response = await fetch(doc.pdf_url);
-        if (!response.ok) throw new Error('Failed to fetch PDF');
-        blob = await response.blob();
-      }
-      
-      // Create a download link
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      
-      // Use pdf_file_name if available, otherwise generate a name
-      const fileName = doc.pdf_file_name 
-        ? doc.pdf_file_name.split('/').pop() || `${doc.document_title.replace(/\s+/g, '_')}.pdf`
-        : `${doc.document_title.replace(/\s+/g, '_')}.pdf`;
-      link.download = fileName;
-      
-      // Trigger download
-      document.body.appendChild(link);
-      link.click();
-      
-      // Cleanup
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-    } catch (error) {
-      console.error('Error downloading PDF:', error);
-      // Fallback: open in new tab if download fails
-      if (doc.pdf_url) {
-        window.open(doc.pdf_url, '_blank');
-      }
-    }
-  };
+  const handleDownloadHistoryDocument = (doc: GeneratedDocument) => downloadPdf(doc.id);
 
 
   const handleOpenDashboard = async () => {
@@ -1165,6 +1831,13 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
     }
   };
 
+  const activeBusiness = businesses.find(business => business.id === activeBusinessId);
+
+  const getServiceName = (serviceType: string) => {
+    const key = `service.${serviceType}`;
+    return hasMessage(key) ? t(key) : getServiceDisplayName(serviceType);
+  };
+
   const renderMainContent = () => {
     if (viewMode === 'dashboard') {
       return (
@@ -1172,7 +1845,12 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
           documents={documents}
           onViewDocument={handleViewDocument}
           onDownloadPdf={handleDownloadPdf}
+          onRetryDocument={handleRetryDocument}
           onBackToChat={handleBackToChat}
+          onEditProfile={handleEditProfile}
+          onDownloadAll={() => handleDownloadKit(documents.map(doc => doc.id))}
+          onShareAll={activeBusiness ? () => setShareDialog({ target: { businessId: activeBusiness.id }, title: t('chat.shareAllTitle', { business: activeBusiness.name }) }) : undefined}
+          onEditBrand={activeBusiness ? () => setBrandDialog(activeBusiness) : undefined}
         />
       );
     }
@@ -1184,6 +1862,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
           loading={historyLoading}
           onView={handleViewHistoryDocument}
           onDownload={(d) => handleDownloadHistoryDocument(d)}
+          onDownloadAll={(docs) => handleDownloadKit(docs.map(doc => doc.id))}
           onBackToChat={handleBackToChat}
         />
       );
@@ -1195,17 +1874,17 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
             <div className="flex flex-col gap-2 mb-8 md:flex-row md:items-center md:justify-between">
               <div>
-                <p className="text-sm uppercase tracking-widest text-blue-400">Expert Network</p>
-                <h2 className="text-3xl font-bold text-white">Meet Your Mentors</h2>
+                <p className="text-sm uppercase tracking-widest text-blue-400">{t('mentors.eyebrow')}</p>
+                <h2 className="text-3xl font-bold text-white">{t('mentors.title')}</h2>
                 <p className="text-gray-400 mt-2">
-                  Connect with specialists who have guided hundreds of founders through registration, compliance, branding, and HR.
+                  {t('mentors.subtitle')}
                 </p>
               </div>
               <button
                 onClick={handleBackToChat}
                 className="self-start rounded-lg border border-gray-700 px-4 py-2 text-sm font-medium text-gray-200 transition-colors duration-200 hover:border-blue-500 hover:text-white"
               >
-                Back to Chat
+                {t('common.backToChat')}
               </button>
             </div>
 
@@ -1213,7 +1892,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
               <div className="flex h-48 items-center justify-center rounded-2xl border border-gray-800 bg-gray-900/60">
                 <div className="flex items-center space-x-3 text-blue-300">
                   <Loader2 className="h-5 w-5 animate-spin" />
-                  <span>Loading mentor profiles...</span>
+                  <span>{t('mentors.loading')}</span>
                 </div>
               </div>
             ) : mentorsError ? (
@@ -1243,7 +1922,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
                     <p className="mt-4 text-gray-300">
                       {Array.isArray(mentor.expertise_areas)
                         ? mentor.expertise_areas.join(' • ')
-                        : mentor.expertise_areas || 'Expert guidance across core startup functions.'}
+                        : mentor.expertise_areas || t('mentors.fallbackExpertise')}
                     </p>
 
                     <div className="mt-6 flex flex-col gap-3 border-t border-gray-800 pt-4 sm:flex-row sm:items-center sm:justify-between">
@@ -1260,7 +1939,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
                         )}
                       </div>
                       <button className="rounded-lg bg-blue-600 px-5 py-2 text-sm font-semibold text-white transition hover:bg-blue-700">
-                        Schedule intro call
+                        {t('mentors.schedule')}
                       </button>
                     </div>
                   </div>
@@ -1278,6 +1957,8 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
           document={selectedDocument}
           onBack={handleBackToDashboard}
           onDownloadPdf={() => handleDownloadPdf(selectedDocument)}
+          onRegenerateSection={(section, instruction) => handleRegenerateSection(selectedDocument, section, instruction)}
+          onShare={() => setShareDialog({ target: { documentId: selectedDocument.id }, title: selectedDocument.title })}
         />
       );
     }
@@ -1310,12 +1991,31 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
                     : 'bg-gray-800 text-gray-100'
                 }`}>
                   <p className="whitespace-pre-line">{message.content}</p>
+
+                  {/* Guide sections a follow-up answer is based on */}
+                  {message.citations && message.citations.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-gray-700">
+                      <p className="text-xs text-gray-400 mb-2">{t('chat.sources')}</p>
+                      <div className="flex flex-wrap gap-2">
+                        {message.citations.map((citation, index) => (
+                          <button
+                            key={`${citation.documentId}-${index}`}
+                            onClick={() => handleViewCitation(citation)}
+                            className="flex items-center space-x-1 bg-gray-700 hover:bg-gray-600 text-xs text-gray-200 px-2 py-1 rounded transition-colors duration-200"
+                          >
+                            <FileText className="h-3 w-3" />
+                            <span>{citation.documentTitle} › {citation.sectionTitle}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   
                   {/* Show loading animation if this is the processing message and documents are still generating */}
                   {message.type === 'ai' && 
-                   message.content.includes('Processing your information and generating your business documents') &&
+                   isGenerationStartedMessage(message.content) &&
                    (flowStage === 'generating' || flowStage === 'documents') &&
-                   documents.some(doc => doc.status === 'generating') && (
+                   documents.some(isDocumentInProgress) && (
                     <div className="mt-4 pt-4 border-t border-gray-700">
                       <DocumentGenerationLoader documents={documents} />
                     </div>
@@ -1324,18 +2024,18 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
                   {/* Single Mentor Card */}
                   {message.mentorCard && (
                     <div className="mt-3 bg-gray-700 rounded-lg p-3">
-                      <h4 className="font-semibold text-white mb-2">Connect with Expert</h4>
+                      <h4 className="font-semibold text-white mb-2">{t('mentors.connect')}</h4>
                       <div className="space-y-2 text-sm">
                         <p className="font-medium">{message.mentorCard.name}</p>
                         <p className="text-gray-300">{message.mentorCard.expertise}</p>
                         <div className="flex items-center space-x-4">
                           <a href={`mailto:${message.mentorCard.email}`} className="flex items-center space-x-1 text-blue-400 hover:text-blue-300">
                             <Mail className="h-4 w-4" />
-                            <span>Email</span>
+                            <span>{t('common.email')}</span>
                           </a>
                           <a href={`tel:${message.mentorCard.phone}`} className="flex items-center space-x-1 text-blue-400 hover:text-blue-300">
                             <Phone className="h-4 w-4" />
-                            <span>Call</span>
+                            <span>{t('common.call')}</span>
                           </a>
                         </div>
                       </div>
@@ -1347,19 +2047,19 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
                     <div className="mt-3 space-y-3">
                       {message.mentorCards.map((mentor, index) => (
                         <div key={index} className="bg-gray-700 rounded-lg p-3">
-                          <h4 className="font-semibold text-white mb-2">{mentor.service} Expert</h4>
+                          <h4 className="font-semibold text-white mb-2">{t('mentors.serviceExpert', { service: mentor.service })}</h4>
                           <div className="space-y-2 text-sm">
                             <p className="font-medium">{mentor.name}</p>
                             <p className="text-gray-300">{mentor.expertise}</p>
                             <div className="flex items-center space-x-4">
                               <a href={`mailto:${mentor.email}`} className="flex items-center space-x-1 text-blue-400 hover:text-blue-300">
                                 <Mail className="h-4 w-4" />
-                                <span>Email</span>
+                                <span>{t('common.email')}</span>
                               </a>
                               {mentor.phone && (
                                 <a href={`tel:${mentor.phone}`} className="flex items-center space-x-1 text-blue-400 hover:text-blue-300">
                                   <Phone className="h-4 w-4" />
-                                  <span>Call</span>
+                                  <span>{t('common.call')}</span>
                                 </a>
                               )}
                             </div>
@@ -1381,20 +2081,90 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
           {/* Show floating loader if documents are generating and we haven't shown the processing message yet */}
           {(flowStage === 'generating' || flowStage === 'documents') && 
            documents.length > 0 && 
-           documents.some(doc => doc.status === 'generating') && 
-           !messages.some(msg => msg.content.includes('Processing your information and generating your business documents')) && (
+           documents.some(isDocumentInProgress) && 
+           !messages.some(msg => isGenerationStartedMessage(msg.content)) && (
             <div className="flex justify-start">
               <div className="max-w-3xl flex flex-row items-start space-x-3">
                 <div className="w-8 h-8 rounded-full flex items-center justify-center bg-gray-700">
                   <Bot className="h-4 w-4" />
                 </div>
                 <div className="rounded-lg p-4 bg-gray-800 text-gray-100">
-                  <p className="mb-4">Processing your information and generating your business documents...</p>
+                  <p className="mb-4">{t('generation.started')}</p>
                   <DocumentGenerationLoader documents={documents} />
                 </div>
               </div>
             </div>
           )}
+
+          {isAnswering && (
+            <div className="flex justify-start">
+              <div className="max-w-3xl flex flex-row items-start space-x-3">
+                <div className="w-8 h-8 rounded-full flex items-center justify-center bg-gray-700">
+                  <Bot className="h-4 w-4" />
+                </div>
+                <div className="rounded-lg p-4 bg-gray-800 text-gray-100 flex items-center space-x-2">
+                  <Loader2 className="h-4 w-4 animate-spin text-blue-400" />
+                  <span className="text-gray-300">
+                    {flowStage === 'idea_tuning'
+                      ? t('chat.thinkingIdea')
+                      : flowStage === 'questioning'
+                        ? t('chat.readingAnswer')
+                        : t('chat.searchingGuides')}
+                  </span>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {resumeOffer && (
+            <div className="flex justify-start">
+              <div className="flex items-start space-x-3 max-w-3xl">
+                <div className="p-2 rounded-full bg-gray-700">
+                  <Bot className="h-4 w-4 text-white" />
+                </div>
+                <div className="bg-gray-800 text-gray-100 p-4 rounded-lg space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <History className="h-4 w-4 text-blue-400" />
+                    <p className="font-medium">{t('resume.title')}</p>
+                  </div>
+                  <p className="text-sm text-gray-300">
+                    {resumeOffer.service_type === 'chat_session'
+                      ? t('resume.newConversation')
+                      : t('resume.inService', { service: getServiceName(resumeOffer.service_type) })}
+                    {t('resume.lastMessage', { time: new Date(resumeOffer.last_message_at).toLocaleString(language) })}
+                  </p>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={handleContinueSession}
+                      className="bg-blue-600 hover:bg-blue-700 text-white text-sm px-4 py-2 rounded-lg transition-colors duration-200"
+                    >
+                      {t('resume.continue')}
+                    </button>
+                    <button
+                      onClick={handleStartFresh}
+                      className="text-sm text-gray-300 hover:text-white border border-gray-600 px-4 py-2 rounded-lg transition-colors duration-200"
+                    >
+                      {t('resume.startFresh')}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {profileReviewMode && (
+            <div className="ml-11 max-w-3xl">
+              <ProfileReviewCard
+                questionnaire={questionnaire}
+                profile={businessProfile}
+                mode={profileReviewMode}
+                onSaveAnswer={handleSaveReviewedAnswer}
+                onConfirm={handleConfirmProfileReview}
+                onClose={profileReviewMode === 'update' ? () => setProfileReviewMode(null) : undefined}
+                isBusy={isConfirmingReview}
+              />
+            </div>
+          )}
           
           <div ref={messagesEndRef} />
         </div>
@@ -1403,12 +2173,12 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
         <div className="border-t border-gray-800 p-4">
           {/* Show message while documents are generating */}
           {(flowStage === 'generating' || flowStage === 'documents') && 
-           documents.some(doc => doc.status === 'generating') && (
+           documents.some(isDocumentInProgress) && (
             <div className="mb-3 p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
               <div className="flex items-center space-x-2">
                 <Loader2 className="h-4 w-4 text-blue-400 animate-spin" />
                 <p className="text-sm text-blue-300">
-                  Please wait while we generate your documents. This may take a few moments...
+                  {t('chat.waitGenerating')}
                 </p>
               </div>
             </div>
@@ -1423,22 +2193,26 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
                 onKeyPress={(e) => {
                   // Disable input while documents are generating
                   if ((flowStage === 'generating' || flowStage === 'documents') && 
-                      documents.some(doc => doc.status === 'generating')) {
+                      documents.some(isDocumentInProgress)) {
                     return;
                   }
                   if (e.key === 'Enter') handleSendMessage();
                 }}
                 placeholder={
                   (flowStage === 'generating' || flowStage === 'documents') && 
-                  documents.some(doc => doc.status === 'generating')
-                    ? "Generating documents... Please wait"
-                    : "Type your message..."
+                  documents.some(isDocumentInProgress)
+                    ? t('chat.placeholderGenerating')
+                    : flowStage === 'documents'
+                      ? t('chat.placeholderFollowUp')
+                      : flowStage === 'reviewing'
+                        ? t('chat.placeholderReview')
+                        : t('chat.placeholder')
                 }
                 disabled={(flowStage === 'generating' || flowStage === 'documents') && 
-                         documents.some(doc => doc.status === 'generating')}
+                         documents.some(isDocumentInProgress)}
                 className={`w-full bg-gray-800 border border-gray-600 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
                   (flowStage === 'generating' || flowStage === 'documents') && 
-                  documents.some(doc => doc.status === 'generating')
+                  documents.some(isDocumentInProgress)
                     ? 'opacity-50 cursor-not-allowed'
                     : ''
                 }`}
@@ -1447,10 +2221,10 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
             <button
               onClick={handleSendMessage}
               disabled={(flowStage === 'generating' || flowStage === 'documents') && 
-                       documents.some(doc => doc.status === 'generating')}
+                       documents.some(isDocumentInProgress)}
               className={`p-2 rounded-lg transition-colors duration-200 ${
                 (flowStage === 'generating' || flowStage === 'documents') && 
-                documents.some(doc => doc.status === 'generating')
+                documents.some(isDocumentInProgress)
                   ? 'bg-gray-700 cursor-not-allowed opacity-50'
                   : 'bg-blue-600 hover:bg-blue-700'
               }`}
@@ -1475,12 +2249,14 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
             </div>
 
             <div className="flex items-center space-x-3">
+              <LanguageSelector userId={currentUser?.id} />
+
               <button
                 onClick={() => { setViewMode('history'); loadHistoryDocuments(); }}
                 className="flex items-center space-x-2 rounded-lg px-3 py-2 text-gray-300 transition-colors duration-200 hover:bg-gray-800/80 hover:text-white"
               >
                 <History className="h-5 w-5" />
-                <span>History</span>
+                <span>{t('nav.history')}</span>
               </button>
 
               {(flowStage === 'documents' || flowStage === 'rating' || hasGeneratedDocuments) && (
@@ -1489,7 +2265,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
                   className="flex items-center space-x-2 rounded-lg px-3 py-2 text-gray-300 transition-colors duration-200 hover:bg-gray-800/80 hover:text-white"
                 >
                   <FileCheck className="h-5 w-5" />
-                  <span>Documents</span>
+                  <span>{t('nav.documents')}</span>
                 </button>
               )}
 
@@ -1498,14 +2274,14 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
                 className="flex items-center space-x-2 rounded-lg px-3 py-2 text-gray-300 transition-colors duration-200 hover:bg-gray-800/80 hover:text-white"
               >
                 <Users className="h-5 w-5" />
-                <span>Mentors</span>
+                <span>{t('nav.mentors')}</span>
               </button>
 
               <button
                 onClick={handleLogout}
                 className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors duration-200"
               >
-                Logout
+                {t('nav.logout')}
               </button>
             </div>
           </div>
@@ -1514,12 +2290,34 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
 
       {/* Main Content Area */}
       <div className="flex-1 flex overflow-hidden">
+        <BusinessSwitcher
+          businesses={businesses}
+          activeBusinessId={activeBusinessId}
+          onSelect={handleSelectBusiness}
+          onStartGuides={handleStartBusinessGuides}
+          onNewBusiness={handleNewBusiness}
+          isBusy={isSwitchingBusiness}
+        />
+
         {/* Main Content */}
         <div className="flex-1 flex flex-col">
           {renderMainContent()}
         </div>
       </div>
 
+      {shareDialog && (
+        <ShareDialog target={shareDialog.target} title={shareDialog.title} onClose={() => setShareDialog(null)} />
+      )}
+
+      {brandDialog && currentUser && (
+        <BrandKitDialog
+          userId={currentUser.id}
+          businessId={brandDialog.id}
+          businessName={brandDialog.name}
+          onClose={() => setBrandDialog(null)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="bg-black border-t border-gray-800 py-4">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -1528,7 +2326,7 @@ const ChatInterface = ({ onNavigate }: ChatInterfaceProps) => {
             <span className="text-lg font-bold text-white">StartUP Companion</span>
           </div>
           <p className="text-center text-gray-400 text-sm mt-2">
-            Launch your business in personalized way in 30 minutes
+            {t('footer.tagline')}
           </p>
         </div>
       </footer>
@@ -1,35 +1,62 @@
-import React from 'react';
-import { FileText, Palette, Shield, Users, Download, Eye, MessageSquare } from 'lucide-react';
+import React, { useState } from 'react';
+import { FileText, IndianRupee, Palette, Shield, Users, Download, Eye, MessageSquare, RefreshCw, ClipboardPen, Link2, Archive, Loader2 } from 'lucide-react';
+import { useLanguage } from '../lib/i18n';
 
 interface Document {
   id: string;
-  type: 'registration' | 'branding' | 'compliance' | 'hr';
+  type: 'registration' | 'branding' | 'compliance' | 'hr' | 'financial_planning';
   title: string;
   keyPoints: string[];
   fullContent: string;
-  pdfUrl?: string;
-  status: 'generating' | 'completed' | 'failed';
+  hasPdf?: boolean;
+  status: 'pending' | 'generating' | 'completed' | 'failed';
 }
 
 interface DocumentDashboardProps {
   documents: Document[];
   onViewDocument: (document: Document) => void;
   onDownloadPdf: (document: Document) => void;
+  onRetryDocument?: (document: Document) => void;
   onBackToChat?: () => void;
+  /** Opens the profile review card to edit answers and regenerate the affected guides */
+  onEditProfile?: () => void;
+  /** Opens the share link dialog for all guides of the business */
+  onShareAll?: () => void;
+  /** Downloads the startup kit ZIP of the finished guides */
+  onDownloadAll?: () => Promise<void>;
+  /** Opens the brand kit dialog for the PDFs' colors, fonts and logo */
+  onEditBrand?: () => void;
 }
 
 const DocumentDashboard: React.FC<DocumentDashboardProps> = ({
   documents,
   onViewDocument,
   onDownloadPdf,
-  onBackToChat
+  onRetryDocument,
+  onBackToChat,
+  onEditProfile,
+  onShareAll,
+  onDownloadAll,
+  onEditBrand
 }) => {
+  const { t } = useLanguage();
+  const [isDownloadingAll, setIsDownloadingAll] = useState(false);
+  const canDownloadAll = !!onDownloadAll && documents.some(doc => doc.status === 'completed');
+
+  const handleDownloadAll = async () => {
+    if (!onDownloadAll) return;
+    setIsDownloadingAll(true);
+    await onDownloadAll();
+    setIsDownloadingAll(false);
+  };
+
   const getDocumentIcon = (type: string) => {
     const iconMap: Record<string, any> = {
       registration: FileText,
       branding: Palette,
       compliance: Shield,
-      hr: Users
+      hr: Users,
+      financial_planning: IndianRupee
     };
     return iconMap[type] || FileText;
   };
@@ -39,28 +66,70 @@ const DocumentDashboard: React.FC<DocumentDashboardProps> = ({
       registration: 'from-blue-600 to-blue-700',
       branding: 'from-purple-600 to-purple-700',
       compliance: 'from-green-600 to-green-700',
-      hr: 'from-orange-600 to-orange-700'
+      hr: 'from-orange-600 to-orange-700',
+      financial_planning: 'from-teal-600 to-teal-700'
     };
     return colorMap[type] || 'from-gray-600 to-gray-700';
   };
 
   return (
     <div className="p-6 space-y-6">
-      {onBackToChat && (
-        <div className="flex justify-start mb-4">
-          <button
-            onClick={onBackToChat}
-            className="flex items-center space-x-2 bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors duration-200 border border-gray-700 hover:border-gray-600"
-          >
-            <MessageSquare className="h-4 w-4" />
-            <span>Back to Chat</span>
-          </button>
+      {(onBackToChat || onEditProfile || onShareAll || canDownloadAll || onEditBrand) && (
+        <div className="flex justify-between mb-4">
+          {onBackToChat ? (
+            <button
+              onClick={onBackToChat}
+              className="flex items-center space-x-2 bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors duration-200 border border-gray-700 hover:border-gray-600"
+            >
+              <MessageSquare className="h-4 w-4" />
+              <span>{t('common.backToChat')}</span>
+            </button>
+          ) : <div />}
+          <div className="flex items-center space-x-2">
+            {canDownloadAll && (
+              <button
+                onClick={handleDownloadAll}
+                disabled={isDownloadingAll}
+                className="flex items-center space-x-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors duration-200 border border-gray-700 hover:border-gray-600"
+              >
+                {isDownloadingAll ? <Loader2 className="h-4 w-4 animate-spin" /> : <Archive className="h-4 w-4" />}
+                <span>{isDownloadingAll ? t('common.preparing') : t('dashboard.downloadAll')}</span>
+              </button>
+            )}
+            {onShareAll && (
+              <button
+                onClick={onShareAll}
+                className="flex items-center space-x-2 bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors duration-200 border border-gray-700 hover:border-gray-600"
+              >
+                <Link2 className="h-4 w-4" />
+                <span>{t('dashboard.shareAll')}</span>
+              </button>
+            )}
+            {onEditBrand && (
+              <button
+                onClick={onEditBrand}
+                className="flex items-center space-x-2 bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors duration-200 border border-gray-700 hover:border-gray-600"
+              >
+                <Palette className="h-4 w-4" />
+                <span>{t('dashboard.brand')}</span>
+              </button>
+            )}
+            {onEditProfile && (
+              <button
+                onClick={onEditProfile}
+                className="flex items-center space-x-2 bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors duration-200 border border-gray-700 hover:border-gray-600"
+              >
+                <ClipboardPen className="h-4 w-4" />
+                <span>{t('dashboard.editProfile')}</span>
+              </button>
+            )}
+          </div>
         </div>
       )}
 
       <div className="text-center mb-8">
-        <h2 className="text-3xl font-bold text-white mb-2">Your Business Documents</h2>
-        <p className="text-gray-400">All your essential business guides are ready. Click to view or download.</p>
+        <h2 className="text-3xl font-bold text-white mb-2">{t('dashboard.title')}</h2>
+        <p className="text-gray-400">{t('dashboard.subtitle')}</p>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -78,21 +147,37 @@ const DocumentDashboard: React.FC<DocumentDashboardProps> = ({
                 <div className="bg-white/20 rounded-lg p-2">
                   <Icon className="h-6 w-6 text-white" />
                 </div>
-                <h3 className="text-xl font-semibold text-white">{doc.title}</h3>
+                <h3 className="text-xl font-semibold text-white">{t(`guide.${doc.type}` as const)}</h3>
               </div>
 
               {/* Content */}
               <div className="p-4">
+                {doc.status === 'pending' && (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="h-8 w-8 rounded-full bg-gray-600 animate-pulse"></div>
+                    <span className="ml-3 text-gray-400">{t('dashboard.queued')}</span>
+                  </div>
+                )}
+
                 {doc.status === 'generating' && (
                   <div className="flex items-center justify-center py-8">
                     <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
-                    <span className="ml-3 text-gray-400">Generating...</span>
+                    <span className="ml-3 text-gray-400">{t('dashboard.generating')}</span>
                   </div>
                 )}
 
                 {doc.status === 'failed' && (
                   <div className="text-center py-8">
-                    <p className="text-red-400">Failed to generate document</p>
+                    <p className="text-red-400">{t('dashboard.failed')}</p>
+                    {onRetryDocument && (
+                      <button
+                        onClick={() => onRetryDocument(doc)}
+                        className="mt-4 inline-flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors duration-200"
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                        <span>{t('dashboard.tryAgain')}</span>
+                      </button>
+                    )}
                   </div>
                 )}
 
@@ -100,7 +185,7 @@ const DocumentDashboard: React.FC<DocumentDashboardProps> = ({
                   <>
                     {/* Key Points */}
                     <div className="space-y-2 mb-4">
-                      <h4 className="text-sm font-semibold text-gray-300 mb-2">Key Highlights:</h4>
+                      <h4 className="text-sm font-semibold text-gray-300 mb-2">{t('dashboard.keyHighlights')}</h4>
                       {doc.keyPoints && doc.keyPoints.length > 0 ? (
                         <ul className="space-y-2">
                           {doc.keyPoints.slice(0, 5).map((point, index) => (
@@ -111,7 +196,7 @@ const DocumentDashboard: React.FC<DocumentDashboardProps> = ({
                           ))}
                         </ul>
                       ) : (
-                        <p className="text-sm text-gray-500 italic">No key points available</p>
+                        <p className="text-sm text-gray-500 italic">{t('dashboard.noKeyPoints')}</p>
                       )}
                     </div>
 
@@ -122,10 +207,10 @@ const DocumentDashboard: React.FC<DocumentDashboardProps> = ({
                         className="flex-1 flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors duration-200"
                       >
                         <Eye className="h-4 w-4" />
-                        <span>View Full Document</span>
+                        <span>{t('dashboard.viewFull')}</span>
                       </button>
 
-                      {doc.pdfUrl && (
+                      {doc.hasPdf && (
                         <button
                           onClick={() => onDownloadPdf(doc)}
                           className="flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors duration-200"
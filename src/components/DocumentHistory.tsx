@@ -1,13 +1,15 @@
-import React, { useMemo } from 'react';
-import { Download, Eye, MessageSquare, History, FileText, Palette, Shield, Users, Building2 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import React, { useMemo, useState } from 'react';
+import { Download, Eye, MessageSquare, History, FileText, IndianRupee, Palette, Shield, Users, Building2, Archive, Loader2 } from 'lucide-react';
 import type { GeneratedDocument } from '../lib/documentService';
+import { getLanguageName, useLanguage } from '../lib/i18n';
 
 interface DocumentHistoryProps {
   documents: GeneratedDocument[];
   loading?: boolean;
   onView: (doc: GeneratedDocument) => void;
   onDownload?: (doc: GeneratedDocument) => void;
+  /** Downloads the startup kit ZIP of one business's guides */
+  onDownloadAll?: (docs: GeneratedDocument[]) => Promise<void>;
   onBackToChat?: () => void;
 }
 
@@ -15,14 +17,20 @@ const DocumentHistory: React.FC<DocumentHistoryProps> = ({
   documents,
   loading = false,
   onView,
+  onDownload,
+  onDownloadAll,
   onBackToChat
 }) => {
+  const { t } = useLanguage();
+  const [downloadingGroup, setDownloadingGroup] = useState<string | null>(null);
+
   const getIcon = (type: string) => {
     const map: Record<string, any> = {
       registration: FileText,
       branding: Palette,
       compliance: Shield,
-      hr: Users
+      hr: Users,
+      financial_planning: IndianRupee
     };
     return map[type] || FileText;
   };
@@ -32,7 +40,8 @@ const DocumentHistory: React.FC<DocumentHistoryProps> = ({
       registration: 'from-blue-600 to-blue-700',
       branding: 'from-purple-600 to-purple-700',
       compliance: 'from-green-600 to-green-700',
-      hr: 'from-orange-600 to-orange-700'
+      hr: 'from-orange-600 to-orange-700',
+      financial_planning: 'from-teal-600 to-teal-700'
     };
     return map[type] || 'from-gray-600 to-gray-700';
   };
@@ -43,24 +52,25 @@ const DocumentHistory: React.FC<DocumentHistoryProps> = ({
       'registration': 1,
       'compliance': 2,
       'hr': 3,
-      'branding': 4
+      'branding': 4,
+      'financial_planning': 5
     };
     return order[type] || 99; // Unknown types go to the end
   };
 
-  // Group documents by business_name
+  // Group documents by business workspace, or by business_name for sessions without one
   const groupedDocuments = useMemo(() => {
     const groups: Record<string, GeneratedDocument[]> = {};
     
     documents.forEach(doc => {
-      const businessName = doc.business_name || 'Unnamed Business';
-      if (!groups[businessName]) {
-        groups[businessName] = [];
+      const groupKey = doc.business_id || doc.business_name || 'Unnamed Business';
+      if (!groups[groupKey]) {
+        groups[groupKey] = [];
       }
-      groups[businessName].push(doc);
+      groups[groupKey].push(doc);
     });
 
-    // Sort documents within each group by document type order (Registration, Compliance, HR, Branding)
+    // Sort documents within each group by document type order (Registration, Compliance, HR, Branding, Financial Planning)
     Object.keys(groups).forEach(key => {
       groups[key].sort((a, b) => {
         const orderA = getDocumentTypeOrder(a.document_type);
@@ -76,89 +86,11 @@ const DocumentHistory: React.FC<DocumentHistoryProps> = ({
     return groups;
   }, [documents]);
 
-  const handleDownload = async (doc: GeneratedDocument) => {
-    // If we have pdf_file_name but no pdf_url, download directly from storage
-    if (doc.pdf_file_name && !doc.pdf_url) {
-      try {
-        const { data, error } = await supabase.storage
-          .from('business-documents')
-          .download(doc.pdf_file_name);
-        
-        if (error) {
-          console.error('Error downloading from Supabase storage:', error);
-          return;
-        }
-        
-        const blob = data;
-        const url = window.URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        
-        const fileName = doc.pdf_file_name.split('/').pop() || `${doc.document_title.replace(/\s+/g, '_')}.pdf`;
-        link.download = fileName;
-        
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        window.URL.revokeObjectURL(url);
-        return;
-      } catch (error) {
-        console.error('Error downloading PDF:', error);
-        return;
-      }
-    }
-    
-    // If we have pdf_url, use the existing logic
-    if (!doc.pdf_url) return;
-    
-    try {
-      let blob: Blob;
-      
-      // Check if it's a Supabase storage URL
-      if (doc.pdf_url.includes('supabase') && doc.pdf_file_name) {
-        // Use Supabase client to download (handles authentication)
-        const { data, error } = await supabase.storage
-          .from('business-documents')
-          .download(doc.pdf_file_name);
-        
-        if (error) {
-          console.error('Error downloading from Supabase storage:', error);
-          throw error;
-        }
-        
-        blob = data;
-      } else {
-        // Regular HTTP fetch for public URLs
-        const response = await fetch(doc.pdf_url);
-        if (!response.ok) throw new Error('Failed to fetch PDF');
-        blob = await response.blob();
-      }
-      
-      // Create a download link
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      
-      // Use pdf_file_name if available, otherwise generate a name
-      const fileName = doc.pdf_file_name 
-        ? doc.pdf_file_name.split('/').pop() || `${doc.document_title.replace(/\s+/g, '_')}.pdf`
-        : `${doc.document_title.replace(/\s+/g, '_')}.pdf`;
-      link.download = fileName;
-      
-      // Trigger download
-      document.body.appendChild(link);
-      link.click();
-      
-      // Cleanup
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-    } catch (error) {
-      console.error('Error downloading PDF:', error);
-      // Fallback: open in new tab if download fails
-      if (doc.pdf_url) {
-        window.open(doc.pdf_url, '_blank');
-      }
-    }
+  const handleDownloadAll = async (groupKey: string, businessDocs: GeneratedDocument[]) => {
+    if (!onDownloadAll) return;
+    setDownloadingGroup(groupKey);
+    await onDownloadAll(businessDocs);
+    setDownloadingGroup(null);
   };
 
   return (
@@ -170,7 +102,7 @@ const DocumentHistory: React.FC<DocumentHistoryProps> = ({
             className="flex items-center space-x-2 bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors duration-200 border border-gray-700 hover:border-gray-600"
           >
             <MessageSquare className="h-4 w-4" />
-            <span>Back to Chat</span>
+            <span>{t('common.backToChat')}</span>
           </button>
         </div>
       )}
@@ -178,29 +110,39 @@ const DocumentHistory: React.FC<DocumentHistoryProps> = ({
       <div className="text-center mb-8">
         <h2 className="text-3xl font-bold text-white mb-2 flex items-center justify-center space-x-2">
           <History className="h-7 w-7" />
-          <span>Document History</span>
+          <span>{t('history.title')}</span>
         </h2>
-        <p className="text-gray-400">View documents from your previous sessions.</p>
+        <p className="text-gray-400">{t('history.subtitle')}</p>
       </div>
 
       {loading ? (
         <div className="flex items-center justify-center py-16">
           <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
-          <span className="ml-3 text-gray-400">Loading your history...</span>
+          <span className="ml-3 text-gray-400">{t('history.loading')}</span>
         </div>
       ) : documents.length === 0 ? (
         <div className="text-center text-gray-400 py-16">
-          No documents found yet.
+          {t('history.empty')}
         </div>
       ) : (
         <div className="space-y-8">
-          {Object.entries(groupedDocuments).map(([businessName, businessDocs]) => (
-            <div key={businessName} className="space-y-4">
+          {Object.entries(groupedDocuments).map(([groupKey, businessDocs]) => (
+            <div key={groupKey} className="space-y-4">
               {/* Business Name Header */}
               <div className="flex items-center space-x-2 mb-4">
                 <Building2 className="h-5 w-5 text-blue-400" />
-                <h3 className="text-xl font-semibold text-white">{businessName}</h3>
-                <span className="text-gray-500 text-sm">({businessDocs.length} document{businessDocs.length !== 1 ? 's' : ''})</span>
+                <h3 className="text-xl font-semibold text-white">{businessDocs[0].business_name || t('history.unnamedBusiness')}</h3>
+                <span className="text-gray-500 text-sm">{t(businessDocs.length === 1 ? 'history.documentCountOne' : 'history.documentCountOther', { count: businessDocs.length })}</span>
+                {onDownloadAll && businessDocs.some(doc => doc.generation_status === 'completed') && (
+                  <button
+                    onClick={() => handleDownloadAll(groupKey, businessDocs)}
+                    disabled={downloadingGroup !== null}
+                    className="ml-auto flex items-center space-x-1 text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                  >
+                    {downloadingGroup === groupKey ? <Loader2 className="h-4 w-4 animate-spin" /> : <Archive className="h-4 w-4" />}
+                    <span>{downloadingGroup === groupKey ? t('common.preparing') : t('history.downloadAll')}</span>
+                  </button>
+                )}
               </div>
 
               {/* Documents Grid */}
@@ -218,8 +160,8 @@ const DocumentHistory: React.FC<DocumentHistoryProps> = ({
                               <Icon className="h-6 w-6 text-white" />
                             </div>
                             <div className="flex-1 min-w-0">
-                              <h3 className="text-xl font-semibold text-white truncate">{doc.document_title}</h3>
-                              <p className="text-white/80 text-xs">{doc.document_type.toUpperCase()} • {created.toLocaleString()}</p>
+                              <h3 className="text-xl font-semibold text-white truncate">{t(`guide.${doc.document_type}` as const)}</h3>
+                              <p className="text-white/80 text-xs">{doc.document_type.toUpperCase()} • {getLanguageName(doc.language)} • {created.toLocaleString()}</p>
                             </div>
                           </div>
                           
@@ -228,16 +170,15 @@ const DocumentHistory: React.FC<DocumentHistoryProps> = ({
                             <button
                               onClick={() => onView(doc)}
                               className="bg-white/20 hover:bg-white/30 rounded-lg p-2 transition-colors duration-200"
-                              title="View Document"
+                              title={t('history.view')}
                             >
                               <Eye className="h-5 w-5 text-white" />
                             </button>
-                            {/* Show download button if pdf_url exists OR pdf_file_name exists */}
-                            {(doc.pdf_url || doc.pdf_file_name) && (
+                            {onDownload && doc.pdf_file_name && (
                               <button
-                                onClick={() => handleDownload(doc)}
+                                onClick={() => onDownload(doc)}
                                 className="bg-white/20 hover:bg-white/30 rounded-lg p-2 transition-colors duration-200"
-                                title="Download PDF"
+                                title={t('history.downloadPdf')}
                               >
                                 <Download className="h-5 w-5 text-white" />
                               </button>
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, GitCompare, Loader2 } from 'lucide-react';
+import { getDocumentDownloadUrl, getDocumentVersions, type DocumentVersion } from '../lib/documentService';
+import { diffLines, summarizeDiff, type DiffCell } from '../lib/textDiff';
+import { useLanguage } from '../lib/i18n';
+
+interface DocumentVersionsProps {
+  documentId: string;
+}
+
+const CELL_CLASSES: Record<DiffCell['kind'], string> = {
+  unchanged: 'text-gray-300',
+  removed: 'bg-red-500/15 text-red-200',
+  added: 'bg-green-500/15 text-green-200',
+  changed: 'bg-yellow-500/10 text-yellow-100',
+  empty: 'bg-gray-900/60'
+};
+
+const formatVersionLabel = (version: DocumentVersion) =>
+  `v${version.version_number} - ${new Date(version.created_at).toLocaleString()}`;
+
+const DiffCellView: React.FC<{ cell: DiffCell }> = ({ cell }) => (
+  <>
+    <td className="w-10 px-2 text-right text-gray-500 select-none align-top">{cell.lineNumber ?? ''}</td>
+    <td className={`px-2 whitespace-pre-wrap break-words align-top ${CELL_CLASSES[cell.kind]}`}>{cell.text}</td>
+  </>
+);
+
+const DocumentVersions: React.FC<DocumentVersionsProps> = ({ documentId }) => {
+  const { t } = useLanguage();
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [baseId, setBaseId] = useState<string>('');
+  const [compareId, setCompareId] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    getDocumentVersions(documentId).then(data => {
+      if (cancelled) return;
+      setVersions(data);
+      // Default to comparing the previous version with the latest one
+      setCompareId(data[0]?.id ?? '');
+      setBaseId(data[1]?.id ?? data[0]?.id ?? '');
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  const baseVersion = versions.find(version => version.id === baseId);
+  const compareVersion = versions.find(version => version.id === compareId);
+
+  const rows = useMemo(
+    () => (baseVersion && compareVersion ? diffLines(baseVersion.full_content, compareVersion.full_content) : []),
+    [baseVersion, compareVersion]
+  );
+  const summary = summarizeDiff(rows);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-400">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        <span>{t('versions.loading')}</span>
+      </div>
+    );
+  }
+
+  if (versions.length < 2) {
+    return (
+      <p className="text-gray-400 text-sm py-4">
+        {t('versions.onlyOne')}
+      </p>
+    );
+  }
+
+  const handleDownload = async (version: DocumentVersion) => {
+    const result = await getDocumentDownloadUrl(documentId, version.id);
+    if (result.success && result.url) {
+      window.location.assign(result.url);
+    }
+  };
+
+  const renderVersionPicker = (
+    label: string,
+    value: string,
+    onChange: (id: string) => void,
+    selected: DocumentVersion | undefined
+  ) => (
+    <div className="flex-1 min-w-0">
+      <label className="block text-xs uppercase tracking-wide text-gray-400 mb-1">{label}</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full bg-gray-900 border border-gray-700 text-white rounded-lg px-3 py-2 text-sm"
+      >
+        {versions.map(version => (
+          <option key={version.id} value={version.id}>{formatVersionLabel(version)}</option>
+        ))}
+      </select>
+      {selected && (
+        <div className="flex items-center justify-between mt-1 text-xs text-gray-400">
+          <span className="truncate">{selected.model || t('versions.unknownModel')}</span>
+          {selected.pdf_file_name && (
+            <button
+              onClick={() => handleDownload(selected)}
+              className="flex items-center space-x-1 text-blue-400 hover:text-blue-300"
+            >
+              <Download className="h-3 w-3" />
+              <span>PDF</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex space-x-4 mb-4">
+        {renderVersionPicker(t('versions.older'), baseId, setBaseId, baseVersion)}
+        {renderVersionPicker(t('versions.newer'), compareId, setCompareId, compareVersion)}
+      </div>
+
+      <div className="flex items-center space-x-4 text-sm mb-3">
+        <GitCompare className="h-4 w-4 text-gray-400" />
+        <span className="text-yellow-300">{t('versions.changed', { count: summary.changed })}</span>
+        <span className="text-green-300">{t('versions.added', { count: summary.added })}</span>
+        <span className="text-red-300">{t('versions.removed', { count: summary.removed })}</span>
+      </div>
+
+      <div className="border border-gray-700 rounded-lg overflow-hidden">
+        <table className="w-full table-fixed text-xs font-mono">
+          <colgroup>
+            <col className="w-10" />
+            <col />
+            <col className="w-10" />
+            <col />
+          </colgroup>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className="border-b border-gray-800 last:border-b-0">
+                <DiffCellView cell={row.left} />
+                <DiffCellView cell={row.right} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentVersions;
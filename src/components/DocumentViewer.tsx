@@ -1,20 +1,33 @@
-import React from 'react';
-import { ArrowLeft, Download, FileText, Palette, Shield, Users } from 'lucide-react';
+import React, { useState } from 'react';
+import { ArrowLeft, Download, FileText, History, IndianRupee, Link2, Palette, PencilLine, Shield, Users } from 'lucide-react';
+import GuideDataPanels from './GuideDataPanels';
+import DocumentVersions from './DocumentVersions';
+import SectionRegenerator from './SectionRegenerator';
+import type { GuideStructuredData } from '../lib/documentService';
+import { getGuideSections, type GuideSectionHeading } from '../lib/guideSections';
+import { useLanguage } from '../lib/i18n';
 
 interface Document {
   id: string;
-  type: 'registration' | 'branding' | 'compliance' | 'hr';
+  type: 'registration' | 'branding' | 'compliance' | 'hr' | 'financial_planning';
   title: string;
   keyPoints: string[];
   fullContent: string;
-  pdfUrl?: string;
-  status: 'generating' | 'completed' | 'failed';
+  structuredData?: GuideStructuredData | null;
+  hasPdf?: boolean;
+  status: 'pending' | 'generating' | 'completed' | 'failed';
 }
 
 interface DocumentViewerProps {
   document: Document;
   onBack: () => void;
   onDownloadPdf: () => void;
+  /** Resolves to an error message, or null once the section has been replaced */
+  onRegenerateSection?: (section: GuideSectionHeading, instruction: string) => Promise<string | null>;
+  /** Opens the share link dialog for this guide */
+  onShare?: () => void;
+  /** Viewed through a share link: no version history */
+  readOnly?: boolean;
 }
 
 const formatMarkdownContent = (content: string) => {
@@ -126,14 +139,31 @@ const formatMarkdownContent = (content: string) => {
 const DocumentViewer: React.FC<DocumentViewerProps> = ({
   document,
   onBack,
-  onDownloadPdf
+  onDownloadPdf,
+  onRegenerateSection,
+  onShare,
+  readOnly = false
 }) => {
+  const { t } = useLanguage();
+  const [showVersions, setShowVersions] = useState(false);
+  const [showSectionEditor, setShowSectionEditor] = useState(false);
+  // Bumped after a section is regenerated so the version list reloads
+  const [revision, setRevision] = useState(0);
+
+  const handleRegenerateSection = async (section: GuideSectionHeading, instruction: string) => {
+    if (!onRegenerateSection) return null;
+    const errorMessage = await onRegenerateSection(section, instruction);
+    if (!errorMessage) setRevision(prev => prev + 1);
+    return errorMessage;
+  };
+
   const getDocumentIcon = (type: string) => {
     const iconMap: Record<string, any> = {
       registration: FileText,
       branding: Palette,
       compliance: Shield,
-      hr: Users
+      hr: Users,
+      financial_planning: IndianRupee
     };
     return iconMap[type] || FileText;
   };
@@ -143,7 +173,8 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
       registration: 'from-blue-600 to-blue-700',
       branding: 'from-purple-600 to-purple-700',
       compliance: 'from-green-600 to-green-700',
-      hr: 'from-orange-600 to-orange-700'
+      hr: 'from-orange-600 to-orange-700',
+      financial_planning: 'from-teal-600 to-teal-700'
     };
     return colorMap[type] || 'from-gray-600 to-gray-700';
   };
@@ -168,20 +199,65 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({
           <h2 className="text-2xl font-semibold text-white">{document.title}</h2>
         </div>
 
-        {document.pdfUrl && (
-          <button
-            onClick={onDownloadPdf}
-            className="flex items-center space-x-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors duration-200"
-          >
-            <Download className="h-5 w-5" />
-            <span>Download PDF</span>
-          </button>
-        )}
+        <div className="flex items-center space-x-2">
+          {document.status === 'completed' && onRegenerateSection && (
+            <button
+              onClick={() => setShowSectionEditor(prev => !prev)}
+              className="flex items-center space-x-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors duration-200"
+            >
+              <PencilLine className="h-5 w-5" />
+              <span>{showSectionEditor ? t('viewer.hideEditor') : t('viewer.editSection')}</span>
+            </button>
+          )}
+          {document.status === 'completed' && onShare && (
+            <button
+              onClick={onShare}
+              className="flex items-center space-x-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors duration-200"
+            >
+              <Link2 className="h-5 w-5" />
+              <span>{t('viewer.share')}</span>
+            </button>
+          )}
+          {document.status === 'completed' && !readOnly && (
+            <button
+              onClick={() => setShowVersions(prev => !prev)}
+              className="flex items-center space-x-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors duration-200"
+            >
+              <History className="h-5 w-5" />
+              <span>{showVersions ? t('viewer.hideVersions') : t('viewer.versions')}</span>
+            </button>
+          )}
+          {document.hasPdf && (
+            <button
+              onClick={onDownloadPdf}
+              className="flex items-center space-x-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors duration-200"
+            >
+              <Download className="h-5 w-5" />
+              <span>{t('history.downloadPdf')}</span>
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto bg-gray-900 p-6">
+        {showSectionEditor && onRegenerateSection && (
+          <div className="max-w-4xl mx-auto bg-gray-800 rounded-lg p-6 mb-6">
+            <h3 className="text-lg font-semibold text-white mb-4">{t('viewer.regenerateSection')}</h3>
+            <SectionRegenerator
+              sections={getGuideSections(document.fullContent)}
+              onRegenerate={handleRegenerateSection}
+            />
+          </div>
+        )}
+        {showVersions && (
+          <div className="max-w-6xl mx-auto bg-gray-800 rounded-lg p-6 mb-6">
+            <h3 className="text-lg font-semibold text-white mb-4">{t('viewer.compareVersions')}</h3>
+            <DocumentVersions key={revision} documentId={document.id} />
+          </div>
+        )}
         <div className="max-w-4xl mx-auto bg-gray-800 rounded-lg p-8">
+          {document.structuredData && <GuideDataPanels data={document.structuredData} />}
           <div className="prose prose-invert prose-blue max-w-none">
             {formatMarkdownContent(document.fullContent)}
           </div>
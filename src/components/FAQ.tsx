@@ -1,96 +1,98 @@
 import React, { useState } from 'react';
 import { ChevronDown, ChevronUp } from 'lucide-react';
+import { useLanguage } from '../lib/i18n';
 
 const FAQ = () => {
+  const { t } = useLanguage();
   const [openSections, setOpenSections] = useState({});
   const [openQuestions, setOpenQuestions] = useState({});
 
   const faqSections = [
     {
-      title: 'General',
+      title: t('faq.general'),
       questions: [
         {
-          q: 'Can I use this app even if I don\'t have prior experience in law or business?',
-          a: 'Absolutely! Each tool, template, and explainer is crafted for beginners.'
+          q: t('faq.q1'),
+          a: t('faq.a1')
         },
         {
-          q: 'Does the app fill out forms for me?',
-          a: 'No; it only guides you through what forms are needed and where/who to contact for completion.'
+          q: t('faq.q2'),
+          a: t('faq.a2')
         },
         {
-          q: 'Who should use Startup Companion?',
-          a: 'First-time service business founders in India needing straightforward, stepwise startup guidance.'
+          q: t('faq.q3'),
+          a: t('faq.a3')
         },
         {
-          q: 'Do you file documents for me?',
-          a: 'No. We guide you step-by-step on what to file, where, and how. Final submission happens on official portals.'
+          q: t('faq.q4'),
+          a: t('faq.a4')
         },
         {
-          q: 'Does this help with all countries requirements?',
-          a: 'Currently all guidance is tailored for Indian jurisdictions Legal & Compliance'
+          q: t('faq.q5'),
+          a: t('faq.a5')
         },
         {
-          q: 'Is Startup Companion a law firm?',
-          a: 'No. It\'s an educational platform that simplifies processes and connects you to licensed experts when needed.'
+          q: t('faq.q6'),
+          a: t('faq.a6')
         }
       ]
     },
     {
-      title: 'Services',
+      title: t('faq.services'),
       questions: [
         {
-          q: 'Will this app guide me through government grants or schemes available for new businesses?',
-          a: 'Yes, the Company Navigator matches relevant programs (Startup India, MSME) and demystifies eligibility.'
+          q: t('faq.q7'),
+          a: t('faq.a7')
         },
         {
-          q: 'Can you guarantee registration approval?',
-          a: 'We can\'t guarantee government approvals, but our guidance reduces common errors that cause rejection.'
+          q: t('faq.q8'),
+          a: t('faq.a8')
         },
         {
-          q: 'Does this cover government schemes like Startup India or MSME Udyam?',
-          a: 'Yes. The Compliance module highlights relevant programs, eligibility criteria, and application steps — including Startup India registration, MSME Udyam, and other grants.'
+          q: t('faq.q9'),
+          a: t('faq.a9')
         },
         {
-          q: 'Does Startup Companion help with GST registration and returns?',
-          a: 'Yes. The Compliance module guides you through the GST registration process step by step, including required documents, application portals, and common pitfalls. We also provide checklists and timelines for filing GST returns. If you need hands-on assistance, Startup Companion connects you with vetted tax mentors (CAs, GST consultants).'
+          q: t('faq.q10'),
+          a: t('faq.a10')
         },
         {
-          q: 'Do you provide actual logos or just templates? Can AI create them?',
-          a: 'Startup Companion gives branding templates and connects you to AI-powered logo generators. For unique, trademark-ready identities, vetted branding mentors are available.'
+          q: t('faq.q11'),
+          a: t('faq.a11')
         },
         {
-          q: 'Does Startup Companion ensure the name is unique and available?',
-          a: 'Startup Companion helps you generate name ideas and immediately check for Domain availability; Trademark conflicts (via IP India / USPTO links); Business registry conflicts (India); Social media handles'
+          q: t('faq.q12'),
+          a: t('faq.a12')
         },
         {
-          q: 'Can I use this for product startups?',
-          a: 'Startup Companion is optimized for service businesses but many steps apply to product-based startups too.'
+          q: t('faq.q13'),
+          a: t('faq.a13')
         }
       ]
     },
     {
-      title: 'Mentors',
+      title: t('faq.mentors'),
       questions: [
         {
-          q: 'What happens if I have a compliance question the AI can\'t solve?',
-          a: 'The integrated Legal Desk connects you to human experts, on-demand.'
+          q: t('faq.q14'),
+          a: t('faq.a14')
         },
         {
-          q: 'Can AI replace a mentor?',
-          a: 'No. AI gives quick guidance, but mentors bring real-world expertise, judgment, and accountability.'
+          q: t('faq.q15'),
+          a: t('faq.a15')
         },
         {
-          q: 'How are mentors vetted?',
-          a: 'Every mentor is verified for credentials, track record, and ratings.'
+          q: t('faq.q16'),
+          a: t('faq.a16')
         }
       ]
     },
     {
-      title: 'Pricing',
+      title: t('faq.pricing'),
       questions: [
         {
-          q: 'Is this free?',
-          a: 'Basic guidance is always free, with optional paid recommended expert consults for complex cases.'
+          q: t('faq.q17'),
+          a: t('faq.a17')
         }
       ]
     }
@@ -117,10 +119,10 @@ const FAQ = () => {
         {/* Section Header */}
         <div className="text-center mb-16">
           <h2 className="text-3xl lg:text-2xl font-bold text-white mb-6">
-            Frequently Asked Questions
+            {t('faq.title')}
           </h2>
           <p className="text-xl text-gray-400">
-            Find answers to common questions about Startup Companion
+            {t('faq.subtitle')}
           </p>
         </div>
 
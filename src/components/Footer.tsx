@@ -1,18 +1,20 @@
 import React from 'react';
 import { Facebook, Twitter, Linkedin, Instagram } from 'lucide-react';
+import { useLanguage } from '../lib/i18n';
 
 interface FooterProps {
   onNavigate?: (page: string) => void;
 }
 
 const Footer = ({ onNavigate }: FooterProps) => {
+  const { t } = useLanguage();
   const navLinks = [
-    { name: 'Home', href: '#home' },
-    { name: 'Why Choose', href: '#benefits' },
-    { name: 'How it works', href: '#how-it-works' },
-    { name: 'Pricing', href: '#pricing' },
-    { name: 'Testimony', href: '#testimonials' },
-    { name: 'FAQs', href: '#faq' },
+    { name: t('nav.home'), href: '#home' },
+    { name: t('nav.benefits'), href: '#benefits' },
+    { name: t('nav.howItWorks'), href: '#how-it-works' },
+    { name: t('nav.pricing'), href: '#pricing' },
+    { name: t('nav.testimonials'), href: '#testimonials' },
+    { name: t('nav.faq'), href: '#faq' },
   ];
 
   const socialLinks = [
@@ -53,16 +55,16 @@ const Footer = ({ onNavigate }: FooterProps) => {
               <span className="text-xl font-bold text-white">StartUP Companion</span>
             </div>
             <h3 className="text-lg font-semibold text-white mb-4">
-              Ready to turn your service business spark into reality?
+              {t('footer.readyTitle')}
             </h3>
             <p className="text-gray-400 leading-relaxed">
-              Start your journey today with Startup Companion—your AI-powered guide from registration to launch.
+              {t('footer.readyText')}
             </p>
           </div>
 
           {/* Navigation Links */}
           <div className="lg:col-span-1">
-            <h4 className="text-lg font-semibold text-white mb-6">Navigation</h4>
+            <h4 className="text-lg font-semibold text-white mb-6">{t('footer.navigation')}</h4>
             <div className="grid grid-cols-2 gap-3">
               {navLinks.map((link) => (
                 <a
@@ -79,7 +81,7 @@ const Footer = ({ onNavigate }: FooterProps) => {
 
           {/* Social Media */}
           <div className="lg:col-span-1">
-            <h4 className="text-lg font-semibold text-white mb-6">Connect With Us</h4>
+            <h4 className="text-lg font-semibold text-white mb-6">{t('footer.connect')}</h4>
             <div className="flex space-x-4 mb-6">
               {socialLinks.map((social) => (
                 <a
@@ -93,7 +95,7 @@ const Footer = ({ onNavigate }: FooterProps) => {
               ))}
             </div>
             <p className="text-gray-400 text-sm">
-              Follow us for startup tips, success stories, and platform updates.
+              {t('footer.follow')}
             </p>
           </div>
         </div>
@@ -102,16 +104,16 @@ const Footer = ({ onNavigate }: FooterProps) => {
         <div className="bg-gradient-to-r from-black-600/10 to-black-600/10 border border-blue-500/20 rounded-xl p-8 mb-12">
           <div className="text-center">
             <h3 className="text-2xl font-bold text-white mb-4">
-              Ready to Start Your Business Journey?
+              {t('footer.ctaTitle')}
             </h3>
             <p className="text-gray-300 mb-6 max-w-2xl mx-auto">
-              Join thousands of entrepreneurs who have successfully launched their service businesses with our expert guidance.
+              {t('footer.ctaText')}
             </p>
             <button 
               onClick={handleGetStartedClick}
               className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 rounded-lg font-semibold transition-colors duration-200"
             >
-              Get Started Today
+              {t('footer.cta')}
             </button>
           </div>
         </div>
@@ -121,15 +123,15 @@ const Footer = ({ onNavigate }: FooterProps) => {
           <div className="flex flex-col md:flex-row items-center justify-between space-y-4 md:space-y-0">
             <div className="flex items-center space-x-6 text-sm text-gray-400">
               <a href="#privacy" className="hover:text-white transition-colors duration-200">
-                Privacy Policy
+                {t('footer.privacy')}
               </a>
               <span>•</span>
               <a href="#terms" className="hover:text-white transition-colors duration-200">
-                Terms & Conditions
+                {t('footer.terms')}
               </a>
             </div>
             <div className="text-sm text-gray-400">
-              © {new Date().getFullYear()} Startup Companion. All rights reserved.
+              {t('footer.copyright', { year: new Date().getFullYear() })}
             </div>
           </div>
         </div>
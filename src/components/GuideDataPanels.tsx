@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Award, CalendarDays, CheckSquare, ExternalLink, IndianRupee, Square } from 'lucide-react';
+import type { GuideStructuredData } from '../lib/documentService';
+import { useLanguage, type MessageKey } from '../lib/i18n';
+
+interface GuideDataPanelsProps {
+  data: GuideStructuredData;
+}
+
+const FREQUENCY_LABELS: Record<string, MessageKey> = {
+  'one-time': 'guideData.oneTime',
+  monthly: 'guideData.monthly',
+  yearly: 'guideData.yearly'
+};
+
+const formatInr = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+const formatRange = (min: number, max: number) =>
+  min === max ? formatInr(min) : `${formatInr(min)} - ${formatInr(max)}`;
+
+const GuideDataPanels: React.FC<GuideDataPanelsProps> = ({ data }) => {
+  const { t } = useLanguage();
+  const [checkedItems, setCheckedItems] = useState<Set<number>>(new Set());
+
+  const toggleItem = (index: number) => {
+    setCheckedItems(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  // Keep the guide's order of categories while grouping the checklist
+  const checklistGroups = data.checklist.reduce<Array<{ category: string; items: Array<{ item: string; index: number }> }>>(
+    (groups, entry, index) => {
+      const group = groups.find(g => g.category === entry.category);
+      if (group) {
+        group.items.push({ item: entry.item, index });
+      } else {
+        groups.push({ category: entry.category, items: [{ item: entry.item, index }] });
+      }
+      return groups;
+    },
+    []
+  );
+
+  const costTotals = Object.keys(FREQUENCY_LABELS)
+    .map(frequency => {
+      const items = data.costs.filter(cost => cost.frequency === frequency);
+      return {
+        frequency,
+        count: items.length,
+        min: items.reduce((sum, cost) => sum + cost.minAmountInr, 0),
+        max: items.reduce((sum, cost) => sum + cost.maxAmountInr, 0)
+      };
+    })
+    .filter(total => total.count > 0);
+
+  const timelineDays = data.timeline.length > 0 ? Math.max(...data.timeline.map(step => step.endDay)) : 0;
+
+  return (
+    <div className="space-y-6 mb-8">
+      {data.entityRecommendation && (
+        <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <Award className="h-5 w-5 text-blue-400" />
+            <h3 className="text-lg font-semibold text-white">{t('guideData.recommended', { entity: data.entityRecommendation.entityType })}</h3>
+          </div>
+          {data.entityRecommendation.reason && (
+            <p className="text-sm text-gray-300">{data.entityRecommendation.reason}</p>
+          )}
+        </div>
+      )}
+
+      {data.timeline.length > 0 && (
+        <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-2">
+              <CalendarDays className="h-5 w-5 text-blue-400" />
+              <h3 className="text-lg font-semibold text-white">{t('guideData.timeline')}</h3>
+            </div>
+            <span className="text-sm text-gray-400">{t('guideData.aboutDays', { count: timelineDays })}</span>
+          </div>
+          <ol className="space-y-2">
+            {data.timeline.map((step, index) => (
+              <li key={index} className="flex items-start space-x-3 text-sm">
+                <span className="flex-shrink-0 w-24 text-blue-300 font-medium">
+                  {step.startDay === step.endDay
+                    ? t('guideData.day', { day: step.startDay })
+                    : t('guideData.dayRange', { start: step.startDay, end: step.endDay })}
+                </span>
+                <span className="text-gray-300">{step.step}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {data.costs.length > 0 && (
+        <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-4">
+          <div className="flex items-center space-x-2 mb-3">
+            <IndianRupee className="h-5 w-5 text-green-400" />
+            <h3 className="text-lg font-semibold text-white">{t('guideData.costs')}</h3>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-2 font-medium">{t('guideData.item')}</th>
+                <th className="py-2 font-medium">{t('guideData.frequency')}</th>
+                <th className="py-2 font-medium text-right">{t('guideData.amount')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.costs.map((cost, index) => (
+                <tr key={index} className="border-b border-gray-800 text-gray-300">
+                  <td className="py-2 pr-4">{cost.item}</td>
+                  <td className="py-2 pr-4 text-gray-400">{t(FREQUENCY_LABELS[cost.frequency])}</td>
+                  <td className="py-2 text-right whitespace-nowrap">{formatRange(cost.minAmountInr, cost.maxAmountInr)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              {costTotals.map(total => (
+                <tr key={total.frequency} className="text-white font-semibold">
+                  <td className="pt-3" colSpan={2}>{t('guideData.total', { frequency: t(FREQUENCY_LABELS[total.frequency]).toLowerCase() })}</td>
+                  <td className="pt-3 text-right whitespace-nowrap">{formatRange(total.min, total.max)}</td>
+                </tr>
+              ))}
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      {checklistGroups.length > 0 && (
+        <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-2">
+              <CheckSquare className="h-5 w-5 text-orange-400" />
+              <h3 className="text-lg font-semibold text-white">{t('guideData.checklist')}</h3>
+            </div>
+            <span className="text-sm text-gray-400">{t('guideData.done', { done: checkedItems.size, total: data.checklist.length })}</span>
+          </div>
+          <div className="space-y-4">
+            {checklistGroups.map(group => (
+              <div key={group.category}>
+                <h4 className="text-sm font-semibold text-gray-300 mb-2">{group.category}</h4>
+                <ul className="space-y-1">
+                  {group.items.map(({ item, index }) => {
+                    const isChecked = checkedItems.has(index);
+                    const CheckIcon = isChecked ? CheckSquare : Square;
+                    return (
+                      <li key={index}>
+                        <button
+                          onClick={() => toggleItem(index)}
+                          className="flex items-start space-x-2 text-left text-sm text-gray-300 hover:text-white"
+                        >
+                          <CheckIcon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${isChecked ? 'text-green-400' : 'text-gray-500'}`} />
+                          <span className={isChecked ? 'line-through text-gray-500' : ''}>{item}</span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {data.portals.length > 0 && (
+        <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-4">
+          <div className="flex items-center space-x-2 mb-3">
+            <ExternalLink className="h-5 w-5 text-purple-400" />
+            <h3 className="text-lg font-semibold text-white">{t('guideData.portals')}</h3>
+          </div>
+          <ul className="space-y-2">
+            {data.portals.map((portal, index) => (
+              <li key={index}>
+                <a
+                  href={portal.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-blue-400 hover:text-blue-300 underline"
+                >
+                  {portal.name}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GuideDataPanels;
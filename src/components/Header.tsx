@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { Menu, X } from 'lucide-react';
+import { useLanguage } from '../lib/i18n';
+import LanguageSelector from './LanguageSelector';
 
 interface HeaderProps {
   onNavigate?: (page: string) => void;
@@ -7,14 +9,15 @@ interface HeaderProps {
 
 const Header = ({ onNavigate }: HeaderProps) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const { t } = useLanguage();
 
   const navLinks = [
-    { name: 'Home', href: '#home' },
-    { name: 'Why Choose', href: '#benefits' },
-    { name: 'How it works', href: '#how-it-works' },
-    { name: 'Pricing', href: '#pricing' },
-    { name: 'Testimony', href: '#testimonials' },
-    { name: 'FAQs', href: '#faq' },
+    { name: t('nav.home'), href: '#home' },
+    { name: t('nav.benefits'), href: '#benefits' },
+    { name: t('nav.howItWorks'), href: '#how-it-works' },
+    { name: t('nav.pricing'), href: '#pricing' },
+    { name: t('nav.testimonials'), href: '#testimonials' },
+    { name: t('nav.faq'), href: '#faq' },
   ];
 
   const handleSignupClick = (e: React.MouseEvent) => {
@@ -77,19 +80,20 @@ const Header = ({ onNavigate }: HeaderProps) => {
               </a>
             ))}
             <div className="flex items-center space-x-4 ml-8">
+              <LanguageSelector />
               <a
                 href="#login"
                 onClick={handleLoginClick}
                 className="text-gray-300 hover:text-white transition-colors duration-200 font-medium"
               >
-                Login
+                {t('nav.login')}
               </a>
               <a
                 href="#signup"
                 onClick={handleSignupClick}
                 className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition-colors duration-200"
               >
-                Signup
+                {t('nav.signup')}
               </a>
             </div>
           </nav>
@@ -123,6 +127,7 @@ const Header = ({ onNavigate }: HeaderProps) => {
                 </a>
               ))}
               <div className="flex flex-col space-y-2 pt-4 border-t border-gray-800">
+                <LanguageSelector />
                 <button
                   onClick={(e) => {
                     setIsMenuOpen(false);
@@ -130,7 +135,7 @@ const Header = ({ onNavigate }: HeaderProps) => {
                   }}
                   className="text-gray-300 hover:text-white transition-colors duration-200 font-medium py-2 text-left"
                 >
-                  Login
+                  {t('nav.login')}
                 </button>
                 <button
                   onClick={(e) => {
@@ -139,7 +144,7 @@ const Header = ({ onNavigate }: HeaderProps) => {
                   }}
                   className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition-colors duration-200 text-center"
                 >
-                  Signup
+                  {t('nav.signup')}
                 </button>
               </div>
             </div>
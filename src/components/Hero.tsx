@@ -1,11 +1,13 @@
 import React from 'react';
 import { ArrowRight } from 'lucide-react';
+import { useLanguage } from '../lib/i18n';
 
 interface HeroProps {
   onNavigate?: (page: string) => void;
 }
 
 const Hero = ({ onNavigate }: HeroProps) => {
+  const { t } = useLanguage();
   const handleStartJourneyClick = () => {
     if (onNavigate) {
       onNavigate('signup');
@@ -26,15 +28,14 @@ const Hero = ({ onNavigate }: HeroProps) => {
 
           {/* Main Header */}
           <h2 className="text-2xl lg:text-3xl font-bold text-white mb-6 leading-tight max-w-5xl mx-auto">
-            Personalized guidance for setting up your business in 
-            <span className="text-blue-500"> less than 30 minutes</span>
+            {t('hero.title')}
+            <span className="text-blue-500"> {t('hero.titleHighlight')}</span>
           </h2>
 
           {/* Sub-headers */}
           <div className="space-y-4 mb-8">
             <p className="text-lg lg:text-xl text-white-400 max-w-4xl mx-auto leading-relaxed">
-              Your one-stop shop — get expert guidance on legal requirements, registration, 
-              financial options, branding and HR all tailored to your unique business idea.
+              {t('hero.subtitle')}
             </p>
           </div>
 
@@ -44,32 +45,32 @@ const Hero = ({ onNavigate }: HeroProps) => {
               onClick={handleStartJourneyClick}
               className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-4 rounded-lg font-semibold text-lg transition-all duration-200 hover:scale-105 flex items-center space-x-2 shadow-2xl"
             >
-              <span>Start Your Journey</span>
+              <span>{t('hero.start')}</span>
               <ArrowRight className="h-5 w-5" />
             </button>
             <button 
               onClick={handleStartJourneyClick}
               className="border-2 border-gray-600 hover:border-gray-400 text-gray-300 hover:text-white px-8 py-4 rounded-lg font-semibold text-lg transition-all duration-200"
             >
-              Try it for Free
+              {t('hero.tryFree')}
             </button>
           </div>
 
           {/* Trust indicators */}
           <div className="mt-16 pt-8 border-t border-gray-800">
-            <p className="text-gray-400 text-sm mb-4">Trusted by entrepreneurs across India</p>
+            <p className="text-gray-400 text-sm mb-4">{t('hero.trusted')}</p>
             <div className="flex items-center justify-center space-x-8 text-gray-500">
               <div className="flex items-center space-x-2">
                 <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                <span className="text-sm">Personalized</span>
+                <span className="text-sm">{t('auth.trustPersonalized')}</span>
               </div>
               <div className="flex items-center space-x-2">
                 <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                <span className="text-sm">Reliable</span>
+                <span className="text-sm">{t('auth.trustReliable')}</span>
               </div>
               <div className="flex items-center space-x-2">
                 <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                <span className="text-sm">Beginner Friendly</span>
+                <span className="text-sm">{t('auth.trustBeginnerFriendly')}</span>
               </div>
             </div>
           </div>
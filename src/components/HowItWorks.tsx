@@ -1,36 +1,38 @@
 import React from 'react';
 import { UserPlus, Settings, MessageSquare, Phone, History } from 'lucide-react';
+import { useLanguage } from '../lib/i18n';
 
 const HowItWorks = () => {
+  const { t } = useLanguage();
   const steps = [
     {
       icon: UserPlus,
-      title: 'On-boarding',
-      description: 'Register and sign in to StartUP Companion with a simple process.',
+      title: t('howItWorks.onboardingTitle'),
+      description: t('howItWorks.onboardingText'),
       accent: 'bg-black-500/10 border-white-500/20'
     },
     {
       icon: Settings,
-      title: 'Choose Your Service',
-      description: 'Select the support you need—such as idea tuning, registration, compliance, branding, or HR.',
+      title: t('howItWorks.serviceTitle'),
+      description: t('howItWorks.serviceText'),
       accent: 'bg-black-500/10 border-white-500/20'
     },
     {
       icon: MessageSquare,
-      title: 'Get Personalized Guidance',
-      description: 'Receive clear, tailored information to help you start your business.',
+      title: t('howItWorks.guidanceTitle'),
+      description: t('howItWorks.guidanceText'),
       accent: 'bg-black-500/10 border-white-500/20'
     },
     {
       icon: Phone,
-      title: 'Connect with Mentors',
-      description: 'If you need more clarity, connect directly with trusted mentors matched to your needs.',
+      title: t('howItWorks.mentorsTitle'),
+      description: t('howItWorks.mentorsText'),
       accent: 'bg-black-500/10 border-white-500/20'
     },
     {
       icon: History,
-      title: 'Access Your History',
-      description: 'Return anytime with new queries—your past interactions and history are always saved for easy reference.',
+      title: t('howItWorks.historyTitle'),
+      description: t('howItWorks.historyText'),
       accent: 'bg-black-500/10 border-white-500/20'
     }
   ];
@@ -41,10 +43,10 @@ const HowItWorks = () => {
         {/* Section Header */}
         <div className="text-center mb-16">
           <h2 className="text-3xl lg:text-4xl font-bold text-white mb-6">
-            How Does It Work?
+            {t('howItWorks.title')}
           </h2>
           <p className="text-xl text-white-400 max-w-2xl mx-auto">
-            Simple steps to transform your business idea into reality
+            {t('howItWorks.subtitle')}
           </p>
         </div>
 
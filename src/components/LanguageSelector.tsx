@@ -0,0 +1,38 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LANGUAGES, isLanguage, saveLanguagePreference, setLanguage, useLanguage } from '../lib/i18n';
+
+interface LanguageSelectorProps {
+  /** Signed-in user whose preference is saved; without one the choice is kept on this device only */
+  userId?: string;
+}
+
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({ userId }) => {
+  const { language, t } = useLanguage();
+
+  const handleChange = async (value: string) => {
+    if (!isLanguage(value)) return;
+    setLanguage(value);
+    if (userId) {
+      await saveLanguagePreference(userId, value);
+    }
+  };
+
+  return (
+    <label className="flex items-center space-x-1 text-gray-300" title={t('language.label')}>
+      <Languages className="h-5 w-5" />
+      <select
+        value={language}
+        onChange={(e) => handleChange(e.target.value)}
+        aria-label={t('language.label')}
+        className="bg-transparent text-sm text-gray-300 hover:text-white focus:outline-none cursor-pointer"
+      >
+        {LANGUAGES.map(entry => (
+          <option key={entry.code} value={entry.code} className="bg-gray-900">{entry.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSelector;
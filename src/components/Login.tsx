@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { Eye, EyeOff } from 'lucide-react';
 import { auth } from '../lib/auth';
+import { useLanguage } from '../lib/i18n';
 
 interface LoginProps {
   onNavigate?: (page: string) => void;
 }
 
 const Login = ({ onNavigate }: LoginProps) => {
+  const { t } = useLanguage();
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
@@ -49,7 +51,7 @@ const Login = ({ onNavigate }: LoginProps) => {
         }
       }
     } catch (err) {
-      setError('An unexpected error occurred. Please try again.');
+      setError(t('auth.unexpectedError'));
     } finally {
       setIsLoading(false);
     }
@@ -67,10 +69,10 @@ const Login = ({ onNavigate }: LoginProps) => {
         {/* Header */}
         <div className="text-center">
           <h2 className="text-3xl font-bold text-white mb-2">
-            Log In to Your Account
+            {t('login.title')}
           </h2>
           <p className="text-gray-400 text-lg">
-            Welcome back! Let's turn your idea into a legally established business.
+            {t('login.subtitle')}
           </p>
         </div>
 
@@ -87,7 +89,7 @@ const Login = ({ onNavigate }: LoginProps) => {
             {/* Email Field */}
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
-                Email Address *
+                {t('auth.emailLabel')}
               </label>
               <input
                 id="email"
@@ -97,14 +99,14 @@ const Login = ({ onNavigate }: LoginProps) => {
                 value={formData.email}
                 onChange={handleInputChange}
                 className="w-full px-4 py-3 bg-black/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-                placeholder="Enter your email address"
+                placeholder={t('auth.emailPlaceholder')}
               />
             </div>
 
             {/* Password Field */}
             <div>
               <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
-                Password *
+                {t('auth.passwordLabel')}
               </label>
               <div className="relative">
                 <input
@@ -115,7 +117,7 @@ const Login = ({ onNavigate }: LoginProps) => {
                   value={formData.password}
                   onChange={handleInputChange}
                   className="w-full px-4 py-3 pr-12 bg-black/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-                  placeholder="Enter your password"
+                  placeholder={t('login.passwordPlaceholder')}
                 />
                 <button
                   type="button"
@@ -133,19 +135,19 @@ const Login = ({ onNavigate }: LoginProps) => {
               disabled={isLoading}
               className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed text-white px-8 py-4 rounded-lg font-semibold text-lg transition-all duration-200 hover:scale-105 shadow-xl"
             >
-              {isLoading ? 'Signing In...' : 'Log In & Continue'}
+              {isLoading ? t('login.submitting') : t('login.submit')}
             </button>
           </form>
 
           {/* Additional Info */}
           <div className="mt-6 text-center">
             <p className="text-gray-400 text-sm">
-              New here?{' '}
+              {t('login.newHere')}{' '}
               <button 
                 onClick={handleSignupClick}
                 className="text-blue-500 hover:text-blue-400 font-medium transition-colors duration-200"
               >
-                Sign up to start your journey
+                {t('login.signupLink')}
               </button>
             </p>
           </div>
@@ -156,15 +158,15 @@ const Login = ({ onNavigate }: LoginProps) => {
           <div className="flex items-center justify-center space-x-6 text-gray-500 text-sm">
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span>Personalized</span>
+              <span>{t('auth.trustPersonalized')}</span>
             </div>
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span>Reliable</span>
+              <span>{t('auth.trustReliable')}</span>
             </div>
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span>Beginner Friendly</span>
+              <span>{t('auth.trustBeginnerFriendly')}</span>
             </div>
           </div>
         </div>
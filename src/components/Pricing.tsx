@@ -1,11 +1,13 @@
 import React from 'react';
 import { Check, ArrowRight } from 'lucide-react';
+import { useLanguage } from '../lib/i18n';
 
 interface PricingProps {
   onNavigate?: (page: string) => void;
 }
 
 const Pricing = ({ onNavigate }: PricingProps) => {
+  const { t } = useLanguage();
   const handleTryFreeClick = () => {
     if (onNavigate) {
       onNavigate('signup');
@@ -18,10 +20,10 @@ const Pricing = ({ onNavigate }: PricingProps) => {
         <div className="text-center">
           {/* Section Header */}
           <h2 className="text-3xl lg:text-4xl font-bold text-white mb-4">
-            All-Inclusive Startup Journey
+            {t('pricing.title')}
           </h2>
           <p className="text-xl text-gray-400 mb-12">
-            Get every query answered
+            {t('pricing.subtitle')}
           </p>
 
           {/* Pricing Card */}
@@ -33,18 +35,18 @@ const Pricing = ({ onNavigate }: PricingProps) => {
               <div className="relative z-10">
                 {/* Badge */}
                 <div className="inline-flex items-center px-4 py-2 bg-black-500/20 border border-black-500/30 rounded-full text-white-400 text-sm font-semibold mb-6">
-                  Free Trial Available
+                  {t('pricing.badge')}
                 </div>
 
                 {/* Features */}
                 <div className="space-y-4 mb-8">
                   {[
-                    'Legal compliance guidance',
-                    'Tax and grant discovery',
-                    'Branding assistance',
-                    'HR policy templates',
-                    'Local language support',
-                    'Personalized mentor consultation'
+                    t('pricing.featureCompliance'),
+                    t('pricing.featureTax'),
+                    t('pricing.featureBranding'),
+                    t('pricing.featureHr'),
+                    t('pricing.featureLanguage'),
+                    t('pricing.featureMentor')
                   ].map((feature, index) => (
                     <div key={index} className="flex items-center space-x-3">
                       <Check className="h-5 w-5 text-white-500 flex-shrink-0" />
@@ -58,12 +60,12 @@ const Pricing = ({ onNavigate }: PricingProps) => {
                   onClick={handleTryFreeClick}
                   className="w-full bg-blue-600 hover:bg-blue-700 text-white px-8 py-4 rounded-lg font-semibold text-lg transition-all duration-200 hover:scale-105 flex items-center justify-center space-x-2 shadow-xl"
                 >
-                  <span>Try it for free now</span>
+                  <span>{t('pricing.cta')}</span>
                   <ArrowRight className="h-5 w-5" />
                 </button>
 
                 <p className="text-sm text-gray-500 mt-4">
-                  No credit card required • Start immediately
+                  {t('pricing.note')}
                 </p>
               </div>
             </div>
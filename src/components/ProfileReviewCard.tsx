@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { AlertCircle, Check, ClipboardCheck, Loader2, Pencil, X } from 'lucide-react';
+import {
+  formatAnswer,
+  getAnswer,
+  getMissingQuestions,
+  getQuestionText,
+  getVisibleQuestions,
+  type QuestionDefinition,
+  type QuestionnaireDefinition
+} from '../lib/questionnaire';
+import { getGuidesAffectedBy } from '../lib/profileReview';
+import { useLanguage } from '../lib/i18n';
+
+interface ProfileReviewCardProps {
+  questionnaire: QuestionnaireDefinition;
+  profile: any;
+  /** 'generate' before the first generation; 'update' once guides exist */
+  mode: 'generate' | 'update';
+  /** Validates and saves one answer; resolves to an error message, or null once saved */
+  onSaveAnswer: (question: QuestionDefinition, input: string) => Promise<string | null>;
+  /** Called with the questions edited in this card */
+  onConfirm: (editedQuestions: QuestionDefinition[]) => void;
+  onClose?: () => void;
+  isBusy?: boolean;
+}
+
+// What the edit field starts with: the answer as the founder would type it
+const toDraft = (question: QuestionDefinition, value: unknown): string => {
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return formatAnswer(question, value);
+};
+
+const ProfileReviewCard: React.FC<ProfileReviewCardProps> = ({
+  questionnaire,
+  profile,
+  mode,
+  onSaveAnswer,
+  onConfirm,
+  onClose,
+  isBusy = false
+}) => {
+  const { language, t } = useLanguage();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editedQuestions, setEditedQuestions] = useState<QuestionDefinition[]>([]);
+
+  const questions = getVisibleQuestions(questionnaire, profile);
+  const missingIds = new Set(getMissingQuestions(questionnaire, profile).map(question => question.id));
+  const affectedGuides = getGuidesAffectedBy(editedQuestions);
+
+  const startEditing = (question: QuestionDefinition) => {
+    setEditingId(question.id);
+    setDraft(toDraft(question, getAnswer(profile, question)));
+    setError(null);
+  };
+
+  const handleSave = async (question: QuestionDefinition) => {
+    if (draft.trim() === toDraft(question, getAnswer(profile, question))) {
+      setEditingId(null);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    const errorMessage = await onSaveAnswer(question, draft);
+    setIsSaving(false);
+
+    if (errorMessage) {
+      setError(errorMessage);
+      return;
+    }
+    setEditingId(null);
+    setEditedQuestions(prev => (prev.some(edited => edited.id === question.id) ? prev : [...prev, question]));
+  };
+
+  const renderInput = (question: QuestionDefinition) => {
+    const inputClass = 'w-full bg-gray-900 border border-gray-700 text-white rounded-lg px-3 py-2 text-sm placeholder-gray-500';
+
+    if (question.type === 'yes_no' || (question.type === 'choice' && !question.allowOther)) {
+      const options = question.type === 'yes_no' ? ['yes', 'no'] : question.options ?? [];
+      const labels = question.type === 'yes_no' ? [t('common.yes'), t('common.no')] : getQuestionText(question, language).options ?? options;
+      return (
+        <select value={draft} onChange={(e) => setDraft(e.target.value)} disabled={isSaving} className={inputClass}>
+          <option value="" disabled>{t('review.choose')}</option>
+          {options.map((option, index) => (
+            <option key={option} value={option}>{labels[index]}</option>
+          ))}
+        </select>
+      );
+    }
+
+    if (question.type === 'long_text' || question.type === 'list') {
+      return (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          disabled={isSaving}
+          rows={3}
+          className={`${inputClass} resize-none`}
+        />
+      );
+    }
+
+    return (
+      <>
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSave(question); }}
+          disabled={isSaving}
+          list={question.options ? `options-${question.id}` : undefined}
+          className={inputClass}
+        />
+        {question.options && (
+          <datalist id={`options-${question.id}`}>
+            {(getQuestionText(question, language).options ?? question.options).map(option => <option key={option} value={option} />)}
+          </datalist>
+        )}
+      </>
+    );
+  };
+
+  const confirmLabel = mode === 'generate'
+    ? t('review.confirmGenerate')
+    : affectedGuides.length > 0
+      ? t(affectedGuides.length === 1 ? 'review.updateGuide' : 'review.updateGuides', {
+        guides: affectedGuides.map(guide => t(`service.${guide}` as const)).join(', ')
+      })
+      : t('review.done');
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center space-x-2">
+          <ClipboardCheck className="h-5 w-5 text-blue-400" />
+          <div>
+            <h3 className="text-white font-semibold">{t('review.title')}</h3>
+            <p className="text-xs text-gray-400">
+              {mode === 'generate' ? t('review.subtitleGenerate') : t('review.subtitleUpdate')}
+            </p>
+          </div>
+        </div>
+        {onClose && (
+          <button onClick={onClose} disabled={isBusy} className="text-gray-400 hover:text-white" aria-label={t('common.close')}>
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-700">
+        {questions.map(question => {
+          const value = formatAnswer(question, getAnswer(profile, question), language);
+          const text = getQuestionText(question, language);
+          const isMissing = missingIds.has(question.id);
+          const isEditing = editingId === question.id;
+
+          return (
+            <li key={question.id} className="py-3">
+              <div className="flex items-start justify-between space-x-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs uppercase tracking-wide text-gray-400">{text.prompt}</p>
+                  {!isEditing && (
+                    value
+                      ? <p className="text-sm text-gray-100 whitespace-pre-wrap break-words mt-1">{value}</p>
+                      : isMissing
+                        ? (
+                          <p className="flex items-center space-x-1 text-sm text-red-400 mt-1">
+                            <AlertCircle className="h-4 w-4" />
+                            <span>{t('review.required')}</span>
+                          </p>
+                        )
+                        : <p className="text-sm text-gray-500 italic mt-1">{t('review.skipped')}</p>
+                  )}
+                </div>
+                {!isEditing && (
+                  <button
+                    onClick={() => startEditing(question)}
+                    disabled={isBusy || editingId !== null}
+                    className="flex items-center space-x-1 text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                  >
+                    <Pencil className="h-3 w-3" />
+                    <span>{value ? t('common.edit') : t('common.add')}</span>
+                  </button>
+                )}
+              </div>
+
+              {isEditing && (
+                <div className="mt-2 space-y-2">
+                  {renderInput(question)}
+                  {text.helpText && <p className="text-xs text-gray-400">{text.helpText}</p>}
+                  {error && <p className="text-sm text-red-400">{error}</p>}
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleSave(question)}
+                      disabled={isSaving}
+                      className="flex items-center space-x-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm px-3 py-1.5 rounded-lg"
+                    >
+                      {isSaving ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
+                      <span>{isSaving ? t('common.saving') : t('common.save')}</span>
+                    </button>
+                    <button
+                      onClick={() => { setEditingId(null); setError(null); }}
+                      disabled={isSaving}
+                      className="text-sm text-gray-400 hover:text-white px-3 py-1.5"
+                    >
+                      {t('common.cancel')}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center justify-between">
+        <p className={`text-xs ${missingIds.size > 0 ? 'text-red-400' : 'text-gray-400'}`}>
+          {missingIds.size > 0
+            ? t(missingIds.size === 1 ? 'review.missingOne' : 'review.missingOther', { count: missingIds.size })
+            : t('review.allFilled')}
+        </p>
+        <button
+          onClick={() => onConfirm(editedQuestions)}
+          disabled={isBusy || editingId !== null || missingIds.size > 0}
+          className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors duration-200"
+        >
+          {isBusy && <Loader2 className="h-4 w-4 animate-spin" />}
+          <span>{confirmLabel}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileReviewCard;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import type { GuideSectionHeading } from '../lib/guideSections';
+import { useLanguage } from '../lib/i18n';
+
+interface SectionRegeneratorProps {
+  sections: GuideSectionHeading[];
+  /** Resolves to an error message, or null once the section has been replaced */
+  onRegenerate: (section: GuideSectionHeading, instruction: string) => Promise<string | null>;
+}
+
+const SectionRegenerator: React.FC<SectionRegeneratorProps> = ({ sections, onRegenerate }) => {
+  const { t } = useLanguage();
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [instruction, setInstruction] = useState('');
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+
+  if (sections.length === 0) {
+    return <p className="text-gray-400 text-sm">{t('section.none')}</p>;
+  }
+
+  const selectedSection = sections[Math.min(sectionIndex, sections.length - 1)];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsRegenerating(true);
+    setError(null);
+    setLastUpdated(null);
+
+    const errorMessage = await onRegenerate(selectedSection, instruction.trim());
+
+    setIsRegenerating(false);
+    if (errorMessage) {
+      setError(errorMessage);
+    } else {
+      setLastUpdated(selectedSection.title);
+      setInstruction('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div>
+        <label className="block text-xs uppercase tracking-wide text-gray-400 mb-1">{t('section.label')}</label>
+        <select
+          value={selectedSection.index}
+          onChange={(e) => setSectionIndex(Number(e.target.value))}
+          disabled={isRegenerating}
+          className="w-full bg-gray-900 border border-gray-700 text-white rounded-lg px-3 py-2 text-sm"
+        >
+          {sections.map(section => (
+            <option key={section.index} value={section.index}>{section.title}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-xs uppercase tracking-wide text-gray-400 mb-1">{t('section.instructionLabel')}</label>
+        <textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          disabled={isRegenerating}
+          maxLength={1000}
+          rows={3}
+          placeholder={t('section.instructionPlaceholder')}
+          className="w-full bg-gray-900 border border-gray-700 text-white rounded-lg px-3 py-2 text-sm placeholder-gray-500 resize-none"
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-400">{t('section.hint')}</p>
+        <button
+          type="submit"
+          disabled={isRegenerating}
+          className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors duration-200"
+        >
+          {isRegenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          <span>{isRegenerating ? t('section.regenerating') : t('section.submit')}</span>
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {lastUpdated && <p className="text-sm text-green-400">{t('section.updated', { title: lastUpdated })}</p>}
+    </form>
+  );
+};
+
+export default SectionRegenerator;
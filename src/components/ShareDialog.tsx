@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, Eye, Link2, Loader2, Lock, X } from 'lucide-react';
+import {
+  createShareLink,
+  getShareLinks,
+  getShareUrl,
+  getShareViews,
+  isShareActive,
+  revokeShareLink,
+  type DocumentShare,
+  type DocumentShareView,
+  type ShareTarget
+} from '../lib/shares';
+import { useLanguage, type MessageKey } from '../lib/i18n';
+
+interface ShareDialogProps {
+  target: ShareTarget;
+  /** What is being shared, e.g. the guide title or the business name */
+  title: string;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [1, 7, 30, 90];
+
+const describeStatus = (share: DocumentShare, t: (key: MessageKey, params?: Record<string, string | number>) => string) => {
+  if (share.revoked_at) return t('share.revoked');
+  if (!isShareActive(share)) return t('share.expired');
+  return t('share.expires', { date: new Date(share.expires_at).toLocaleDateString() });
+};
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ target, title, onClose }) => {
+  const { t } = useLanguage();
+  const [shares, setShares] = useState<DocumentShare[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [passcode, setPasscode] = useState('');
+  const [label, setLabel] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [viewLog, setViewLog] = useState<{ shareId: string; views: DocumentShareView[] } | null>(null);
+
+  useEffect(() => {
+    getShareLinks(target).then(links => {
+      setShares(links);
+      setLoading(false);
+    });
+  }, ['documentId' in target ? target.documentId : target.businessId]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    const result = await createShareLink(target, {
+      expiresInDays,
+      passcode: passcode.trim() || undefined,
+      label: label.trim() || undefined
+    });
+    setIsCreating(false);
+
+    if (!result.success || !result.share) {
+      setError(result.error || t('share.createError'));
+      return;
+    }
+    setShares(prev => [result.share!, ...prev]);
+    setPasscode('');
+    setLabel('');
+    await handleCopy(result.share);
+  };
+
+  const handleCopy = async (share: DocumentShare) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.token));
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId(current => (current === share.id ? null : current)), 2000);
+    } catch (err) {
+      console.error('Error copying share link:', err);
+    }
+  };
+
+  const handleRevoke = async (share: DocumentShare) => {
+    if (!(await revokeShareLink(share.id))) {
+      setError(t('share.revokeError'));
+      return;
+    }
+    setShares(prev => prev.map(item => (item.id === share.id ? { ...item, revoked_at: new Date().toISOString() } : item)));
+  };
+
+  const handleToggleViews = async (share: DocumentShare) => {
+    if (viewLog?.shareId === share.id) {
+      setViewLog(null);
+      return;
+    }
+    setViewLog({ shareId: share.id, views: await getShareViews(share.id) });
+  };
+
+  const inputClass = 'w-full bg-gray-900 border border-gray-700 text-white rounded-lg px-3 py-2 text-sm placeholder-gray-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-gray-800 border border-gray-700 rounded-lg p-6 space-y-5">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center space-x-2">
+            <Link2 className="h-5 w-5 text-blue-400" />
+            <div>
+              <h3 className="text-white font-semibold">{t('share.title', { title })}</h3>
+              <p className="text-xs text-gray-400">{t('share.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('common.close')}>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <label className="space-y-1">
+            <span className="text-xs text-gray-400">{t('share.expiresAfter')}</span>
+            <select value={expiresInDays} onChange={(e) => setExpiresInDays(Number(e.target.value))} className={inputClass}>
+              {EXPIRY_OPTIONS.map(days => (
+                <option key={days} value={days}>{t(days === 1 ? 'share.dayOne' : 'share.dayOther', { count: days })}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-gray-400">{t('share.passcode')}</span>
+            <input type="text" value={passcode} onChange={(e) => setPasscode(e.target.value)} placeholder={t('share.passcodePlaceholder')} className={inputClass} />
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-gray-400">{t('share.label')}</span>
+            <input type="text" value={label} onChange={(e) => setLabel(e.target.value)} placeholder={t('share.labelPlaceholder')} className={inputClass} />
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <button
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors duration-200"
+        >
+          {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+          <span>{isCreating ? t('share.creating') : t('share.create')}</span>
+        </button>
+
+        <div className="border-t border-gray-700 pt-4">
+          <p className="text-xs uppercase tracking-wide text-gray-400 mb-2">{t('share.links')}</p>
+          {loading ? (
+            <div className="flex items-center space-x-2 text-sm text-gray-400">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>{t('share.loading')}</span>
+            </div>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('share.empty')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {shares.map(share => {
+                const active = isShareActive(share);
+                return (
+                  <li key={share.id} className="py-3">
+                    <div className="flex items-center justify-between space-x-3">
+                      <div className="min-w-0">
+                        <p className="flex items-center space-x-1 text-sm text-gray-100">
+                          {share.has_passcode && <Lock className="h-3 w-3 text-gray-400" />}
+                          <span className="truncate">{share.label || t('share.created', { date: new Date(share.created_at).toLocaleDateString() })}</span>
+                        </p>
+                        <p className={`text-xs ${active ? 'text-gray-400' : 'text-red-400'}`}>
+                          {describeStatus(share, t)} • {t(share.view_count === 1 ? 'share.viewOne' : 'share.viewOther', { count: share.view_count })}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-3 text-sm">
+                        <button onClick={() => handleToggleViews(share)} className="flex items-center space-x-1 text-gray-300 hover:text-white">
+                          <Eye className="h-3 w-3" />
+                          <span>{t('share.log')}</span>
+                        </button>
+                        {active && (
+                          <>
+                            <button onClick={() => handleCopy(share)} className="flex items-center space-x-1 text-blue-400 hover:text-blue-300">
+                              {copiedId === share.id ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                              <span>{copiedId === share.id ? t('share.copied') : t('share.copy')}</span>
+                            </button>
+                            <button onClick={() => handleRevoke(share)} className="text-red-400 hover:text-red-300">
+                              {t('share.revoke')}
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    {viewLog?.shareId === share.id && (
+                      <div className="mt-2 rounded-lg bg-gray-900 p-3 text-xs text-gray-300">
+                        {viewLog.views.length === 0 ? (
+                          <p className="text-gray-500">{t('share.notOpened')}</p>
+                        ) : (
+                          <ul className="space-y-1">
+                            {viewLog.views.map(view => (
+                              <li key={view.id} className="flex justify-between space-x-3">
+                                <span>{new Date(view.viewed_at).toLocaleString()}</span>
+                                <span className={view.succeeded ? 'text-gray-400 truncate' : 'text-red-400'}>
+                                  {view.succeeded ? view.user_agent || t('share.unknownBrowser') : t('share.wrongPasscode')}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
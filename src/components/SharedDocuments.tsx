@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Building2, Eye, FileText, Loader2, Lock } from 'lucide-react';
+import DocumentViewer from './DocumentViewer';
+import LanguageSelector from './LanguageSelector';
+import { getSharedPdfUrl, openShareLink, type SharedBundle, type SharedDocument } from '../lib/shares';
+import { useLanguage } from '../lib/i18n';
+
+interface SharedDocumentsProps {
+  token: string;
+}
+
+// Signed PDF URLs from the edge function stop working after five minutes
+const SIGNED_URL_MAX_AGE_MS = 4 * 60 * 1000;
+
+/** Read-only page for a share link; works without signing in */
+const SharedDocuments: React.FC<SharedDocumentsProps> = ({ token }) => {
+  const { t } = useLanguage();
+  const [bundle, setBundle] = useState<SharedBundle | null>(null);
+  const [loadedAt, setLoadedAt] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [needsPasscode, setNeedsPasscode] = useState(false);
+  const [passcode, setPasscode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<SharedDocument | null>(null);
+
+  const open = async (withPasscode?: string) => {
+    setLoading(true);
+    setError(null);
+    const result = await openShareLink(token, withPasscode);
+    setLoading(false);
+
+    if (!result.success || !result.bundle) {
+      setNeedsPasscode(!!result.passcodeRequired);
+      // Asking for the passcode the first time is not an error
+      setError(result.passcodeRequired && !withPasscode ? null : result.error || t('share.openError'));
+      return;
+    }
+
+    setNeedsPasscode(false);
+    setBundle(result.bundle);
+    setLoadedAt(Date.now());
+  };
+
+  useEffect(() => {
+    open();
+  }, [token]);
+
+  // The window is opened within the click, before anything is awaited, so popup
+  // blockers let it through; a fresh URL is loaded into it once the old one expires
+  const handleDownload = (doc: SharedDocument) => {
+    const pdfWindow = window.open('', '_blank');
+    if (!pdfWindow) return;
+    pdfWindow.opener = null;
+
+    if (doc.pdf_url && Date.now() - loadedAt <= SIGNED_URL_MAX_AGE_MS) {
+      pdfWindow.location.href = doc.pdf_url;
+      return;
+    }
+
+    getSharedPdfUrl(token, doc.id, passcode.trim() || undefined).then(result => {
+      if (result.success && result.url) {
+        pdfWindow.location.href = result.url;
+      } else {
+        pdfWindow.close();
+      }
+    });
+  };
+
+  if (selected) {
+    return (
+      <div className="h-screen flex flex-col">
+        <DocumentViewer
+          document={{
+            id: selected.id,
+            type: selected.document_type,
+            title: selected.document_title,
+            keyPoints: selected.key_points || [],
+            fullContent: selected.full_content || '',
+            structuredData: selected.structured_data,
+            hasPdf: !!selected.pdf_url,
+            status: 'completed'
+          }}
+          onBack={() => setSelected(null)}
+          onDownloadPdf={() => handleDownload(selected)}
+          readOnly
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black flex flex-col">
+      <header className="border-b border-gray-800 px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <img src="/Logo Gear.png" alt="StartUP Companion Logo" className="h-8 w-8" />
+          <span className="text-xl font-bold text-white">StartUP Companion</span>
+        </div>
+        <LanguageSelector />
+      </header>
+
+      <main className="flex-1 max-w-4xl w-full mx-auto px-4 py-10">
+        {loading && !bundle ? (
+          <div className="flex items-center justify-center py-16 text-gray-400">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-400" />
+            <span className="ml-3">{t('shared.opening')}</span>
+          </div>
+        ) : needsPasscode ? (
+          <form
+            onSubmit={(e) => { e.preventDefault(); if (passcode.trim()) open(passcode.trim()); }}
+            className="max-w-sm mx-auto bg-gray-800 border border-gray-700 rounded-lg p-6 space-y-4"
+          >
+            <div className="flex items-center space-x-2">
+              <Lock className="h-5 w-5 text-blue-400" />
+              <h2 className="text-white font-semibold">{t('shared.protected')}</h2>
+            </div>
+            <input
+              type="password"
+              value={passcode}
+              onChange={(e) => setPasscode(e.target.value)}
+              placeholder={t('shared.passcode')}
+              autoFocus
+              className="w-full bg-gray-900 border border-gray-700 text-white rounded-lg px-3 py-2 placeholder-gray-500"
+            />
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <button
+              type="submit"
+              disabled={loading || !passcode.trim()}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors duration-200"
+            >
+              {loading ? t('shared.checking') : t('shared.view')}
+            </button>
+          </form>
+        ) : !bundle ? (
+          <div className="text-center text-gray-400 py-16">{error}</div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h1 className="flex items-center space-x-2 text-3xl font-bold text-white">
+                {bundle.kind === 'business' && <Building2 className="h-7 w-7 text-blue-400" />}
+                <span>{bundle.title}</span>
+              </h1>
+              <p className="text-sm text-gray-400 mt-1">
+                {t('shared.until', { date: new Date(bundle.expiresAt).toLocaleDateString() })}
+              </p>
+            </div>
+
+            {bundle.documents.length === 0 ? (
+              <p className="text-gray-400">{t('shared.empty')}</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {bundle.documents.map(doc => (
+                  <div key={doc.id} className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-3">
+                    <div className="flex items-center space-x-2">
+                      <FileText className="h-5 w-5 text-blue-400" />
+                      <h2 className="text-white font-semibold">{doc.document_title}</h2>
+                    </div>
+                    <ul className="text-sm text-gray-300 space-y-1">
+                      {(doc.key_points || []).slice(0, 3).map((point, index) => <li key={index}>• {point}</li>)}
+                    </ul>
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => setSelected(doc)}
+                        className="flex items-center space-x-1 text-sm text-blue-400 hover:text-blue-300"
+                      >
+                        <Eye className="h-4 w-4" />
+                        <span>{t('shared.read')}</span>
+                      </button>
+                      {doc.pdf_url && (
+                        <button
+                          onClick={() => handleDownload(doc)}
+                          className="text-sm text-blue-400 hover:text-blue-300"
+                        >
+                          {t('history.downloadPdf')}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedDocuments;
@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { Eye, EyeOff, Info } from 'lucide-react';
 import { auth } from '../lib/auth';
+import { useLanguage } from '../lib/i18n';
 
 interface SignupProps {
   onNavigate?: (page: string) => void;
 }
 
 const Signup = ({ onNavigate }: SignupProps) => {
+  const { t } = useLanguage();
   const [showPassword, setShowPassword] = useState(false);
   const [showTooltip, setShowTooltip] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -24,16 +26,16 @@ const Signup = ({ onNavigate }: SignupProps) => {
     const hasSymbol = /[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password);
     
     if (password.length < minLength) {
-      return 'Password must be at least 8 characters long';
+      return t('signup.passwordTooShort');
     }
     if (!hasLetter) {
-      return 'Password must contain at least one letter';
+      return t('signup.passwordNeedsLetter');
     }
     if (!hasNumber) {
-      return 'Password must contain at least one number';
+      return t('signup.passwordNeedsNumber');
     }
     if (!hasSymbol) {
-      return 'Password must contain at least one symbol';
+      return t('signup.passwordNeedsSymbol');
     }
     return '';
   };
@@ -73,7 +75,7 @@ const Signup = ({ onNavigate }: SignupProps) => {
       }
       
       if (result.user) {
-        setSuccess('Account created successfully! Logging you in...');
+        setSuccess(t('signup.success'));
 
         // Auto-login after successful signup
         const loginResult = await auth.signIn(formData.email, formData.password);
@@ -95,7 +97,7 @@ const Signup = ({ onNavigate }: SignupProps) => {
         }
       }
     } catch (err) {
-      setError('An unexpected error occurred. Please try again.');
+      setError(t('auth.unexpectedError'));
     } finally {
       setIsLoading(false);
     }
@@ -113,10 +115,10 @@ const Signup = ({ onNavigate }: SignupProps) => {
         {/* Header */}
         <div className="text-center">
           <h2 className="text-3xl font-bold text-white mb-2">
-            Create Your Account
+            {t('signup.title')}
           </h2>
           <p className="text-gray-400 text-lg">
-            Your startup journey begins here!
+            {t('signup.subtitle')}
           </p>
         </div>
 
@@ -140,7 +142,7 @@ const Signup = ({ onNavigate }: SignupProps) => {
             {/* Email Field */}
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
-                Email Address *
+                {t('auth.emailLabel')}
               </label>
               <input
                 id="email"
@@ -150,14 +152,14 @@ const Signup = ({ onNavigate }: SignupProps) => {
                 value={formData.email}
                 onChange={handleInputChange}
                 className="w-full px-4 py-3 bg-black/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-                placeholder="Enter your email address"
+                placeholder={t('auth.emailPlaceholder')}
               />
             </div>
 
             {/* Password Field */}
             <div>
               <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
-                Password *
+                {t('auth.passwordLabel')}
               </label>
               <div className="relative">
                 <input
@@ -168,7 +170,7 @@ const Signup = ({ onNavigate }: SignupProps) => {
                   value={formData.password}
                   onChange={handleInputChange}
                   className="w-full px-4 py-3 pr-12 bg-black/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-                  placeholder="Create a secure password"
+                  placeholder={t('signup.passwordPlaceholder')}
                 />
                 <button
                   type="button"
@@ -188,13 +190,13 @@ const Signup = ({ onNavigate }: SignupProps) => {
                   className="flex items-center space-x-1 text-gray-400 hover:text-gray-300 transition-colors duration-200"
                 >
                   <Info className="h-4 w-4" />
-                  <span className="text-sm">Password requirements</span>
+                  <span className="text-sm">{t('signup.requirementsLabel')}</span>
                 </button>
                 
                 {showTooltip && (
                   <div className="absolute top-full left-0 mt-2 p-3 bg-gray-800 border border-gray-600 rounded-lg shadow-lg z-10 w-full">
                     <p className="text-sm text-gray-300">
-                      8+ characters with at least one letter, number, and symbol
+                      {t('signup.requirements')}
                     </p>
                   </div>
                 )}
@@ -207,19 +209,19 @@ const Signup = ({ onNavigate }: SignupProps) => {
               disabled={isLoading}
               className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed text-white px-8 py-4 rounded-lg font-semibold text-lg transition-all duration-200 hover:scale-105 shadow-xl"
             >
-              {isLoading ? 'Creating Account...' : 'Sign Up & Get Started'}
+              {isLoading ? t('signup.submitting') : t('signup.submit')}
             </button>
           </form>
 
           {/* Additional Info */}
           <div className="mt-6 text-center">
             <p className="text-gray-400 text-sm">
-              Already have an account?{' '}
+              {t('signup.haveAccount')}{' '}
               <button 
                 onClick={handleLoginClick}
                 className="text-blue-500 hover:text-blue-400 font-medium transition-colors duration-200"
               >
-                Sign in here
+                {t('signup.loginLink')}
               </button>
             </p>
           </div>
@@ -230,15 +232,15 @@ const Signup = ({ onNavigate }: SignupProps) => {
           <div className="flex items-center justify-center space-x-6 text-gray-500 text-sm">
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span>Personalized</span>
+              <span>{t('auth.trustPersonalized')}</span>
             </div>
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span>Reliable</span>
+              <span>{t('auth.trustReliable')}</span>
             </div>
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span>Beginner Friendly</span>
+              <span>{t('auth.trustBeginnerFriendly')}</span>
             </div>
           </div>
         </div>
@@ -1,25 +1,27 @@
 import React from 'react';
 import { Star, Quote } from 'lucide-react';
+import { useLanguage } from '../lib/i18n';
 
 const Testimonials = () => {
+  const { t } = useLanguage();
   const testimonials = [
     {
-      quote: "As a first-time founder, Startup Companion took all the fear out of registrations and compliance. I registered my LLP with zero hassle.",
+      quote: t('testimonials.rajeshQuote'),
       author: "Rajesh S.",
-      role: "Founder",
-      company: "Management Consultant, Mumbai"
+      role: t('testimonials.founder'),
+      company: t('testimonials.rajeshCompany')
     },
     {
-      quote: "The financial setup agent was incredible! They helped me find grants I didn't even know existed and set up my business banking in less than 30 minutes.",
+      quote: t('testimonials.emilyQuote'),
       author: "Emily K.",
-      role: "Co-founder",
-      company: "Marketing Agency, Kolkatta"
+      role: t('testimonials.coFounder'),
+      company: t('testimonials.emilyCompany')
     },
     {
-      quote: "Everything was built for beginners like me—from legal templates to step-by-step workflows. Highly recommended!",
+      quote: t('testimonials.swethaQuote'),
       author: "Swetha M.",
-      role: "Small Business Owner",
-      company: "Hyderabad"
+      role: t('testimonials.smallBusinessOwner'),
+      company: t('testimonials.swethaCompany')
     }
   ];
 
@@ -29,10 +31,10 @@ const Testimonials = () => {
         {/* Section Header */}
         <div className="text-center mb-16">
           <h2 className="text-3xl lg:text-2xl font-bold text-white mb-6">
-            What Our Founders Say
+            {t('testimonials.title')}
           </h2>
           <p className="text-xl text-gray-400 max-w-2xl mx-auto">
-            Real stories from entrepreneurs who transformed their ideas into successful businesses
+            {t('testimonials.subtitle')}
           </p>
         </div>
 
@@ -0,0 +1,49 @@
+import { supabase } from './supabase';
+import { getLanguage, requestErrorMessage, translate } from './i18n';
+import type { NormalizeKind } from './questionnaire';
+
+export interface NormalizedAnswer {
+  /** business_profiles fields to save once the founder confirms */
+  fields: Record<string, unknown>;
+  /** What was understood, shown to the founder for confirmation */
+  summary: string;
+}
+
+/**
+ * Turns a free-text questionnaire answer into structured profile fields with
+ * the normalize-answer edge function: partners with role, residency and DIN
+ * status, a canonical city and state, or an industry category.
+ */
+export async function normalizeAnswer(
+  sessionId: string,
+  kind: NormalizeKind,
+  answer: string
+): Promise<{ success: boolean; normalized?: NormalizedAnswer; error?: string }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      console.error('No active session found');
+      return { success: false, error: translate(getLanguage(), 'common.signInAgain') };
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/normalize-answer`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sessionId, kind, answer, language: getLanguage() })
+    });
+
+    const body = await response.json();
+    if (!response.ok) {
+      console.error('Error normalizing answer:', body);
+      return { success: false, error: requestErrorMessage(body.userMessage, 'normalize.error') };
+    }
+
+    return { success: true, normalized: { fields: body.fields || {}, summary: body.summary || '' } };
+  } catch (err) {
+    console.error('Unexpected error normalizing answer:', err);
+    return { success: false, error: translate(getLanguage(), 'normalize.error') };
+  }
+}
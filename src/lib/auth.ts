@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { getLanguage, requestErrorMessage, translate, type MessageKey } from './i18n';
 
 export interface User {
   id: string;
@@ -12,6 +13,18 @@ export interface AuthResponse {
   error?: string;
 }
 
+// Supabase Auth errors a founder can fix themselves, shown in their language
+const AUTH_ERROR_MESSAGES: Record<string, MessageKey> = {
+  'Invalid login credentials': 'login.invalidCredentials',
+  'User already registered': 'signup.alreadyRegistered',
+  'Email not confirmed': 'login.emailNotConfirmed'
+};
+
+const authErrorMessage = (message: string, fallback: MessageKey) => {
+  const key = AUTH_ERROR_MESSAGES[message];
+  return key ? translate(getLanguage(), key) : requestErrorMessage(message, fallback);
+};
+
 export const auth = {
   // Sign up new user
   async signUp(email: string, password: string): Promise<AuthResponse> {
@@ -22,7 +35,7 @@ export const auth = {
       });
 
       if (error) {
-        return { error: error.message };
+        return { error: authErrorMessage(error.message, 'signup.failed') };
       }
 
       if (data.user) {
@@ -36,9 +49,9 @@ export const auth = {
         };
       }
 
-      return { error: 'Failed to create user' };
+      return { error: translate(getLanguage(), 'signup.failed') };
     } catch (err) {
-      return { error: 'An unexpected error occurred during signup' };
+      return { error: translate(getLanguage(), 'auth.unexpectedError') };
     }
   },
 
@@ -51,7 +64,7 @@ export const auth = {
       });
 
       if (error) {
-        return { error: error.message };
+        return { error: authErrorMessage(error.message, 'login.failed') };
       }
 
       if (data.user) {
@@ -65,9 +78,9 @@ export const auth = {
         };
       }
 
-      return { error: 'Failed to sign in' };
+      return { error: translate(getLanguage(), 'login.failed') };
     } catch (err) {
-      return { error: 'An unexpected error occurred during login' };
+      return { error: translate(getLanguage(), 'auth.unexpectedError') };
     }
   },
 
@@ -0,0 +1,179 @@
+import { supabase } from './supabase';
+import { getLanguage, requestErrorMessage, translate } from './i18n';
+
+/**
+ * How a business's guide PDFs look when brand theming is on. Colors and
+ * fonts live in business_profiles.color_palette and typography, filled from
+ * the branding guide until the founder edits them here.
+ */
+export interface BrandKit {
+  useBrandTheme: boolean;
+  primaryColor: string | null;
+  secondaryColor: string | null;
+  headingFont: string | null;
+  bodyFont: string | null;
+  /** Path in the business-documents bucket, or a link to a logo hosted elsewhere */
+  logo: string | null;
+  /** Where the colors and fonts came from */
+  source: 'branding_guide' | 'founder' | null;
+}
+
+/** Fonts the PDFs can embed. Mirrored in supabase/functions/_shared/pdfFonts.ts */
+export const BRAND_FONTS = [
+  'Inter',
+  'Roboto',
+  'Open Sans',
+  'Lato',
+  'Montserrat',
+  'Poppins',
+  'Nunito',
+  'Raleway',
+  'Work Sans',
+  'Source Sans 3',
+  'Merriweather',
+  'Playfair Display',
+  'Lora',
+  'PT Serif',
+  'Libre Baskerville',
+  'Roboto Slab'
+];
+
+const LOGO_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg'
+};
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+export async function getBrandKit(businessId: string): Promise<BrandKit | null> {
+  try {
+    const [{ data: business, error: businessError }, { data: profile, error: profileError }] = await Promise.all([
+      supabase.from('businesses').select('use_brand_theme').eq('id', businessId).maybeSingle(),
+      supabase
+        .from('business_profiles')
+        .select('color_palette, typography, logo_design_url')
+        .eq('business_id', businessId)
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+    ]);
+
+    if (businessError || profileError) {
+      console.error('Error fetching brand kit:', businessError || profileError);
+      return null;
+    }
+
+    const palette = profile?.color_palette || {};
+    const typography = profile?.typography || {};
+    return {
+      useBrandTheme: !!business?.use_brand_theme,
+      primaryColor: palette.primary || null,
+      secondaryColor: palette.secondary || null,
+      headingFont: typography.headline || null,
+      bodyFont: typography.body || null,
+      logo: profile?.logo_design_url || null,
+      source: palette.source || typography.source || null
+    };
+  } catch (err) {
+    console.error('Unexpected error fetching brand kit:', err);
+    return null;
+  }
+}
+
+/**
+ * Saves the founder's brand kit on the business and all of its profiles,
+ * uploads a new logo when one is given, then has the documents edge function
+ * re-render the business's current guide PDFs in the new look.
+ */
+export async function saveBrandKit(
+  userId: string,
+  businessId: string,
+  kit: Omit<BrandKit, 'source'>,
+  logoFile?: File | null
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    let logo = kit.logo;
+    if (logoFile) {
+      const extension = LOGO_TYPES[logoFile.type];
+      if (!extension) {
+        return { success: false, error: translate(getLanguage(), 'brandKit.logoType') };
+      }
+      if (logoFile.size > MAX_LOGO_BYTES) {
+        return { success: false, error: translate(getLanguage(), 'brandKit.logoSize') };
+      }
+
+      logo = `${userId}/brand/${businessId}/logo.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from('business-documents')
+        .upload(logo, logoFile, { contentType: logoFile.type, upsert: true });
+
+      if (uploadError) {
+        console.error('Error uploading logo:', uploadError);
+        return { success: false, error: translate(getLanguage(), 'brandKit.logoUploadError') };
+      }
+    }
+
+    const { error: businessError } = await supabase
+      .from('businesses')
+      .update({ use_brand_theme: kit.useBrandTheme })
+      .eq('id', businessId);
+
+    if (businessError) {
+      console.error('Error saving brand theme setting:', businessError);
+      return { success: false, error: translate(getLanguage(), 'brandKit.saveError') };
+    }
+
+    const colors = [kit.primaryColor, kit.secondaryColor].filter(Boolean);
+    const { error: profileError } = await supabase
+      .from('business_profiles')
+      .update({
+        color_palette: { primary: kit.primaryColor, secondary: kit.secondaryColor, colors, source: 'founder' },
+        typography: { headline: kit.headingFont, body: kit.bodyFont, source: 'founder' },
+        logo_design_url: logo
+      })
+      .eq('business_id', businessId);
+
+    if (profileError) {
+      console.error('Error saving brand kit:', profileError);
+      return { success: false, error: translate(getLanguage(), 'brandKit.saveError') };
+    }
+
+    return await restyleGuides(businessId);
+  } catch (err) {
+    console.error('Unexpected error saving brand kit:', err);
+    return { success: false, error: translate(getLanguage(), 'brandKit.saveError') };
+  }
+}
+
+async function restyleGuides(businessId: string): Promise<{ success: boolean; error?: string }> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    console.error('No active session found');
+    return { success: false, error: translate(getLanguage(), 'brandKit.restyleSignIn') };
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/documents`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action: 'restyle', businessId })
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    console.error('Error restyling guides:', result);
+    return { success: false, error: requestErrorMessage(result.userMessage, 'brandKit.restyleError') };
+  }
+
+  // Guides that failed keep their previous PDF; saving again retries them
+  if (result.restyled < result.total) {
+    console.error('Some guides could not be restyled:', result.results);
+    return {
+      success: false,
+      error: translate(getLanguage(), 'brandKit.restylePartial', { failed: result.total - result.restyled, total: result.total })
+    };
+  }
+
+  return { success: true };
+}
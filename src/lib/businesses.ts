@@ -0,0 +1,165 @@
+import { supabase } from './supabase';
+import { createSession } from './session';
+
+/**
+ * A business the user is working on. Sessions, their business profiles and
+ * therefore their guides belong to one business.
+ */
+export interface Business {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** The user's businesses, most recently worked on first */
+export async function getBusinesses(userId: string): Promise<Business[]> {
+  try {
+    const { data, error } = await supabase
+      .from('businesses')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching businesses:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Unexpected error fetching businesses:', err);
+    return [];
+  }
+}
+
+export async function createBusiness(userId: string, name: string): Promise<Business | null> {
+  try {
+    const { data, error } = await supabase
+      .from('businesses')
+      .insert([{ user_id: userId, name: name.trim() || 'Unnamed Business' }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating business:', error);
+      return null;
+    }
+
+    return data;
+  } catch (err) {
+    console.error('Unexpected error creating business:', err);
+    return null;
+  }
+}
+
+/**
+ * Links a session and its business profile to a business, and moves the
+ * business to the top of the switcher.
+ */
+export async function assignSessionToBusiness(sessionId: string, businessId: string): Promise<boolean> {
+  try {
+    const { error: sessionError } = await supabase
+      .from('user_sessions')
+      .update({ business_id: businessId })
+      .eq('id', sessionId);
+
+    if (sessionError) {
+      console.error('Error assigning session to business:', sessionError);
+      return false;
+    }
+
+    const { error: profileError } = await supabase
+      .from('business_profiles')
+      .update({ business_id: businessId })
+      .eq('session_id', sessionId);
+
+    if (profileError) {
+      console.error('Error assigning business profile to business:', profileError);
+      return false;
+    }
+
+    await supabase
+      .from('businesses')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', businessId);
+
+    return true;
+  } catch (err) {
+    console.error('Unexpected error assigning session to business:', err);
+    return false;
+  }
+}
+
+/** The most recent session of the business that has guides, or null */
+export async function getLatestGuideSession(businessId: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase
+      .from('generated_documents')
+      .select('session_id, user_sessions!inner(business_id)')
+      .eq('user_sessions.business_id', businessId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error finding the latest guides of business:', error);
+      return null;
+    }
+
+    return data?.session_id || null;
+  } catch (err) {
+    console.error('Unexpected error finding the latest guides of business:', err);
+    return null;
+  }
+}
+
+/**
+ * Starts a Confirmed Idea session for an existing business with a copy of its
+ * latest business profile, so the questionnaire does not have to be answered
+ * again. Returns the new session id and the copied profile.
+ */
+export async function startBusinessSession(
+  userId: string,
+  businessId: string
+): Promise<{ sessionId: string; profile: any } | null> {
+  try {
+    const { data: latestProfile, error: profileError } = await supabase
+      .from('business_profiles')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('Error loading the business profile to copy:', profileError);
+      return null;
+    }
+
+    const sessionId = await createSession(userId, 'confirmed_idea_flow', businessId);
+    if (!sessionId) return null;
+
+    const profile = { ...(latestProfile || {}) };
+    delete profile.id;
+    delete profile.created_at;
+    delete profile.updated_at;
+
+    const { data: copiedProfile, error: insertError } = await supabase
+      .from('business_profiles')
+      .insert({ ...profile, user_id: userId, session_id: sessionId, business_id: businessId })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error copying the business profile:', insertError);
+      return null;
+    }
+
+    return { sessionId, profile: copiedProfile };
+  } catch (err) {
+    console.error('Unexpected error starting a session for business:', err);
+    return null;
+  }
+}
@@ -0,0 +1,253 @@
+import type { QuestionnaireDefinition } from './questionnaire';
+
+/**
+ * Bundled copy of version 3 of the 'confirmed_idea' questionnaire (seeded by
+ * supabase/migrations/20251108090000_create_questionnaires.sql,
+ * 20251109090000_add_normalized_profile_fields.sql and
+ * 20251115090000_add_language_preferences.sql). Used only when
+ * the questionnaires table cannot be read; edit the table, not this file, to
+ * change the questions.
+ */
+export const DEFAULT_QUESTIONNAIRE: QuestionnaireDefinition = {
+  slug: 'confirmed_idea',
+  version: 3,
+  title: 'Confirmed Idea',
+  questions: [
+    {
+      id: 'business_name',
+      field: 'business_name',
+      type: 'text',
+      prompt: 'What is the company name or preferred company name?',
+      helpText: 'A working name is fine if you have not decided yet - the registration guide explains how to check that it is available.',
+      validation: { minLength: 2, maxLength: 120 },
+      translations: {
+        hi: {
+          prompt: 'कंपनी का नाम या पसंदीदा नाम क्या है?',
+          helpText: 'अगर अभी तय नहीं किया है तो कामचलाऊ नाम भी चलेगा - रजिस्ट्रेशन गाइड बताएगी कि नाम उपलब्ध है या नहीं, यह कैसे जाँचें।'
+        },
+        mr: {
+          prompt: 'कंपनीचे नाव किंवा पसंतीचे नाव काय आहे?',
+          helpText: 'अजून ठरवले नसेल तर तात्पुरते नाव चालेल - नाव उपलब्ध आहे का ते कसे तपासायचे ते नोंदणी मार्गदर्शक सांगेल.'
+        },
+        ta: {
+          prompt: 'நிறுவனத்தின் பெயர் அல்லது விரும்பும் பெயர் என்ன?',
+          helpText: 'இன்னும் முடிவு செய்யவில்லை என்றால் தற்காலிகப் பெயர் போதும் - பெயர் கிடைக்கிறதா என்று எப்படிச் சரிபார்ப்பது என்பதைப் பதிவு வழிகாட்டி விளக்கும்.'
+        }
+      }
+    },
+    {
+      id: 'company_description',
+      field: 'company_description',
+      type: 'long_text',
+      prompt: 'Please provide a brief description of the company or company website',
+      helpText: 'A sentence or two on what you sell, to whom and how you make money. A website address works too.',
+      validation: { minLength: 10, maxLength: 2000, message: 'Please describe the business in at least a few words.' },
+      translations: {
+        hi: {
+          prompt: 'कृपया कंपनी का छोटा सा विवरण या कंपनी की वेबसाइट बताएँ',
+          helpText: 'एक-दो वाक्य में बताएँ कि आप क्या बेचते हैं, किसे बेचते हैं और कमाई कैसे होती है। वेबसाइट का पता भी चलेगा।',
+          message: 'कृपया व्यवसाय के बारे में कम से कम कुछ शब्द लिखें।'
+        },
+        mr: {
+          prompt: 'कृपया कंपनीचे थोडक्यात वर्णन किंवा कंपनीची वेबसाइट सांगा',
+          helpText: 'तुम्ही काय विकता, कोणाला विकता आणि पैसे कसे मिळवता हे एक-दोन वाक्यांत सांगा. वेबसाइटचा पत्ताही चालेल.',
+          message: 'कृपया व्यवसायाबद्दल किमान काही शब्द लिहा.'
+        },
+        ta: {
+          prompt: 'நிறுவனத்தைப் பற்றிய சிறு விளக்கம் அல்லது நிறுவனத்தின் இணையதளத்தைத் தாருங்கள்',
+          helpText: 'நீங்கள் என்ன விற்கிறீர்கள், யாருக்கு விற்கிறீர்கள், எப்படி வருமானம் ஈட்டுகிறீர்கள் என்பதை ஓரிரு வாக்கியங்களில் சொல்லுங்கள். இணையதள முகவரியும் போதும்.',
+          message: 'தயவுசெய்து வணிகத்தைப் பற்றிச் சில வார்த்தைகளாவது எழுதுங்கள்.'
+        }
+      }
+    },
+    {
+      id: 'industry',
+      field: 'industry',
+      type: 'choice',
+      prompt: 'Which industry is the business in?',
+      helpText: 'Licences and compliance depend on the industry. Pick the closest one, or type your own.',
+      options: [
+        'Technology/Software',
+        'Food & Beverage',
+        'Retail/E-commerce',
+        'Manufacturing',
+        'Professional Services',
+        'Healthcare',
+        'Education',
+        'Other'
+      ],
+      allowOther: true,
+      normalize: 'industry',
+      translations: {
+        hi: {
+          prompt: 'व्यवसाय किस उद्योग में है?',
+          helpText: 'लाइसेंस और अनुपालन उद्योग पर निर्भर करते हैं। सबसे नज़दीकी विकल्प चुनें, या अपना लिखें।',
+          options: ['टेक्नोलॉजी/सॉफ़्टवेयर', 'खाद्य और पेय', 'रिटेल/ई-कॉमर्स', 'मैन्युफ़ैक्चरिंग', 'प्रोफ़ेशनल सेवाएँ', 'स्वास्थ्य सेवा', 'शिक्षा', 'अन्य']
+        },
+        mr: {
+          prompt: 'व्यवसाय कोणत्या उद्योगात आहे?',
+          helpText: 'परवाने आणि अनुपालन उद्योगावर अवलंबून असतात. सर्वात जवळचा पर्याय निवडा, किंवा तुमचा स्वतःचा लिहा.',
+          options: ['तंत्रज्ञान/सॉफ्टवेअर', 'अन्न आणि पेये', 'रिटेल/ई-कॉमर्स', 'उत्पादन', 'व्यावसायिक सेवा', 'आरोग्य सेवा', 'शिक्षण', 'इतर']
+        },
+        ta: {
+          prompt: 'வணிகம் எந்தத் தொழில்துறையைச் சேர்ந்தது?',
+          helpText: 'உரிமங்களும் இணக்கமும் தொழில்துறையைப் பொறுத்தது. மிக நெருக்கமானதைத் தேர்ந்தெடுங்கள், அல்லது உங்களுடையதைத் தட்டச்சு செய்யுங்கள்.',
+          options: ['தொழில்நுட்பம்/மென்பொருள்', 'உணவு & பானங்கள்', 'சில்லறை/மின்வணிகம்', 'உற்பத்தி', 'தொழில்முறை சேவைகள்', 'சுகாதாரம்', 'கல்வி', 'மற்றவை']
+        }
+      }
+    },
+    {
+      id: 'fssai_license',
+      field: 'fssai_license',
+      storage: 'answers',
+      type: 'yes_no',
+      prompt: 'Do you already have an FSSAI registration or licence?',
+      helpText: 'Every food business in India needs FSSAI basic registration or a State/Central licence, depending on turnover. Answer no if you have not applied yet - the compliance guide will cover it.',
+      showIf: { field: 'industry', matches: 'food|beverage|restaurant|cafe|bakery|catering|cloud kitchen|sweets|dairy' },
+      translations: {
+        hi: {
+          prompt: 'क्या आपके पास पहले से FSSAI रजिस्ट्रेशन या लाइसेंस है?',
+          helpText: 'भारत में हर खाद्य व्यवसाय को टर्नओवर के हिसाब से FSSAI बेसिक रजिस्ट्रेशन या राज्य/केंद्रीय लाइसेंस चाहिए। अगर अभी आवेदन नहीं किया है तो "नहीं" लिखें - अनुपालन गाइड इसे समझाएगी।'
+        },
+        mr: {
+          prompt: 'तुमच्याकडे आधीच FSSAI नोंदणी किंवा परवाना आहे का?',
+          helpText: 'भारतातील प्रत्येक खाद्य व्यवसायाला उलाढालीनुसार FSSAI मूलभूत नोंदणी किंवा राज्य/केंद्रीय परवाना लागतो. अजून अर्ज केला नसेल तर "नाही" लिहा - अनुपालन मार्गदर्शक ते समजावेल.'
+        },
+        ta: {
+          prompt: 'உங்களிடம் ஏற்கனவே FSSAI பதிவு அல்லது உரிமம் உள்ளதா?',
+          helpText: 'இந்தியாவில் ஒவ்வொரு உணவு வணிகத்திற்கும் விற்றுமுதலைப் பொறுத்து FSSAI அடிப்படைப் பதிவு அல்லது மாநில/மத்திய உரிமம் தேவை. இன்னும் விண்ணப்பிக்கவில்லை என்றால் "இல்லை" என்று பதிலளியுங்கள் - இணக்க வழிகாட்டி அதை விளக்கும்.'
+        }
+      }
+    },
+    {
+      id: 'location',
+      field: 'location',
+      type: 'text',
+      prompt: 'Which location will the business operate in?',
+      helpText: 'City and state, e.g. Pune, Maharashtra. State rules decide several registrations and taxes.',
+      validation: { minLength: 2, maxLength: 200 },
+      normalize: 'location',
+      translations: {
+        hi: {
+          prompt: 'व्यवसाय किस जगह से चलेगा?',
+          helpText: 'शहर और राज्य, जैसे पुणे, महाराष्ट्र। कई रजिस्ट्रेशन और टैक्स राज्य के नियमों पर निर्भर करते हैं।'
+        },
+        mr: {
+          prompt: 'व्यवसाय कोणत्या ठिकाणाहून चालेल?',
+          helpText: 'शहर आणि राज्य, उदा. पुणे, महाराष्ट्र. अनेक नोंदण्या आणि कर राज्याच्या नियमांवर अवलंबून असतात.'
+        },
+        ta: {
+          prompt: 'வணிகம் எந்த இடத்தில் செயல்படும்?',
+          helpText: 'நகரம் மற்றும் மாநிலம், எ.கா. சென்னை, தமிழ்நாடு. பல பதிவுகளும் வரிகளும் மாநில விதிகளைப் பொறுத்தவை.'
+        }
+      }
+    },
+    {
+      id: 'partners_info',
+      field: 'partners_info',
+      type: 'list',
+      prompt: 'Who will be the partners or directors? (How many and their roles?)',
+      helpText: 'Names, roles and where they live, e.g. "Asha (CEO) and her brother Ravi, who lives in Dubai". Mention anyone who already has a DIN. Type "just me" if you are the only founder.',
+      normalize: 'partners',
+      translations: {
+        hi: {
+          prompt: 'पार्टनर या डायरेक्टर कौन होंगे? (कितने और उनकी भूमिकाएँ क्या हैं?)',
+          helpText: 'नाम, भूमिका और वे कहाँ रहते हैं, जैसे "आशा (CEO) और उनका भाई रवि, जो दुबई में रहता है"। जिसके पास पहले से DIN है, उसका ज़िक्र करें। अगर आप अकेले संस्थापक हैं तो "सिर्फ मैं" लिखें।'
+        },
+        mr: {
+          prompt: 'भागीदार किंवा संचालक कोण असतील? (किती आणि त्यांच्या भूमिका काय?)',
+          helpText: 'नावे, भूमिका आणि ते कुठे राहतात, उदा. "आशा (CEO) आणि तिचा भाऊ रवी, जो दुबईत राहतो". ज्यांच्याकडे आधीच DIN आहे त्यांचा उल्लेख करा. तुम्ही एकटेच संस्थापक असाल तर "फक्त मी" लिहा.'
+        },
+        ta: {
+          prompt: 'பங்குதாரர்கள் அல்லது இயக்குநர்கள் யார்? (எத்தனை பேர், அவர்களின் பொறுப்புகள் என்ன?)',
+          helpText: 'பெயர்கள், பொறுப்புகள், அவர்கள் வசிக்கும் இடம், எ.கா. "ஆஷா (CEO) மற்றும் துபாயில் வசிக்கும் அவரது சகோதரர் ரவி". ஏற்கனவே DIN உள்ளவர்களைக் குறிப்பிடுங்கள். நீங்கள் மட்டுமே நிறுவனர் என்றால் "நான் மட்டும்" என்று தட்டச்சு செய்யுங்கள்.'
+        }
+      }
+    },
+    {
+      id: 'capital_investment',
+      field: 'capital_investment',
+      type: 'amount',
+      prompt: 'How much capital do you plan to invest to start the business? (e.g. ₹10 lakhs)',
+      helpText: 'Include your own money and any loans or investment you expect before launch. Type "not sure" if you have no figure yet.',
+      translations: {
+        hi: {
+          prompt: 'व्यवसाय शुरू करने के लिए आप कितनी पूंजी लगाने की योजना बना रहे हैं? (जैसे ₹10 लाख)',
+          helpText: 'अपना पैसा और लॉन्च से पहले मिलने वाला कोई भी लोन या निवेश शामिल करें। अगर अभी कोई आंकड़ा नहीं है तो "पता नहीं" लिखें।'
+        },
+        mr: {
+          prompt: 'व्यवसाय सुरू करण्यासाठी तुम्ही किती भांडवल गुंतवण्याचा विचार करत आहात? (उदा. ₹10 लाख)',
+          helpText: 'तुमचे स्वतःचे पैसे आणि सुरुवातीपूर्वी अपेक्षित कर्ज किंवा गुंतवणूक यांचा समावेश करा. अजून आकडा नसेल तर "माहित नाही" लिहा.'
+        },
+        ta: {
+          prompt: 'வணிகத்தைத் தொடங்க எவ்வளவு முதலீடு செய்யத் திட்டமிட்டுள்ளீர்கள்? (எ.கா. ₹10 லட்சம்)',
+          helpText: 'உங்கள் சொந்தப் பணம் மற்றும் தொடக்கத்திற்கு முன் எதிர்பார்க்கும் கடன் அல்லது முதலீட்டைச் சேர்க்கவும். இன்னும் தொகை தெரியவில்லை என்றால் "தெரியாது" என்று தட்டச்சு செய்யுங்கள்.'
+        }
+      }
+    },
+    {
+      id: 'expected_turnover',
+      field: 'expected_turnover',
+      type: 'amount',
+      prompt: 'What turnover do you expect in the first year? (e.g. ₹25 lakhs, or "not sure")',
+      helpText: 'A rough figure is enough. It decides GST registration and the financial plan.',
+      translations: {
+        hi: {
+          prompt: 'पहले साल में आप कितने टर्नओवर की उम्मीद करते हैं? (जैसे ₹25 लाख, या "पता नहीं")',
+          helpText: 'मोटा-मोटा आंकड़ा काफ़ी है। इसी से GST रजिस्ट्रेशन और वित्तीय योजना तय होती है।'
+        },
+        mr: {
+          prompt: 'पहिल्या वर्षी तुम्हाला किती उलाढाल अपेक्षित आहे? (उदा. ₹25 लाख, किंवा "माहित नाही")',
+          helpText: 'अंदाजे आकडा पुरेसा आहे. त्यावरून GST नोंदणी आणि आर्थिक नियोजन ठरते.'
+        },
+        ta: {
+          prompt: 'முதல் ஆண்டில் எவ்வளவு விற்றுமுதலை எதிர்பார்க்கிறீர்கள்? (எ.கா. ₹25 லட்சம், அல்லது "தெரியாது")',
+          helpText: 'தோராயமான தொகை போதும். அதுவே GST பதிவையும் நிதித் திட்டத்தையும் தீர்மானிக்கிறது.'
+        }
+      }
+    },
+    {
+      id: 'color_preference',
+      field: 'color_preference',
+      type: 'choice',
+      prompt: 'What color tone would you prefer for branding?',
+      options: ['Earthy', 'Bright', 'Professional', 'Pastel', 'Monochrome'],
+      allowOther: true,
+      translations: {
+        hi: {
+          prompt: 'ब्रांडिंग के लिए आप कौन सा रंग पसंद करेंगे?',
+          options: ['मिट्टी जैसे', 'चटकीले', 'प्रोफ़ेशनल', 'हल्के (पेस्टल)', 'एक रंग (मोनोक्रोम)']
+        },
+        mr: {
+          prompt: 'ब्रँडिंगसाठी तुम्हाला कोणती रंगछटा आवडेल?',
+          options: ['मातीसारखे', 'भडक', 'व्यावसायिक', 'फिकट (पेस्टल)', 'एकरंगी (मोनोक्रोम)']
+        },
+        ta: {
+          prompt: 'பிராண்டிங்கிற்கு எந்த வண்ணத் தொனியை விரும்புகிறீர்கள்?',
+          options: ['மண் நிறங்கள்', 'பளிச்சென்ற', 'தொழில்முறை', 'மென்மையான (பேஸ்டல்)', 'ஒற்றை நிறம் (மோனோக்ரோம்)']
+        }
+      }
+    },
+    {
+      id: 'style_preference',
+      field: 'style_preference',
+      type: 'choice',
+      prompt: 'What style would you prefer?',
+      options: ['Conservative/Classic', 'Modern/Contemporary', 'Expressive/Bold'],
+      translations: {
+        hi: {
+          prompt: 'आप कौन सी शैली पसंद करेंगे?',
+          options: ['पारंपरिक/क्लासिक', 'आधुनिक/समकालीन', 'अभिव्यंजक/बोल्ड']
+        },
+        mr: {
+          prompt: 'तुम्हाला कोणती शैली आवडेल?',
+          options: ['पारंपरिक/क्लासिक', 'आधुनिक/समकालीन', 'ठळक/बोल्ड']
+        },
+        ta: {
+          prompt: 'எந்தப் பாணியை விரும்புகிறீர்கள்?',
+          options: ['பாரம்பரிய/கிளாசிக்', 'நவீன/சமகால', 'துணிச்சலான/போல்ட்']
+        }
+      }
+    }
+  ]
+};
@@ -1,22 +1,69 @@
 import { supabase } from './supabase';
+import { getLanguage, requestErrorMessage, translate } from './i18n';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+/**
+ * Validated JSON summary of a guide, written by the gurus alongside the
+ * markdown. Mirrors GuideStructuredData in supabase/functions/_shared/guideData.ts.
+ */
+export interface GuideStructuredData {
+  entityRecommendation: { entityType: string; reason: string } | null;
+  highlights: string[];
+  timeline: Array<{ step: string; startDay: number; endDay: number }>;
+  costs: Array<{
+    item: string;
+    minAmountInr: number;
+    maxAmountInr: number;
+    frequency: 'one-time' | 'monthly' | 'yearly';
+  }>;
+  checklist: Array<{ item: string; category: string }>;
+  portals: Array<{ name: string; url: string }>;
+}
 
 export interface GeneratedDocument {
   id: string;
   user_id: string;
   session_id: string;
-  document_type: 'registration' | 'branding' | 'compliance' | 'hr';
+  document_type: 'registration' | 'branding' | 'compliance' | 'hr' | 'financial_planning';
   document_title: string;
   key_points: string[] | string;
   full_content: string;
-  pdf_url: string | null;
+  structured_data?: GuideStructuredData | null;
+  /** Storage path of the PDF; download it through getDocumentDownloadUrl */
   pdf_file_name: string | null;
-  generation_status: 'generating' | 'completed' | 'failed';
+  generation_status: 'pending' | 'generating' | 'completed' | 'failed';
   service_type?: string;
   business_name?: string | null;
+  /** Business workspace of the guide's session, set by getDocumentsByUser */
+  business_id?: string | null;
+  current_version?: number | null;
+  /** Language the guide is written in, e.g. 'hi'; guides from before languages are 'en' */
+  language?: string;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * One generation of a guide. Versions are never updated, so an older version
+ * still shows exactly what the model wrote and what it was given.
+ */
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  document_type: GeneratedDocument['document_type'];
+  version_number: number;
+  full_content: string;
+  key_points: string[];
+  structured_data: GuideStructuredData | null;
+  system_prompt: string | null;
+  user_prompt: string | null;
+  provider: string | null;
+  model: string | null;
+  profile_snapshot: Record<string, any> | null;
+  pdf_file_name: string | null;
+  created_at: string;
+}
+
 export async function getDocumentsBySession(sessionId: string): Promise<GeneratedDocument[]> {
   try {
     console.log('Fetching documents for session:', sessionId);
@@ -78,30 +125,35 @@ export async function getDocumentsByUser(userId: string): Promise<GeneratedDocum
     // Get unique session IDs
     const sessionIds = [...new Set(documents.map(doc => doc.session_id))];
 
-    // Fetch business profiles for these sessions
+    // Fetch business profiles for these sessions, with the business they belong to
     const { data: profiles, error: profileError } = await supabase
       .from('business_profiles')
-      .select('session_id, business_name')
+      .select('session_id, business_name, business_id, businesses(name)')
       .in('session_id', sessionIds);
 
     if (profileError) {
       console.error('Error fetching business profiles:', profileError);
     }
 
-    // Create a map of session_id -> business_name
-    const businessNameMap = new Map<string, string | null>();
+    // Create a map of session_id -> business; the workspace name wins over the profile's
+    const businessMap = new Map<string, { id: string | null; name: string | null }>();
     if (profiles) {
-      profiles.forEach(profile => {
-        businessNameMap.set(profile.session_id, profile.business_name || null);
+      profiles.forEach((profile: any) => {
+        const business = Array.isArray(profile.businesses) ? profile.businesses[0] : profile.businesses;
+        businessMap.set(profile.session_id, {
+          id: profile.business_id || null,
+          name: business?.name || profile.business_name || null
+        });
       });
     }
 
     // Map documents with business names
     return documents.map(doc => {
-      const businessName = businessNameMap.get(doc.session_id) || null;
+      const business = businessMap.get(doc.session_id);
       return {
         ...doc,
-        business_name: businessName,
+        business_name: business?.name || null,
+        business_id: business?.id || null,
         key_points: typeof doc.key_points === 'string' ? JSON.parse(doc.key_points) : doc.key_points
       };
     });
@@ -136,9 +188,82 @@ export async function getDocumentById(documentId: string): Promise<GeneratedDocu
   }
 }
 
+/**
+ * All versions of a document, newest first.
+ */
+export async function getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+  try {
+    const { data, error } = await supabase
+      .from('document_versions')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('version_number', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching document versions:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Unexpected error fetching document versions:', error);
+    return [];
+  }
+}
+
+async function requestDownloadUrl(
+  body: Record<string, unknown>
+): Promise<{ success: boolean; url?: string; error?: string }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      console.error('No active session found');
+      return { success: false, error: translate(getLanguage(), 'download.signIn') };
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/documents`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body)
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      console.error('Error getting download URL:', result);
+      return { success: false, error: requestErrorMessage(result.userMessage, 'download.error') };
+    }
+
+    return { success: true, url: result.url };
+  } catch (error) {
+    console.error('Unexpected error getting download URL:', error);
+    return { success: false, error: translate(getLanguage(), 'download.error') };
+  }
+}
+
+/**
+ * A short-lived URL that downloads the PDF of a guide, or of one of its
+ * versions. The bucket is private, so the documents edge function checks the
+ * owner and signs the URL.
+ */
+export function getDocumentDownloadUrl(documentId: string, versionId?: string) {
+  return requestDownloadUrl({ action: 'download', documentId, versionId });
+}
+
+/**
+ * A short-lived URL for a ZIP of the guides with every PDF, a Markdown copy,
+ * the checklists as CSV and a cover index. Built server-side from the latest
+ * guide of each type among documentIds.
+ */
+export function getStartupKitUrl(documentIds: string[]) {
+  return requestDownloadUrl({ action: 'kit', documentIds });
+}
+
 export async function getDocumentByTypeAndSession(
   sessionId: string,
-  documentType: 'registration' | 'branding' | 'compliance' | 'hr'
+  documentType: 'registration' | 'branding' | 'compliance' | 'hr' | 'financial_planning'
 ): Promise<GeneratedDocument | null> {
   try {
     const { data, error } = await supabase
@@ -203,17 +328,27 @@ export async function getLatestDocumentsByUser(
   }
 }
 
+/**
+ * Deletes a guide with its versions, and every PDF they point at: the PDF of
+ * each version and the guide's current one, which may be a restyled copy.
+ * The paths are read first because deleting the guide cascades to its versions.
+ */
 export async function deleteDocument(documentId: string): Promise<boolean> {
   try {
-    const doc = await getDocumentById(documentId);
+    const [doc, versions] = await Promise.all([getDocumentById(documentId), getDocumentVersions(documentId)]);
+
+    const pdfFileNames = [...new Set(
+      [doc?.pdf_file_name, ...versions.map(version => version.pdf_file_name)]
+        .filter((fileName): fileName is string => !!fileName)
+    )];
 
-    if (doc && doc.pdf_file_name) {
+    if (pdfFileNames.length > 0) {
       const { error: storageError } = await supabase.storage
         .from('business-documents')
-        .remove([doc.pdf_file_name]);
+        .remove(pdfFileNames);
 
       if (storageError) {
-        console.error('Error deleting PDF from storage:', storageError);
+        console.error('Error deleting PDFs from storage:', storageError);
       }
     }
 
@@ -255,3 +390,49 @@ export async function updateDocumentStatus(
     return false;
   }
 }
+
+/**
+ * Delivers every insert and update of the session's documents as it happens.
+ * onSubscribed runs each time the channel (re)connects, which is the moment to
+ * reload the documents so no change made while disconnected is missed.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToSessionDocuments(
+  sessionId: string,
+  onChange: (document: GeneratedDocument) => void,
+  onSubscribed?: () => void
+): () => void {
+  const channel: RealtimeChannel = supabase
+    .channel(`documents:${sessionId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'generated_documents', filter: `session_id=eq.${sessionId}` },
+      (payload) => {
+        const doc = payload.new as GeneratedDocument;
+        if (!doc || !doc.id) return;
+
+        let parsedKeyPoints = doc.key_points;
+        if (typeof doc.key_points === 'string') {
+          try {
+            parsedKeyPoints = JSON.parse(doc.key_points);
+          } catch (e) {
+            console.error('Failed to parse key_points:', doc.key_points, e);
+            parsedKeyPoints = [];
+          }
+        }
+
+        onChange({ ...doc, key_points: parsedKeyPoints });
+      }
+    )
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        onSubscribed?.();
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error(`Document subscription ${status} for session:`, sessionId);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+import { getLanguage, requestErrorMessage, translate } from './i18n';
+import type { GeneratedDocument } from './documentService';
+
+/** Guide section an answer relies on */
+export interface AnswerCitation {
+  documentId: string;
+  documentType: GeneratedDocument['document_type'];
+  documentTitle: string;
+  sectionTitle: string;
+}
+
+export interface FollowUpTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Answers a question about the session's guides with the ask edge function.
+ * The answer is grounded in the business profile and the generated guides and
+ * cites the guide sections it used.
+ */
+export async function askFollowUpQuestion(
+  sessionId: string,
+  question: string,
+  history: FollowUpTurn[]
+): Promise<{ success: boolean; answer?: string; citations?: AnswerCitation[]; error?: string }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      console.error('No active session found');
+      return { success: false, error: translate(getLanguage(), 'followUp.signIn') };
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ask`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sessionId, question, history, language: getLanguage() })
+    });
+
+    const body = await response.json();
+    if (!response.ok) {
+      console.error('Error answering follow-up question:', body);
+      return { success: false, error: requestErrorMessage(body.userMessage, 'chat.followUpError') };
+    }
+
+    return { success: true, answer: body.answer, citations: body.citations || [] };
+  } catch (err) {
+    console.error('Unexpected error answering follow-up question:', err);
+    return { success: false, error: translate(getLanguage(), 'chat.followUpError') };
+  }
+}
@@ -0,0 +1,164 @@
+import { supabase } from './supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+export interface GenerationJob {
+  id: string;
+  user_id: string;
+  session_id: string;
+  document_type: 'registration' | 'branding' | 'compliance' | 'hr' | 'financial_planning';
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  last_error: string | null;
+  document_id: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+const isJobFinished = (job: GenerationJob) =>
+  job.status === 'completed' || job.status === 'failed';
+
+// Postgres code for an insert that hits idx_generation_jobs_active_unique
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Queues one job per guide for the session and wakes the generation worker.
+ * Guides that already have a pending or running job are not queued twice,
+ * including when another tab queues them between the check and the insert.
+ * Returns the active job for every requested guide.
+ */
+export async function enqueueGenerationJobs(
+  userId: string,
+  sessionId: string,
+  documentTypes: string[]
+): Promise<GenerationJob[]> {
+  try {
+    let activeJobs = (await getGenerationJobs(sessionId)).filter(job => !isJobFinished(job));
+    let typesToQueue = documentTypes.filter(type => !activeJobs.some(job => job.document_type === type));
+
+    let queuedJobs: GenerationJob[] = [];
+    if (typesToQueue.length > 0) {
+      let { data, error } = await insertGenerationJobs(userId, sessionId, typesToQueue);
+
+      // The insert is all or nothing, so after losing the race for one guide the
+      // active jobs are read again and only the guides still without one are queued
+      if (error?.code === UNIQUE_VIOLATION) {
+        activeJobs = (await getGenerationJobs(sessionId)).filter(job => !isJobFinished(job));
+        typesToQueue = documentTypes.filter(type => !activeJobs.some(job => job.document_type === type));
+        ({ data, error } = typesToQueue.length > 0
+          ? await insertGenerationJobs(userId, sessionId, typesToQueue)
+          : { data: [], error: null });
+      }
+
+      if (error) {
+        console.error('Error enqueueing generation jobs:', error);
+        return [];
+      }
+      queuedJobs = data || [];
+    }
+
+    await startGenerationWorker(typesToQueue.length);
+
+    return [
+      ...activeJobs.filter(job => documentTypes.includes(job.document_type)),
+      ...queuedJobs
+    ];
+  } catch (err) {
+    console.error('Unexpected error enqueueing generation jobs:', err);
+    return [];
+  }
+}
+
+function insertGenerationJobs(userId: string, sessionId: string, documentTypes: string[]) {
+  return supabase
+    .from('generation_jobs')
+    .insert(documentTypes.map(type => ({
+      user_id: userId,
+      session_id: sessionId,
+      document_type: type
+    })))
+    .select();
+}
+
+/**
+ * Latest job per guide for a session, newest first.
+ */
+export async function getGenerationJobs(sessionId: string): Promise<GenerationJob[]> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching generation jobs:', error);
+      return [];
+    }
+
+    const latestByType = new Map<string, GenerationJob>();
+    for (const job of data || []) {
+      if (!latestByType.has(job.document_type)) {
+        latestByType.set(job.document_type, job);
+      }
+    }
+    return [...latestByType.values()];
+  } catch (err) {
+    console.error('Unexpected error fetching generation jobs:', err);
+    return [];
+  }
+}
+
+/**
+ * Asks the generation-worker edge function to drain the queue. Each call runs
+ * one job at a time, so starting one worker per queued job generates guides in
+ * parallel. The worker responds immediately and keeps running server-side.
+ */
+export async function startGenerationWorker(workerCount = 1): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    console.error('No active session found');
+    return;
+  }
+
+  const requests = Array.from({ length: Math.max(1, workerCount) }, () =>
+    fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generation-worker`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({})
+    }).catch(err => console.error('Failed to start generation worker:', err))
+  );
+
+  await Promise.all(requests);
+}
+
+/**
+ * Delivers the worker's progress broadcasts for a session: the full text
+ * written so far for each guide that is running. Status changes arrive through
+ * the generated_documents subscription instead. Returns an unsubscribe function.
+ */
+export function subscribeToGenerationProgress(
+  sessionId: string,
+  onProgress: (documentType: string, content: string) => void
+): () => void {
+  // Private, so only the session's owner can join (see the realtime.messages policy)
+  const channel: RealtimeChannel = supabase
+    .channel(`generation:${sessionId}`, { config: { private: true } })
+    .on('broadcast', { event: 'progress' }, ({ payload }) => {
+      onProgress(payload.documentType, payload.content);
+    })
+    .subscribe((status) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error(`Generation progress subscription ${status} for session:`, sessionId);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
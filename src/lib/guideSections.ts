@@ -0,0 +1,98 @@
+import { supabase } from './supabase';
+import { getLanguage, requestErrorMessage, translate } from './i18n';
+import type { GuideStructuredData } from './documentService';
+
+export interface GuideSectionHeading {
+  index: number;
+  /** Heading text without the hashes and numbering, e.g. "Cost Breakdown" */
+  title: string;
+  /** Character offset of the heading line in the guide */
+  start: number;
+}
+
+export interface RegeneratedGuide {
+  documentId: string;
+  fullContent: string;
+  keyPoints: string[];
+  structuredData: GuideStructuredData | null;
+  hasPdf: boolean;
+  versionNumber: number;
+}
+
+/**
+ * The guide's `##` sections, matching splitGuideSections in
+ * supabase/functions/_shared/guideSections.ts so indexes agree with the server.
+ */
+export function getGuideSections(markdown: string): GuideSectionHeading[] {
+  const sections: GuideSectionHeading[] = [];
+  let offset = 0;
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*```/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence && /^##\s+\S/.test(line)) {
+      sections.push({
+        index: sections.length,
+        title: line.trim().replace(/^#+\s*/, '').replace(/^\d+\.\s*/, '').replace(/\*/g, '').trim(),
+        start: offset
+      });
+    }
+    offset += line.length + 1;
+  }
+
+  return sections;
+}
+
+/**
+ * Rewrites one section of a completed guide with an extra instruction. The
+ * server splices it into the guide, re-renders the PDF and saves a new version.
+ */
+export async function regenerateGuideSection(
+  documentId: string,
+  section: GuideSectionHeading,
+  instruction: string
+): Promise<{ success: boolean; guide?: RegeneratedGuide; error?: string }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      console.error('No active session found');
+      return { success: false, error: translate(getLanguage(), 'section.signIn') };
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/regenerate-guide-section`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        documentId,
+        sectionIndex: section.index,
+        sectionTitle: section.title,
+        instruction
+      })
+    });
+
+    const body = await response.json();
+    if (!response.ok) {
+      console.error('Error regenerating guide section:', body);
+      return { success: false, error: requestErrorMessage(body.userMessage, 'section.error') };
+    }
+
+    return {
+      success: true,
+      guide: {
+        documentId: body.documentId,
+        fullContent: body.fullContent,
+        keyPoints: body.keyPoints || [],
+        structuredData: body.structuredData ?? null,
+        hasPdf: !!body.hasPdf,
+        versionNumber: body.versionNumber
+      }
+    };
+  } catch (err) {
+    console.error('Unexpected error regenerating guide section:', err);
+    return { success: false, error: translate(getLanguage(), 'section.error') };
+  }
+}
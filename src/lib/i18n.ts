@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { supabase } from './supabase';
+import en, { type MessageKey } from './locales/en';
+import hi from './locales/hi';
+import mr from './locales/mr';
+import ta from './locales/ta';
+
+export type { MessageKey } from './locales/en';
+
+/**
+ * Languages the app, the questionnaire and the guides are available in.
+ * Mirrored in supabase/functions/_shared/languages.ts and the check on
+ * user_preferences.language.
+ */
+export type Language = 'en' | 'hi' | 'mr' | 'ta';
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+/** Each language with its name as its speakers write it, for the language picker */
+export const LANGUAGES: Array<{ code: Language; name: string; englishName: string }> = [
+  { code: 'en', name: 'English', englishName: 'English' },
+  { code: 'hi', name: 'हिन्दी', englishName: 'Hindi' },
+  { code: 'mr', name: 'मराठी', englishName: 'Marathi' },
+  { code: 'ta', name: 'தமிழ்', englishName: 'Tamil' }
+];
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = { en, hi, mr, ta };
+
+// The last language picked on this device, so pages render in it before the saved preference loads
+const STORAGE_KEY = 'startup-companion.language';
+// Fired after setLanguage, so every mounted component re-renders in the new language
+const LANGUAGE_CHANGE_EVENT = 'appLanguageChange';
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && value in MESSAGES;
+}
+
+export function hasMessage(key: string): key is MessageKey {
+  return key in en;
+}
+
+/** The name of a language in that language, e.g. हिन्दी for hi */
+export function getLanguageName(language: string | null | undefined): string {
+  return LANGUAGES.find(entry => entry.code === language)?.name ?? LANGUAGES[0].name;
+}
+
+/** A UI string in the language, with each {name} replaced by params.name */
+export function translate(language: Language, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = MESSAGES[language]?.[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder));
+}
+
+/**
+ * The message to show for a failed request. Edge functions answer in
+ * English, so their userMessage is only used when the UI is in English.
+ */
+export function requestErrorMessage(userMessage: unknown, fallback: MessageKey): string {
+  const language = getLanguage();
+  if (language === DEFAULT_LANGUAGE && typeof userMessage === 'string' && userMessage) return userMessage;
+  return translate(language, fallback);
+}
+
+/** A UI string in every language, to recognise saved chat messages whatever language they were sent in */
+export function translationsOf(key: MessageKey): string[] {
+  return Object.values(MESSAGES).map(messages => messages[key]);
+}
+
+function readStoredLanguage(): Language {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isLanguage(stored) ? stored : DEFAULT_LANGUAGE;
+  } catch {
+    return DEFAULT_LANGUAGE;
+  }
+}
+
+let currentLanguage: Language = readStoredLanguage();
+document.documentElement.lang = currentLanguage;
+
+export function getLanguage(): Language {
+  return currentLanguage;
+}
+
+/** Switches the UI language on this device; saveLanguagePreference stores it for the user */
+export function setLanguage(language: Language) {
+  currentLanguage = language;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, language);
+  } catch (err) {
+    console.warn('Could not remember the language on this device:', err);
+  }
+  document.documentElement.lang = language;
+  window.dispatchEvent(new Event(LANGUAGE_CHANGE_EVENT));
+}
+
+/**
+ * The current UI language, updated on setLanguage(). t() always uses the
+ * latest language, so a handler that awaits across a change still writes its
+ * next message in the new one.
+ */
+export function useLanguage(): { language: Language; t: (key: MessageKey, params?: Record<string, string | number>) => string } {
+  const [language, setCurrentLanguage] = useState<Language>(getLanguage);
+
+  useEffect(() => {
+    const handleChange = () => setCurrentLanguage(getLanguage());
+
+    window.addEventListener(LANGUAGE_CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(LANGUAGE_CHANGE_EVENT, handleChange);
+  }, []);
+
+  return { language, t: (key, params) => translate(getLanguage(), key, params) };
+}
+
+/** The user's saved language, or null when they have not picked one or it cannot be read */
+export async function loadLanguagePreference(userId: string): Promise<Language | null> {
+  try {
+    const { data, error } = await supabase
+      .from('user_preferences')
+      .select('language')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading language preference:', error);
+      return null;
+    }
+
+    return isLanguage(data?.language) ? data.language : null;
+  } catch (err) {
+    console.error('Unexpected error loading language preference:', err);
+    return null;
+  }
+}
+
+/**
+ * Saves the user's language. The edge functions read it to write guides and
+ * chat replies in that language.
+ */
+export async function saveLanguagePreference(userId: string, language: Language): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert({ user_id: userId, language, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Error saving language preference:', error);
+      return { success: false, error: translate(language, 'language.saveError') };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Unexpected error saving language preference:', err);
+    return { success: false, error: translate(language, 'language.saveError') };
+  }
+}
@@ -0,0 +1,64 @@
+import { supabase } from './supabase';
+import { getLanguage, requestErrorMessage, translate } from './i18n';
+
+export interface IdeaTuningTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** Business profile fields filled in from the idea tuning summary */
+export interface IdeaPrefill {
+  business_name: string | null;
+  company_description: string;
+  location: string | null;
+  industry: string | null;
+}
+
+export interface IdeaTuningResponse {
+  /** The mentor's next message; absent once the idea has been summarised */
+  reply?: string;
+  coveredTopics: string[];
+  complete: boolean;
+  summary?: string;
+  prefill?: IdeaPrefill;
+}
+
+/**
+ * Sends the idea tuning conversation to the idea-tuning edge function. An
+ * empty conversation returns the opening question. Once every topic is covered
+ * or `finish` is set, the function summarises the idea, stores it on the
+ * session's business profile and returns the summary with the prefilled fields.
+ */
+export async function sendIdeaTuningMessage(
+  sessionId: string,
+  messages: IdeaTuningTurn[],
+  finish = false
+): Promise<{ success: boolean; response?: IdeaTuningResponse; error?: string }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      console.error('No active session found');
+      return { success: false, error: translate(getLanguage(), 'common.signInAgain') };
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/idea-tuning`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sessionId, messages, finish, language: getLanguage() })
+    });
+
+    const body = await response.json();
+    if (!response.ok) {
+      console.error('Error in idea tuning:', body);
+      return { success: false, error: requestErrorMessage(body.userMessage, 'ideaTuning.error') };
+    }
+
+    return { success: true, response: body };
+  } catch (err) {
+    console.error('Unexpected error in idea tuning:', err);
+    return { success: false, error: translate(getLanguage(), 'ideaTuning.error') };
+  }
+}
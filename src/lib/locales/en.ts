@@ -0,0 +1,457 @@
+/**
+ * UI strings in English. Every other locale has the same keys, so a string
+ * added here fails the type check until it is translated. `{name}` is
+ * replaced with the value passed to t().
+ */
+const en = {
+  'language.label': 'Language',
+  'language.saveError': 'Sorry, your language could not be saved. Please try again.',
+
+  'nav.home': 'Home',
+  'nav.benefits': 'Why Choose',
+  'nav.howItWorks': 'How it works',
+  'nav.pricing': 'Pricing',
+  'nav.testimonials': 'Testimony',
+  'nav.faq': 'FAQs',
+  'nav.login': 'Login',
+  'nav.signup': 'Signup',
+  'nav.history': 'History',
+  'nav.documents': 'Documents',
+  'nav.mentors': 'Mentors',
+  'nav.logout': 'Logout',
+  'footer.tagline': 'Launch your business in personalized way in 30 minutes',
+  'footer.readyTitle': 'Ready to turn your service business spark into reality?',
+  'footer.readyText': 'Start your journey today with Startup Companion—your AI-powered guide from registration to launch.',
+  'footer.navigation': 'Navigation',
+  'footer.connect': 'Connect With Us',
+  'footer.follow': 'Follow us for startup tips, success stories, and platform updates.',
+  'footer.ctaTitle': 'Ready to Start Your Business Journey?',
+  'footer.ctaText': 'Join thousands of entrepreneurs who have successfully launched their service businesses with our expert guidance.',
+  'footer.cta': 'Get Started Today',
+  'footer.privacy': 'Privacy Policy',
+  'footer.terms': 'Terms & Conditions',
+  'footer.copyright': '© {year} Startup Companion. All rights reserved.',
+
+  'common.backToChat': 'Back to Chat',
+  'common.preparing': 'Preparing...',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.edit': 'Edit',
+  'common.add': 'Add',
+  'common.save': 'Save',
+  'common.saving': 'Saving...',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.email': 'Email',
+  'common.call': 'Call',
+  'common.signInAgain': 'Please sign in again to continue.',
+
+  'guide.registration': 'Registration Guide',
+  'guide.branding': 'Branding Guide',
+  'guide.compliance': 'Compliance Guide',
+  'guide.hr': 'HR Setup Guide',
+  'guide.financial_planning': 'Financial Planning Guide',
+
+  'service.idea_tuning': 'Idea Tuning',
+  'service.confirmed_idea_flow': 'Confirmed Idea Flow',
+  'service.registration': 'Registration',
+  'service.branding': 'Branding',
+  'service.compliance': 'Compliance',
+  'service.hr': 'HR Setup',
+  'service.financial_planning': 'Financial Planning',
+
+  'chat.welcome': 'Welcome to StartUP Companion! I\'m here to help you launch your business.\n\nPlease choose an option:\n\n1. Idea Tuning - My idea is not firmed up yet\n2. Confirmed Idea - I\'m ready to get my business documents\n\nJust type the number (1 or 2) to get started!',
+  'chat.sessionError': 'We encountered an issue starting your session. This may be due to a database connection problem. Please try refreshing the page. If the issue persists, please log out and log back in.',
+  'chat.choosePrompt': 'Please type 1 for Idea Tuning or 2 for Confirmed Idea to proceed.',
+  'chat.welcomeBackIdea': 'Welcome back! Your idea has been summarised above. Type "yes" to continue to the Confirmed Idea questionnaire, or keep chatting to refine the idea further.',
+  'chat.welcomeBackTuning': 'Welcome back! Let\'s keep tuning your idea - reply to my last question above, or type "done" to wrap up.',
+  'chat.welcomeBackQuestion': 'Welcome back! Let\'s pick up where you left off.',
+  'chat.welcomeBackReview': 'Welcome back! All your answers are in. Review them below, then generate your guides.',
+  'chat.businessStartError': 'Sorry, I could not start new guides for {business}. Please try again.',
+  'chat.businessNewGuides': 'Let\'s prepare new guides for {business}. I\'ve brought over your saved answers - update anything that has changed, then generate your guides.',
+  'chat.reviewHint': 'Use the Edit buttons in your profile summary to change an answer, then generate your guides when it looks right.',
+  'chat.followUpError': 'Sorry, I could not answer that right now. Please try again.',
+  'chat.sources': 'Sources',
+  'chat.thinkingIdea': 'Thinking about your idea...',
+  'chat.readingAnswer': 'Reading your answer...',
+  'chat.searchingGuides': 'Looking through your guides...',
+  'chat.waitGenerating': 'Please wait while we generate your documents. This may take a few moments...',
+  'chat.placeholderGenerating': 'Generating documents... Please wait',
+  'chat.placeholderFollowUp': 'Ask a question about your guides...',
+  'chat.placeholderReview': 'Review your answers above...',
+  'chat.placeholder': 'Type your message...',
+  'chat.shareAllTitle': 'all guides of {business}',
+
+  'resume.title': 'You have an unfinished session',
+  'resume.newConversation': 'You had started a new conversation',
+  'resume.inService': 'You were in {service}',
+  'resume.lastMessage': ' - last message {time}.',
+  'resume.continue': 'Continue where you left off',
+  'resume.startFresh': 'Start fresh',
+
+  'ideaTuning.error': 'Sorry, something went wrong while tuning your idea. Please try again.',
+  'ideaTuning.summary': 'Here\'s your tuned idea:\n\n{summary}\n\nType "yes" to continue to the Confirmed Idea questionnaire{filledIn}. Or keep chatting to refine the idea further.',
+  'ideaTuning.filledIn': ' - I\'ve already filled in your {fields}',
+  'ideaTuning.field.business_name': 'company name',
+  'ideaTuning.field.company_description': 'company description',
+  'ideaTuning.field.location': 'location',
+  'ideaTuning.field.industry': 'industry',
+
+  'questionnaire.intro': 'Great! I\'ll ask you a few quick questions to gather the information we need. Type "help" at any question for a hint.',
+  'questionnaire.introPrefilled': 'Great! I\'ve carried over the details from your idea tuning, so I only need a few more answers.',
+  'questionnaire.position': 'Question {position} of {total}:',
+  'questionnaire.answerYesNo': 'Please answer yes or no.',
+  'questionnaire.tip': 'Tip: {text}',
+  'questionnaire.skipHint': 'Type "skip" to leave this one out.',
+  'questionnaire.retry': 'No problem, let\'s try again.',
+  'questionnaire.defaultHelp': 'Answer in your own words - a rough answer is fine, you can refine it later.',
+  'questionnaire.confirmNormalized': 'Here\'s what I understood:\n\n{summary}\n\nIs that right? Type "yes" to save it, "no" to answer again, or type a corrected answer.',
+  'questionnaire.saveError': 'Sorry, there was an error saving your response. Please try again or refresh the page.',
+  'questionnaire.gotIt': 'Got it!',
+  'questionnaire.complete': 'Perfect! I have all the information I need.\n\nHere\'s a summary of your answers. Edit anything that isn\'t right, then generate your guides.',
+  'questionnaire.errorEmpty': 'Please type an answer.',
+  'questionnaire.errorTooLong': 'Please keep your answer under {max} characters.',
+  'questionnaire.errorTooShort': 'Please give a little more detail (at least {min} characters).',
+  'questionnaire.errorInvalid': 'That answer does not look right. Please try again.',
+  'questionnaire.errorAmount': 'Please enter an amount, e.g. ₹10 lakhs, or type "not sure".',
+  'questionnaire.errorChoice': 'Please choose one of the options by number (1-{count}).',
+
+  'review.title': 'Your business profile',
+  'review.subtitleGenerate': 'Check your answers and fix anything before the guides are written.',
+  'review.subtitleUpdate': 'Changes regenerate only the guides that use them.',
+  'review.choose': 'Choose...',
+  'review.required': 'Required - please add an answer',
+  'review.skipped': 'Skipped',
+  'review.missingOne': '{count} required answer is missing.',
+  'review.missingOther': '{count} required answers are missing.',
+  'review.allFilled': 'All required answers are filled in.',
+  'review.confirmGenerate': 'Looks good - generate my guides',
+  'review.updateGuide': 'Update guide: {guides}',
+  'review.updateGuides': 'Update guides: {guides}',
+  'review.done': 'Done',
+  'review.saveError': 'Sorry, there was an error saving your answer. Please try again.',
+
+  'generation.started': 'Processing your information and generating your business documents...',
+  'generation.wait': 'This may take a few moments. Please wait.',
+  'generation.regenerating': 'Your profile is updated. Regenerating the guides that use the changed answers: {guides}.',
+  'generation.error': 'Sorry, there was an error. Please refresh the page and try again.',
+  'generation.profileError': 'Sorry, we encountered an error retrieving your business information. Please try again.',
+  'generation.profileMissing': 'Sorry, we could not find your business information. Please start over.',
+  'generation.missingAnswers': 'A few answers are still missing: {questions}\n\nPlease add them in the profile summary below.',
+  'generation.queueError': 'Sorry, we could not start generating your documents. Please try again.',
+  'generation.loaderTitle': 'Generating Documents:',
+  'generation.loaderCompleted': '{completed}/{total} completed',
+  'generation.creating': 'Creating content...',
+  'generation.writing': 'Writing... {count} words so far',
+
+  'rating.prompt': '🎉 All your business documents have been generated!\n\nYou can view them in the document dashboard.\n\n{question}\n\nPlease type a number from 1-5:\n\n1 ⭐ - Poor\n2 ⭐⭐ - Fair\n3 ⭐⭐⭐ - Good\n4 ⭐⭐⭐⭐ - Very Good\n5 ⭐⭐⭐⭐⭐ - Excellent',
+  'rating.question': 'How would you rate your experience?',
+  'rating.thanks': 'Thank you for your {rating}-star rating!',
+  'rating.glad': '🎉 We\'re glad you had a great experience!',
+  'rating.sorry': 'We\'re sorry to hear that. Could you briefly tell us what went wrong or what we could improve? Your feedback helps us serve you better.',
+  'rating.final': 'All your documents are available in the dashboard. You can view or download them anytime, and ask me any follow-up questions about them here. Thank you for using StartUP Companion!',
+  'rating.feedbackThanks': 'Thank you for your feedback. Let us connect you with our expert mentors who can provide personalized guidance for each area of your business.',
+  'rating.mentorsTitle': '📞 Your Recommended Mentors',
+  'rating.invalid': 'Please provide a valid rating between 1 and 5.',
+
+  'mentors.eyebrow': 'Expert Network',
+  'mentors.title': 'Meet Your Mentors',
+  'mentors.subtitle': 'Connect with specialists who have guided hundreds of founders through registration, compliance, branding, and HR.',
+  'mentors.loading': 'Loading mentor profiles...',
+  'mentors.loadError': 'Unable to load mentors right now. Please try again.',
+  'mentors.empty': 'We will be onboarding mentors shortly. Please check back soon.',
+  'mentors.fallbackExpertise': 'Expert guidance across core startup functions.',
+  'mentors.schedule': 'Schedule intro call',
+  'mentors.connect': 'Connect with Expert',
+  'mentors.serviceExpert': '{service} Expert',
+
+  'section.signIn': 'Please sign in again to edit this guide.',
+  'section.error': 'Failed to regenerate this section. Please try again.',
+  'section.none': 'This guide has no sections that can be regenerated.',
+  'section.label': 'Section',
+  'section.instructionLabel': 'What should change?',
+  'section.instructionPlaceholder': 'e.g. Assume 3 directors, one of them an NRI',
+  'section.hint': 'Only this section is rewritten. The rest of the guide stays as it is.',
+  'section.regenerating': 'Regenerating...',
+  'section.submit': 'Regenerate Section',
+  'section.updated': '"{title}" was updated and the PDF was regenerated.',
+
+  'dashboard.title': 'Your Business Documents',
+  'dashboard.subtitle': 'All your essential business guides are ready. Click to view or download.',
+  'dashboard.downloadAll': 'Download All',
+  'dashboard.shareAll': 'Share All Guides',
+  'dashboard.brand': 'Brand PDFs',
+  'dashboard.editProfile': 'Edit Business Profile',
+  'dashboard.queued': 'Queued...',
+  'dashboard.generating': 'Generating...',
+  'dashboard.failed': 'Failed to generate document',
+  'dashboard.tryAgain': 'Try Again',
+  'dashboard.keyHighlights': 'Key Highlights:',
+  'dashboard.noKeyPoints': 'No key points available',
+  'dashboard.viewFull': 'View Full Document',
+
+  'history.title': 'Document History',
+  'history.subtitle': 'View documents from your previous sessions.',
+  'history.loading': 'Loading your history...',
+  'history.empty': 'No documents found yet.',
+  'history.unnamedBusiness': 'Unnamed Business',
+  'history.documentCountOne': '({count} document)',
+  'history.documentCountOther': '({count} documents)',
+  'history.downloadAll': 'Download all',
+  'history.view': 'View Document',
+  'history.downloadPdf': 'Download PDF',
+
+  'businesses.title': 'Your businesses',
+  'businesses.empty': 'Your business appears here once its guides are generated.',
+  'businesses.open': 'Open this business\'s guides',
+  'businesses.guides': 'Guides',
+  'businesses.newGuides': 'New guides',
+  'businesses.newBusiness': 'New business',
+
+  'hero.title': 'Personalized guidance for setting up your business in',
+  'hero.titleHighlight': 'less than 30 minutes',
+  'hero.subtitle': 'Your one-stop shop — get expert guidance on legal requirements, registration, financial options, branding and HR all tailored to your unique business idea.',
+  'hero.start': 'Start Your Journey',
+  'hero.tryFree': 'Try it for Free',
+  'hero.trusted': 'Trusted by entrepreneurs across India',
+
+  'benefits.title': 'Why Choose Startup Companion?',
+  'benefits.subtitle': 'Everything you need to transform your service business idea into a thriving reality',
+  'benefits.instantTitle': 'Instant Guidance Anytime',
+  'benefits.instantText': 'Get answers on business, taxes, HR, or marketing by typing or speaking directly through the chat interface.',
+  'benefits.compliantTitle': 'Stay Compliant with Ease',
+  'benefits.compliantText': 'A simple tool that helps first‑time founders handle compliance without confusion or fear of complexity.',
+  'benefits.mentorsTitle': 'Direct Access to Mentors',
+  'benefits.mentorsText': 'Connect with trusted mentors through shared contact details for personalized support when you need it.',
+
+  'howItWorks.title': 'How Does It Work?',
+  'howItWorks.subtitle': 'Simple steps to transform your business idea into reality',
+  'howItWorks.onboardingTitle': 'On-boarding',
+  'howItWorks.onboardingText': 'Register and sign in to StartUP Companion with a simple process.',
+  'howItWorks.serviceTitle': 'Choose Your Service',
+  'howItWorks.serviceText': 'Select the support you need—such as idea tuning, registration, compliance, branding, or HR.',
+  'howItWorks.guidanceTitle': 'Get Personalized Guidance',
+  'howItWorks.guidanceText': 'Receive clear, tailored information to help you start your business.',
+  'howItWorks.mentorsTitle': 'Connect with Mentors',
+  'howItWorks.mentorsText': 'If you need more clarity, connect directly with trusted mentors matched to your needs.',
+  'howItWorks.historyTitle': 'Access Your History',
+  'howItWorks.historyText': 'Return anytime with new queries—your past interactions and history are always saved for easy reference.',
+
+  'pricing.title': 'All-Inclusive Startup Journey',
+  'pricing.subtitle': 'Get every query answered',
+  'pricing.badge': 'Free Trial Available',
+  'pricing.featureCompliance': 'Legal compliance guidance',
+  'pricing.featureTax': 'Tax and grant discovery',
+  'pricing.featureBranding': 'Branding assistance',
+  'pricing.featureHr': 'HR policy templates',
+  'pricing.featureLanguage': 'Local language support',
+  'pricing.featureMentor': 'Personalized mentor consultation',
+  'pricing.cta': 'Try it for free now',
+  'pricing.note': 'No credit card required • Start immediately',
+
+  'testimonials.title': 'What Our Founders Say',
+  'testimonials.subtitle': 'Real stories from entrepreneurs who transformed their ideas into successful businesses',
+  'testimonials.founder': 'Founder',
+  'testimonials.coFounder': 'Co-founder',
+  'testimonials.smallBusinessOwner': 'Small Business Owner',
+  'testimonials.rajeshQuote': 'As a first-time founder, Startup Companion took all the fear out of registrations and compliance. I registered my LLP with zero hassle.',
+  'testimonials.rajeshCompany': 'Management Consultant, Mumbai',
+  'testimonials.emilyQuote': 'The financial setup agent was incredible! They helped me find grants I didn\'t even know existed and set up my business banking in less than 30 minutes.',
+  'testimonials.emilyCompany': 'Marketing Agency, Kolkatta',
+  'testimonials.swethaQuote': 'Everything was built for beginners like me—from legal templates to step-by-step workflows. Highly recommended!',
+  'testimonials.swethaCompany': 'Hyderabad',
+
+  'faq.title': 'Frequently Asked Questions',
+  'faq.subtitle': 'Find answers to common questions about Startup Companion',
+  'faq.general': 'General',
+  'faq.services': 'Services',
+  'faq.mentors': 'Mentors',
+  'faq.pricing': 'Pricing',
+  'faq.q1': 'Can I use this app even if I don\'t have prior experience in law or business?',
+  'faq.a1': 'Absolutely! Each tool, template, and explainer is crafted for beginners.',
+  'faq.q2': 'Does the app fill out forms for me?',
+  'faq.a2': 'No; it only guides you through what forms are needed and where/who to contact for completion.',
+  'faq.q3': 'Who should use Startup Companion?',
+  'faq.a3': 'First-time service business founders in India needing straightforward, stepwise startup guidance.',
+  'faq.q4': 'Do you file documents for me?',
+  'faq.a4': 'No. We guide you step-by-step on what to file, where, and how. Final submission happens on official portals.',
+  'faq.q5': 'Does this help with all countries requirements?',
+  'faq.a5': 'Currently all guidance is tailored for Indian jurisdictions Legal & Compliance',
+  'faq.q6': 'Is Startup Companion a law firm?',
+  'faq.a6': 'No. It\'s an educational platform that simplifies processes and connects you to licensed experts when needed.',
+  'faq.q7': 'Will this app guide me through government grants or schemes available for new businesses?',
+  'faq.a7': 'Yes, the Company Navigator matches relevant programs (Startup India, MSME) and demystifies eligibility.',
+  'faq.q8': 'Can you guarantee registration approval?',
+  'faq.a8': 'We can\'t guarantee government approvals, but our guidance reduces common errors that cause rejection.',
+  'faq.q9': 'Does this cover government schemes like Startup India or MSME Udyam?',
+  'faq.a9': 'Yes. The Compliance module highlights relevant programs, eligibility criteria, and application steps — including Startup India registration, MSME Udyam, and other grants.',
+  'faq.q10': 'Does Startup Companion help with GST registration and returns?',
+  'faq.a10': 'Yes. The Compliance module guides you through the GST registration process step by step, including required documents, application portals, and common pitfalls. We also provide checklists and timelines for filing GST returns. If you need hands-on assistance, Startup Companion connects you with vetted tax mentors (CAs, GST consultants).',
+  'faq.q11': 'Do you provide actual logos or just templates? Can AI create them?',
+  'faq.a11': 'Startup Companion gives branding templates and connects you to AI-powered logo generators. For unique, trademark-ready identities, vetted branding mentors are available.',
+  'faq.q12': 'Does Startup Companion ensure the name is unique and available?',
+  'faq.a12': 'Startup Companion helps you generate name ideas and immediately check for Domain availability; Trademark conflicts (via IP India / USPTO links); Business registry conflicts (India); Social media handles',
+  'faq.q13': 'Can I use this for product startups?',
+  'faq.a13': 'Startup Companion is optimized for service businesses but many steps apply to product-based startups too.',
+  'faq.q14': 'What happens if I have a compliance question the AI can\'t solve?',
+  'faq.a14': 'The integrated Legal Desk connects you to human experts, on-demand.',
+  'faq.q15': 'Can AI replace a mentor?',
+  'faq.a15': 'No. AI gives quick guidance, but mentors bring real-world expertise, judgment, and accountability.',
+  'faq.q16': 'How are mentors vetted?',
+  'faq.a16': 'Every mentor is verified for credentials, track record, and ratings.',
+  'faq.q17': 'Is this free?',
+  'faq.a17': 'Basic guidance is always free, with optional paid recommended expert consults for complex cases.',
+
+  'auth.emailLabel': 'Email Address *',
+  'auth.emailPlaceholder': 'Enter your email address',
+  'auth.passwordLabel': 'Password *',
+  'auth.unexpectedError': 'An unexpected error occurred. Please try again.',
+  'auth.trustPersonalized': 'Personalized',
+  'auth.trustReliable': 'Reliable',
+  'auth.trustBeginnerFriendly': 'Beginner Friendly',
+
+  'login.title': 'Log In to Your Account',
+  'login.subtitle': 'Welcome back! Let\'s turn your idea into a legally established business.',
+  'login.passwordPlaceholder': 'Enter your password',
+  'login.submitting': 'Signing In...',
+  'login.submit': 'Log In & Continue',
+  'login.newHere': 'New here?',
+  'login.signupLink': 'Sign up to start your journey',
+  'login.failed': 'Failed to sign in',
+  'login.invalidCredentials': 'That email or password is not correct.',
+  'login.emailNotConfirmed': 'Please confirm your email address, then log in.',
+
+  'signup.title': 'Create Your Account',
+  'signup.subtitle': 'Your startup journey begins here!',
+  'signup.passwordPlaceholder': 'Create a secure password',
+  'signup.passwordTooShort': 'Password must be at least 8 characters long',
+  'signup.passwordNeedsLetter': 'Password must contain at least one letter',
+  'signup.passwordNeedsNumber': 'Password must contain at least one number',
+  'signup.passwordNeedsSymbol': 'Password must contain at least one symbol',
+  'signup.success': 'Account created successfully! Logging you in...',
+  'signup.requirementsLabel': 'Password requirements',
+  'signup.requirements': '8+ characters with at least one letter, number, and symbol',
+  'signup.submitting': 'Creating Account...',
+  'signup.submit': 'Sign Up & Get Started',
+  'signup.haveAccount': 'Already have an account?',
+  'signup.loginLink': 'Sign in here',
+  'signup.failed': 'Failed to create user',
+  'signup.alreadyRegistered': 'An account with this email already exists. Please log in.',
+
+  'viewer.editSection': 'Edit Section',
+  'viewer.hideEditor': 'Hide Editor',
+  'viewer.share': 'Share',
+  'viewer.versions': 'Versions',
+  'viewer.hideVersions': 'Hide Versions',
+  'viewer.regenerateSection': 'Regenerate a Section',
+  'viewer.compareVersions': 'Compare Versions',
+
+  'versions.loading': 'Loading versions...',
+  'versions.onlyOne': 'Only one version of this guide exists. Regenerate it to compare versions.',
+  'versions.unknownModel': 'Unknown model',
+  'versions.older': 'Older',
+  'versions.newer': 'Newer',
+  'versions.changed': '{count} changed',
+  'versions.added': '{count} added',
+  'versions.removed': '{count} removed',
+
+  'guideData.recommended': 'Recommended: {entity}',
+  'guideData.timeline': 'Timeline',
+  'guideData.aboutDays': 'About {count} days',
+  'guideData.day': 'Day {day}',
+  'guideData.dayRange': 'Day {start}-{end}',
+  'guideData.costs': 'Costs',
+  'guideData.item': 'Item',
+  'guideData.frequency': 'Frequency',
+  'guideData.amount': 'Amount',
+  'guideData.oneTime': 'One-time',
+  'guideData.monthly': 'Per month',
+  'guideData.yearly': 'Per year',
+  'guideData.total': 'Total ({frequency})',
+  'guideData.checklist': 'Checklist',
+  'guideData.done': '{done}/{total} done',
+  'guideData.portals': 'Official Portals',
+
+  'share.title': 'Share {title}',
+  'share.subtitle': 'Anyone with the link can read it until it expires or you revoke it.',
+  'share.expiresAfter': 'Expires after',
+  'share.dayOne': '{count} day',
+  'share.dayOther': '{count} days',
+  'share.passcode': 'Passcode (optional)',
+  'share.passcodePlaceholder': 'At least 4 characters',
+  'share.label': 'For (optional)',
+  'share.labelPlaceholder': 'e.g. My accountant',
+  'share.creating': 'Creating...',
+  'share.create': 'Create and copy link',
+  'share.links': 'Links',
+  'share.loading': 'Loading links...',
+  'share.empty': 'No links yet.',
+  'share.created': 'Link created {date}',
+  'share.revoked': 'Revoked',
+  'share.expired': 'Expired',
+  'share.expires': 'Expires {date}',
+  'share.viewOne': '{count} view',
+  'share.viewOther': '{count} views',
+  'share.log': 'Log',
+  'share.copy': 'Copy',
+  'share.copied': 'Copied',
+  'share.revoke': 'Revoke',
+  'share.notOpened': 'Not opened yet.',
+  'share.unknownBrowser': 'Unknown browser',
+  'share.wrongPasscode': 'Wrong passcode',
+  'share.signIn': 'Please sign in again to share your guides.',
+  'share.createError': 'Sorry, the link could not be created.',
+  'share.revokeError': 'Sorry, the link could not be revoked. Please try again.',
+  'share.openError': 'This link could not be opened.',
+  'share.invalidExpiry': 'Links can last between 1 and 90 days.',
+  'share.invalidPasscode': 'Passcodes need 4 to 64 characters.',
+  'share.notFound': 'This guide could not be found.',
+  'share.unavailable': 'This link has expired or is no longer available.',
+  'share.passcodeRequired': 'Enter the passcode to view these guides.',
+  'share.passcodeInvalid': 'That passcode is not correct.',
+  'share.tooManyAttempts': 'Too many wrong passcodes. Please try again in 15 minutes.',
+
+  'shared.opening': 'Opening shared guides...',
+  'shared.protected': 'This link is protected',
+  'shared.passcode': 'Passcode',
+  'shared.checking': 'Checking...',
+  'shared.view': 'View guides',
+  'shared.until': 'Shared with you until {date}.',
+  'shared.empty': 'No guides are available for this link yet.',
+  'shared.read': 'Read',
+
+  'brandKit.title': 'Brand the PDFs of {business}',
+  'brandKit.subtitle': 'Your colors, fonts and logo on every guide, ready to hand to investors and CAs.',
+  'brandKit.loading': 'Loading brand kit...',
+  'brandKit.useBrand': 'Use my brand on the guide PDFs',
+  'brandKit.fromGuide': 'Colors and fonts are taken from your branding guide. Change them here to use your own.',
+  'brandKit.primaryColor': 'Primary color',
+  'brandKit.secondaryColor': 'Secondary color',
+  'brandKit.headingFont': 'Heading font',
+  'brandKit.bodyFont': 'Body font',
+  'brandKit.defaultFont': 'Helvetica (default)',
+  'brandKit.logoLabel': 'Logo for the cover page (PNG or JPEG, up to 2 MB)',
+  'brandKit.uploadLogo': 'Upload logo',
+  'brandKit.replaceLogo': 'Replace logo',
+  'brandKit.removeLogo': 'Remove logo',
+  'brandKit.saving': 'Updating PDFs...',
+  'brandKit.save': 'Save and update PDFs',
+  'brandKit.logoType': 'The logo must be a PNG or JPEG image.',
+  'brandKit.logoSize': 'The logo must be smaller than 2 MB.',
+  'brandKit.logoUploadError': 'Sorry, the logo could not be uploaded.',
+  'brandKit.saveError': 'Sorry, the brand kit could not be saved.',
+  'brandKit.restyleSignIn': 'Your brand kit was saved, but please sign in again to update your PDFs.',
+  'brandKit.restyleError': 'Your brand kit was saved, but the PDFs could not be updated.',
+  'brandKit.restylePartial': 'Your brand kit was saved, but {failed} of {total} PDFs could not be updated. Save again to retry them.',
+
+  'download.signIn': 'Please sign in again to download your guides.',
+  'download.error': 'Sorry, the download could not be prepared.',
+
+  'followUp.signIn': 'Please sign in again to ask a question.',
+
+  'normalize.error': 'Sorry, I could not read that answer.'
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
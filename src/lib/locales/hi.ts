@@ -0,0 +1,453 @@
+import type { MessageKey } from './en';
+
+/** UI strings in Hindi */
+const hi: Record<MessageKey, string> = {
+  'language.label': 'भाषा',
+  'language.saveError': 'माफ़ कीजिए, आपकी भाषा सेव नहीं हो सकी। कृपया फिर से कोशिश करें।',
+
+  'nav.home': 'होम',
+  'nav.benefits': 'हमें क्यों चुनें',
+  'nav.howItWorks': 'यह कैसे काम करता है',
+  'nav.pricing': 'कीमत',
+  'nav.testimonials': 'अनुभव',
+  'nav.faq': 'सवाल-जवाब',
+  'nav.login': 'लॉगिन',
+  'nav.signup': 'साइन अप',
+  'nav.history': 'इतिहास',
+  'nav.documents': 'दस्तावेज़',
+  'nav.mentors': 'मेंटर',
+  'nav.logout': 'लॉगआउट',
+  'footer.tagline': '30 मिनट में अपने तरीके से अपना बिज़नेस शुरू करें',
+  'footer.readyTitle': 'अपने सर्विस बिज़नेस के आइडिया को हकीकत बनाने के लिए तैयार हैं?',
+  'footer.readyText': 'आज ही Startup Companion के साथ अपना सफ़र शुरू करें — रजिस्ट्रेशन से लॉन्च तक आपका AI साथी।',
+  'footer.navigation': 'नेविगेशन',
+  'footer.connect': 'हमसे जुड़ें',
+  'footer.follow': 'स्टार्टअप टिप्स, सफलता की कहानियों और अपडेट के लिए हमें फ़ॉलो करें।',
+  'footer.ctaTitle': 'अपना बिज़नेस सफ़र शुरू करने के लिए तैयार हैं?',
+  'footer.ctaText': 'उन हज़ारों उद्यमियों से जुड़ें जिन्होंने हमारे मार्गदर्शन से अपना सर्विस बिज़नेस सफलतापूर्वक शुरू किया।',
+  'footer.cta': 'आज ही शुरू करें',
+  'footer.privacy': 'गोपनीयता नीति',
+  'footer.terms': 'नियम और शर्तें',
+  'footer.copyright': '© {year} Startup Companion. सर्वाधिकार सुरक्षित।',
+
+  'common.backToChat': 'चैट पर वापस जाएँ',
+  'common.preparing': 'तैयार हो रहा है...',
+  'common.yes': 'हाँ',
+  'common.no': 'नहीं',
+  'common.edit': 'बदलें',
+  'common.add': 'जोड़ें',
+  'common.save': 'सेव करें',
+  'common.saving': 'सेव हो रहा है...',
+  'common.cancel': 'रद्द करें',
+  'common.close': 'बंद करें',
+  'common.email': 'ईमेल',
+  'common.call': 'कॉल',
+  'common.signInAgain': 'कृपया जारी रखने के लिए फिर से साइन इन करें।',
+
+  'guide.registration': 'रजिस्ट्रेशन गाइड',
+  'guide.branding': 'ब्रांडिंग गाइड',
+  'guide.compliance': 'कंप्लायंस गाइड',
+  'guide.hr': 'HR सेटअप गाइड',
+  'guide.financial_planning': 'वित्तीय योजना गाइड',
+
+  'service.idea_tuning': 'आइडिया ट्यूनिंग',
+  'service.confirmed_idea_flow': 'पक्का आइडिया',
+  'service.registration': 'रजिस्ट्रेशन',
+  'service.branding': 'ब्रांडिंग',
+  'service.compliance': 'कंप्लायंस',
+  'service.hr': 'HR सेटअप',
+  'service.financial_planning': 'वित्तीय योजना',
+
+  'chat.welcome': 'StartUP Companion में आपका स्वागत है! मैं आपका बिज़नेस शुरू करने में मदद के लिए यहाँ हूँ।\n\nकृपया एक विकल्प चुनें:\n\n1. आइडिया ट्यूनिंग - मेरा आइडिया अभी पक्का नहीं है\n2. पक्का आइडिया - मैं अपने बिज़नेस दस्तावेज़ पाने के लिए तैयार हूँ\n\nशुरू करने के लिए बस नंबर (1 या 2) लिखें!',
+  'chat.sessionError': 'आपका सेशन शुरू करने में समस्या आई। यह डेटाबेस कनेक्शन की समस्या हो सकती है। कृपया पेज रीफ़्रेश करें। अगर समस्या बनी रहे, तो लॉगआउट करके फिर से लॉगिन करें।',
+  'chat.choosePrompt': 'आगे बढ़ने के लिए आइडिया ट्यूनिंग के लिए 1 या पक्के आइडिया के लिए 2 लिखें।',
+  'chat.welcomeBackIdea': 'फिर से स्वागत है! आपके आइडिया का सारांश ऊपर है। पक्के आइडिया की प्रश्नावली पर जाने के लिए "हाँ" लिखें, या आइडिया को और निखारने के लिए बात जारी रखें।',
+  'chat.welcomeBackTuning': 'फिर से स्वागत है! चलिए आपके आइडिया पर काम जारी रखते हैं - ऊपर मेरे आखिरी सवाल का जवाब दें, या खत्म करने के लिए "हो गया" लिखें।',
+  'chat.welcomeBackQuestion': 'फिर से स्वागत है! चलिए वहीं से शुरू करते हैं जहाँ आपने छोड़ा था।',
+  'chat.welcomeBackReview': 'फिर से स्वागत है! आपके सभी जवाब आ चुके हैं। नीचे उन्हें देख लें, फिर अपनी गाइड बनाएँ।',
+  'chat.businessStartError': 'माफ़ कीजिए, {business} के लिए नई गाइड शुरू नहीं हो सकीं। कृपया फिर से कोशिश करें।',
+  'chat.businessNewGuides': 'चलिए {business} के लिए नई गाइड तैयार करते हैं। मैंने आपके सेव किए जवाब ले लिए हैं - जो बदला है उसे अपडेट करें, फिर अपनी गाइड बनाएँ।',
+  'chat.reviewHint': 'कोई जवाब बदलने के लिए प्रोफ़ाइल सारांश में "बदलें" बटन का इस्तेमाल करें, फिर सब ठीक लगने पर अपनी गाइड बनाएँ।',
+  'chat.followUpError': 'माफ़ कीजिए, मैं अभी इसका जवाब नहीं दे सका। कृपया फिर से कोशिश करें।',
+  'chat.sources': 'स्रोत',
+  'chat.thinkingIdea': 'आपके आइडिया पर सोच रहा हूँ...',
+  'chat.readingAnswer': 'आपका जवाब पढ़ रहा हूँ...',
+  'chat.searchingGuides': 'आपकी गाइड में देख रहा हूँ...',
+  'chat.waitGenerating': 'कृपया प्रतीक्षा करें, हम आपके दस्तावेज़ बना रहे हैं। इसमें कुछ समय लग सकता है...',
+  'chat.placeholderGenerating': 'दस्तावेज़ बन रहे हैं... कृपया प्रतीक्षा करें',
+  'chat.placeholderFollowUp': 'अपनी गाइड के बारे में सवाल पूछें...',
+  'chat.placeholderReview': 'ऊपर अपने जवाब देख लें...',
+  'chat.placeholder': 'अपना संदेश लिखें...',
+  'chat.shareAllTitle': '{business} की सभी गाइड',
+
+  'resume.title': 'आपका एक सेशन अधूरा है',
+  'resume.newConversation': 'आपने एक नई बातचीत शुरू की थी',
+  'resume.inService': 'आप {service} में थे',
+  'resume.lastMessage': ' - आखिरी संदेश {time}।',
+  'resume.continue': 'जहाँ छोड़ा था वहीं से जारी रखें',
+  'resume.startFresh': 'नए सिरे से शुरू करें',
+
+  'ideaTuning.error': 'माफ़ कीजिए, आपके आइडिया पर काम करते समय कुछ गड़बड़ हो गई। कृपया फिर से कोशिश करें।',
+  'ideaTuning.summary': 'यह रहा आपका निखरा हुआ आइडिया:\n\n{summary}\n\nपक्के आइडिया की प्रश्नावली पर जाने के लिए "हाँ" लिखें{filledIn}। या आइडिया को और निखारने के लिए बात जारी रखें।',
+  'ideaTuning.filledIn': ' - मैंने आपका {fields} पहले ही भर दिया है',
+  'ideaTuning.field.business_name': 'कंपनी का नाम',
+  'ideaTuning.field.company_description': 'कंपनी का विवरण',
+  'ideaTuning.field.location': 'जगह',
+  'ideaTuning.field.industry': 'उद्योग',
+
+  'questionnaire.intro': 'बढ़िया! ज़रूरी जानकारी के लिए मैं आपसे कुछ छोटे सवाल पूछूँगा। किसी भी सवाल पर संकेत के लिए "मदद" लिखें।',
+  'questionnaire.introPrefilled': 'बढ़िया! मैंने आइडिया ट्यूनिंग से आपकी जानकारी ले ली है, इसलिए मुझे बस कुछ और जवाब चाहिए।',
+  'questionnaire.position': 'सवाल {position} / {total}:',
+  'questionnaire.answerYesNo': 'कृपया हाँ या नहीं में जवाब दें।',
+  'questionnaire.tip': 'सुझाव: {text}',
+  'questionnaire.skipHint': 'इसे छोड़ने के लिए "छोड़ें" लिखें।',
+  'questionnaire.retry': 'कोई बात नहीं, फिर से कोशिश करते हैं।',
+  'questionnaire.defaultHelp': 'अपने शब्दों में जवाब दें - मोटा-मोटा जवाब भी चलेगा, आप इसे बाद में सुधार सकते हैं।',
+  'questionnaire.confirmNormalized': 'मैंने यह समझा:\n\n{summary}\n\nक्या यह सही है? सेव करने के लिए "हाँ", फिर से जवाब देने के लिए "नहीं" लिखें, या सुधरा हुआ जवाब लिखें।',
+  'questionnaire.saveError': 'माफ़ कीजिए, आपका जवाब सेव करने में गड़बड़ हुई। कृपया फिर से कोशिश करें या पेज रीफ़्रेश करें।',
+  'questionnaire.gotIt': 'समझ गया!',
+  'questionnaire.complete': 'बहुत बढ़िया! मुझे ज़रूरी सारी जानकारी मिल गई है।\n\nयह रहा आपके जवाबों का सारांश। जो ठीक नहीं है उसे बदलें, फिर अपनी गाइड बनाएँ।',
+  'questionnaire.errorEmpty': 'कृपया जवाब लिखें।',
+  'questionnaire.errorTooLong': 'कृपया अपना जवाब {max} अक्षरों से छोटा रखें।',
+  'questionnaire.errorTooShort': 'कृपया थोड़ा और विस्तार से बताएँ (कम से कम {min} अक्षर)।',
+  'questionnaire.errorInvalid': 'यह जवाब सही नहीं लग रहा। कृपया फिर से कोशिश करें।',
+  'questionnaire.errorAmount': 'कृपया रकम लिखें, जैसे ₹10 लाख, या "पता नहीं" लिखें।',
+  'questionnaire.errorChoice': 'कृपया किसी एक विकल्प का नंबर चुनें (1-{count})।',
+
+  'review.title': 'आपकी बिज़नेस प्रोफ़ाइल',
+  'review.subtitleGenerate': 'गाइड लिखे जाने से पहले अपने जवाब जाँच लें और जो गलत हो उसे ठीक करें।',
+  'review.subtitleUpdate': 'बदलाव से सिर्फ वही गाइड दोबारा बनती हैं जिनमें वे जवाब इस्तेमाल होते हैं।',
+  'review.choose': 'चुनें...',
+  'review.required': 'ज़रूरी - कृपया जवाब जोड़ें',
+  'review.skipped': 'छोड़ा गया',
+  'review.missingOne': '{count} ज़रूरी जवाब बाकी है।',
+  'review.missingOther': '{count} ज़रूरी जवाब बाकी हैं।',
+  'review.allFilled': 'सभी ज़रूरी जवाब भरे जा चुके हैं।',
+  'review.confirmGenerate': 'सब ठीक है - मेरी गाइड बनाएँ',
+  'review.updateGuide': 'गाइड अपडेट करें: {guides}',
+  'review.updateGuides': 'गाइड अपडेट करें: {guides}',
+  'review.done': 'हो गया',
+  'review.saveError': 'माफ़ कीजिए, आपका जवाब सेव करने में गड़बड़ हुई। कृपया फिर से कोशिश करें।',
+
+  'generation.started': 'आपकी जानकारी पर काम हो रहा है और आपके बिज़नेस दस्तावेज़ बन रहे हैं...',
+  'generation.wait': 'इसमें कुछ समय लग सकता है। कृपया प्रतीक्षा करें।',
+  'generation.regenerating': 'आपकी प्रोफ़ाइल अपडेट हो गई है। बदले हुए जवाबों वाली गाइड दोबारा बन रही हैं: {guides}।',
+  'generation.error': 'माफ़ कीजिए, कुछ गड़बड़ हो गई। कृपया पेज रीफ़्रेश करके फिर से कोशिश करें।',
+  'generation.profileError': 'माफ़ कीजिए, आपकी बिज़नेस जानकारी लाने में गड़बड़ हुई। कृपया फिर से कोशिश करें।',
+  'generation.profileMissing': 'माफ़ कीजिए, आपकी बिज़नेस जानकारी नहीं मिली। कृपया शुरू से शुरू करें।',
+  'generation.missingAnswers': 'कुछ जवाब अभी बाकी हैं: {questions}\n\nकृपया उन्हें नीचे प्रोफ़ाइल सारांश में जोड़ें।',
+  'generation.queueError': 'माफ़ कीजिए, आपके दस्तावेज़ बनाना शुरू नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'generation.loaderTitle': 'दस्तावेज़ बन रहे हैं:',
+  'generation.loaderCompleted': '{completed}/{total} पूरे',
+  'generation.creating': 'सामग्री तैयार हो रही है...',
+  'generation.writing': 'लिखा जा रहा है... अब तक {count} शब्द',
+
+  'rating.prompt': '🎉 आपके सभी बिज़नेस दस्तावेज़ बन गए हैं!\n\nआप उन्हें दस्तावेज़ डैशबोर्ड में देख सकते हैं।\n\n{question}\n\nकृपया 1 से 5 तक कोई नंबर लिखें:\n\n1 ⭐ - खराब\n2 ⭐⭐ - ठीक-ठाक\n3 ⭐⭐⭐ - अच्छा\n4 ⭐⭐⭐⭐ - बहुत अच्छा\n5 ⭐⭐⭐⭐⭐ - शानदार',
+  'rating.question': 'आपका अनुभव कैसा रहा?',
+  'rating.thanks': '{rating}-स्टार रेटिंग के लिए धन्यवाद!',
+  'rating.glad': '🎉 हमें खुशी है कि आपका अनुभव अच्छा रहा!',
+  'rating.sorry': 'यह सुनकर हमें अफ़सोस है। क्या आप संक्षेप में बता सकते हैं कि क्या गलत हुआ या हम क्या बेहतर कर सकते हैं? आपका फ़ीडबैक हमें आपकी बेहतर सेवा करने में मदद करता है।',
+  'rating.final': 'आपके सभी दस्तावेज़ डैशबोर्ड में मौजूद हैं। आप उन्हें कभी भी देख या डाउनलोड कर सकते हैं, और उनके बारे में कोई भी सवाल यहाँ मुझसे पूछ सकते हैं। StartUP Companion इस्तेमाल करने के लिए धन्यवाद!',
+  'rating.feedbackThanks': 'आपके फ़ीडबैक के लिए धन्यवाद। हम आपको अपने विशेषज्ञ मेंटरों से जोड़ते हैं, जो आपके बिज़नेस के हर हिस्से में व्यक्तिगत मार्गदर्शन दे सकते हैं।',
+  'rating.mentorsTitle': '📞 आपके लिए सुझाए गए मेंटर',
+  'rating.invalid': 'कृपया 1 से 5 के बीच सही रेटिंग दें।',
+
+  'mentors.eyebrow': 'विशेषज्ञ नेटवर्क',
+  'mentors.title': 'अपने मेंटरों से मिलें',
+  'mentors.subtitle': 'ऐसे विशेषज्ञों से जुड़ें जिन्होंने सैकड़ों फ़ाउंडरों को रजिस्ट्रेशन, कंप्लायंस, ब्रांडिंग और HR में राह दिखाई है।',
+  'mentors.loading': 'मेंटर प्रोफ़ाइल लोड हो रही हैं...',
+  'mentors.loadError': 'अभी मेंटर लोड नहीं हो पा रहे। कृपया फिर से कोशिश करें।',
+  'mentors.empty': 'हम जल्द ही मेंटर जोड़ रहे हैं। कृपया कुछ समय बाद फिर देखें।',
+  'mentors.fallbackExpertise': 'स्टार्टअप के मुख्य कामों में विशेषज्ञ मार्गदर्शन।',
+  'mentors.schedule': 'परिचय कॉल तय करें',
+  'mentors.connect': 'विशेषज्ञ से जुड़ें',
+  'mentors.serviceExpert': '{service} विशेषज्ञ',
+
+  'section.signIn': 'इस गाइड को बदलने के लिए कृपया फिर से लॉगिन करें।',
+  'section.error': 'यह हिस्सा दोबारा नहीं बन सका। कृपया फिर से कोशिश करें।',
+  'section.none': 'इस गाइड में ऐसा कोई सेक्शन नहीं है जिसे दोबारा बनाया जा सके।',
+  'section.label': 'सेक्शन',
+  'section.instructionLabel': 'क्या बदलना चाहिए?',
+  'section.instructionPlaceholder': 'जैसे: 3 डायरेक्टर मानें, जिनमें से एक NRI है',
+  'section.hint': 'सिर्फ़ यही सेक्शन दोबारा लिखा जाएगा। बाकी गाइड जैसी है वैसी रहेगी।',
+  'section.regenerating': 'दोबारा बन रहा है...',
+  'section.submit': 'सेक्शन दोबारा बनाएँ',
+  'section.updated': '"{title}" अपडेट हो गया और PDF दोबारा बन गई।',
+
+  'dashboard.title': 'आपके बिज़नेस दस्तावेज़',
+  'dashboard.subtitle': 'आपकी सभी ज़रूरी बिज़नेस गाइड तैयार हैं। देखने या डाउनलोड करने के लिए क्लिक करें।',
+  'dashboard.downloadAll': 'सब डाउनलोड करें',
+  'dashboard.shareAll': 'सभी गाइड शेयर करें',
+  'dashboard.brand': 'PDF पर ब्रांड',
+  'dashboard.editProfile': 'बिज़नेस प्रोफ़ाइल बदलें',
+  'dashboard.queued': 'कतार में...',
+  'dashboard.generating': 'बन रहा है...',
+  'dashboard.failed': 'दस्तावेज़ नहीं बन सका',
+  'dashboard.tryAgain': 'फिर से कोशिश करें',
+  'dashboard.keyHighlights': 'मुख्य बातें:',
+  'dashboard.noKeyPoints': 'कोई मुख्य बात उपलब्ध नहीं',
+  'dashboard.viewFull': 'पूरा दस्तावेज़ देखें',
+
+  'history.title': 'दस्तावेज़ इतिहास',
+  'history.subtitle': 'अपने पिछले सेशन के दस्तावेज़ देखें।',
+  'history.loading': 'आपका इतिहास लोड हो रहा है...',
+  'history.empty': 'अभी तक कोई दस्तावेज़ नहीं मिला।',
+  'history.unnamedBusiness': 'बिना नाम का बिज़नेस',
+  'history.documentCountOne': '({count} दस्तावेज़)',
+  'history.documentCountOther': '({count} दस्तावेज़)',
+  'history.downloadAll': 'सब डाउनलोड करें',
+  'history.view': 'दस्तावेज़ देखें',
+  'history.downloadPdf': 'PDF डाउनलोड करें',
+
+  'businesses.title': 'आपके बिज़नेस',
+  'businesses.empty': 'गाइड बनने के बाद आपका बिज़नेस यहाँ दिखेगा।',
+  'businesses.open': 'इस बिज़नेस की गाइड खोलें',
+  'businesses.guides': 'गाइड',
+  'businesses.newGuides': 'नई गाइड',
+  'businesses.newBusiness': 'नया बिज़नेस',
+
+  'hero.title': 'अपना बिज़नेस शुरू करने के लिए आपके हिसाब से मार्गदर्शन,',
+  'hero.titleHighlight': '30 मिनट से भी कम में',
+  'hero.subtitle': 'सब कुछ एक ही जगह — कानूनी ज़रूरतों, रजिस्ट्रेशन, फ़ाइनेंस के विकल्पों, ब्रांडिंग और HR पर विशेषज्ञ मार्गदर्शन, आपके बिज़नेस आइडिया के हिसाब से।',
+  'hero.start': 'अपना सफ़र शुरू करें',
+  'hero.tryFree': 'मुफ़्त में आज़माएँ',
+  'hero.trusted': 'पूरे भारत के उद्यमियों का भरोसा',
+
+  'benefits.title': 'Startup Companion ही क्यों चुनें?',
+  'benefits.subtitle': 'अपने सर्विस बिज़नेस आइडिया को सफल बिज़नेस बनाने के लिए ज़रूरी सब कुछ',
+  'benefits.instantTitle': 'कभी भी तुरंत मार्गदर्शन',
+  'benefits.instantText': 'चैट में लिखकर या बोलकर बिज़नेस, टैक्स, HR या मार्केटिंग पर जवाब पाएँ।',
+  'benefits.compliantTitle': 'आसानी से नियमों का पालन करें',
+  'benefits.compliantText': 'एक आसान टूल जो पहली बार बिज़नेस शुरू करने वालों को बिना उलझन या डर के नियमों का पालन करने में मदद करता है।',
+  'benefits.mentorsTitle': 'मेंटर से सीधा संपर्क',
+  'benefits.mentorsText': 'ज़रूरत पड़ने पर भरोसेमंद मेंटर से उनके संपर्क विवरण के ज़रिए जुड़ें और अपने हिसाब से मदद पाएँ।',
+
+  'howItWorks.title': 'यह कैसे काम करता है?',
+  'howItWorks.subtitle': 'अपने बिज़नेस आइडिया को हकीकत बनाने के आसान कदम',
+  'howItWorks.onboardingTitle': 'शुरुआत',
+  'howItWorks.onboardingText': 'आसान तरीके से StartUP Companion पर रजिस्टर और साइन इन करें।',
+  'howItWorks.serviceTitle': 'अपनी सेवा चुनें',
+  'howItWorks.serviceText': 'जिस मदद की ज़रूरत है उसे चुनें — जैसे आइडिया ट्यूनिंग, रजिस्ट्रेशन, नियम पालन, ब्रांडिंग या HR।',
+  'howItWorks.guidanceTitle': 'अपने हिसाब से मार्गदर्शन पाएँ',
+  'howItWorks.guidanceText': 'अपना बिज़नेस शुरू करने के लिए साफ़ और आपके हिसाब से जानकारी पाएँ।',
+  'howItWorks.mentorsTitle': 'मेंटर से जुड़ें',
+  'howItWorks.mentorsText': 'और स्पष्टता चाहिए तो अपनी ज़रूरत के हिसाब से चुने गए भरोसेमंद मेंटर से सीधे जुड़ें।',
+  'howItWorks.historyTitle': 'अपना इतिहास देखें',
+  'howItWorks.historyText': 'नए सवालों के साथ कभी भी लौटें — आपकी पिछली बातचीत और इतिहास हमेशा सेव रहते हैं।',
+
+  'pricing.title': 'पूरा स्टार्टअप सफ़र, एक साथ',
+  'pricing.subtitle': 'हर सवाल का जवाब पाएँ',
+  'pricing.badge': 'मुफ़्त ट्रायल उपलब्ध',
+  'pricing.featureCompliance': 'कानूनी नियम पालन पर मार्गदर्शन',
+  'pricing.featureTax': 'टैक्स और ग्रांट की जानकारी',
+  'pricing.featureBranding': 'ब्रांडिंग में मदद',
+  'pricing.featureHr': 'HR पॉलिसी टेम्पलेट',
+  'pricing.featureLanguage': 'स्थानीय भाषा में सहायता',
+  'pricing.featureMentor': 'मेंटर से व्यक्तिगत सलाह',
+  'pricing.cta': 'अभी मुफ़्त में आज़माएँ',
+  'pricing.note': 'क्रेडिट कार्ड की ज़रूरत नहीं • तुरंत शुरू करें',
+
+  'testimonials.title': 'हमारे फ़ाउंडर क्या कहते हैं',
+  'testimonials.subtitle': 'उन उद्यमियों की सच्ची कहानियाँ जिन्होंने अपने आइडिया को सफल बिज़नेस बनाया',
+  'testimonials.founder': 'फ़ाउंडर',
+  'testimonials.coFounder': 'को-फ़ाउंडर',
+  'testimonials.smallBusinessOwner': 'छोटे बिज़नेस की मालिक',
+  'testimonials.rajeshQuote': 'पहली बार बिज़नेस शुरू करते हुए Startup Companion ने रजिस्ट्रेशन और नियम पालन का सारा डर दूर कर दिया। मैंने बिना किसी परेशानी के अपनी LLP रजिस्टर की।',
+  'testimonials.rajeshCompany': 'मैनेजमेंट कंसल्टेंट, मुंबई',
+  'testimonials.emilyQuote': 'फ़ाइनेंशियल सेटअप एजेंट कमाल का था! उसने ऐसी ग्रांट ढूँढने में मदद की जिनके बारे में मुझे पता भी नहीं था, और 30 मिनट से कम में मेरी बिज़नेस बैंकिंग शुरू करवा दी।',
+  'testimonials.emilyCompany': 'मार्केटिंग एजेंसी, कोलकाता',
+  'testimonials.swethaQuote': 'कानूनी टेम्पलेट से लेकर कदम-दर-कदम प्रक्रिया तक, सब कुछ मेरे जैसे नए लोगों के लिए बना है। ज़रूर आज़माएँ!',
+  'testimonials.swethaCompany': 'हैदराबाद',
+
+  'faq.title': 'अक्सर पूछे जाने वाले सवाल',
+  'faq.subtitle': 'Startup Companion के बारे में आम सवालों के जवाब',
+  'faq.general': 'सामान्य',
+  'faq.services': 'सेवाएँ',
+  'faq.mentors': 'मेंटर',
+  'faq.pricing': 'कीमत',
+  'faq.q1': 'क्या मैं कानून या बिज़नेस का अनुभव न होने पर भी यह ऐप इस्तेमाल कर सकता हूँ?',
+  'faq.a1': 'बिल्कुल! हर टूल, टेम्पलेट और जानकारी नए लोगों के लिए ही बनाई गई है।',
+  'faq.q2': 'क्या ऐप मेरे लिए फ़ॉर्म भरता है?',
+  'faq.a2': 'नहीं; यह सिर्फ़ बताता है कि कौन-से फ़ॉर्म चाहिए और उन्हें पूरा करने के लिए कहाँ या किससे संपर्क करें।',
+  'faq.q3': 'Startup Companion किसके लिए है?',
+  'faq.a3': 'भारत में पहली बार सर्विस बिज़नेस शुरू करने वाले लोग, जिन्हें सीधा और कदम-दर-कदम मार्गदर्शन चाहिए।',
+  'faq.q4': 'क्या आप मेरे लिए दस्तावेज़ फ़ाइल करते हैं?',
+  'faq.a4': 'नहीं। हम कदम-दर-कदम बताते हैं कि क्या, कहाँ और कैसे फ़ाइल करना है। आख़िरी सबमिशन सरकारी पोर्टल पर होता है।',
+  'faq.q5': 'क्या यह सभी देशों की ज़रूरतों में मदद करता है?',
+  'faq.a5': 'अभी सारा मार्गदर्शन भारत के कानून और नियमों के हिसाब से है।',
+  'faq.q6': 'क्या Startup Companion एक लॉ फ़र्म है?',
+  'faq.a6': 'नहीं। यह एक सीखने का प्लेटफ़ॉर्म है जो प्रक्रियाओं को आसान बनाता है और ज़रूरत पड़ने पर लाइसेंस वाले विशेषज्ञों से जोड़ता है।',
+  'faq.q7': 'क्या यह ऐप नए बिज़नेस के लिए सरकारी ग्रांट या योजनाओं के बारे में बताएगा?',
+  'faq.a7': 'हाँ, Company Navigator सही योजनाएँ (Startup India, MSME) ढूँढता है और पात्रता आसान भाषा में समझाता है।',
+  'faq.q8': 'क्या आप रजिस्ट्रेशन मंज़ूर होने की गारंटी देते हैं?',
+  'faq.a8': 'हम सरकारी मंज़ूरी की गारंटी नहीं दे सकते, लेकिन हमारा मार्गदर्शन उन आम गलतियों को कम करता है जिनसे आवेदन रद्द होते हैं।',
+  'faq.q9': 'क्या इसमें Startup India या MSME Udyam जैसी सरकारी योजनाएँ शामिल हैं?',
+  'faq.a9': 'हाँ। Compliance मॉड्यूल सही योजनाएँ, पात्रता और आवेदन के कदम बताता है — जिनमें Startup India रजिस्ट्रेशन, MSME Udyam और दूसरी ग्रांट शामिल हैं।',
+  'faq.q10': 'क्या Startup Companion GST रजिस्ट्रेशन और रिटर्न में मदद करता है?',
+  'faq.a10': 'हाँ। Compliance मॉड्यूल GST रजिस्ट्रेशन की प्रक्रिया कदम-दर-कदम बताता है, जिसमें ज़रूरी दस्तावेज़, आवेदन पोर्टल और आम गलतियाँ शामिल हैं। हम GST रिटर्न फ़ाइल करने की चेकलिस्ट और समय-सीमा भी देते हैं। अगर आपको सीधी मदद चाहिए, तो Startup Companion आपको जाँचे-परखे टैक्स मेंटर (CA, GST सलाहकार) से जोड़ता है।',
+  'faq.q11': 'क्या आप असली लोगो देते हैं या सिर्फ़ टेम्पलेट? क्या AI उन्हें बना सकता है?',
+  'faq.a11': 'Startup Companion ब्रांडिंग टेम्पलेट देता है और AI से लोगो बनाने वाले टूल से जोड़ता है। अनोखी, ट्रेडमार्क के लायक पहचान के लिए जाँचे-परखे ब्रांडिंग मेंटर उपलब्ध हैं।',
+  'faq.q12': 'क्या Startup Companion पक्का करता है कि नाम अनोखा और उपलब्ध है?',
+  'faq.a12': 'Startup Companion नाम के आइडिया देता है और तुरंत जाँचने में मदद करता है: डोमेन उपलब्धता; ट्रेडमार्क टकराव (IP India / USPTO लिंक से); बिज़नेस रजिस्ट्री टकराव (भारत); सोशल मीडिया हैंडल',
+  'faq.q13': 'क्या मैं इसे प्रोडक्ट स्टार्टअप के लिए इस्तेमाल कर सकता हूँ?',
+  'faq.a13': 'Startup Companion सर्विस बिज़नेस के लिए बना है, लेकिन कई कदम प्रोडक्ट स्टार्टअप पर भी लागू होते हैं।',
+  'faq.q14': 'अगर नियम पालन का कोई सवाल AI हल न कर पाए तो क्या होगा?',
+  'faq.a14': 'इसमें मौजूद Legal Desk आपको ज़रूरत पड़ने पर इंसानी विशेषज्ञों से जोड़ता है।',
+  'faq.q15': 'क्या AI मेंटर की जगह ले सकता है?',
+  'faq.a15': 'नहीं। AI जल्दी मार्गदर्शन देता है, लेकिन मेंटर असली अनुभव, समझ और ज़िम्मेदारी लाते हैं।',
+  'faq.q16': 'मेंटर की जाँच कैसे की जाती है?',
+  'faq.a16': 'हर मेंटर की योग्यता, पिछले काम और रेटिंग की जाँच की जाती है।',
+  'faq.q17': 'क्या यह मुफ़्त है?',
+  'faq.a17': 'बुनियादी मार्गदर्शन हमेशा मुफ़्त है; मुश्किल मामलों के लिए चाहें तो विशेषज्ञ से पैसे देकर सलाह ले सकते हैं।',
+
+  'auth.emailLabel': 'ईमेल पता *',
+  'auth.emailPlaceholder': 'अपना ईमेल पता लिखें',
+  'auth.passwordLabel': 'पासवर्ड *',
+  'auth.unexpectedError': 'कुछ गड़बड़ हो गई। कृपया फिर से कोशिश करें।',
+  'auth.trustPersonalized': 'आपके हिसाब से',
+  'auth.trustReliable': 'भरोसेमंद',
+  'auth.trustBeginnerFriendly': 'नए लोगों के लिए आसान',
+
+  'login.title': 'अपने खाते में लॉग इन करें',
+  'login.subtitle': 'फिर से स्वागत है! चलिए आपके आइडिया को कानूनी रूप से शुरू हुआ बिज़नेस बनाते हैं।',
+  'login.passwordPlaceholder': 'अपना पासवर्ड लिखें',
+  'login.submitting': 'साइन इन हो रहा है...',
+  'login.submit': 'लॉग इन करें और आगे बढ़ें',
+  'login.newHere': 'पहली बार आए हैं?',
+  'login.signupLink': 'साइन अप करके अपना सफ़र शुरू करें',
+  'login.failed': 'साइन इन नहीं हो सका',
+  'login.invalidCredentials': 'ईमेल या पासवर्ड सही नहीं है।',
+  'login.emailNotConfirmed': 'कृपया अपना ईमेल पता कन्फ़र्म करें, फिर लॉग इन करें।',
+
+  'signup.title': 'अपना खाता बनाएँ',
+  'signup.subtitle': 'आपका स्टार्टअप सफ़र यहीं से शुरू होता है!',
+  'signup.passwordPlaceholder': 'एक सुरक्षित पासवर्ड बनाएँ',
+  'signup.passwordTooShort': 'पासवर्ड में कम से कम 8 अक्षर होने चाहिए',
+  'signup.passwordNeedsLetter': 'पासवर्ड में कम से कम एक अक्षर (a-z) होना चाहिए',
+  'signup.passwordNeedsNumber': 'पासवर्ड में कम से कम एक अंक होना चाहिए',
+  'signup.passwordNeedsSymbol': 'पासवर्ड में कम से कम एक चिह्न (जैसे ! @ #) होना चाहिए',
+  'signup.success': 'खाता बन गया! आपको लॉग इन किया जा रहा है...',
+  'signup.requirementsLabel': 'पासवर्ड की शर्तें',
+  'signup.requirements': 'कम से कम 8 अक्षर, जिनमें एक अक्षर, एक अंक और एक चिह्न हो',
+  'signup.submitting': 'खाता बन रहा है...',
+  'signup.submit': 'साइन अप करें और शुरू करें',
+  'signup.haveAccount': 'पहले से खाता है?',
+  'signup.loginLink': 'यहाँ साइन इन करें',
+  'signup.failed': 'खाता नहीं बन सका',
+  'signup.alreadyRegistered': 'इस ईमेल से पहले से एक खाता है। कृपया लॉग इन करें।',
+
+  'viewer.editSection': 'सेक्शन बदलें',
+  'viewer.hideEditor': 'एडिटर छिपाएँ',
+  'viewer.share': 'शेयर करें',
+  'viewer.versions': 'वर्शन',
+  'viewer.hideVersions': 'वर्शन छिपाएँ',
+  'viewer.regenerateSection': 'एक सेक्शन दोबारा बनाएँ',
+  'viewer.compareVersions': 'वर्शन की तुलना करें',
+
+  'versions.loading': 'वर्शन लोड हो रहे हैं...',
+  'versions.onlyOne': 'इस गाइड का अभी एक ही वर्शन है। तुलना करने के लिए इसे दोबारा बनाएँ।',
+  'versions.unknownModel': 'अज्ञात मॉडल',
+  'versions.older': 'पुराना',
+  'versions.newer': 'नया',
+  'versions.changed': '{count} बदले',
+  'versions.added': '{count} जोड़े',
+  'versions.removed': '{count} हटाए',
+
+  'guideData.recommended': 'सुझाव: {entity}',
+  'guideData.timeline': 'समय-सीमा',
+  'guideData.aboutDays': 'लगभग {count} दिन',
+  'guideData.day': 'दिन {day}',
+  'guideData.dayRange': 'दिन {start}-{end}',
+  'guideData.costs': 'खर्च',
+  'guideData.item': 'मद',
+  'guideData.frequency': 'कितनी बार',
+  'guideData.amount': 'रकम',
+  'guideData.oneTime': 'एक बार',
+  'guideData.monthly': 'हर महीने',
+  'guideData.yearly': 'हर साल',
+  'guideData.total': 'कुल ({frequency})',
+  'guideData.checklist': 'चेकलिस्ट',
+  'guideData.done': '{done}/{total} पूरे',
+  'guideData.portals': 'सरकारी पोर्टल',
+
+  'share.title': '{title} शेयर करें',
+  'share.subtitle': 'लिंक वाला कोई भी इसे तब तक पढ़ सकता है जब तक लिंक की अवधि ख़त्म न हो या आप उसे रद्द न करें।',
+  'share.expiresAfter': 'कब तक चलेगा',
+  'share.dayOne': '{count} दिन',
+  'share.dayOther': '{count} दिन',
+  'share.passcode': 'पासकोड (चाहें तो)',
+  'share.passcodePlaceholder': 'कम से कम 4 अक्षर',
+  'share.label': 'किसके लिए (चाहें तो)',
+  'share.labelPlaceholder': 'जैसे: मेरे अकाउंटेंट',
+  'share.creating': 'बन रहा है...',
+  'share.create': 'लिंक बनाएँ और कॉपी करें',
+  'share.links': 'लिंक',
+  'share.loading': 'लिंक लोड हो रहे हैं...',
+  'share.empty': 'अभी कोई लिंक नहीं है।',
+  'share.created': '{date} को बना लिंक',
+  'share.revoked': 'रद्द',
+  'share.expired': 'अवधि ख़त्म',
+  'share.expires': '{date} तक',
+  'share.viewOne': '{count} बार देखा गया',
+  'share.viewOther': '{count} बार देखा गया',
+  'share.log': 'लॉग',
+  'share.copy': 'कॉपी करें',
+  'share.copied': 'कॉपी हो गया',
+  'share.revoke': 'रद्द करें',
+  'share.notOpened': 'अभी तक खोला नहीं गया।',
+  'share.unknownBrowser': 'अज्ञात ब्राउज़र',
+  'share.wrongPasscode': 'गलत पासकोड',
+  'share.signIn': 'अपनी गाइड शेयर करने के लिए कृपया फिर से साइन इन करें।',
+  'share.createError': 'माफ़ कीजिए, लिंक नहीं बन सका।',
+  'share.revokeError': 'माफ़ कीजिए, लिंक रद्द नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'share.openError': 'यह लिंक नहीं खुल सका।',
+  'share.invalidExpiry': 'लिंक 1 से 90 दिन तक चल सकते हैं।',
+  'share.invalidPasscode': 'पासकोड में 4 से 64 अक्षर होने चाहिए।',
+  'share.notFound': 'यह गाइड नहीं मिली।',
+  'share.unavailable': 'इस लिंक की अवधि ख़त्म हो गई है या यह अब उपलब्ध नहीं है।',
+  'share.passcodeRequired': 'ये गाइड देखने के लिए पासकोड डालें।',
+  'share.passcodeInvalid': 'यह पासकोड सही नहीं है।',
+  'share.tooManyAttempts': 'बहुत बार गलत पासकोड डाला गया। कृपया 15 मिनट बाद फिर से कोशिश करें।',
+
+  'shared.opening': 'शेयर की गई गाइड खुल रही हैं...',
+  'shared.protected': 'यह लिंक सुरक्षित है',
+  'shared.passcode': 'पासकोड',
+  'shared.checking': 'जाँच हो रही है...',
+  'shared.view': 'गाइड देखें',
+  'shared.until': '{date} तक आपके साथ शेयर की गई।',
+  'shared.empty': 'इस लिंक पर अभी कोई गाइड उपलब्ध नहीं है।',
+  'shared.read': 'पढ़ें',
+
+  'brandKit.title': '{business} की PDF पर अपना ब्रांड लगाएँ',
+  'brandKit.subtitle': 'हर गाइड पर आपके रंग, फ़ॉन्ट और लोगो — निवेशकों और CA को देने के लिए तैयार।',
+  'brandKit.loading': 'ब्रांड किट लोड हो रही है...',
+  'brandKit.useBrand': 'गाइड की PDF पर मेरा ब्रांड लगाएँ',
+  'brandKit.fromGuide': 'रंग और फ़ॉन्ट आपकी ब्रांडिंग गाइड से लिए गए हैं। अपने खुद के इस्तेमाल करने के लिए इन्हें यहाँ बदलें।',
+  'brandKit.primaryColor': 'मुख्य रंग',
+  'brandKit.secondaryColor': 'दूसरा रंग',
+  'brandKit.headingFont': 'हेडिंग फ़ॉन्ट',
+  'brandKit.bodyFont': 'टेक्स्ट फ़ॉन्ट',
+  'brandKit.defaultFont': 'Helvetica (डिफ़ॉल्ट)',
+  'brandKit.logoLabel': 'कवर पेज के लिए लोगो (PNG या JPEG, 2 MB तक)',
+  'brandKit.uploadLogo': 'लोगो अपलोड करें',
+  'brandKit.replaceLogo': 'लोगो बदलें',
+  'brandKit.removeLogo': 'लोगो हटाएँ',
+  'brandKit.saving': 'PDF अपडेट हो रही हैं...',
+  'brandKit.save': 'सेव करें और PDF अपडेट करें',
+  'brandKit.logoType': 'लोगो PNG या JPEG इमेज होना चाहिए।',
+  'brandKit.logoSize': 'लोगो 2 MB से छोटा होना चाहिए।',
+  'brandKit.logoUploadError': 'माफ़ कीजिए, लोगो अपलोड नहीं हो सका।',
+  'brandKit.saveError': 'माफ़ कीजिए, ब्रांड किट सेव नहीं हो सकी।',
+  'brandKit.restyleSignIn': 'आपकी ब्रांड किट सेव हो गई, लेकिन PDF अपडेट करने के लिए कृपया फिर से साइन इन करें।',
+  'brandKit.restyleError': 'आपकी ब्रांड किट सेव हो गई, लेकिन PDF अपडेट नहीं हो सकीं।',
+  'brandKit.restylePartial': 'आपकी ब्रांड किट सेव हो गई, लेकिन {total} में से {failed} PDF अपडेट नहीं हो सकीं। दोबारा कोशिश करने के लिए फिर से सेव करें।',
+
+  'download.signIn': 'अपनी गाइड डाउनलोड करने के लिए कृपया फिर से साइन इन करें।',
+  'download.error': 'माफ़ कीजिए, डाउनलोड तैयार नहीं हो सका।',
+
+  'followUp.signIn': 'सवाल पूछने के लिए कृपया फिर से साइन इन करें।',
+
+  'normalize.error': 'माफ़ कीजिए, मैं वह जवाब समझ नहीं सका।'
+};
+
+export default hi;
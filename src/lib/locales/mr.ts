@@ -0,0 +1,453 @@
+import type { MessageKey } from './en';
+
+/** UI strings in Marathi */
+const mr: Record<MessageKey, string> = {
+  'language.label': 'भाषा',
+  'language.saveError': 'माफ करा, तुमची भाषा सेव्ह झाली नाही. कृपया पुन्हा प्रयत्न करा.',
+
+  'nav.home': 'होम',
+  'nav.benefits': 'आम्हालाच का निवडावे',
+  'nav.howItWorks': 'हे कसे चालते',
+  'nav.pricing': 'किंमत',
+  'nav.testimonials': 'अनुभव',
+  'nav.faq': 'प्रश्नोत्तरे',
+  'nav.login': 'लॉगिन',
+  'nav.signup': 'साइन अप',
+  'nav.history': 'इतिहास',
+  'nav.documents': 'कागदपत्रे',
+  'nav.mentors': 'मेंटर',
+  'nav.logout': 'लॉगआउट',
+  'footer.tagline': '30 मिनिटांत तुमच्या पद्धतीने तुमचा व्यवसाय सुरू करा',
+  'footer.readyTitle': 'तुमच्या सेवा व्यवसायाची कल्पना प्रत्यक्षात आणायला तयार आहात?',
+  'footer.readyText': 'आजच Startup Companion सोबत तुमचा प्रवास सुरू करा — नोंदणीपासून सुरुवातीपर्यंत तुमचा AI मार्गदर्शक.',
+  'footer.navigation': 'नेव्हिगेशन',
+  'footer.connect': 'आमच्याशी जोडा',
+  'footer.follow': 'स्टार्टअप टिप्स, यशोगाथा आणि अपडेटसाठी आम्हाला फॉलो करा.',
+  'footer.ctaTitle': 'तुमचा व्यवसाय प्रवास सुरू करायला तयार आहात?',
+  'footer.ctaText': 'आमच्या मार्गदर्शनाने आपला सेवा व्यवसाय यशस्वीपणे सुरू केलेल्या हजारो उद्योजकांमध्ये सामील व्हा.',
+  'footer.cta': 'आजच सुरू करा',
+  'footer.privacy': 'गोपनीयता धोरण',
+  'footer.terms': 'नियम व अटी',
+  'footer.copyright': '© {year} Startup Companion. सर्व हक्क राखीव.',
+
+  'common.backToChat': 'चॅटवर परत जा',
+  'common.preparing': 'तयार होत आहे...',
+  'common.yes': 'हो',
+  'common.no': 'नाही',
+  'common.edit': 'बदला',
+  'common.add': 'जोडा',
+  'common.save': 'सेव्ह करा',
+  'common.saving': 'सेव्ह होत आहे...',
+  'common.cancel': 'रद्द करा',
+  'common.close': 'बंद करा',
+  'common.email': 'ईमेल',
+  'common.call': 'कॉल',
+  'common.signInAgain': 'कृपया पुढे जाण्यासाठी पुन्हा साइन इन करा.',
+
+  'guide.registration': 'नोंदणी मार्गदर्शक',
+  'guide.branding': 'ब्रँडिंग मार्गदर्शक',
+  'guide.compliance': 'अनुपालन मार्गदर्शक',
+  'guide.hr': 'HR सेटअप मार्गदर्शक',
+  'guide.financial_planning': 'आर्थिक नियोजन मार्गदर्शक',
+
+  'service.idea_tuning': 'कल्पना सुधारणा',
+  'service.confirmed_idea_flow': 'पक्की कल्पना',
+  'service.registration': 'नोंदणी',
+  'service.branding': 'ब्रँडिंग',
+  'service.compliance': 'अनुपालन',
+  'service.hr': 'HR सेटअप',
+  'service.financial_planning': 'आर्थिक नियोजन',
+
+  'chat.welcome': 'StartUP Companion मध्ये तुमचे स्वागत आहे! तुमचा व्यवसाय सुरू करण्यासाठी मी तुमची मदत करायला इथे आहे.\n\nकृपया एक पर्याय निवडा:\n\n1. कल्पना सुधारणा - माझी कल्पना अजून पक्की नाही\n2. पक्की कल्पना - मी माझी व्यवसाय कागदपत्रे मिळवायला तयार आहे\n\nसुरू करण्यासाठी फक्त क्रमांक (1 किंवा 2) लिहा!',
+  'chat.sessionError': 'तुमचे सेशन सुरू करताना अडचण आली. ही डेटाबेस कनेक्शनची अडचण असू शकते. कृपया पेज रिफ्रेश करा. अडचण कायम राहिल्यास लॉगआउट करून पुन्हा लॉगिन करा.',
+  'chat.choosePrompt': 'पुढे जाण्यासाठी कल्पना सुधारणेसाठी 1 किंवा पक्क्या कल्पनेसाठी 2 लिहा.',
+  'chat.welcomeBackIdea': 'पुन्हा स्वागत! तुमच्या कल्पनेचा सारांश वर दिला आहे. पक्क्या कल्पनेच्या प्रश्नावलीकडे जाण्यासाठी "हो" लिहा, किंवा कल्पना आणखी सुधारण्यासाठी बोलणे सुरू ठेवा.',
+  'chat.welcomeBackTuning': 'पुन्हा स्वागत! चला तुमच्या कल्पनेवर काम सुरू ठेवूया - वरच्या माझ्या शेवटच्या प्रश्नाचे उत्तर द्या, किंवा संपवण्यासाठी "झाले" लिहा.',
+  'chat.welcomeBackQuestion': 'पुन्हा स्वागत! चला, जिथे थांबला होतात तिथून पुढे सुरू करूया.',
+  'chat.welcomeBackReview': 'पुन्हा स्वागत! तुमची सर्व उत्तरे मिळाली आहेत. खाली ती तपासा, मग तुमचे मार्गदर्शक तयार करा.',
+  'chat.businessStartError': 'माफ करा, {business} साठी नवीन मार्गदर्शक सुरू करता आले नाहीत. कृपया पुन्हा प्रयत्न करा.',
+  'chat.businessNewGuides': 'चला {business} साठी नवीन मार्गदर्शक तयार करूया. तुमची सेव्ह केलेली उत्तरे मी घेतली आहेत - जे बदलले आहे ते अपडेट करा, मग तुमचे मार्गदर्शक तयार करा.',
+  'chat.reviewHint': 'एखादे उत्तर बदलण्यासाठी प्रोफाइल सारांशातील "बदला" बटण वापरा, मग सर्व बरोबर वाटल्यावर तुमचे मार्गदर्शक तयार करा.',
+  'chat.followUpError': 'माफ करा, मी आत्ता याचे उत्तर देऊ शकलो नाही. कृपया पुन्हा प्रयत्न करा.',
+  'chat.sources': 'स्रोत',
+  'chat.thinkingIdea': 'तुमच्या कल्पनेवर विचार करत आहे...',
+  'chat.readingAnswer': 'तुमचे उत्तर वाचत आहे...',
+  'chat.searchingGuides': 'तुमच्या मार्गदर्शकांमध्ये पाहत आहे...',
+  'chat.waitGenerating': 'कृपया थांबा, आम्ही तुमची कागदपत्रे तयार करत आहोत. याला थोडा वेळ लागू शकतो...',
+  'chat.placeholderGenerating': 'कागदपत्रे तयार होत आहेत... कृपया थांबा',
+  'chat.placeholderFollowUp': 'तुमच्या मार्गदर्शकांबद्दल प्रश्न विचारा...',
+  'chat.placeholderReview': 'वर तुमची उत्तरे तपासा...',
+  'chat.placeholder': 'तुमचा संदेश लिहा...',
+  'chat.shareAllTitle': '{business} चे सर्व मार्गदर्शक',
+
+  'resume.title': 'तुमचे एक सेशन अपूर्ण आहे',
+  'resume.newConversation': 'तुम्ही नवीन संभाषण सुरू केले होते',
+  'resume.inService': 'तुम्ही {service} मध्ये होता',
+  'resume.lastMessage': ' - शेवटचा संदेश {time}.',
+  'resume.continue': 'जिथे थांबला होतात तिथून सुरू ठेवा',
+  'resume.startFresh': 'नव्याने सुरू करा',
+
+  'ideaTuning.error': 'माफ करा, तुमच्या कल्पनेवर काम करताना काहीतरी चूक झाली. कृपया पुन्हा प्रयत्न करा.',
+  'ideaTuning.summary': 'ही आहे तुमची सुधारलेली कल्पना:\n\n{summary}\n\nपक्क्या कल्पनेच्या प्रश्नावलीकडे जाण्यासाठी "हो" लिहा{filledIn}. किंवा कल्पना आणखी सुधारण्यासाठी बोलणे सुरू ठेवा.',
+  'ideaTuning.filledIn': ' - तुमचे {fields} मी आधीच भरले आहे',
+  'ideaTuning.field.business_name': 'कंपनीचे नाव',
+  'ideaTuning.field.company_description': 'कंपनीचे वर्णन',
+  'ideaTuning.field.location': 'ठिकाण',
+  'ideaTuning.field.industry': 'उद्योग',
+
+  'questionnaire.intro': 'छान! आवश्यक माहितीसाठी मी तुम्हाला काही छोटे प्रश्न विचारेन. कोणत्याही प्रश्नावर सूचनेसाठी "मदत" लिहा.',
+  'questionnaire.introPrefilled': 'छान! कल्पना सुधारणेतून मी तुमची माहिती घेतली आहे, त्यामुळे मला आणखी काही उत्तरेच हवी आहेत.',
+  'questionnaire.position': 'प्रश्न {position} / {total}:',
+  'questionnaire.answerYesNo': 'कृपया हो किंवा नाही असे उत्तर द्या.',
+  'questionnaire.tip': 'सूचना: {text}',
+  'questionnaire.skipHint': 'हा प्रश्न वगळण्यासाठी "वगळा" लिहा.',
+  'questionnaire.retry': 'हरकत नाही, पुन्हा प्रयत्न करूया.',
+  'questionnaire.defaultHelp': 'तुमच्या शब्दांत उत्तर द्या - ढोबळ उत्तरही चालेल, तुम्ही ते नंतर सुधारू शकता.',
+  'questionnaire.confirmNormalized': 'मला असे समजले:\n\n{summary}\n\nहे बरोबर आहे का? सेव्ह करण्यासाठी "हो", पुन्हा उत्तर देण्यासाठी "नाही" लिहा, किंवा दुरुस्त केलेले उत्तर लिहा.',
+  'questionnaire.saveError': 'माफ करा, तुमचे उत्तर सेव्ह करताना चूक झाली. कृपया पुन्हा प्रयत्न करा किंवा पेज रिफ्रेश करा.',
+  'questionnaire.gotIt': 'समजले!',
+  'questionnaire.complete': 'उत्तम! मला आवश्यक ती सर्व माहिती मिळाली आहे.\n\nहा आहे तुमच्या उत्तरांचा सारांश. जे बरोबर नाही ते बदला, मग तुमचे मार्गदर्शक तयार करा.',
+  'questionnaire.errorEmpty': 'कृपया उत्तर लिहा.',
+  'questionnaire.errorTooLong': 'कृपया तुमचे उत्तर {max} अक्षरांपेक्षा कमी ठेवा.',
+  'questionnaire.errorTooShort': 'कृपया थोडे अधिक तपशीलवार सांगा (किमान {min} अक्षरे).',
+  'questionnaire.errorInvalid': 'हे उत्तर बरोबर वाटत नाही. कृपया पुन्हा प्रयत्न करा.',
+  'questionnaire.errorAmount': 'कृपया रक्कम लिहा, उदा. ₹10 लाख, किंवा "माहित नाही" लिहा.',
+  'questionnaire.errorChoice': 'कृपया पर्यायांपैकी एकाचा क्रमांक निवडा (1-{count}).',
+
+  'review.title': 'तुमची व्यवसाय प्रोफाइल',
+  'review.subtitleGenerate': 'मार्गदर्शक लिहिण्यापूर्वी तुमची उत्तरे तपासा आणि काही चुकले असल्यास दुरुस्त करा.',
+  'review.subtitleUpdate': 'बदल केल्यावर फक्त ती उत्तरे वापरणारे मार्गदर्शकच पुन्हा तयार होतात.',
+  'review.choose': 'निवडा...',
+  'review.required': 'आवश्यक - कृपया उत्तर जोडा',
+  'review.skipped': 'वगळले',
+  'review.missingOne': '{count} आवश्यक उत्तर बाकी आहे.',
+  'review.missingOther': '{count} आवश्यक उत्तरे बाकी आहेत.',
+  'review.allFilled': 'सर्व आवश्यक उत्तरे भरली आहेत.',
+  'review.confirmGenerate': 'सर्व बरोबर आहे - माझे मार्गदर्शक तयार करा',
+  'review.updateGuide': 'मार्गदर्शक अपडेट करा: {guides}',
+  'review.updateGuides': 'मार्गदर्शक अपडेट करा: {guides}',
+  'review.done': 'झाले',
+  'review.saveError': 'माफ करा, तुमचे उत्तर सेव्ह करताना चूक झाली. कृपया पुन्हा प्रयत्न करा.',
+
+  'generation.started': 'तुमच्या माहितीवर काम सुरू आहे आणि तुमची व्यवसाय कागदपत्रे तयार होत आहेत...',
+  'generation.wait': 'याला थोडा वेळ लागू शकतो. कृपया थांबा.',
+  'generation.regenerating': 'तुमची प्रोफाइल अपडेट झाली आहे. बदललेली उत्तरे वापरणारे मार्गदर्शक पुन्हा तयार होत आहेत: {guides}.',
+  'generation.error': 'माफ करा, काहीतरी चूक झाली. कृपया पेज रिफ्रेश करून पुन्हा प्रयत्न करा.',
+  'generation.profileError': 'माफ करा, तुमची व्यवसाय माहिती मिळवताना चूक झाली. कृपया पुन्हा प्रयत्न करा.',
+  'generation.profileMissing': 'माफ करा, तुमची व्यवसाय माहिती सापडली नाही. कृपया सुरुवातीपासून सुरू करा.',
+  'generation.missingAnswers': 'काही उत्तरे अजून बाकी आहेत: {questions}\n\nकृपया ती खालील प्रोफाइल सारांशात जोडा.',
+  'generation.queueError': 'माफ करा, तुमची कागदपत्रे तयार करणे सुरू करता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+  'generation.loaderTitle': 'कागदपत्रे तयार होत आहेत:',
+  'generation.loaderCompleted': '{completed}/{total} पूर्ण',
+  'generation.creating': 'मजकूर तयार होत आहे...',
+  'generation.writing': 'लिहिले जात आहे... आतापर्यंत {count} शब्द',
+
+  'rating.prompt': '🎉 तुमची सर्व व्यवसाय कागदपत्रे तयार झाली आहेत!\n\nतुम्ही ती कागदपत्र डॅशबोर्डमध्ये पाहू शकता.\n\n{question}\n\nकृपया 1 ते 5 पैकी एक क्रमांक लिहा:\n\n1 ⭐ - वाईट\n2 ⭐⭐ - ठीक\n3 ⭐⭐⭐ - चांगला\n4 ⭐⭐⭐⭐ - खूप चांगला\n5 ⭐⭐⭐⭐⭐ - उत्कृष्ट',
+  'rating.question': 'तुमचा अनुभव कसा होता?',
+  'rating.thanks': '{rating}-स्टार रेटिंगबद्दल धन्यवाद!',
+  'rating.glad': '🎉 तुमचा अनुभव चांगला होता याचा आम्हाला आनंद आहे!',
+  'rating.sorry': 'हे ऐकून आम्हाला वाईट वाटले. काय चुकले किंवा आम्ही काय सुधारू शकतो ते थोडक्यात सांगाल का? तुमच्या अभिप्रायामुळे आम्हाला तुमची अधिक चांगली सेवा करता येते.',
+  'rating.final': 'तुमची सर्व कागदपत्रे डॅशबोर्डमध्ये उपलब्ध आहेत. तुम्ही ती कधीही पाहू किंवा डाउनलोड करू शकता, आणि त्यांच्याबद्दल कोणतेही प्रश्न इथे मला विचारू शकता. StartUP Companion वापरल्याबद्दल धन्यवाद!',
+  'rating.feedbackThanks': 'तुमच्या अभिप्रायाबद्दल धन्यवाद. तुमच्या व्यवसायाच्या प्रत्येक क्षेत्रात वैयक्तिक मार्गदर्शन देऊ शकणाऱ्या आमच्या तज्ज्ञ मेंटरशी आम्ही तुमची ओळख करून देतो.',
+  'rating.mentorsTitle': '📞 तुमच्यासाठी सुचवलेले मेंटर',
+  'rating.invalid': 'कृपया 1 ते 5 मधील योग्य रेटिंग द्या.',
+
+  'mentors.eyebrow': 'तज्ज्ञ नेटवर्क',
+  'mentors.title': 'तुमच्या मेंटरना भेटा',
+  'mentors.subtitle': 'नोंदणी, अनुपालन, ब्रँडिंग आणि HR मध्ये शेकडो संस्थापकांना मार्गदर्शन केलेल्या तज्ज्ञांशी जोडा.',
+  'mentors.loading': 'मेंटर प्रोफाइल लोड होत आहेत...',
+  'mentors.loadError': 'आत्ता मेंटर लोड करता येत नाहीत. कृपया पुन्हा प्रयत्न करा.',
+  'mentors.empty': 'आम्ही लवकरच मेंटर जोडत आहोत. कृपया थोड्या वेळाने पुन्हा पहा.',
+  'mentors.fallbackExpertise': 'स्टार्टअपच्या मुख्य कामांमध्ये तज्ज्ञ मार्गदर्शन.',
+  'mentors.schedule': 'ओळख कॉल ठरवा',
+  'mentors.connect': 'तज्ज्ञाशी संपर्क साधा',
+  'mentors.serviceExpert': '{service} तज्ज्ञ',
+
+  'section.signIn': 'हा मार्गदर्शक बदलण्यासाठी कृपया पुन्हा लॉगिन करा.',
+  'section.error': 'हा भाग पुन्हा तयार करता आला नाही. कृपया पुन्हा प्रयत्न करा.',
+  'section.none': 'या मार्गदर्शकात पुन्हा तयार करता येईल असा कोणताही विभाग नाही.',
+  'section.label': 'विभाग',
+  'section.instructionLabel': 'काय बदलायचे आहे?',
+  'section.instructionPlaceholder': 'उदा. 3 संचालक धरा, त्यांपैकी एक NRI',
+  'section.hint': 'फक्त हाच विभाग पुन्हा लिहिला जाईल. बाकीचा मार्गदर्शक तसाच राहील.',
+  'section.regenerating': 'पुन्हा तयार होत आहे...',
+  'section.submit': 'विभाग पुन्हा तयार करा',
+  'section.updated': '"{title}" अपडेट झाला आणि PDF पुन्हा तयार झाली.',
+
+  'dashboard.title': 'तुमची व्यवसाय कागदपत्रे',
+  'dashboard.subtitle': 'तुमचे सर्व आवश्यक व्यवसाय मार्गदर्शक तयार आहेत. पाहण्यासाठी किंवा डाउनलोड करण्यासाठी क्लिक करा.',
+  'dashboard.downloadAll': 'सर्व डाउनलोड करा',
+  'dashboard.shareAll': 'सर्व मार्गदर्शक शेअर करा',
+  'dashboard.brand': 'PDF वर ब्रँड',
+  'dashboard.editProfile': 'व्यवसाय प्रोफाइल बदला',
+  'dashboard.queued': 'रांगेत...',
+  'dashboard.generating': 'तयार होत आहे...',
+  'dashboard.failed': 'कागदपत्र तयार करता आले नाही',
+  'dashboard.tryAgain': 'पुन्हा प्रयत्न करा',
+  'dashboard.keyHighlights': 'महत्त्वाचे मुद्दे:',
+  'dashboard.noKeyPoints': 'कोणतेही महत्त्वाचे मुद्दे उपलब्ध नाहीत',
+  'dashboard.viewFull': 'संपूर्ण कागदपत्र पहा',
+
+  'history.title': 'कागदपत्र इतिहास',
+  'history.subtitle': 'तुमच्या मागील सेशनमधील कागदपत्रे पहा.',
+  'history.loading': 'तुमचा इतिहास लोड होत आहे...',
+  'history.empty': 'अजून कोणतीही कागदपत्रे सापडली नाहीत.',
+  'history.unnamedBusiness': 'नाव नसलेला व्यवसाय',
+  'history.documentCountOne': '({count} कागदपत्र)',
+  'history.documentCountOther': '({count} कागदपत्रे)',
+  'history.downloadAll': 'सर्व डाउनलोड करा',
+  'history.view': 'कागदपत्र पहा',
+  'history.downloadPdf': 'PDF डाउनलोड करा',
+
+  'businesses.title': 'तुमचे व्यवसाय',
+  'businesses.empty': 'मार्गदर्शक तयार झाल्यावर तुमचा व्यवसाय इथे दिसेल.',
+  'businesses.open': 'या व्यवसायाचे मार्गदर्शक उघडा',
+  'businesses.guides': 'मार्गदर्शक',
+  'businesses.newGuides': 'नवीन मार्गदर्शक',
+  'businesses.newBusiness': 'नवीन व्यवसाय',
+
+  'hero.title': 'तुमचा व्यवसाय सुरू करण्यासाठी तुमच्यासाठी खास मार्गदर्शन,',
+  'hero.titleHighlight': '30 मिनिटांपेक्षा कमी वेळात',
+  'hero.subtitle': 'सगळं एकाच ठिकाणी — कायदेशीर गरजा, नोंदणी, आर्थिक पर्याय, ब्रँडिंग आणि HR यांवर तज्ज्ञ मार्गदर्शन, तुमच्या व्यवसाय कल्पनेनुसार.',
+  'hero.start': 'तुमचा प्रवास सुरू करा',
+  'hero.tryFree': 'मोफत वापरून पाहा',
+  'hero.trusted': 'संपूर्ण भारतातील उद्योजकांचा विश्वास',
+
+  'benefits.title': 'Startup Companion च का निवडावे?',
+  'benefits.subtitle': 'तुमची सेवा व्यवसायाची कल्पना यशस्वी व्यवसायात बदलण्यासाठी लागणारे सर्व काही',
+  'benefits.instantTitle': 'कधीही त्वरित मार्गदर्शन',
+  'benefits.instantText': 'चॅटमध्ये टाइप करून किंवा बोलून व्यवसाय, कर, HR किंवा मार्केटिंगविषयी उत्तरे मिळवा.',
+  'benefits.compliantTitle': 'सहज नियमपालन करा',
+  'benefits.compliantText': 'पहिल्यांदाच व्यवसाय सुरू करणाऱ्यांना गोंधळ किंवा भीतीशिवाय नियमपालन करण्यास मदत करणारे सोपे साधन.',
+  'benefits.mentorsTitle': 'मेंटरशी थेट संपर्क',
+  'benefits.mentorsText': 'गरज असेल तेव्हा विश्वासू मेंटरशी त्यांच्या संपर्क तपशिलांद्वारे जोडा आणि तुमच्यासाठी खास मदत मिळवा.',
+
+  'howItWorks.title': 'हे कसे काम करते?',
+  'howItWorks.subtitle': 'तुमची व्यवसाय कल्पना प्रत्यक्षात आणण्याच्या सोप्या पायऱ्या',
+  'howItWorks.onboardingTitle': 'सुरुवात',
+  'howItWorks.onboardingText': 'सोप्या पद्धतीने StartUP Companion वर नोंदणी करून साइन इन करा.',
+  'howItWorks.serviceTitle': 'तुमची सेवा निवडा',
+  'howItWorks.serviceText': 'तुम्हाला हवी असलेली मदत निवडा — जसे की कल्पना सुधारणा, नोंदणी, नियमपालन, ब्रँडिंग किंवा HR.',
+  'howItWorks.guidanceTitle': 'तुमच्यासाठी खास मार्गदर्शन मिळवा',
+  'howItWorks.guidanceText': 'तुमचा व्यवसाय सुरू करण्यासाठी स्पष्ट आणि तुमच्यानुसार माहिती मिळवा.',
+  'howItWorks.mentorsTitle': 'मेंटरशी जोडा',
+  'howItWorks.mentorsText': 'अधिक स्पष्टता हवी असल्यास तुमच्या गरजेनुसार निवडलेल्या विश्वासू मेंटरशी थेट जोडा.',
+  'howItWorks.historyTitle': 'तुमचा इतिहास पाहा',
+  'howItWorks.historyText': 'नवीन प्रश्न घेऊन कधीही परत या — तुमचे मागील संवाद आणि इतिहास नेहमी जतन केलेले असतात.',
+
+  'pricing.title': 'संपूर्ण स्टार्टअप प्रवास, एकत्र',
+  'pricing.subtitle': 'प्रत्येक प्रश्नाचे उत्तर मिळवा',
+  'pricing.badge': 'मोफत ट्रायल उपलब्ध',
+  'pricing.featureCompliance': 'कायदेशीर नियमपालनाचे मार्गदर्शन',
+  'pricing.featureTax': 'कर आणि अनुदानांची माहिती',
+  'pricing.featureBranding': 'ब्रँडिंगमध्ये मदत',
+  'pricing.featureHr': 'HR धोरण टेम्पलेट',
+  'pricing.featureLanguage': 'स्थानिक भाषेत सहाय्य',
+  'pricing.featureMentor': 'मेंटरकडून वैयक्तिक सल्ला',
+  'pricing.cta': 'आता मोफत वापरून पाहा',
+  'pricing.note': 'क्रेडिट कार्डची गरज नाही • लगेच सुरू करा',
+
+  'testimonials.title': 'आमचे संस्थापक काय म्हणतात',
+  'testimonials.subtitle': 'ज्यांनी आपल्या कल्पना यशस्वी व्यवसायात बदलल्या त्या उद्योजकांच्या खऱ्या गोष्टी',
+  'testimonials.founder': 'संस्थापक',
+  'testimonials.coFounder': 'सह-संस्थापक',
+  'testimonials.smallBusinessOwner': 'लघु व्यवसायाच्या मालक',
+  'testimonials.rajeshQuote': 'पहिल्यांदाच व्यवसाय सुरू करताना Startup Companion मुळे नोंदणी आणि नियमपालनाची सगळी भीती दूर झाली. मी कोणत्याही त्रासाशिवाय माझी LLP नोंदवली.',
+  'testimonials.rajeshCompany': 'व्यवस्थापन सल्लागार, मुंबई',
+  'testimonials.emilyQuote': 'आर्थिक सेटअप एजंट अप्रतिम होता! ज्या अनुदानांबद्दल मला माहितीही नव्हती ती शोधायला त्याने मदत केली आणि 30 मिनिटांत माझे व्यवसाय बँकिंग सुरू करून दिले.',
+  'testimonials.emilyCompany': 'मार्केटिंग एजन्सी, कोलकाता',
+  'testimonials.swethaQuote': 'कायदेशीर टेम्पलेटपासून टप्प्याटप्प्याच्या प्रक्रियेपर्यंत सगळं माझ्यासारख्या नवख्यांसाठी बनवलं आहे. नक्की वापरून पाहा!',
+  'testimonials.swethaCompany': 'हैदराबाद',
+
+  'faq.title': 'नेहमी विचारले जाणारे प्रश्न',
+  'faq.subtitle': 'Startup Companion बद्दलच्या सामान्य प्रश्नांची उत्तरे',
+  'faq.general': 'सामान्य',
+  'faq.services': 'सेवा',
+  'faq.mentors': 'मेंटर',
+  'faq.pricing': 'किंमत',
+  'faq.q1': 'कायदा किंवा व्यवसायाचा अनुभव नसला तरी मी हे ॲप वापरू शकतो का?',
+  'faq.a1': 'नक्कीच! प्रत्येक साधन, टेम्पलेट आणि माहिती नवख्यांसाठीच तयार केली आहे.',
+  'faq.q2': 'ॲप माझ्यासाठी फॉर्म भरते का?',
+  'faq.a2': 'नाही; कोणते फॉर्म लागतात आणि ते पूर्ण करण्यासाठी कुठे किंवा कोणाशी संपर्क साधावा, एवढेच ते सांगते.',
+  'faq.q3': 'Startup Companion कोणासाठी आहे?',
+  'faq.a3': 'भारतात पहिल्यांदाच सेवा व्यवसाय सुरू करणारे, ज्यांना सरळ आणि टप्प्याटप्प्याने मार्गदर्शन हवे आहे.',
+  'faq.q4': 'तुम्ही माझ्यासाठी कागदपत्रे दाखल करता का?',
+  'faq.a4': 'नाही. काय, कुठे आणि कसे दाखल करायचे हे आम्ही टप्प्याटप्प्याने सांगतो. अंतिम सादरीकरण अधिकृत पोर्टलवर होते.',
+  'faq.q5': 'हे सर्व देशांच्या गरजांसाठी उपयोगी आहे का?',
+  'faq.a5': 'सध्या सर्व मार्गदर्शन भारतातील कायदे आणि नियमांनुसार आहे.',
+  'faq.q6': 'Startup Companion ही कायदा फर्म आहे का?',
+  'faq.a6': 'नाही. हे एक शैक्षणिक प्लॅटफॉर्म आहे जे प्रक्रिया सोप्या करते आणि गरज पडल्यास परवानाधारक तज्ज्ञांशी जोडते.',
+  'faq.q7': 'नवीन व्यवसायांसाठीच्या सरकारी अनुदान किंवा योजनांबद्दल हे ॲप मार्गदर्शन करेल का?',
+  'faq.a7': 'हो, Company Navigator योग्य योजना (Startup India, MSME) शोधते आणि पात्रता सोप्या भाषेत समजावते.',
+  'faq.q8': 'तुम्ही नोंदणी मंजुरीची हमी देता का?',
+  'faq.a8': 'आम्ही सरकारी मंजुरीची हमी देऊ शकत नाही, पण आमचे मार्गदर्शन अर्ज नाकारले जाण्यास कारणीभूत सामान्य चुका कमी करते.',
+  'faq.q9': 'यात Startup India किंवा MSME Udyam सारख्या सरकारी योजना आहेत का?',
+  'faq.a9': 'हो. Compliance मॉड्यूल योग्य योजना, पात्रतेचे निकष आणि अर्जाच्या पायऱ्या दाखवते — Startup India नोंदणी, MSME Udyam आणि इतर अनुदानांसह.',
+  'faq.q10': 'Startup Companion GST नोंदणी आणि रिटर्नमध्ये मदत करते का?',
+  'faq.a10': 'हो. Compliance मॉड्यूल GST नोंदणीची प्रक्रिया टप्प्याटप्प्याने सांगते, आवश्यक कागदपत्रे, अर्जाचे पोर्टल आणि सामान्य चुका यांसह. GST रिटर्न भरण्यासाठी तपासणी यादी आणि वेळापत्रकही देतो. प्रत्यक्ष मदत हवी असल्यास Startup Companion तुम्हाला पडताळलेल्या कर मेंटरशी (CA, GST सल्लागार) जोडते.',
+  'faq.q11': 'तुम्ही खरे लोगो देता की फक्त टेम्पलेट? AI ते बनवू शकते का?',
+  'faq.a11': 'Startup Companion ब्रँडिंग टेम्पलेट देते आणि AI वर चालणाऱ्या लोगो जनरेटरशी जोडते. अनोख्या, ट्रेडमार्कसाठी योग्य ओळखीसाठी पडताळलेले ब्रँडिंग मेंटर उपलब्ध आहेत.',
+  'faq.q12': 'नाव अनोखे आणि उपलब्ध आहे याची Startup Companion खात्री करते का?',
+  'faq.a12': 'Startup Companion नावाच्या कल्पना सुचवते आणि लगेच तपासण्यास मदत करते: डोमेन उपलब्धता; ट्रेडमार्क संघर्ष (IP India / USPTO लिंकद्वारे); व्यवसाय नोंदणी संघर्ष (भारत); सोशल मीडिया हँडल',
+  'faq.q13': 'मी हे उत्पादन स्टार्टअपसाठी वापरू शकतो का?',
+  'faq.a13': 'Startup Companion सेवा व्यवसायांसाठी बनवले आहे, पण अनेक पायऱ्या उत्पादन स्टार्टअपनाही लागू होतात.',
+  'faq.q14': 'AI सोडवू शकत नाही असा नियमपालनाचा प्रश्न असल्यास काय?',
+  'faq.a14': 'यातील Legal Desk तुम्हाला गरजेनुसार मानवी तज्ज्ञांशी जोडते.',
+  'faq.q15': 'AI मेंटरची जागा घेऊ शकते का?',
+  'faq.a15': 'नाही. AI झटपट मार्गदर्शन देते, पण मेंटर प्रत्यक्ष अनुभव, निर्णयक्षमता आणि जबाबदारी आणतात.',
+  'faq.q16': 'मेंटरची पडताळणी कशी केली जाते?',
+  'faq.a16': 'प्रत्येक मेंटरची पात्रता, पूर्वीचे काम आणि रेटिंग तपासले जाते.',
+  'faq.q17': 'हे मोफत आहे का?',
+  'faq.a17': 'मूलभूत मार्गदर्शन नेहमी मोफत आहे; गुंतागुंतीच्या प्रकरणांसाठी हवे असल्यास तज्ज्ञांचा सशुल्क सल्ला घेता येतो.',
+
+  'auth.emailLabel': 'ईमेल पत्ता *',
+  'auth.emailPlaceholder': 'तुमचा ईमेल पत्ता लिहा',
+  'auth.passwordLabel': 'पासवर्ड *',
+  'auth.unexpectedError': 'काहीतरी चूक झाली. कृपया पुन्हा प्रयत्न करा.',
+  'auth.trustPersonalized': 'तुमच्यासाठी खास',
+  'auth.trustReliable': 'विश्वासार्ह',
+  'auth.trustBeginnerFriendly': 'नवख्यांसाठी सोपे',
+
+  'login.title': 'तुमच्या खात्यात लॉग इन करा',
+  'login.subtitle': 'पुन्हा स्वागत आहे! चला, तुमची कल्पना कायदेशीररीत्या स्थापन झालेल्या व्यवसायात बदलूया.',
+  'login.passwordPlaceholder': 'तुमचा पासवर्ड लिहा',
+  'login.submitting': 'साइन इन होत आहे...',
+  'login.submit': 'लॉग इन करा आणि पुढे जा',
+  'login.newHere': 'नवीन आहात?',
+  'login.signupLink': 'साइन अप करून तुमचा प्रवास सुरू करा',
+  'login.failed': 'साइन इन होऊ शकले नाही',
+  'login.invalidCredentials': 'ईमेल किंवा पासवर्ड बरोबर नाही.',
+  'login.emailNotConfirmed': 'कृपया तुमचा ईमेल पत्ता निश्चित करा, मग लॉग इन करा.',
+
+  'signup.title': 'तुमचे खाते तयार करा',
+  'signup.subtitle': 'तुमचा स्टार्टअप प्रवास इथून सुरू होतो!',
+  'signup.passwordPlaceholder': 'सुरक्षित पासवर्ड तयार करा',
+  'signup.passwordTooShort': 'पासवर्डमध्ये किमान 8 अक्षरे असावीत',
+  'signup.passwordNeedsLetter': 'पासवर्डमध्ये किमान एक अक्षर (a-z) असावे',
+  'signup.passwordNeedsNumber': 'पासवर्डमध्ये किमान एक अंक असावा',
+  'signup.passwordNeedsSymbol': 'पासवर्डमध्ये किमान एक चिन्ह (उदा. ! @ #) असावे',
+  'signup.success': 'खाते तयार झाले! तुम्हाला लॉग इन केले जात आहे...',
+  'signup.requirementsLabel': 'पासवर्डच्या अटी',
+  'signup.requirements': 'किमान 8 अक्षरे, ज्यात एक अक्षर, एक अंक आणि एक चिन्ह असेल',
+  'signup.submitting': 'खाते तयार होत आहे...',
+  'signup.submit': 'साइन अप करा आणि सुरू करा',
+  'signup.haveAccount': 'आधीच खाते आहे?',
+  'signup.loginLink': 'इथे साइन इन करा',
+  'signup.failed': 'खाते तयार होऊ शकले नाही',
+  'signup.alreadyRegistered': 'या ईमेलने आधीच खाते आहे. कृपया लॉग इन करा.',
+
+  'viewer.editSection': 'विभाग बदला',
+  'viewer.hideEditor': 'संपादक लपवा',
+  'viewer.share': 'शेअर करा',
+  'viewer.versions': 'आवृत्त्या',
+  'viewer.hideVersions': 'आवृत्त्या लपवा',
+  'viewer.regenerateSection': 'एक विभाग पुन्हा तयार करा',
+  'viewer.compareVersions': 'आवृत्त्यांची तुलना करा',
+
+  'versions.loading': 'आवृत्त्या लोड होत आहेत...',
+  'versions.onlyOne': 'या मार्गदर्शकाची सध्या एकच आवृत्ती आहे. तुलना करण्यासाठी ती पुन्हा तयार करा.',
+  'versions.unknownModel': 'अज्ञात मॉडेल',
+  'versions.older': 'जुनी',
+  'versions.newer': 'नवी',
+  'versions.changed': '{count} बदलल्या',
+  'versions.added': '{count} जोडल्या',
+  'versions.removed': '{count} काढल्या',
+
+  'guideData.recommended': 'शिफारस: {entity}',
+  'guideData.timeline': 'वेळापत्रक',
+  'guideData.aboutDays': 'सुमारे {count} दिवस',
+  'guideData.day': 'दिवस {day}',
+  'guideData.dayRange': 'दिवस {start}-{end}',
+  'guideData.costs': 'खर्च',
+  'guideData.item': 'बाब',
+  'guideData.frequency': 'वारंवारता',
+  'guideData.amount': 'रक्कम',
+  'guideData.oneTime': 'एकदाच',
+  'guideData.monthly': 'दरमहा',
+  'guideData.yearly': 'दरवर्षी',
+  'guideData.total': 'एकूण ({frequency})',
+  'guideData.checklist': 'तपासणी यादी',
+  'guideData.done': '{done}/{total} पूर्ण',
+  'guideData.portals': 'अधिकृत पोर्टल',
+
+  'share.title': '{title} शेअर करा',
+  'share.subtitle': 'लिंक असलेला कोणीही लिंकची मुदत संपेपर्यंत किंवा तुम्ही ती रद्द करेपर्यंत हे वाचू शकतो.',
+  'share.expiresAfter': 'मुदत',
+  'share.dayOne': '{count} दिवस',
+  'share.dayOther': '{count} दिवस',
+  'share.passcode': 'पासकोड (ऐच्छिक)',
+  'share.passcodePlaceholder': 'किमान 4 अक्षरे',
+  'share.label': 'कोणासाठी (ऐच्छिक)',
+  'share.labelPlaceholder': 'उदा. माझे अकाउंटंट',
+  'share.creating': 'तयार होत आहे...',
+  'share.create': 'लिंक तयार करा आणि कॉपी करा',
+  'share.links': 'लिंक',
+  'share.loading': 'लिंक लोड होत आहेत...',
+  'share.empty': 'अजून कोणतीही लिंक नाही.',
+  'share.created': '{date} रोजी तयार केलेली लिंक',
+  'share.revoked': 'रद्द',
+  'share.expired': 'मुदत संपली',
+  'share.expires': '{date} पर्यंत',
+  'share.viewOne': '{count} वेळा पाहिले',
+  'share.viewOther': '{count} वेळा पाहिले',
+  'share.log': 'नोंद',
+  'share.copy': 'कॉपी करा',
+  'share.copied': 'कॉपी झाले',
+  'share.revoke': 'रद्द करा',
+  'share.notOpened': 'अजून उघडलेली नाही.',
+  'share.unknownBrowser': 'अज्ञात ब्राउझर',
+  'share.wrongPasscode': 'चुकीचा पासकोड',
+  'share.signIn': 'तुमचे मार्गदर्शक शेअर करण्यासाठी कृपया पुन्हा साइन इन करा.',
+  'share.createError': 'माफ करा, लिंक तयार होऊ शकली नाही.',
+  'share.revokeError': 'माफ करा, लिंक रद्द होऊ शकली नाही. कृपया पुन्हा प्रयत्न करा.',
+  'share.openError': 'ही लिंक उघडता आली नाही.',
+  'share.invalidExpiry': 'लिंक 1 ते 90 दिवस चालू राहू शकतात.',
+  'share.invalidPasscode': 'पासकोडमध्ये 4 ते 64 अक्षरे असावीत.',
+  'share.notFound': 'हा मार्गदर्शक सापडला नाही.',
+  'share.unavailable': 'या लिंकची मुदत संपली आहे किंवा ती आता उपलब्ध नाही.',
+  'share.passcodeRequired': 'हे मार्गदर्शक पाहण्यासाठी पासकोड टाका.',
+  'share.passcodeInvalid': 'हा पासकोड बरोबर नाही.',
+  'share.tooManyAttempts': 'खूप वेळा चुकीचा पासकोड टाकला. कृपया 15 मिनिटांनी पुन्हा प्रयत्न करा.',
+
+  'shared.opening': 'शेअर केलेले मार्गदर्शक उघडत आहेत...',
+  'shared.protected': 'ही लिंक सुरक्षित आहे',
+  'shared.passcode': 'पासकोड',
+  'shared.checking': 'तपासत आहे...',
+  'shared.view': 'मार्गदर्शक पाहा',
+  'shared.until': '{date} पर्यंत तुमच्यासोबत शेअर केले आहे.',
+  'shared.empty': 'या लिंकवर अजून कोणतेही मार्गदर्शक उपलब्ध नाहीत.',
+  'shared.read': 'वाचा',
+
+  'brandKit.title': '{business} च्या PDF वर तुमचा ब्रँड लावा',
+  'brandKit.subtitle': 'प्रत्येक मार्गदर्शकावर तुमचे रंग, फॉन्ट आणि लोगो — गुंतवणूकदार आणि CA ना देण्यासाठी तयार.',
+  'brandKit.loading': 'ब्रँड किट लोड होत आहे...',
+  'brandKit.useBrand': 'मार्गदर्शकांच्या PDF वर माझा ब्रँड वापरा',
+  'brandKit.fromGuide': 'रंग आणि फॉन्ट तुमच्या ब्रँडिंग मार्गदर्शकातून घेतले आहेत. स्वतःचे वापरण्यासाठी ते इथे बदला.',
+  'brandKit.primaryColor': 'मुख्य रंग',
+  'brandKit.secondaryColor': 'दुय्यम रंग',
+  'brandKit.headingFont': 'शीर्षक फॉन्ट',
+  'brandKit.bodyFont': 'मजकूर फॉन्ट',
+  'brandKit.defaultFont': 'Helvetica (डीफॉल्ट)',
+  'brandKit.logoLabel': 'मुखपृष्ठासाठी लोगो (PNG किंवा JPEG, 2 MB पर्यंत)',
+  'brandKit.uploadLogo': 'लोगो अपलोड करा',
+  'brandKit.replaceLogo': 'लोगो बदला',
+  'brandKit.removeLogo': 'लोगो काढा',
+  'brandKit.saving': 'PDF अपडेट होत आहेत...',
+  'brandKit.save': 'जतन करा आणि PDF अपडेट करा',
+  'brandKit.logoType': 'लोगो PNG किंवा JPEG प्रतिमा असावी.',
+  'brandKit.logoSize': 'लोगो 2 MB पेक्षा लहान असावा.',
+  'brandKit.logoUploadError': 'माफ करा, लोगो अपलोड होऊ शकला नाही.',
+  'brandKit.saveError': 'माफ करा, ब्रँड किट जतन होऊ शकली नाही.',
+  'brandKit.restyleSignIn': 'तुमची ब्रँड किट जतन झाली, पण PDF अपडेट करण्यासाठी कृपया पुन्हा साइन इन करा.',
+  'brandKit.restyleError': 'तुमची ब्रँड किट जतन झाली, पण PDF अपडेट होऊ शकल्या नाहीत.',
+  'brandKit.restylePartial': 'तुमची ब्रँड किट जतन झाली, पण {total} पैकी {failed} PDF अपडेट होऊ शकल्या नाहीत. पुन्हा प्रयत्न करण्यासाठी पुन्हा जतन करा.',
+
+  'download.signIn': 'तुमचे मार्गदर्शक डाउनलोड करण्यासाठी कृपया पुन्हा साइन इन करा.',
+  'download.error': 'माफ करा, डाउनलोड तयार होऊ शकले नाही.',
+
+  'followUp.signIn': 'प्रश्न विचारण्यासाठी कृपया पुन्हा साइन इन करा.',
+
+  'normalize.error': 'माफ करा, मला ते उत्तर समजू शकले नाही.'
+};
+
+export default mr;
@@ -0,0 +1,453 @@
+import type { MessageKey } from './en';
+
+/** UI strings in Tamil */
+const ta: Record<MessageKey, string> = {
+  'language.label': 'மொழி',
+  'language.saveError': 'மன்னிக்கவும், உங்கள் மொழியைச் சேமிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+
+  'nav.home': 'முகப்பு',
+  'nav.benefits': 'ஏன் எங்களை',
+  'nav.howItWorks': 'இது எப்படி வேலை செய்கிறது',
+  'nav.pricing': 'விலை',
+  'nav.testimonials': 'அனுபவங்கள்',
+  'nav.faq': 'கேள்வி-பதில்',
+  'nav.login': 'உள்நுழை',
+  'nav.signup': 'பதிவு செய்',
+  'nav.history': 'வரலாறு',
+  'nav.documents': 'ஆவணங்கள்',
+  'nav.mentors': 'வழிகாட்டிகள்',
+  'nav.logout': 'வெளியேறு',
+  'footer.tagline': '30 நிமிடங்களில் உங்கள் வழியில் உங்கள் தொழிலைத் தொடங்குங்கள்',
+  'footer.readyTitle': 'உங்கள் சேவைத் தொழில் யோசனையை நிஜமாக்கத் தயாரா?',
+  'footer.readyText': 'இன்றே Startup Companion உடன் உங்கள் பயணத்தைத் தொடங்குங்கள் — பதிவு முதல் தொடக்கம் வரை உங்கள் AI வழிகாட்டி.',
+  'footer.navigation': 'வழிசெலுத்தல்',
+  'footer.connect': 'எங்களுடன் இணையுங்கள்',
+  'footer.follow': 'ஸ்டார்ட்அப் குறிப்புகள், வெற்றிக் கதைகள் மற்றும் புதுப்பிப்புகளுக்கு எங்களைப் பின்தொடருங்கள்.',
+  'footer.ctaTitle': 'உங்கள் தொழில் பயணத்தைத் தொடங்கத் தயாரா?',
+  'footer.ctaText': 'எங்கள் வழிகாட்டுதலுடன் தங்கள் சேவைத் தொழிலை வெற்றிகரமாகத் தொடங்கிய ஆயிரக்கணக்கான தொழில்முனைவோருடன் சேருங்கள்.',
+  'footer.cta': 'இன்றே தொடங்குங்கள்',
+  'footer.privacy': 'தனியுரிமைக் கொள்கை',
+  'footer.terms': 'விதிமுறைகள் மற்றும் நிபந்தனைகள்',
+  'footer.copyright': '© {year} Startup Companion. அனைத்து உரிமைகளும் பாதுகாக்கப்பட்டவை.',
+
+  'common.backToChat': 'அரட்டைக்குத் திரும்பு',
+  'common.preparing': 'தயாராகிறது...',
+  'common.yes': 'ஆம்',
+  'common.no': 'இல்லை',
+  'common.edit': 'திருத்து',
+  'common.add': 'சேர்',
+  'common.save': 'சேமி',
+  'common.saving': 'சேமிக்கப்படுகிறது...',
+  'common.cancel': 'ரத்து செய்',
+  'common.close': 'மூடு',
+  'common.email': 'மின்னஞ்சல்',
+  'common.call': 'அழை',
+  'common.signInAgain': 'தொடர மீண்டும் உள்நுழையவும்.',
+
+  'guide.registration': 'பதிவு வழிகாட்டி',
+  'guide.branding': 'பிராண்டிங் வழிகாட்டி',
+  'guide.compliance': 'இணக்க வழிகாட்டி',
+  'guide.hr': 'HR அமைப்பு வழிகாட்டி',
+  'guide.financial_planning': 'நிதித் திட்டமிடல் வழிகாட்டி',
+
+  'service.idea_tuning': 'யோசனை மெருகேற்றல்',
+  'service.confirmed_idea_flow': 'உறுதியான யோசனை',
+  'service.registration': 'பதிவு',
+  'service.branding': 'பிராண்டிங்',
+  'service.compliance': 'இணக்கம்',
+  'service.hr': 'HR அமைப்பு',
+  'service.financial_planning': 'நிதித் திட்டமிடல்',
+
+  'chat.welcome': 'StartUP Companion-க்கு வரவேற்கிறோம்! உங்கள் தொழிலைத் தொடங்க உதவ நான் இங்கே இருக்கிறேன்.\n\nஒரு விருப்பத்தைத் தேர்ந்தெடுக்கவும்:\n\n1. யோசனை மெருகேற்றல் - என் யோசனை இன்னும் உறுதியாகவில்லை\n2. உறுதியான யோசனை - என் தொழில் ஆவணங்களைப் பெற நான் தயார்\n\nதொடங்க எண்ணை (1 அல்லது 2) மட்டும் தட்டச்சு செய்யுங்கள்!',
+  'chat.sessionError': 'உங்கள் அமர்வைத் தொடங்குவதில் சிக்கல் ஏற்பட்டது. இது தரவுத்தள இணைப்புச் சிக்கலாக இருக்கலாம். பக்கத்தைப் புதுப்பிக்கவும். சிக்கல் தொடர்ந்தால், வெளியேறி மீண்டும் உள்நுழையவும்.',
+  'chat.choosePrompt': 'தொடர, யோசனை மெருகேற்றலுக்கு 1 அல்லது உறுதியான யோசனைக்கு 2 என தட்டச்சு செய்யுங்கள்.',
+  'chat.welcomeBackIdea': 'மீண்டும் வருக! உங்கள் யோசனையின் சுருக்கம் மேலே உள்ளது. உறுதியான யோசனைக் கேள்வித்தாளுக்குச் செல்ல "ஆம்" என தட்டச்சு செய்யுங்கள், அல்லது யோசனையை மேலும் மெருகேற்ற உரையாடலைத் தொடருங்கள்.',
+  'chat.welcomeBackTuning': 'மீண்டும் வருக! உங்கள் யோசனையை மெருகேற்றுவதைத் தொடர்வோம் - மேலே உள்ள என் கடைசிக் கேள்விக்குப் பதிலளியுங்கள், அல்லது முடிக்க "முடிந்தது" என தட்டச்சு செய்யுங்கள்.',
+  'chat.welcomeBackQuestion': 'மீண்டும் வருக! நீங்கள் நிறுத்திய இடத்திலிருந்து தொடர்வோம்.',
+  'chat.welcomeBackReview': 'மீண்டும் வருக! உங்கள் எல்லாப் பதில்களும் கிடைத்துவிட்டன. கீழே அவற்றைச் சரிபார்த்து, பிறகு உங்கள் வழிகாட்டிகளை உருவாக்குங்கள்.',
+  'chat.businessStartError': 'மன்னிக்கவும், {business}-க்குப் புதிய வழிகாட்டிகளைத் தொடங்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'chat.businessNewGuides': '{business}-க்குப் புதிய வழிகாட்டிகளைத் தயாரிப்போம். நீங்கள் சேமித்த பதில்களை எடுத்து வந்துள்ளேன் - மாறியவற்றைப் புதுப்பித்து, பிறகு உங்கள் வழிகாட்டிகளை உருவாக்குங்கள்.',
+  'chat.reviewHint': 'ஒரு பதிலை மாற்ற, சுயவிவரச் சுருக்கத்தில் உள்ள "திருத்து" பொத்தான்களைப் பயன்படுத்துங்கள், எல்லாம் சரியாக இருக்கும்போது உங்கள் வழிகாட்டிகளை உருவாக்குங்கள்.',
+  'chat.followUpError': 'மன்னிக்கவும், இப்போது இதற்குப் பதிலளிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'chat.sources': 'ஆதாரங்கள்',
+  'chat.thinkingIdea': 'உங்கள் யோசனையைப் பற்றி யோசிக்கிறேன்...',
+  'chat.readingAnswer': 'உங்கள் பதிலைப் படிக்கிறேன்...',
+  'chat.searchingGuides': 'உங்கள் வழிகாட்டிகளில் தேடுகிறேன்...',
+  'chat.waitGenerating': 'உங்கள் ஆவணங்களை உருவாக்கும் வரை காத்திருக்கவும். இதற்குச் சிறிது நேரம் ஆகலாம்...',
+  'chat.placeholderGenerating': 'ஆவணங்கள் உருவாகின்றன... காத்திருக்கவும்',
+  'chat.placeholderFollowUp': 'உங்கள் வழிகாட்டிகளைப் பற்றி ஒரு கேள்வி கேளுங்கள்...',
+  'chat.placeholderReview': 'மேலே உள்ள உங்கள் பதில்களைச் சரிபாருங்கள்...',
+  'chat.placeholder': 'உங்கள் செய்தியைத் தட்டச்சு செய்யுங்கள்...',
+  'chat.shareAllTitle': '{business}-இன் எல்லா வழிகாட்டிகளும்',
+
+  'resume.title': 'உங்களுக்கு முடிக்கப்படாத ஒரு அமர்வு உள்ளது',
+  'resume.newConversation': 'நீங்கள் ஒரு புதிய உரையாடலைத் தொடங்கியிருந்தீர்கள்',
+  'resume.inService': 'நீங்கள் {service}-இல் இருந்தீர்கள்',
+  'resume.lastMessage': ' - கடைசிச் செய்தி {time}.',
+  'resume.continue': 'நிறுத்திய இடத்திலிருந்து தொடருங்கள்',
+  'resume.startFresh': 'புதிதாகத் தொடங்கு',
+
+  'ideaTuning.error': 'மன்னிக்கவும், உங்கள் யோசனையை மெருகேற்றும்போது ஏதோ தவறு நடந்தது. மீண்டும் முயற்சிக்கவும்.',
+  'ideaTuning.summary': 'மெருகேற்றப்பட்ட உங்கள் யோசனை இதோ:\n\n{summary}\n\nஉறுதியான யோசனைக் கேள்வித்தாளுக்குச் செல்ல "ஆம்" என தட்டச்சு செய்யுங்கள்{filledIn}. அல்லது யோசனையை மேலும் மெருகேற்ற உரையாடலைத் தொடருங்கள்.',
+  'ideaTuning.filledIn': ' - உங்கள் {fields} ஏற்கனவே நிரப்பப்பட்டுள்ளது',
+  'ideaTuning.field.business_name': 'நிறுவனப் பெயர்',
+  'ideaTuning.field.company_description': 'நிறுவன விவரம்',
+  'ideaTuning.field.location': 'இடம்',
+  'ideaTuning.field.industry': 'தொழில்துறை',
+
+  'questionnaire.intro': 'அருமை! தேவையான தகவல்களைச் சேகரிக்க உங்களிடம் சில சிறிய கேள்விகளைக் கேட்பேன். எந்தக் கேள்வியிலும் குறிப்புக்கு "உதவி" என தட்டச்சு செய்யுங்கள்.',
+  'questionnaire.introPrefilled': 'அருமை! யோசனை மெருகேற்றலிலிருந்து உங்கள் விவரங்களை எடுத்துக்கொண்டேன், எனவே இன்னும் சில பதில்கள் மட்டுமே தேவை.',
+  'questionnaire.position': 'கேள்வி {position} / {total}:',
+  'questionnaire.answerYesNo': 'ஆம் அல்லது இல்லை என்று பதிலளிக்கவும்.',
+  'questionnaire.tip': 'குறிப்பு: {text}',
+  'questionnaire.skipHint': 'இதைத் தவிர்க்க "தவிர்" என தட்டச்சு செய்யுங்கள்.',
+  'questionnaire.retry': 'பரவாயில்லை, மீண்டும் முயற்சிப்போம்.',
+  'questionnaire.defaultHelp': 'உங்கள் சொந்த வார்த்தைகளில் பதிலளியுங்கள் - தோராயமான பதிலும் போதும், பிறகு திருத்திக்கொள்ளலாம்.',
+  'questionnaire.confirmNormalized': 'நான் புரிந்துகொண்டது:\n\n{summary}\n\nஇது சரியா? சேமிக்க "ஆம்", மீண்டும் பதிலளிக்க "இல்லை" என தட்டச்சு செய்யுங்கள், அல்லது திருத்திய பதிலைத் தட்டச்சு செய்யுங்கள்.',
+  'questionnaire.saveError': 'மன்னிக்கவும், உங்கள் பதிலைச் சேமிப்பதில் பிழை ஏற்பட்டது. மீண்டும் முயற்சிக்கவும் அல்லது பக்கத்தைப் புதுப்பிக்கவும்.',
+  'questionnaire.gotIt': 'புரிந்தது!',
+  'questionnaire.complete': 'அருமை! எனக்குத் தேவையான எல்லாத் தகவல்களும் கிடைத்துவிட்டன.\n\nஉங்கள் பதில்களின் சுருக்கம் இதோ. சரியில்லாதவற்றைத் திருத்தி, பிறகு உங்கள் வழிகாட்டிகளை உருவாக்குங்கள்.',
+  'questionnaire.errorEmpty': 'ஒரு பதிலைத் தட்டச்சு செய்யுங்கள்.',
+  'questionnaire.errorTooLong': 'உங்கள் பதிலை {max} எழுத்துகளுக்குள் வைத்திருங்கள்.',
+  'questionnaire.errorTooShort': 'இன்னும் கொஞ்சம் விவரம் தாருங்கள் (குறைந்தது {min} எழுத்துகள்).',
+  'questionnaire.errorInvalid': 'இந்தப் பதில் சரியாகத் தெரியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'questionnaire.errorAmount': 'ஒரு தொகையை உள்ளிடுங்கள், எ.கா. ₹10 லட்சம், அல்லது "தெரியாது" என தட்டச்சு செய்யுங்கள்.',
+  'questionnaire.errorChoice': 'விருப்பங்களில் ஒன்றை எண்ணால் தேர்ந்தெடுக்கவும் (1-{count}).',
+
+  'review.title': 'உங்கள் தொழில் சுயவிவரம்',
+  'review.subtitleGenerate': 'வழிகாட்டிகள் எழுதப்படும் முன் உங்கள் பதில்களைச் சரிபார்த்து, தவறுகளைத் திருத்துங்கள்.',
+  'review.subtitleUpdate': 'மாற்றங்கள் அவற்றைப் பயன்படுத்தும் வழிகாட்டிகளை மட்டுமே மீண்டும் உருவாக்கும்.',
+  'review.choose': 'தேர்ந்தெடுக்கவும்...',
+  'review.required': 'கட்டாயம் - ஒரு பதிலைச் சேர்க்கவும்',
+  'review.skipped': 'தவிர்க்கப்பட்டது',
+  'review.missingOne': '{count} கட்டாயப் பதில் இல்லை.',
+  'review.missingOther': '{count} கட்டாயப் பதில்கள் இல்லை.',
+  'review.allFilled': 'எல்லாக் கட்டாயப் பதில்களும் நிரப்பப்பட்டுள்ளன.',
+  'review.confirmGenerate': 'எல்லாம் சரி - என் வழிகாட்டிகளை உருவாக்கு',
+  'review.updateGuide': 'வழிகாட்டியைப் புதுப்பி: {guides}',
+  'review.updateGuides': 'வழிகாட்டிகளைப் புதுப்பி: {guides}',
+  'review.done': 'முடிந்தது',
+  'review.saveError': 'மன்னிக்கவும், உங்கள் பதிலைச் சேமிப்பதில் பிழை ஏற்பட்டது. மீண்டும் முயற்சிக்கவும்.',
+
+  'generation.started': 'உங்கள் தகவல்கள் செயலாக்கப்பட்டு உங்கள் தொழில் ஆவணங்கள் உருவாக்கப்படுகின்றன...',
+  'generation.wait': 'இதற்குச் சிறிது நேரம் ஆகலாம். காத்திருக்கவும்.',
+  'generation.regenerating': 'உங்கள் சுயவிவரம் புதுப்பிக்கப்பட்டது. மாற்றிய பதில்களைப் பயன்படுத்தும் வழிகாட்டிகள் மீண்டும் உருவாக்கப்படுகின்றன: {guides}.',
+  'generation.error': 'மன்னிக்கவும், ஒரு பிழை ஏற்பட்டது. பக்கத்தைப் புதுப்பித்து மீண்டும் முயற்சிக்கவும்.',
+  'generation.profileError': 'மன்னிக்கவும், உங்கள் தொழில் தகவல்களைப் பெறுவதில் பிழை ஏற்பட்டது. மீண்டும் முயற்சிக்கவும்.',
+  'generation.profileMissing': 'மன்னிக்கவும், உங்கள் தொழில் தகவல்களைக் கண்டுபிடிக்க முடியவில்லை. மீண்டும் தொடக்கத்திலிருந்து தொடங்கவும்.',
+  'generation.missingAnswers': 'சில பதில்கள் இன்னும் இல்லை: {questions}\n\nகீழே உள்ள சுயவிவரச் சுருக்கத்தில் அவற்றைச் சேர்க்கவும்.',
+  'generation.queueError': 'மன்னிக்கவும், உங்கள் ஆவணங்களை உருவாக்கத் தொடங்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'generation.loaderTitle': 'ஆவணங்கள் உருவாகின்றன:',
+  'generation.loaderCompleted': '{completed}/{total} முடிந்தது',
+  'generation.creating': 'உள்ளடக்கம் உருவாகிறது...',
+  'generation.writing': 'எழுதப்படுகிறது... இதுவரை {count} சொற்கள்',
+
+  'rating.prompt': '🎉 உங்கள் எல்லாத் தொழில் ஆவணங்களும் உருவாக்கப்பட்டுவிட்டன!\n\nஆவண டாஷ்போர்டில் அவற்றைப் பார்க்கலாம்.\n\n{question}\n\n1 முதல் 5 வரை ஒரு எண்ணைத் தட்டச்சு செய்யுங்கள்:\n\n1 ⭐ - மோசம்\n2 ⭐⭐ - பரவாயில்லை\n3 ⭐⭐⭐ - நன்று\n4 ⭐⭐⭐⭐ - மிக நன்று\n5 ⭐⭐⭐⭐⭐ - அருமை',
+  'rating.question': 'உங்கள் அனுபவம் எப்படி இருந்தது?',
+  'rating.thanks': 'உங்கள் {rating}-நட்சத்திர மதிப்பீட்டுக்கு நன்றி!',
+  'rating.glad': '🎉 உங்களுக்கு நல்ல அனுபவம் கிடைத்ததில் மகிழ்ச்சி!',
+  'rating.sorry': 'இதைக் கேட்டு வருந்துகிறோம். என்ன தவறு நடந்தது அல்லது நாங்கள் எதை மேம்படுத்தலாம் என்று சுருக்கமாகச் சொல்ல முடியுமா? உங்கள் கருத்து உங்களுக்குச் சிறப்பாகச் சேவை செய்ய உதவுகிறது.',
+  'rating.final': 'உங்கள் எல்லா ஆவணங்களும் டாஷ்போர்டில் உள்ளன. எப்போது வேண்டுமானாலும் அவற்றைப் பார்க்கலாம் அல்லது பதிவிறக்கலாம், அவற்றைப் பற்றிய கேள்விகளை இங்கே என்னிடம் கேட்கலாம். StartUP Companion-ஐப் பயன்படுத்தியதற்கு நன்றி!',
+  'rating.feedbackThanks': 'உங்கள் கருத்துக்கு நன்றி. உங்கள் தொழிலின் ஒவ்வொரு பகுதிக்கும் தனிப்பட்ட வழிகாட்டுதல் தரக்கூடிய எங்கள் நிபுணர் வழிகாட்டிகளுடன் உங்களை இணைக்கிறோம்.',
+  'rating.mentorsTitle': '📞 உங்களுக்குப் பரிந்துரைக்கப்பட்ட வழிகாட்டிகள்',
+  'rating.invalid': '1 முதல் 5 வரையிலான சரியான மதிப்பீட்டைத் தாருங்கள்.',
+
+  'mentors.eyebrow': 'நிபுணர் வலையமைப்பு',
+  'mentors.title': 'உங்கள் வழிகாட்டிகளைச் சந்தியுங்கள்',
+  'mentors.subtitle': 'பதிவு, இணக்கம், பிராண்டிங், HR ஆகியவற்றில் நூற்றுக்கணக்கான நிறுவனர்களுக்கு வழிகாட்டிய நிபுணர்களுடன் இணையுங்கள்.',
+  'mentors.loading': 'வழிகாட்டி சுயவிவரங்கள் ஏற்றப்படுகின்றன...',
+  'mentors.loadError': 'இப்போது வழிகாட்டிகளை ஏற்ற முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'mentors.empty': 'விரைவில் வழிகாட்டிகளைச் சேர்க்கிறோம். சிறிது நேரம் கழித்துப் பாருங்கள்.',
+  'mentors.fallbackExpertise': 'ஸ்டார்ட்அப்பின் முக்கியப் பணிகளில் நிபுணர் வழிகாட்டுதல்.',
+  'mentors.schedule': 'அறிமுக அழைப்பைத் திட்டமிடு',
+  'mentors.connect': 'நிபுணருடன் இணையுங்கள்',
+  'mentors.serviceExpert': '{service} நிபுணர்',
+
+  'section.signIn': 'இந்த வழிகாட்டியைத் திருத்த மீண்டும் உள்நுழையவும்.',
+  'section.error': 'இந்தப் பகுதியை மீண்டும் உருவாக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'section.none': 'இந்த வழிகாட்டியில் மீண்டும் உருவாக்கக்கூடிய பகுதி எதுவும் இல்லை.',
+  'section.label': 'பகுதி',
+  'section.instructionLabel': 'என்ன மாற வேண்டும்?',
+  'section.instructionPlaceholder': 'எ.கா. 3 இயக்குநர்கள், அவர்களில் ஒருவர் NRI',
+  'section.hint': 'இந்தப் பகுதி மட்டுமே மீண்டும் எழுதப்படும். வழிகாட்டியின் மற்ற பகுதிகள் அப்படியே இருக்கும்.',
+  'section.regenerating': 'மீண்டும் உருவாக்கப்படுகிறது...',
+  'section.submit': 'பகுதியை மீண்டும் உருவாக்கு',
+  'section.updated': '"{title}" புதுப்பிக்கப்பட்டது, PDF மீண்டும் உருவாக்கப்பட்டது.',
+
+  'dashboard.title': 'உங்கள் தொழில் ஆவணங்கள்',
+  'dashboard.subtitle': 'உங்கள் அத்தியாவசியத் தொழில் வழிகாட்டிகள் அனைத்தும் தயார். பார்க்க அல்லது பதிவிறக்கக் கிளிக் செய்யுங்கள்.',
+  'dashboard.downloadAll': 'அனைத்தையும் பதிவிறக்கு',
+  'dashboard.shareAll': 'எல்லா வழிகாட்டிகளையும் பகிர்',
+  'dashboard.brand': 'PDF-இல் பிராண்ட்',
+  'dashboard.editProfile': 'தொழில் சுயவிவரத்தைத் திருத்து',
+  'dashboard.queued': 'வரிசையில்...',
+  'dashboard.generating': 'உருவாகிறது...',
+  'dashboard.failed': 'ஆவணத்தை உருவாக்க முடியவில்லை',
+  'dashboard.tryAgain': 'மீண்டும் முயற்சி செய்',
+  'dashboard.keyHighlights': 'முக்கிய அம்சங்கள்:',
+  'dashboard.noKeyPoints': 'முக்கியக் குறிப்புகள் இல்லை',
+  'dashboard.viewFull': 'முழு ஆவணத்தையும் பார்',
+
+  'history.title': 'ஆவண வரலாறு',
+  'history.subtitle': 'உங்கள் முந்தைய அமர்வுகளின் ஆவணங்களைப் பாருங்கள்.',
+  'history.loading': 'உங்கள் வரலாறு ஏற்றப்படுகிறது...',
+  'history.empty': 'இன்னும் ஆவணங்கள் எதுவும் இல்லை.',
+  'history.unnamedBusiness': 'பெயரிடப்படாத தொழில்',
+  'history.documentCountOne': '({count} ஆவணம்)',
+  'history.documentCountOther': '({count} ஆவணங்கள்)',
+  'history.downloadAll': 'அனைத்தையும் பதிவிறக்கு',
+  'history.view': 'ஆவணத்தைப் பார்',
+  'history.downloadPdf': 'PDF-ஐப் பதிவிறக்கு',
+
+  'businesses.title': 'உங்கள் தொழில்கள்',
+  'businesses.empty': 'வழிகாட்டிகள் உருவான பிறகு உங்கள் தொழில் இங்கே தோன்றும்.',
+  'businesses.open': 'இந்தத் தொழிலின் வழிகாட்டிகளைத் திற',
+  'businesses.guides': 'வழிகாட்டிகள்',
+  'businesses.newGuides': 'புதிய வழிகாட்டிகள்',
+  'businesses.newBusiness': 'புதிய தொழில்',
+
+  'hero.title': 'உங்கள் தொழிலைத் தொடங்க உங்களுக்கேற்ற வழிகாட்டுதல்,',
+  'hero.titleHighlight': '30 நிமிடங்களுக்குள்',
+  'hero.subtitle': 'எல்லாம் ஒரே இடத்தில் — சட்டத் தேவைகள், பதிவு, நிதி வாய்ப்புகள், பிராண்டிங் மற்றும் HR பற்றிய நிபுணர் வழிகாட்டுதல், உங்கள் தொழில் யோசனைக்கு ஏற்ப.',
+  'hero.start': 'உங்கள் பயணத்தைத் தொடங்குங்கள்',
+  'hero.tryFree': 'இலவசமாக முயற்சிக்கவும்',
+  'hero.trusted': 'இந்தியா முழுவதும் உள்ள தொழில்முனைவோரின் நம்பிக்கை',
+
+  'benefits.title': 'Startup Companion-ஐ ஏன் தேர்ந்தெடுக்க வேண்டும்?',
+  'benefits.subtitle': 'உங்கள் சேவைத் தொழில் யோசனையை வெற்றிகரமான தொழிலாக மாற்றத் தேவையான அனைத்தும்',
+  'benefits.instantTitle': 'எப்போதும் உடனடி வழிகாட்டுதல்',
+  'benefits.instantText': 'அரட்டையில் தட்டச்சு செய்தோ பேசியோ தொழில், வரி, HR அல்லது சந்தைப்படுத்தல் பற்றிய பதில்களைப் பெறுங்கள்.',
+  'benefits.compliantTitle': 'எளிதாக விதிகளைப் பின்பற்றுங்கள்',
+  'benefits.compliantText': 'முதல் முறை தொழில் தொடங்குபவர்கள் குழப்பமோ பயமோ இல்லாமல் விதிகளைப் பின்பற்ற உதவும் எளிய கருவி.',
+  'benefits.mentorsTitle': 'வழிகாட்டிகளுடன் நேரடித் தொடர்பு',
+  'benefits.mentorsText': 'தேவைப்படும்போது நம்பகமான வழிகாட்டிகளை அவர்களின் தொடர்பு விவரங்கள் மூலம் அணுகி உங்களுக்கேற்ற உதவியைப் பெறுங்கள்.',
+
+  'howItWorks.title': 'இது எப்படி வேலை செய்கிறது?',
+  'howItWorks.subtitle': 'உங்கள் தொழில் யோசனையை நிஜமாக்கும் எளிய படிகள்',
+  'howItWorks.onboardingTitle': 'தொடக்கம்',
+  'howItWorks.onboardingText': 'எளிய முறையில் StartUP Companion-இல் பதிவுசெய்து உள்நுழையுங்கள்.',
+  'howItWorks.serviceTitle': 'உங்கள் சேவையைத் தேர்ந்தெடுங்கள்',
+  'howItWorks.serviceText': 'உங்களுக்குத் தேவையான உதவியைத் தேர்ந்தெடுங்கள் — யோசனை மெருகேற்றம், பதிவு, விதிமுறை இணக்கம், பிராண்டிங் அல்லது HR.',
+  'howItWorks.guidanceTitle': 'உங்களுக்கேற்ற வழிகாட்டுதலைப் பெறுங்கள்',
+  'howItWorks.guidanceText': 'உங்கள் தொழிலைத் தொடங்க தெளிவான, உங்களுக்கேற்ற தகவல்களைப் பெறுங்கள்.',
+  'howItWorks.mentorsTitle': 'வழிகாட்டிகளுடன் இணையுங்கள்',
+  'howItWorks.mentorsText': 'மேலும் தெளிவு தேவைப்பட்டால், உங்கள் தேவைக்குப் பொருந்திய நம்பகமான வழிகாட்டிகளுடன் நேரடியாக இணையுங்கள்.',
+  'howItWorks.historyTitle': 'உங்கள் வரலாற்றைப் பாருங்கள்',
+  'howItWorks.historyText': 'புதிய கேள்விகளுடன் எப்போது வேண்டுமானாலும் திரும்பி வாருங்கள் — உங்கள் முந்தைய உரையாடல்களும் வரலாறும் எப்போதும் சேமிக்கப்பட்டிருக்கும்.',
+
+  'pricing.title': 'முழுமையான ஸ்டார்ட்அப் பயணம்',
+  'pricing.subtitle': 'ஒவ்வொரு கேள்விக்கும் பதில் பெறுங்கள்',
+  'pricing.badge': 'இலவச சோதனை கிடைக்கும்',
+  'pricing.featureCompliance': 'சட்ட இணக்க வழிகாட்டுதல்',
+  'pricing.featureTax': 'வரி மற்றும் மானியங்களைக் கண்டறிதல்',
+  'pricing.featureBranding': 'பிராண்டிங் உதவி',
+  'pricing.featureHr': 'HR கொள்கை வார்ப்புருக்கள்',
+  'pricing.featureLanguage': 'உள்ளூர் மொழி ஆதரவு',
+  'pricing.featureMentor': 'வழிகாட்டியுடன் தனிப்பட்ட ஆலோசனை',
+  'pricing.cta': 'இப்போதே இலவசமாக முயற்சிக்கவும்',
+  'pricing.note': 'கிரெடிட் கார்டு தேவையில்லை • உடனே தொடங்குங்கள்',
+
+  'testimonials.title': 'எங்கள் நிறுவனர்கள் சொல்வது',
+  'testimonials.subtitle': 'தங்கள் யோசனைகளை வெற்றிகரமான தொழில்களாக மாற்றிய தொழில்முனைவோரின் உண்மைக் கதைகள்',
+  'testimonials.founder': 'நிறுவனர்',
+  'testimonials.coFounder': 'இணை நிறுவனர்',
+  'testimonials.smallBusinessOwner': 'சிறு தொழில் உரிமையாளர்',
+  'testimonials.rajeshQuote': 'முதல் முறை நிறுவனராக, Startup Companion பதிவு மற்றும் விதிமுறைகள் பற்றிய பயத்தை முழுவதும் போக்கியது. எந்தச் சிரமமும் இல்லாமல் என் LLP-ஐப் பதிவு செய்தேன்.',
+  'testimonials.rajeshCompany': 'மேலாண்மை ஆலோசகர், மும்பை',
+  'testimonials.emilyQuote': 'நிதி அமைப்பு உதவியாளர் அற்புதமாக இருந்தது! எனக்குத் தெரியாத மானியங்களைக் கண்டுபிடிக்க உதவியது, 30 நிமிடங்களுக்குள் என் தொழில் வங்கிக் கணக்கையும் அமைத்துக் கொடுத்தது.',
+  'testimonials.emilyCompany': 'சந்தைப்படுத்தல் நிறுவனம், கொல்கத்தா',
+  'testimonials.swethaQuote': 'சட்ட வார்ப்புருக்கள் முதல் படிப்படியான செயல்முறைகள் வரை, எல்லாமே என்னைப் போன்ற தொடக்கநிலையாளர்களுக்காக உருவாக்கப்பட்டது. கண்டிப்பாகப் பரிந்துரைக்கிறேன்!',
+  'testimonials.swethaCompany': 'ஹைதராபாத்',
+
+  'faq.title': 'அடிக்கடி கேட்கப்படும் கேள்விகள்',
+  'faq.subtitle': 'Startup Companion பற்றிய பொதுவான கேள்விகளுக்கான பதில்கள்',
+  'faq.general': 'பொது',
+  'faq.services': 'சேவைகள்',
+  'faq.mentors': 'வழிகாட்டிகள்',
+  'faq.pricing': 'கட்டணம்',
+  'faq.q1': 'சட்டம் அல்லது தொழிலில் முன் அனுபவம் இல்லாவிட்டாலும் இந்தச் செயலியைப் பயன்படுத்தலாமா?',
+  'faq.a1': 'நிச்சயமாக! ஒவ்வொரு கருவியும், வார்ப்புருவும், விளக்கமும் தொடக்கநிலையாளர்களுக்காகவே உருவாக்கப்பட்டவை.',
+  'faq.q2': 'செயலி எனக்காகப் படிவங்களை நிரப்புமா?',
+  'faq.a2': 'இல்லை; எந்தப் படிவங்கள் தேவை, அவற்றை முடிக்க எங்கே அல்லது யாரைத் தொடர்புகொள்ள வேண்டும் என்பதை மட்டுமே வழிகாட்டும்.',
+  'faq.q3': 'Startup Companion-ஐ யார் பயன்படுத்த வேண்டும்?',
+  'faq.a3': 'இந்தியாவில் முதல் முறையாகச் சேவைத் தொழில் தொடங்குபவர்கள், எளிமையான படிப்படியான வழிகாட்டுதல் தேவைப்படுபவர்கள்.',
+  'faq.q4': 'நீங்கள் எனக்காக ஆவணங்களைத் தாக்கல் செய்வீர்களா?',
+  'faq.a4': 'இல்லை. என்ன, எங்கே, எப்படித் தாக்கல் செய்வது என்று படிப்படியாக வழிகாட்டுகிறோம். இறுதிச் சமர்ப்பிப்பு அதிகாரப்பூர்வ இணையதளங்களில் நடக்கும்.',
+  'faq.q5': 'இது எல்லா நாடுகளின் தேவைகளுக்கும் உதவுமா?',
+  'faq.a5': 'தற்போது அனைத்து வழிகாட்டுதலும் இந்தியச் சட்டம் மற்றும் விதிமுறைகளுக்கு ஏற்ப மட்டுமே.',
+  'faq.q6': 'Startup Companion ஒரு சட்ட நிறுவனமா?',
+  'faq.a6': 'இல்லை. இது செயல்முறைகளை எளிதாக்கி, தேவைப்படும்போது உரிமம் பெற்ற நிபுணர்களுடன் இணைக்கும் ஒரு கல்வித் தளம்.',
+  'faq.q7': 'புதிய தொழில்களுக்கான அரசு மானியங்கள் அல்லது திட்டங்கள் பற்றி இந்தச் செயலி வழிகாட்டுமா?',
+  'faq.a7': 'ஆம், Company Navigator பொருத்தமான திட்டங்களை (Startup India, MSME) கண்டறிந்து தகுதியை எளிதாக விளக்குகிறது.',
+  'faq.q8': 'பதிவு ஒப்புதலுக்கு நீங்கள் உத்தரவாதம் தருவீர்களா?',
+  'faq.a8': 'அரசு ஒப்புதலுக்கு உத்தரவாதம் தர முடியாது, ஆனால் நிராகரிப்புக்குக் காரணமான பொதுவான பிழைகளை எங்கள் வழிகாட்டுதல் குறைக்கிறது.',
+  'faq.q9': 'Startup India அல்லது MSME Udyam போன்ற அரசுத் திட்டங்கள் இதில் உள்ளனவா?',
+  'faq.a9': 'ஆம். Compliance பகுதி பொருத்தமான திட்டங்கள், தகுதி நிபந்தனைகள் மற்றும் விண்ணப்பப் படிகளைக் காட்டுகிறது — Startup India பதிவு, MSME Udyam மற்றும் பிற மானியங்கள் உட்பட.',
+  'faq.q10': 'GST பதிவு மற்றும் ரிட்டர்ன்களுக்கு Startup Companion உதவுமா?',
+  'faq.a10': 'ஆம். Compliance பகுதி GST பதிவு செயல்முறையைப் படிப்படியாக வழிகாட்டுகிறது — தேவையான ஆவணங்கள், விண்ணப்ப இணையதளங்கள், பொதுவான தவறுகள் உட்பட. GST ரிட்டர்ன் தாக்கல் செய்வதற்கான சரிபார்ப்புப் பட்டியல்களும் காலக்கெடுக்களும் வழங்குகிறோம். நேரடி உதவி தேவைப்பட்டால், சரிபார்க்கப்பட்ட வரி வழிகாட்டிகளுடன் (CA, GST ஆலோசகர்கள்) Startup Companion இணைக்கிறது.',
+  'faq.q11': 'நீங்கள் உண்மையான லோகோக்களைத் தருவீர்களா அல்லது வார்ப்புருக்கள் மட்டுமா? AI அவற்றை உருவாக்குமா?',
+  'faq.a11': 'Startup Companion பிராண்டிங் வார்ப்புருக்களைத் தருகிறது, AI லோகோ உருவாக்கும் கருவிகளுடன் இணைக்கிறது. தனித்துவமான, வர்த்தகமுத்திரைக்குத் தயாரான அடையாளத்துக்கு சரிபார்க்கப்பட்ட பிராண்டிங் வழிகாட்டிகள் உள்ளனர்.',
+  'faq.q12': 'பெயர் தனித்துவமானதாகவும் கிடைப்பதாகவும் இருப்பதை Startup Companion உறுதிசெய்யுமா?',
+  'faq.a12': 'Startup Companion பெயர் யோசனைகளை உருவாக்கி உடனே சரிபார்க்க உதவுகிறது: டொமைன் கிடைப்பு; வர்த்தகமுத்திரை முரண்பாடுகள் (IP India / USPTO இணைப்புகள் மூலம்); தொழில் பதிவேட்டு முரண்பாடுகள் (இந்தியா); சமூக ஊடகப் பெயர்கள்',
+  'faq.q13': 'தயாரிப்பு ஸ்டார்ட்அப்களுக்கு இதைப் பயன்படுத்தலாமா?',
+  'faq.a13': 'Startup Companion சேவைத் தொழில்களுக்காக உருவாக்கப்பட்டது, ஆனால் பல படிகள் தயாரிப்பு ஸ்டார்ட்அப்களுக்கும் பொருந்தும்.',
+  'faq.q14': 'AI-ஆல் தீர்க்க முடியாத விதிமுறைக் கேள்வி இருந்தால் என்ன ஆகும்?',
+  'faq.a14': 'உள்ளமைந்த Legal Desk தேவைப்படும்போது உங்களை மனித நிபுணர்களுடன் இணைக்கிறது.',
+  'faq.q15': 'AI ஒரு வழிகாட்டிக்குப் பதிலாக இருக்க முடியுமா?',
+  'faq.a15': 'இல்லை. AI விரைவான வழிகாட்டுதல் தரும், ஆனால் வழிகாட்டிகள் நிஜ அனுபவம், மதிப்பீடு மற்றும் பொறுப்பைக் கொண்டு வருகிறார்கள்.',
+  'faq.q16': 'வழிகாட்டிகள் எப்படிச் சரிபார்க்கப்படுகிறார்கள்?',
+  'faq.a16': 'ஒவ்வொரு வழிகாட்டியின் தகுதிகள், முன் அனுபவம் மற்றும் மதிப்பீடுகள் சரிபார்க்கப்படுகின்றன.',
+  'faq.q17': 'இது இலவசமா?',
+  'faq.a17': 'அடிப்படை வழிகாட்டுதல் எப்போதும் இலவசம்; சிக்கலான சூழல்களுக்கு விருப்பப்பட்டால் கட்டண நிபுணர் ஆலோசனை பெறலாம்.',
+
+  'auth.emailLabel': 'மின்னஞ்சல் முகவரி *',
+  'auth.emailPlaceholder': 'உங்கள் மின்னஞ்சல் முகவரியை உள்ளிடவும்',
+  'auth.passwordLabel': 'கடவுச்சொல் *',
+  'auth.unexpectedError': 'எதிர்பாராத பிழை ஏற்பட்டது. மீண்டும் முயற்சிக்கவும்.',
+  'auth.trustPersonalized': 'உங்களுக்கேற்றது',
+  'auth.trustReliable': 'நம்பகமானது',
+  'auth.trustBeginnerFriendly': 'தொடக்கநிலையாளர்களுக்கு எளிது',
+
+  'login.title': 'உங்கள் கணக்கில் உள்நுழையுங்கள்',
+  'login.subtitle': 'மீண்டும் வருக! உங்கள் யோசனையைச் சட்டப்படி நிறுவப்பட்ட தொழிலாக மாற்றுவோம்.',
+  'login.passwordPlaceholder': 'உங்கள் கடவுச்சொல்லை உள்ளிடவும்',
+  'login.submitting': 'உள்நுழைகிறது...',
+  'login.submit': 'உள்நுழைந்து தொடருங்கள்',
+  'login.newHere': 'புதியவரா?',
+  'login.signupLink': 'பதிவுசெய்து உங்கள் பயணத்தைத் தொடங்குங்கள்',
+  'login.failed': 'உள்நுழைய முடியவில்லை',
+  'login.invalidCredentials': 'மின்னஞ்சல் அல்லது கடவுச்சொல் தவறானது.',
+  'login.emailNotConfirmed': 'உங்கள் மின்னஞ்சல் முகவரியை உறுதிசெய்து, பின்னர் உள்நுழையுங்கள்.',
+
+  'signup.title': 'உங்கள் கணக்கை உருவாக்குங்கள்',
+  'signup.subtitle': 'உங்கள் ஸ்டார்ட்அப் பயணம் இங்கே தொடங்குகிறது!',
+  'signup.passwordPlaceholder': 'பாதுகாப்பான கடவுச்சொல்லை உருவாக்குங்கள்',
+  'signup.passwordTooShort': 'கடவுச்சொல்லில் குறைந்தது 8 எழுத்துகள் இருக்க வேண்டும்',
+  'signup.passwordNeedsLetter': 'கடவுச்சொல்லில் குறைந்தது ஓர் எழுத்து (a-z) இருக்க வேண்டும்',
+  'signup.passwordNeedsNumber': 'கடவுச்சொல்லில் குறைந்தது ஓர் எண் இருக்க வேண்டும்',
+  'signup.passwordNeedsSymbol': 'கடவுச்சொல்லில் குறைந்தது ஒரு குறியீடு (எ.கா. ! @ #) இருக்க வேண்டும்',
+  'signup.success': 'கணக்கு உருவாக்கப்பட்டது! உங்களை உள்நுழைக்கிறோம்...',
+  'signup.requirementsLabel': 'கடவுச்சொல் தேவைகள்',
+  'signup.requirements': 'குறைந்தது 8 எழுத்துகள், அதில் ஓர் எழுத்து, ஓர் எண், ஒரு குறியீடு',
+  'signup.submitting': 'கணக்கு உருவாக்கப்படுகிறது...',
+  'signup.submit': 'பதிவுசெய்து தொடங்குங்கள்',
+  'signup.haveAccount': 'ஏற்கனவே கணக்கு உள்ளதா?',
+  'signup.loginLink': 'இங்கே உள்நுழையுங்கள்',
+  'signup.failed': 'கணக்கை உருவாக்க முடியவில்லை',
+  'signup.alreadyRegistered': 'இந்த மின்னஞ்சலுடன் ஏற்கனவே ஒரு கணக்கு உள்ளது. உள்நுழையவும்.',
+
+  'viewer.editSection': 'பகுதியைத் திருத்து',
+  'viewer.hideEditor': 'திருத்தியை மறை',
+  'viewer.share': 'பகிர்',
+  'viewer.versions': 'பதிப்புகள்',
+  'viewer.hideVersions': 'பதிப்புகளை மறை',
+  'viewer.regenerateSection': 'ஒரு பகுதியை மீண்டும் உருவாக்கு',
+  'viewer.compareVersions': 'பதிப்புகளை ஒப்பிடு',
+
+  'versions.loading': 'பதிப்புகள் ஏற்றப்படுகின்றன...',
+  'versions.onlyOne': 'இந்த வழிகாட்டிக்கு ஒரே ஒரு பதிப்புதான் உள்ளது. ஒப்பிட அதை மீண்டும் உருவாக்குங்கள்.',
+  'versions.unknownModel': 'அறியப்படாத மாதிரி',
+  'versions.older': 'பழையது',
+  'versions.newer': 'புதியது',
+  'versions.changed': '{count} மாற்றப்பட்டன',
+  'versions.added': '{count} சேர்க்கப்பட்டன',
+  'versions.removed': '{count} நீக்கப்பட்டன',
+
+  'guideData.recommended': 'பரிந்துரை: {entity}',
+  'guideData.timeline': 'காலவரிசை',
+  'guideData.aboutDays': 'சுமார் {count} நாட்கள்',
+  'guideData.day': 'நாள் {day}',
+  'guideData.dayRange': 'நாள் {start}-{end}',
+  'guideData.costs': 'செலவுகள்',
+  'guideData.item': 'விவரம்',
+  'guideData.frequency': 'எத்தனை முறை',
+  'guideData.amount': 'தொகை',
+  'guideData.oneTime': 'ஒரு முறை',
+  'guideData.monthly': 'மாதந்தோறும்',
+  'guideData.yearly': 'ஆண்டுதோறும்',
+  'guideData.total': 'மொத்தம் ({frequency})',
+  'guideData.checklist': 'சரிபார்ப்புப் பட்டியல்',
+  'guideData.done': '{done}/{total} முடிந்தது',
+  'guideData.portals': 'அதிகாரப்பூர்வ இணையதளங்கள்',
+
+  'share.title': '{title} பகிர்',
+  'share.subtitle': 'இணைப்பு உள்ள எவரும், அது காலாவதியாகும் வரை அல்லது நீங்கள் ரத்து செய்யும் வரை இதைப் படிக்கலாம்.',
+  'share.expiresAfter': 'காலாவதி',
+  'share.dayOne': '{count} நாள்',
+  'share.dayOther': '{count} நாட்கள்',
+  'share.passcode': 'கடவுக்குறியீடு (விருப்பம்)',
+  'share.passcodePlaceholder': 'குறைந்தது 4 எழுத்துகள்',
+  'share.label': 'யாருக்காக (விருப்பம்)',
+  'share.labelPlaceholder': 'எ.கா. என் கணக்காளர்',
+  'share.creating': 'உருவாக்கப்படுகிறது...',
+  'share.create': 'இணைப்பை உருவாக்கி நகலெடு',
+  'share.links': 'இணைப்புகள்',
+  'share.loading': 'இணைப்புகள் ஏற்றப்படுகின்றன...',
+  'share.empty': 'இன்னும் இணைப்புகள் இல்லை.',
+  'share.created': '{date} அன்று உருவாக்கிய இணைப்பு',
+  'share.revoked': 'ரத்து செய்யப்பட்டது',
+  'share.expired': 'காலாவதியானது',
+  'share.expires': '{date} வரை',
+  'share.viewOne': '{count} பார்வை',
+  'share.viewOther': '{count} பார்வைகள்',
+  'share.log': 'பதிவு',
+  'share.copy': 'நகலெடு',
+  'share.copied': 'நகலெடுக்கப்பட்டது',
+  'share.revoke': 'ரத்து செய்',
+  'share.notOpened': 'இன்னும் திறக்கப்படவில்லை.',
+  'share.unknownBrowser': 'அறியப்படாத உலாவி',
+  'share.wrongPasscode': 'தவறான கடவுக்குறியீடு',
+  'share.signIn': 'உங்கள் வழிகாட்டிகளைப் பகிர மீண்டும் உள்நுழையவும்.',
+  'share.createError': 'மன்னிக்கவும், இணைப்பை உருவாக்க முடியவில்லை.',
+  'share.revokeError': 'மன்னிக்கவும், இணைப்பை ரத்து செய்ய முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'share.openError': 'இந்த இணைப்பைத் திறக்க முடியவில்லை.',
+  'share.invalidExpiry': 'இணைப்புகள் 1 முதல் 90 நாட்கள் வரை இருக்கலாம்.',
+  'share.invalidPasscode': 'கடவுக்குறியீட்டில் 4 முதல் 64 எழுத்துகள் இருக்க வேண்டும்.',
+  'share.notFound': 'இந்த வழிகாட்டியைக் கண்டுபிடிக்க முடியவில்லை.',
+  'share.unavailable': 'இந்த இணைப்பு காலாவதியானது அல்லது இனி கிடைக்காது.',
+  'share.passcodeRequired': 'இந்த வழிகாட்டிகளைப் பார்க்கக் கடவுக்குறியீட்டை உள்ளிடவும்.',
+  'share.passcodeInvalid': 'அந்தக் கடவுக்குறியீடு சரியில்லை.',
+  'share.tooManyAttempts': 'பலமுறை தவறான கடவுக்குறியீடு. 15 நிமிடங்கள் கழித்து மீண்டும் முயற்சிக்கவும்.',
+
+  'shared.opening': 'பகிரப்பட்ட வழிகாட்டிகள் திறக்கப்படுகின்றன...',
+  'shared.protected': 'இந்த இணைப்பு பாதுகாக்கப்பட்டது',
+  'shared.passcode': 'கடவுக்குறியீடு',
+  'shared.checking': 'சரிபார்க்கிறது...',
+  'shared.view': 'வழிகாட்டிகளைப் பார்',
+  'shared.until': '{date} வரை உங்களுடன் பகிரப்பட்டது.',
+  'shared.empty': 'இந்த இணைப்பில் இன்னும் வழிகாட்டிகள் இல்லை.',
+  'shared.read': 'படி',
+
+  'brandKit.title': '{business} PDF-களில் உங்கள் பிராண்டைச் சேர்',
+  'brandKit.subtitle': 'ஒவ்வொரு வழிகாட்டியிலும் உங்கள் நிறங்கள், எழுத்துருக்கள், லோகோ — முதலீட்டாளர்களுக்கும் CA-களுக்கும் கொடுக்கத் தயார்.',
+  'brandKit.loading': 'பிராண்ட் கிட் ஏற்றப்படுகிறது...',
+  'brandKit.useBrand': 'வழிகாட்டி PDF-களில் என் பிராண்டைப் பயன்படுத்து',
+  'brandKit.fromGuide': 'நிறங்களும் எழுத்துருக்களும் உங்கள் பிராண்டிங் வழிகாட்டியிலிருந்து எடுக்கப்பட்டவை. உங்களுடையதைப் பயன்படுத்த இங்கே மாற்றுங்கள்.',
+  'brandKit.primaryColor': 'முதன்மை நிறம்',
+  'brandKit.secondaryColor': 'இரண்டாம் நிறம்',
+  'brandKit.headingFont': 'தலைப்பு எழுத்துரு',
+  'brandKit.bodyFont': 'உரை எழுத்துரு',
+  'brandKit.defaultFont': 'Helvetica (இயல்பு)',
+  'brandKit.logoLabel': 'அட்டைப் பக்கத்துக்கான லோகோ (PNG அல்லது JPEG, 2 MB வரை)',
+  'brandKit.uploadLogo': 'லோகோவைப் பதிவேற்று',
+  'brandKit.replaceLogo': 'லோகோவை மாற்று',
+  'brandKit.removeLogo': 'லோகோவை நீக்கு',
+  'brandKit.saving': 'PDF-கள் புதுப்பிக்கப்படுகின்றன...',
+  'brandKit.save': 'சேமித்து PDF-களைப் புதுப்பி',
+  'brandKit.logoType': 'லோகோ PNG அல்லது JPEG படமாக இருக்க வேண்டும்.',
+  'brandKit.logoSize': 'லோகோ 2 MB-க்குக் குறைவாக இருக்க வேண்டும்.',
+  'brandKit.logoUploadError': 'மன்னிக்கவும், லோகோவைப் பதிவேற்ற முடியவில்லை.',
+  'brandKit.saveError': 'மன்னிக்கவும், பிராண்ட் கிட்டைச் சேமிக்க முடியவில்லை.',
+  'brandKit.restyleSignIn': 'உங்கள் பிராண்ட் கிட் சேமிக்கப்பட்டது, ஆனால் PDF-களைப் புதுப்பிக்க மீண்டும் உள்நுழையவும்.',
+  'brandKit.restyleError': 'உங்கள் பிராண்ட் கிட் சேமிக்கப்பட்டது, ஆனால் PDF-களைப் புதுப்பிக்க முடியவில்லை.',
+  'brandKit.restylePartial': 'உங்கள் பிராண்ட் கிட் சேமிக்கப்பட்டது, ஆனால் {total} PDF-களில் {failed} புதுப்பிக்க முடியவில்லை. மீண்டும் முயற்சிக்க மறுபடி சேமிக்கவும்.',
+
+  'download.signIn': 'உங்கள் வழிகாட்டிகளைப் பதிவிறக்க மீண்டும் உள்நுழையவும்.',
+  'download.error': 'மன்னிக்கவும், பதிவிறக்கத்தைத் தயார் செய்ய முடியவில்லை.',
+
+  'followUp.signIn': 'கேள்வி கேட்க மீண்டும் உள்நுழையவும்.',
+
+  'normalize.error': 'மன்னிக்கவும், அந்தப் பதிலைப் புரிந்துகொள்ள முடியவில்லை.'
+};
+
+export default ta;
@@ -0,0 +1,29 @@
+import type { GeneratedDocument } from './documentService';
+import type { QuestionDefinition } from './questionnaire';
+
+export type GuideType = GeneratedDocument['document_type'];
+
+export const GUIDE_TYPES: GuideType[] = ['registration', 'branding', 'compliance', 'hr', 'financial_planning'];
+
+/**
+ * Profile fields each guide's buildContext reads, in
+ * supabase/functions/_shared/gurus/. Every guide also gets the partners (owner
+ * count), the answers in questionnaire_answers and the idea tuning summary.
+ */
+const GUIDE_PROFILE_FIELDS: Record<GuideType, string[]> = {
+  registration: ['business_name', 'company_description', 'industry', 'location'],
+  branding: ['business_name', 'company_description', 'industry', 'location', 'color_preference', 'style_preference'],
+  compliance: ['business_name', 'company_description', 'industry', 'location', 'entity_type', 'color_preference', 'style_preference'],
+  hr: ['business_name', 'company_description', 'industry', 'location', 'color_preference', 'style_preference'],
+  financial_planning: ['business_name', 'company_description', 'industry', 'location', 'entity_type', 'capital_investment', 'expected_turnover']
+};
+
+const FIELDS_USED_BY_EVERY_GUIDE = ['partners_info', 'questionnaire_answers', 'idea_tuning_output'];
+
+/** The guides whose prompt changes when these questions' answers change, in dashboard order */
+export function getGuidesAffectedBy(questions: QuestionDefinition[]): GuideType[] {
+  const fields = questions.map(question => (question.storage === 'answers' ? 'questionnaire_answers' : question.field));
+  if (fields.some(field => FIELDS_USED_BY_EVERY_GUIDE.includes(field))) return GUIDE_TYPES;
+
+  return GUIDE_TYPES.filter(guide => fields.some(field => GUIDE_PROFILE_FIELDS[guide].includes(field)));
+}
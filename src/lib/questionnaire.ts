@@ -0,0 +1,405 @@
+import { supabase } from './supabase';
+import { DEFAULT_QUESTIONNAIRE } from './defaultQuestionnaire';
+import { DEFAULT_LANGUAGE, translate, type Language } from './i18n';
+
+export type QuestionType = 'text' | 'long_text' | 'choice' | 'yes_no' | 'amount' | 'list';
+
+export type NormalizeKind = 'partners' | 'location' | 'industry';
+
+/**
+ * When a question is asked. A leaf compares one answered field; `all` and
+ * `any` combine conditions. `matches` is a case-insensitive regular expression.
+ */
+export type QuestionCondition =
+  | { field: string; equals?: string | boolean; in?: string[]; matches?: string }
+  | { all: QuestionCondition[] }
+  | { any: QuestionCondition[] };
+
+export interface QuestionValidation {
+  minLength?: number;
+  maxLength?: number;
+  /** Regular expression the answer must match */
+  pattern?: string;
+  /** Shown instead of the default message when the answer is rejected */
+  message?: string;
+}
+
+/**
+ * A question as asked in another language. Options are the labels of the
+ * English options in the same order; the English option is what is stored.
+ */
+export interface QuestionTranslation {
+  prompt?: string;
+  helpText?: string;
+  options?: string[];
+  /** Replaces validation.message */
+  message?: string;
+}
+
+export interface QuestionDefinition {
+  id: string;
+  /** business_profiles column, or key in questionnaire_answers when storage is 'answers' */
+  field: string;
+  type: QuestionType;
+  prompt: string;
+  helpText?: string;
+  /** Defaults to true; optional questions can be answered with "skip" */
+  required?: boolean;
+  /** Choices for 'choice' questions, answered by number or by text */
+  options?: string[];
+  /** Accept free text that is not one of the options */
+  allowOther?: boolean;
+  validation?: QuestionValidation;
+  showIf?: QuestionCondition;
+  /** Defaults to 'profile' */
+  storage?: 'profile' | 'answers';
+  /** Structure the answer with the normalize-answer function and confirm it before saving */
+  normalize?: NormalizeKind;
+  /** Keyed by language code, e.g. 'hi' */
+  translations?: Record<string, QuestionTranslation>;
+}
+
+export interface QuestionnaireDefinition {
+  slug: string;
+  version: number;
+  title: string;
+  questions: QuestionDefinition[];
+}
+
+/** Answers without a profile column, as stored in business_profiles.questionnaire_answers */
+export type QuestionnaireAnswers = Record<string, { question: string; answer: string | boolean }>;
+
+export type ParsedAnswer = { value: unknown; error?: undefined } | { value?: undefined; error: string };
+
+const QUESTION_TYPES: QuestionType[] = ['text', 'long_text', 'choice', 'yes_no', 'amount', 'list'];
+const DEFAULT_MAX_LENGTH: Record<QuestionType, number> = {
+  text: 200,
+  long_text: 2000,
+  choice: 200,
+  yes_no: 10,
+  amount: 100,
+  list: 1000
+};
+// Besides English, the words a founder types in Hindi, Marathi and Tamil
+const UNKNOWN_AMOUNT = /^(not sure|unsure|don'?t know|no idea|undecided|tbd|पता नहीं|मालूम नहीं|माहित नाही|ठाऊक नाही|தெரியாது|தெரியவில்லை)$/i;
+const YES = /^(y|yes|yeah|yep|haan|ha|हाँ|हां|जी हाँ|हो|होय|ஆம்|ஆமாம்)$/i;
+const NO = /^(n|no|nope|nahi|not yet|नहीं|नही|ना|नाही|இல்லை|வேண்டாம்)$/i;
+const SOLE_FOUNDER = /^(just me|only me|me|myself|sole founder|solo|सिर्फ मैं|केवल मैं|मैं अकेला|मैं अकेली|फक्त मी|मी एकटा|मी एकटी|நான் மட்டும்|நான் மட்டுமே)$/i;
+const SKIP = /^(skip|छोड़ें|छोड़ो|वगळा|தவிர்)$/i;
+const HELP = /^(\?|help|what do you mean\??|मदद|सहायता|मदत|உதவி)$/i;
+const SOLE_FOUNDER_INFO = 'Sole founder';
+
+/**
+ * Loads the active version of a questionnaire. Falls back to the bundled
+ * default when the table cannot be read or holds no usable questions, so the
+ * chat keeps working while a definition is being edited.
+ */
+export async function loadQuestionnaire(slug: string = 'confirmed_idea'): Promise<QuestionnaireDefinition> {
+  try {
+    const { data, error } = await supabase
+      .from('questionnaires')
+      .select('slug, version, title, definition')
+      .eq('slug', slug)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading questionnaire:', error);
+      return DEFAULT_QUESTIONNAIRE;
+    }
+    if (!data) {
+      console.warn(`No active questionnaire "${slug}", using the bundled default`);
+      return DEFAULT_QUESTIONNAIRE;
+    }
+
+    const questions = (Array.isArray(data.definition?.questions) ? data.definition.questions : [])
+      .filter((question: any) => {
+        const usable = isUsableQuestion(question);
+        if (!usable) console.warn('Skipping invalid questionnaire question:', question);
+        return usable;
+      });
+
+    if (questions.length === 0) {
+      console.error(`Questionnaire "${slug}" v${data.version} has no usable questions, using the bundled default`);
+      return DEFAULT_QUESTIONNAIRE;
+    }
+
+    return { slug: data.slug, version: data.version, title: data.title, questions };
+  } catch (err) {
+    console.error('Unexpected error loading questionnaire:', err);
+    return DEFAULT_QUESTIONNAIRE;
+  }
+}
+
+function isUsableQuestion(question: any): question is QuestionDefinition {
+  return typeof question?.id === 'string' &&
+    typeof question.field === 'string' &&
+    typeof question.prompt === 'string' &&
+    QUESTION_TYPES.includes(question.type) &&
+    (question.type !== 'choice' || (Array.isArray(question.options) && question.options.length > 0));
+}
+
+/** The stored answer to a question, from its profile column or questionnaire_answers */
+export function getAnswer(profile: any, question: QuestionDefinition): unknown {
+  if (question.storage === 'answers') {
+    return profile?.questionnaire_answers?.[question.field]?.answer;
+  }
+  return profile?.[question.field];
+}
+
+function hasAnswer(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+/** Looks a condition's field up as a profile column first, then as a stored answer */
+function conditionValue(profile: any, field: string): unknown {
+  return hasAnswer(profile?.[field]) ? profile[field] : profile?.questionnaire_answers?.[field]?.answer;
+}
+
+export function evaluateCondition(condition: QuestionCondition, profile: any): boolean {
+  if ('all' in condition) return condition.all.every(part => evaluateCondition(part, profile));
+  if ('any' in condition) return condition.any.some(part => evaluateCondition(part, profile));
+
+  const value = conditionValue(profile, condition.field);
+  if (!hasAnswer(value)) return false;
+  const text = String(value).trim().toLowerCase();
+
+  if (condition.equals !== undefined && text !== String(condition.equals).toLowerCase()) return false;
+  if (condition.in && !condition.in.some(option => option.toLowerCase() === text)) return false;
+  if (condition.matches) {
+    try {
+      if (!new RegExp(condition.matches, 'i').test(String(value))) return false;
+    } catch {
+      console.warn('Invalid questionnaire condition pattern:', condition.matches);
+      return false;
+    }
+  }
+  return true;
+}
+
+export function isQuestionVisible(question: QuestionDefinition, profile: any): boolean {
+  return !question.showIf || evaluateCondition(question.showIf, profile);
+}
+
+/** Questions that apply to this profile, in definition order */
+export function getVisibleQuestions(definition: QuestionnaireDefinition, profile: any): QuestionDefinition[] {
+  return definition.questions.filter(question => isQuestionVisible(question, profile));
+}
+
+/**
+ * The next question to ask after `afterId` (or from the start), skipping
+ * questions hidden by their condition and those already answered, e.g. by
+ * idea tuning. Returns null once the questionnaire is complete.
+ */
+export function getNextQuestion(
+  definition: QuestionnaireDefinition,
+  profile: any,
+  afterId?: string
+): QuestionDefinition | null {
+  const startIndex = afterId ? definition.questions.findIndex(question => question.id === afterId) + 1 : 0;
+  return definition.questions
+    .slice(startIndex)
+    .find(question => isQuestionVisible(question, profile) && !hasAnswer(getAnswer(profile, question))) ?? null;
+}
+
+/** Required questions that apply to this profile but have no answer yet */
+export function getMissingQuestions(definition: QuestionnaireDefinition, profile: any): QuestionDefinition[] {
+  return getVisibleQuestions(definition, profile)
+    .filter(question => question.required !== false && !hasAnswer(getAnswer(profile, question)));
+}
+
+/**
+ * The question's prompt, help text and option labels in the language, each
+ * falling back to English when the questionnaire has no translation for it.
+ */
+export function getQuestionText(
+  question: QuestionDefinition,
+  language: Language = DEFAULT_LANGUAGE
+): { prompt: string; helpText?: string; options?: string[] } {
+  const translation = language === DEFAULT_LANGUAGE ? undefined : question.translations?.[language];
+  const options = translation?.options?.length === question.options?.length ? translation?.options : question.options;
+  return {
+    prompt: translation?.prompt || question.prompt,
+    helpText: translation?.helpText || question.helpText,
+    options
+  };
+}
+
+/** A stored answer as one line of text, e.g. for the profile review card */
+export function formatAnswer(question: QuestionDefinition, value: unknown, language: Language = DEFAULT_LANGUAGE): string {
+  if (!hasAnswer(value)) return '';
+  if (typeof value === 'boolean') return translate(language, value ? 'common.yes' : 'common.no');
+  if (question.type === 'list' && Array.isArray(value)) {
+    return value.map(formatListEntry).join('; ');
+  }
+  if (question.type === 'choice' && typeof value === 'string') {
+    const index = question.options?.indexOf(value) ?? -1;
+    if (index >= 0) return getQuestionText(question, language).options![index];
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+const RESIDENCY_LABELS: Record<string, string> = {
+  resident: 'resident Indian',
+  nri: 'NRI',
+  foreign_national: 'foreign national'
+};
+
+const DIN_LABELS: Record<string, string> = {
+  has_din: 'has a DIN',
+  needs_din: 'needs a DIN'
+};
+
+// Mirrors describePartner in supabase/functions/_shared/guru.ts
+function formatListEntry(entry: any): string {
+  if (!entry?.name && !entry?.role) {
+    return typeof entry?.info === 'string' ? entry.info : JSON.stringify(entry);
+  }
+  const details = [entry.role, RESIDENCY_LABELS[entry.residency], DIN_LABELS[entry.dinStatus]].filter(Boolean);
+  return `${entry.name || 'Unnamed partner'}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+/** The chat message asking a question: position, prompt, numbered options and help text */
+export function formatQuestion(
+  definition: QuestionnaireDefinition,
+  question: QuestionDefinition,
+  profile: any,
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  const visible = getVisibleQuestions(definition, profile);
+  const position = visible.findIndex(candidate => candidate.id === question.id) + 1;
+  const text = getQuestionText(question, language);
+  const parts = [`${translate(language, 'questionnaire.position', { position, total: visible.length })}\n${text.prompt}`];
+
+  if (question.type === 'choice' && text.options) {
+    parts.push(text.options.map((option, index) => `${index + 1}. ${option}`).join('\n'));
+  } else if (question.type === 'yes_no') {
+    parts.push(translate(language, 'questionnaire.answerYesNo'));
+  }
+  if (text.helpText) {
+    parts.push(translate(language, 'questionnaire.tip', { text: text.helpText }));
+  }
+  if (question.required === false) {
+    parts.push(translate(language, 'questionnaire.skipHint'));
+  }
+  return parts.join('\n\n');
+}
+
+// Devanagari letters with a nukta can be typed precomposed or as two code points
+const normalizeInput = (input: string) => input.normalize('NFC').trim();
+
+/** Whether the founder asked for the question's help text instead of answering */
+export function isHelpRequest(input: string): boolean {
+  return HELP.test(normalizeInput(input));
+}
+
+/**
+ * Turns the founder's reply into the value stored for the question, or an
+ * error message to show before asking again.
+ */
+export function parseAnswer(question: QuestionDefinition, input: string, language: Language = DEFAULT_LANGUAGE): ParsedAnswer {
+  const text = normalizeInput(input);
+
+  if (!text) {
+    return { error: translate(language, 'questionnaire.errorEmpty') };
+  }
+  if (question.required === false && SKIP.test(text)) {
+    return { value: null };
+  }
+
+  const rules = question.validation ?? {};
+  const message = (language !== DEFAULT_LANGUAGE && question.translations?.[language]?.message) || rules.message;
+  const maxLength = rules.maxLength ?? DEFAULT_MAX_LENGTH[question.type];
+  if (text.length > maxLength) {
+    return { error: message ?? translate(language, 'questionnaire.errorTooLong', { max: maxLength }) };
+  }
+  if (rules.minLength && text.length < rules.minLength) {
+    return { error: message ?? translate(language, 'questionnaire.errorTooShort', { min: rules.minLength }) };
+  }
+  if (rules.pattern) {
+    try {
+      if (!new RegExp(rules.pattern, 'i').test(text)) {
+        return { error: message ?? translate(language, 'questionnaire.errorInvalid') };
+      }
+    } catch {
+      console.warn('Invalid questionnaire validation pattern:', rules.pattern);
+    }
+  }
+
+  switch (question.type) {
+    case 'choice':
+      return parseChoice(question, text, language);
+    case 'yes_no': {
+      const answer = parseYesNo(text);
+      return answer === null ? { error: translate(language, 'questionnaire.answerYesNo') } : { value: answer };
+    }
+    case 'amount':
+      if (UNKNOWN_AMOUNT.test(text) || /\d/.test(text)) return { value: text };
+      return { error: message ?? translate(language, 'questionnaire.errorAmount') };
+    case 'list':
+      if (SOLE_FOUNDER.test(text)) return { value: [{ info: SOLE_FOUNDER_INFO }] };
+      return {
+        value: text.split(/[;\n]/).map(item => item.trim()).filter(Boolean).map(info => ({ info }))
+      };
+    default:
+      return { value: text };
+  }
+}
+
+/** true for yes, false for no, null for anything else */
+export function parseYesNo(input: string): boolean | null {
+  const text = normalizeInput(input);
+  if (YES.test(text)) return true;
+  if (NO.test(text)) return false;
+  return null;
+}
+
+/**
+ * Whether a parsed answer still needs normalizing. A picked option or a sole
+ * founder is already structured, so the founder is not asked to confirm it.
+ */
+export function needsNormalization(question: QuestionDefinition, value: unknown): boolean {
+  if (!question.normalize || value === null || value === undefined) return false;
+  if (question.type === 'choice' && question.options?.includes(value as string)) return false;
+  if (question.type === 'list' && Array.isArray(value) && value.length === 1 && value[0].info === SOLE_FOUNDER_INFO) return false;
+  return true;
+}
+
+// Matches the English option or its label in the language, and returns the English option
+function parseChoice(question: QuestionDefinition, text: string, language: Language): ParsedAnswer {
+  const options = question.options ?? [];
+  const number = Number(text);
+  if (Number.isInteger(number) && number >= 1 && number <= options.length) {
+    return { value: options[number - 1] };
+  }
+
+  const lower = text.toLowerCase();
+  const findIn = (labels: string[]) => {
+    const index = labels.findIndex(label => label.toLowerCase() === lower);
+    return index >= 0 ? index : labels.findIndex(label => label.toLowerCase().split('/').some(part => part.trim() === lower));
+  };
+  const labels = getQuestionText(question, language).options ?? options;
+  let index = findIn(labels);
+  if (index < 0 && labels !== options) index = findIn(options);
+  if (index >= 0) return { value: options[index] };
+
+  if (question.allowOther) return { value: text };
+  return { error: translate(language, 'questionnaire.errorChoice', { count: options.length }) };
+}
+
+/** A copy of the profile with the answer stored where the question says */
+export function applyAnswer(profile: any, question: QuestionDefinition, value: unknown): any {
+  if (question.storage === 'answers') {
+    const answers: QuestionnaireAnswers = { ...(profile.questionnaire_answers || {}) };
+    if (value === null || value === undefined) {
+      delete answers[question.field];
+    } else {
+      answers[question.field] = { question: question.prompt, answer: value as string | boolean };
+    }
+    return { ...profile, questionnaire_answers: answers };
+  }
+  return { ...profile, [question.field]: value };
+}
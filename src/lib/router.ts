@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * The pages of the app and the URLs they live at:
+ *
+ *   /                          home
+ *   /login, /signup            guest pages
+ *   /chat                      the chat, with a new or resumed session
+ *   /chat/:sessionId           a saved session
+ *   /chat/:sessionId/guides    the guide dashboard of a session
+ *   /documents/:documentId     one guide
+ *   /history, /mentors
+ *   /share/:token              a share link, open to anyone who has it
+ */
+export type Route =
+  | { name: 'home' }
+  | { name: 'login'; next?: string }
+  | { name: 'signup' }
+  | { name: 'chat'; sessionId?: string; guides?: boolean }
+  | { name: 'document'; documentId: string }
+  | { name: 'history' }
+  | { name: 'mentors' }
+  | { name: 'share'; token: string };
+
+/** Pages that need a signed-in user, and pages only shown to signed-out users */
+const PROTECTED_ROUTES: Route['name'][] = ['chat', 'document', 'history', 'mentors'];
+const GUEST_ROUTES: Route['name'][] = ['login', 'signup'];
+
+// Fired after pushState/replaceState, which do not fire popstate themselves
+const ROUTE_CHANGE_EVENT = 'routechange';
+
+export function parseRoute(pathname: string, search = ''): Route {
+  const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  switch (segments[0]) {
+    case 'login': {
+      const next = new URLSearchParams(search).get('next');
+      // Only paths inside the app, never another site
+      return next && next.startsWith('/') && !next.startsWith('//') ? { name: 'login', next } : { name: 'login' };
+    }
+    case 'signup':
+      return { name: 'signup' };
+    case 'chat':
+      if (!segments[1]) return { name: 'chat' };
+      return segments[2] === 'guides'
+        ? { name: 'chat', sessionId: segments[1], guides: true }
+        : { name: 'chat', sessionId: segments[1] };
+    case 'documents':
+      return segments[1] ? { name: 'document', documentId: segments[1] } : { name: 'history' };
+    case 'history':
+      return { name: 'history' };
+    case 'mentors':
+      return { name: 'mentors' };
+    case 'share':
+      return segments[1] ? { name: 'share', token: segments[1] } : { name: 'home' };
+    default:
+      return { name: 'home' };
+  }
+}
+
+export function routeToPath(route: Route): string {
+  switch (route.name) {
+    case 'home':
+      return '/';
+    case 'login':
+      return route.next ? `/login?next=${encodeURIComponent(route.next)}` : '/login';
+    case 'signup':
+      return '/signup';
+    case 'chat':
+      if (!route.sessionId) return '/chat';
+      return `/chat/${encodeURIComponent(route.sessionId)}${route.guides ? '/guides' : ''}`;
+    case 'document':
+      return `/documents/${encodeURIComponent(route.documentId)}`;
+    case 'history':
+      return '/history';
+    case 'mentors':
+      return '/mentors';
+    case 'share':
+      return `/share/${encodeURIComponent(route.token)}`;
+  }
+}
+
+export function getCurrentPath(): string {
+  return `${window.location.pathname}${window.location.search}`;
+}
+
+/** Changes the URL without reloading; replace keeps the current entry out of the back button */
+export function navigate(path: string, options: { replace?: boolean } = {}) {
+  if (path === getCurrentPath()) return;
+
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+}
+
+/**
+ * Where to send the user instead of the route, or null when they may see it:
+ * signed-out users go to login and come back afterwards, signed-in users skip
+ * the login and signup pages.
+ */
+export function getRedirect(route: Route, isAuthenticated: boolean): string | null {
+  if (!isAuthenticated && PROTECTED_ROUTES.includes(route.name)) {
+    return routeToPath({ name: 'login', next: getCurrentPath() });
+  }
+  if (isAuthenticated && GUEST_ROUTES.includes(route.name)) {
+    return route.name === 'login' && route.next ? route.next : routeToPath({ name: 'chat' });
+  }
+  return null;
+}
+
+/** The route of the current URL, updated on navigate() and the back and forward buttons */
+export function useRoute(): Route {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname, window.location.search));
+
+  useEffect(() => {
+    const handleChange = () => setRoute(parseRoute(window.location.pathname, window.location.search));
+
+    window.addEventListener('popstate', handleChange);
+    window.addEventListener(ROUTE_CHANGE_EVENT, handleChange);
+    return () => {
+      window.removeEventListener('popstate', handleChange);
+      window.removeEventListener(ROUTE_CHANGE_EVENT, handleChange);
+    };
+  }, []);
+
+  return route;
+}
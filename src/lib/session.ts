@@ -10,10 +10,15 @@ export interface UserSession {
   rating?: number;
   rating_feedback?: string;
   mentor_assigned?: boolean;
+  business_id?: string | null;
   created_at: string;
 }
 
-export async function createSession(userId: string, serviceType: string): Promise<string | null> {
+export async function createSession(
+  userId: string,
+  serviceType: string,
+  businessId?: string
+): Promise<string | null> {
   try {
     console.log('Creating session for user:', userId, 'service:', serviceType);
 
@@ -22,7 +27,8 @@ export async function createSession(userId: string, serviceType: string): Promis
       .insert([{
         user_id: userId,
         service_type: serviceType,
-        session_status: 'active'
+        session_status: 'active',
+        ...(businessId ? { business_id: businessId } : {})
       }])
       .select()
       .single();
@@ -111,6 +117,70 @@ export async function getUserSessions(userId: string): Promise<UserSession[]> {
   }
 }
 
+export async function getSession(sessionId: string): Promise<UserSession | null> {
+  try {
+    const { data, error } = await supabase
+      .from('user_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching session:', error);
+      return null;
+    }
+
+    return data;
+  } catch (err) {
+    console.error('Unexpected error fetching session:', err);
+    return null;
+  }
+}
+
+export interface ResumableSession {
+  id: string;
+  service_type: string;
+  business_id: string | null;
+  /** When the user last wrote in this session */
+  last_message_at: string;
+}
+
+/**
+ * The user's active session with the most recent message from the user, or
+ * null. Sessions where the user never answered the welcome message are not
+ * worth resuming.
+ */
+export async function getResumableSession(userId: string): Promise<ResumableSession | null> {
+  try {
+    const { data, error } = await supabase
+      .from('chat_messages')
+      .select('created_at, user_sessions!inner(id, service_type, session_status, business_id)')
+      .eq('user_id', userId)
+      .eq('message_type', 'user')
+      .eq('user_sessions.session_status', 'active')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error finding a session to resume:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    const session: any = Array.isArray(data.user_sessions) ? data.user_sessions[0] : data.user_sessions;
+    return {
+      id: session.id,
+      service_type: session.service_type,
+      business_id: session.business_id || null,
+      last_message_at: data.created_at
+    };
+  } catch (err) {
+    console.error('Unexpected error finding a session to resume:', err);
+    return null;
+  }
+}
+
 export async function getSessionMessages(sessionId: string) {
   try {
     const { data, error } = await supabase
@@ -135,7 +205,8 @@ export async function saveChatMessage(
   sessionId: string,
   userId: string,
   messageType: 'user' | 'ai',
-  content: string
+  content: string,
+  metadata?: Record<string, unknown>
 ): Promise<boolean> {
   try {
     console.log('Saving chat message:', { sessionId, userId, messageType });
@@ -145,7 +216,8 @@ export async function saveChatMessage(
         session_id: sessionId,
         user_id: userId,
         message_type: messageType,
-        content: content
+        content: content,
+        ...(metadata ? { message_metadata: metadata } : {})
       }]);
 
     if (error) {
@@ -168,6 +240,7 @@ export function getServiceDisplayName(serviceType: string): string {
     'registration_guide_guru': 'Registration Guide Guru',
     'compliance': 'Compliance',
     'branding': 'Branding',
+    'hr': 'HR Setup',
     'hr_setup': 'HR Setup',
     'financial_planning': 'Financial Planning',
     'confirmed_idea_flow': 'Confirmed Idea Flow'
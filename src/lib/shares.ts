@@ -0,0 +1,236 @@
+import { supabase } from './supabase';
+import { routeToPath } from './router';
+import type { GeneratedDocument, GuideStructuredData } from './documentService';
+import { getLanguage, translate, type MessageKey } from './i18n';
+
+export interface DocumentShare {
+  id: string;
+  document_id: string | null;
+  business_id: string | null;
+  token: string;
+  /** Who the link is for, e.g. "Accountant" */
+  label: string | null;
+  has_passcode: boolean;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+  /** Successful opens of the link */
+  view_count: number;
+}
+
+export interface DocumentShareView {
+  id: string;
+  succeeded: boolean;
+  user_agent: string | null;
+  viewed_at: string;
+}
+
+export type ShareTarget = { documentId: string } | { businessId: string };
+
+export interface SharedDocument {
+  id: string;
+  document_type: GeneratedDocument['document_type'];
+  document_title: string;
+  key_points: string[];
+  full_content: string;
+  structured_data: GuideStructuredData | null;
+  /** Signed storage URL, valid for a few minutes */
+  pdf_url: string | null;
+  updated_at: string;
+}
+
+export interface SharedBundle {
+  title: string;
+  kind: 'document' | 'business';
+  expiresAt: string;
+  documents: SharedDocument[];
+}
+
+export const getShareUrl = (token: string) =>
+  `${window.location.origin}${routeToPath({ name: 'share', token })}`;
+
+export const isShareActive = (share: DocumentShare) =>
+  !share.revoked_at && new Date(share.expires_at).getTime() > Date.now();
+
+/** document-share error codes with a message in the founder's language */
+const SHARE_ERROR_MESSAGES: Record<string, MessageKey> = {
+  UNAUTHORIZED: 'share.signIn',
+  INVALID_EXPIRY: 'share.invalidExpiry',
+  INVALID_PASSCODE: 'share.invalidPasscode',
+  NOT_FOUND: 'share.notFound',
+  LINK_UNAVAILABLE: 'share.unavailable',
+  PASSCODE_REQUIRED: 'share.passcodeRequired',
+  PASSCODE_INVALID: 'share.passcodeInvalid',
+  TOO_MANY_ATTEMPTS: 'share.tooManyAttempts'
+};
+
+const shareErrorMessage = (code: unknown, fallback: MessageKey) =>
+  translate(getLanguage(), (typeof code === 'string' && SHARE_ERROR_MESSAGES[code]) || fallback);
+
+async function callDocumentShare(body: Record<string, unknown>, accessToken: string) {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/document-share`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body)
+  });
+  return { response, body: await response.json() };
+}
+
+/**
+ * Creates a share link for a guide or for the latest guides of a business.
+ * The edge function generates the token and hashes the passcode.
+ */
+export async function createShareLink(
+  target: ShareTarget,
+  options: { expiresInDays: number; passcode?: string; label?: string }
+): Promise<{ success: boolean; share?: DocumentShare; error?: string }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      console.error('No active session found');
+      return { success: false, error: translate(getLanguage(), 'share.signIn') };
+    }
+
+    const { response, body } = await callDocumentShare({ action: 'create', ...target, ...options }, session.access_token);
+    if (!response.ok) {
+      console.error('Error creating share link:', body);
+      return { success: false, error: shareErrorMessage(body.error, 'share.createError') };
+    }
+
+    return { success: true, share: { ...body.share, view_count: 0 } };
+  } catch (err) {
+    console.error('Unexpected error creating share link:', err);
+    return { success: false, error: translate(getLanguage(), 'share.createError') };
+  }
+}
+
+/** Share links of a guide or business, newest first, with their view counts */
+export async function getShareLinks(target: ShareTarget): Promise<DocumentShare[]> {
+  try {
+    let query = supabase
+      .from('document_shares')
+      .select('id, document_id, business_id, token, label, has_passcode, expires_at, revoked_at, created_at, document_share_views(succeeded)')
+      .order('created_at', { ascending: false });
+
+    query = 'documentId' in target
+      ? query.eq('document_id', target.documentId)
+      : query.eq('business_id', target.businessId);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching share links:', error);
+      return [];
+    }
+
+    return (data || []).map(({ document_share_views, ...share }: any) => ({
+      ...share,
+      view_count: (document_share_views || []).filter((view: any) => view.succeeded).length
+    }));
+  } catch (err) {
+    console.error('Unexpected error fetching share links:', err);
+    return [];
+  }
+}
+
+export async function revokeShareLink(shareId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('document_shares')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', shareId);
+
+    if (error) {
+      console.error('Error revoking share link:', error);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error('Unexpected error revoking share link:', err);
+    return false;
+  }
+}
+
+export async function getShareViews(shareId: string): Promise<DocumentShareView[]> {
+  try {
+    const { data, error } = await supabase
+      .from('document_share_views')
+      .select('id, succeeded, user_agent, viewed_at')
+      .eq('share_id', shareId)
+      .order('viewed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching share views:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Unexpected error fetching share views:', err);
+    return [];
+  }
+}
+
+/**
+ * Opens a share link for a viewer who may not be signed in. passcodeRequired
+ * is set when the link needs a passcode that was not given or was wrong.
+ */
+export async function openShareLink(
+  token: string,
+  passcode?: string
+): Promise<{ success: boolean; bundle?: SharedBundle; passcodeRequired?: boolean; error?: string }> {
+  try {
+    const { response, body } = await callDocumentShare(
+      { action: 'open', token, passcode },
+      import.meta.env.VITE_SUPABASE_ANON_KEY
+    );
+
+    if (!response.ok) {
+      const passcodeRequired = body.error === 'PASSCODE_REQUIRED' || body.error === 'PASSCODE_INVALID';
+      return { success: false, passcodeRequired, error: shareErrorMessage(body.error, 'share.openError') };
+    }
+
+    return {
+      success: true,
+      bundle: {
+        title: body.share.title,
+        kind: body.share.kind,
+        expiresAt: body.share.expires_at,
+        documents: body.documents || []
+      }
+    };
+  } catch (err) {
+    console.error('Unexpected error opening share link:', err);
+    return { success: false, error: translate(getLanguage(), 'share.openError') };
+  }
+}
+
+/**
+ * A fresh download URL for the PDF of one guide of a share link, for when the
+ * URLs from openShareLink have expired. Unlike opening, it is not logged as a view.
+ */
+export async function getSharedPdfUrl(
+  token: string,
+  documentId: string,
+  passcode?: string
+): Promise<{ success: boolean; url?: string; error?: string }> {
+  try {
+    const { response, body } = await callDocumentShare(
+      { action: 'download', token, documentId, passcode },
+      import.meta.env.VITE_SUPABASE_ANON_KEY
+    );
+
+    if (!response.ok || !body.url) {
+      console.error('Error getting shared PDF URL:', body);
+      return { success: false, error: shareErrorMessage(body.error, 'download.error') };
+    }
+
+    return { success: true, url: body.url };
+  } catch (err) {
+    console.error('Unexpected error getting shared PDF URL:', err);
+    return { success: false, error: translate(getLanguage(), 'download.error') };
+  }
+}
@@ -0,0 +1,152 @@
+export type DiffCellKind = 'unchanged' | 'removed' | 'added' | 'changed' | 'empty';
+
+export interface DiffCell {
+  kind: DiffCellKind;
+  /** 1-based line number in its version, null for the filler opposite an added or removed line */
+  lineNumber: number | null;
+  text: string;
+}
+
+/** One row of a side-by-side diff: the older version on the left, the newer on the right */
+export interface DiffRow {
+  left: DiffCell;
+  right: DiffCell;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+type LineOp =
+  | { type: 'equal'; oldIndex: number; newIndex: number }
+  | { type: 'remove'; oldIndex: number }
+  | { type: 'add'; newIndex: number };
+
+const EMPTY_CELL: DiffCell = { kind: 'empty', lineNumber: null, text: '' };
+
+/**
+ * Line-based side-by-side diff using the longest common subsequence. Runs of
+ * removed lines directly followed by added lines are paired up as changed rows
+ * so an edited paragraph sits next to its previous wording.
+ */
+export function diffLines(oldText: string, newText: string): DiffRow[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  const ops = computeLineOps(oldLines, newLines);
+
+  const rows: DiffRow[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flushChanges = () => {
+    const pairs = Math.max(removed.length, added.length);
+    for (let i = 0; i < pairs; i++) {
+      const oldIndex = removed[i];
+      const newIndex = added[i];
+      const isPair = oldIndex !== undefined && newIndex !== undefined;
+      rows.push({
+        left: oldIndex === undefined
+          ? EMPTY_CELL
+          : { kind: isPair ? 'changed' : 'removed', lineNumber: oldIndex + 1, text: oldLines[oldIndex] },
+        right: newIndex === undefined
+          ? EMPTY_CELL
+          : { kind: isPair ? 'changed' : 'added', lineNumber: newIndex + 1, text: newLines[newIndex] }
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'remove') {
+      // A removal after additions starts a new block of changes
+      if (added.length > 0) flushChanges();
+      removed.push(op.oldIndex);
+    } else if (op.type === 'add') {
+      added.push(op.newIndex);
+    } else {
+      flushChanges();
+      rows.push({
+        left: { kind: 'unchanged', lineNumber: op.oldIndex + 1, text: oldLines[op.oldIndex] },
+        right: { kind: 'unchanged', lineNumber: op.newIndex + 1, text: newLines[op.newIndex] }
+      });
+    }
+  }
+  flushChanges();
+
+  return rows;
+}
+
+export function summarizeDiff(rows: DiffRow[]): DiffSummary {
+  return rows.reduce<DiffSummary>(
+    (summary, row) => {
+      if (row.left.kind === 'changed') summary.changed++;
+      else if (row.left.kind === 'removed') summary.removed++;
+      else if (row.right.kind === 'added') summary.added++;
+      return summary;
+    },
+    { added: 0, removed: 0, changed: 0 }
+  );
+}
+
+function computeLineOps(oldLines: string[], newLines: string[]): LineOp[] {
+  // Lines shared at the start and end are matched directly to keep the table small
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const rows = oldMiddle.length;
+  const cols = newMiddle.length;
+
+  // lengths[i][j] is the LCS length of oldMiddle[i..] and newMiddle[j..]
+  const lengths: Uint16Array[] = Array.from({ length: rows + 1 }, () => new Uint16Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = oldMiddle[i] === newMiddle[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: LineOp[] = [];
+  for (let k = 0; k < prefix; k++) {
+    ops.push({ type: 'equal', oldIndex: k, newIndex: k });
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldMiddle[i] === newMiddle[j]) {
+      ops.push({ type: 'equal', oldIndex: prefix + i, newIndex: prefix + j });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: 'remove', oldIndex: prefix + i });
+      i++;
+    } else {
+      ops.push({ type: 'add', newIndex: prefix + j });
+      j++;
+    }
+  }
+  for (; i < rows; i++) ops.push({ type: 'remove', oldIndex: prefix + i });
+  for (; j < cols; j++) ops.push({ type: 'add', newIndex: prefix + j });
+
+  for (let k = 0; k < suffix; k++) {
+    ops.push({ type: 'equal', oldIndex: oldLines.length - suffix + k, newIndex: newLines.length - suffix + k });
+  }
+
+  return ops;
+}
@@ -0,0 +1,147 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { splitGuideSections } from './guideSections.ts';
+import { BRAND_FONTS } from './pdfFonts.ts';
+import { isOwnedStoragePath } from './storagePaths.ts';
+
+/**
+ * business_profiles.color_palette. Filled from the branding guide, or by the
+ * founder in the brand kit; a founder's choice is never overwritten by a
+ * regenerated branding guide.
+ */
+export interface BrandPalette {
+  primary?: string;
+  secondary?: string;
+  colors?: string[];
+  source?: 'branding_guide' | 'founder';
+}
+
+/** business_profiles.typography, with font names from BRAND_FONTS */
+export interface BrandTypography {
+  headline?: string;
+  body?: string;
+  source?: 'branding_guide' | 'founder';
+}
+
+/** What a guide PDF takes from the brand; anything missing keeps the default look */
+export interface BrandTheme {
+  primaryColor: string | null;
+  secondaryColor: string | null;
+  headingFont: string | null;
+  bodyFont: string | null;
+  /** PNG or JPEG, the formats PDFKit can embed */
+  logo: Uint8Array | null;
+}
+
+const HEX_PATTERN = /#[0-9a-f]{6}\b/gi;
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+
+/**
+ * Reads the palette and typefaces out of a branding guide, from its "Color
+ * Palette" and "Typography" sections. Returns only the profile columns that
+ * changed and are not the founder's own choice.
+ */
+export function extractBrandKit(
+  markdown: string,
+  profile: any
+): { color_palette?: BrandPalette; typography?: BrandTypography } {
+  const sections = splitGuideSections(markdown);
+  const colorSection = sections.find(section => /colou?r/i.test(section.title))?.content ?? '';
+  const typeSection = sections.find(section => /typograph|font/i.test(section.title))?.content ?? '';
+  const fields: { color_palette?: BrandPalette; typography?: BrandTypography } = {};
+
+  const colors = [...new Set((colorSection.match(HEX_PATTERN) ?? []).map(hex => hex.toUpperCase()))];
+  if (colors.length > 0 && profile.color_palette?.source !== 'founder') {
+    fields.color_palette = {
+      primary: colors[0],
+      secondary: colors[1],
+      colors,
+      source: 'branding_guide'
+    };
+  }
+
+  // Longest names first, so "Roboto Slab" is not read as "Roboto"
+  const fontNames = Object.keys(BRAND_FONTS).sort((a, b) => b.length - a.length);
+  const named = typeSection.split('\n')
+    .map(line => ({ line, font: fontNames.find(font => line.toLowerCase().includes(font.toLowerCase())) }))
+    .filter(entry => entry.font);
+  const headline = (named.find(entry => /head/i.test(entry.line)) ?? named[0])?.font;
+  const body = (named.find(entry => /body/i.test(entry.line)) ?? named.find(entry => entry.font !== headline))?.font
+    ?? headline;
+  if (headline && profile.typography?.source !== 'founder') {
+    fields.typography = { headline, body, source: 'branding_guide' };
+  }
+
+  return fields;
+}
+
+/**
+ * The brand of the session's business, or null when the founder has not
+ * turned on brand theming for it. A logo that cannot be read is dropped
+ * rather than failing the PDF.
+ */
+export async function loadBrandTheme(sessionId: string, supabaseClient: SupabaseClient): Promise<BrandTheme | null> {
+  // Read fresh: the profile a guru is given may predate the brand kit
+  const { data: profile } = await supabaseClient
+    .from('business_profiles')
+    .select('user_id, business_id, color_palette, typography, logo_design_url, businesses(use_brand_theme)')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+  const business = profile?.businesses as { use_brand_theme?: boolean } | null | undefined;
+  if (!profile?.business_id || !business?.use_brand_theme) return null;
+
+  const palette: BrandPalette = profile.color_palette || {};
+  const typography: BrandTypography = profile.typography || {};
+
+  return {
+    primaryColor: validHex(palette.primary),
+    secondaryColor: validHex(palette.secondary),
+    headingFont: typography.headline && BRAND_FONTS[typography.headline] ? typography.headline : null,
+    bodyFont: typography.body && BRAND_FONTS[typography.body] ? typography.body : null,
+    logo: profile.logo_design_url ? await loadLogo(profile.logo_design_url, profile.user_id, supabaseClient) : null
+  };
+}
+
+/** Whether text in this color stays legible on a white page */
+export function isReadableOnWhite(hex: string): boolean {
+  const [r, g, b] = [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16) / 255)
+    .map(channel => channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4);
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  // WCAG contrast of at least 3:1, the minimum for large text such as headings
+  return 1.05 / (luminance + 0.05) >= 3;
+}
+
+function validHex(value: string | undefined): string | null {
+  return value && /^#[0-9a-f]{6}$/i.test(value) ? value.toUpperCase() : null;
+}
+
+/**
+ * logo_design_url is either a path in the business-documents bucket, where
+ * the brand kit uploads logos under the owner's folder, or a link to a logo
+ * hosted elsewhere.
+ */
+async function loadLogo(location: string, ownerId: string, supabaseClient: SupabaseClient): Promise<Uint8Array | null> {
+  try {
+    let bytes: Uint8Array;
+    if (/^https?:\/\//i.test(location)) {
+      const response = await fetch(location, { signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS) });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      bytes = new Uint8Array(await response.arrayBuffer());
+    } else {
+      if (!isOwnedStoragePath(ownerId, location)) throw new Error('Logo is outside the owner\'s folder');
+      const { data, error } = await supabaseClient.storage.from('business-documents').download(location);
+      if (error || !data) throw error ?? new Error('No file returned');
+      bytes = new Uint8Array(await data.arrayBuffer());
+    }
+
+    const isPng = bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+    const isJpeg = bytes[0] === 0xff && bytes[1] === 0xd8;
+    if (!isPng && !isJpeg) {
+      console.warn(`Logo ${location} is not a PNG or JPEG, leaving it off the cover`);
+      return null;
+    }
+    return bytes;
+  } catch (error) {
+    console.error(`Could not load logo ${location}:`, error);
+    return null;
+  }
+}
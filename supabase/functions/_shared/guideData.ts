@@ -0,0 +1,283 @@
+import { parseJsonResponse, type ChatMessage, type LLMProvider } from './llm.ts';
+
+/**
+ * Machine-readable facts pulled out of a generated guide. Stored in
+ * generated_documents.structured_data and used for the dashboard key points
+ * and the timeline, cost, checklist and portal panels in the viewer.
+ */
+export interface GuideStructuredData {
+  /** Only the registration guide recommends an entity type */
+  entityRecommendation: { entityType: string; reason: string } | null;
+  /** Short, concrete facts from the guide, e.g. "Primary color #1E3A8A" */
+  highlights: string[];
+  /** Days are counted from the day the founder starts, beginning at 1 */
+  timeline: Array<{ step: string; startDay: number; endDay: number }>;
+  costs: Array<{
+    item: string;
+    minAmountInr: number;
+    maxAmountInr: number;
+    frequency: CostFrequency;
+  }>;
+  checklist: Array<{ item: string; category: string }>;
+  portals: Array<{ name: string; url: string }>;
+}
+
+export type CostFrequency = 'one-time' | 'monthly' | 'yearly';
+
+const COST_FREQUENCIES: CostFrequency[] = ['one-time', 'monthly', 'yearly'];
+
+/** JSON Schema sent to providers that support structured output */
+export const GUIDE_DATA_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['entityRecommendation', 'highlights', 'timeline', 'costs', 'checklist', 'portals'],
+  properties: {
+    entityRecommendation: {
+      type: ['object', 'null'],
+      additionalProperties: false,
+      required: ['entityType', 'reason'],
+      properties: {
+        entityType: { type: 'string' },
+        reason: { type: 'string' }
+      }
+    },
+    highlights: { type: 'array', items: { type: 'string' } },
+    timeline: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['step', 'startDay', 'endDay'],
+        properties: {
+          step: { type: 'string' },
+          startDay: { type: 'integer' },
+          endDay: { type: 'integer' }
+        }
+      }
+    },
+    costs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['item', 'minAmountInr', 'maxAmountInr', 'frequency'],
+        properties: {
+          item: { type: 'string' },
+          minAmountInr: { type: 'number' },
+          maxAmountInr: { type: 'number' },
+          frequency: { type: 'string', enum: COST_FREQUENCIES }
+        }
+      }
+    },
+    checklist: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['item', 'category'],
+        properties: {
+          item: { type: 'string' },
+          category: { type: 'string' }
+        }
+      }
+    },
+    portals: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['name', 'url'],
+        properties: {
+          name: { type: 'string' },
+          url: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+const EXTRACTION_PROMPT = `You extract structured data from a business guide written in markdown for an Indian startup.
+
+Return ONLY a JSON object with exactly these fields:
+- entityRecommendation: { entityType, reason } when the guide recommends a legal entity type, otherwise null
+- highlights: 3 to 6 short, concrete facts a founder should see first (numbers, names, deadlines). No generic statements such as "detailed guide included"
+- timeline: ordered steps as { step, startDay, endDay }, days counted from the start with day 1 as the first day
+- costs: line items as { item, minAmountInr, maxAmountInr, frequency } with plain rupee numbers (7000, not "₹7,000"); use the same value for both amounts when the guide gives a single figure; frequency is "one-time", "monthly" or "yearly". Do not include totals as line items
+- checklist: actionable items as { item, category }, grouped by a short category name
+- portals: official websites as { name, url } with full https URLs
+
+Only use facts stated in the guide. Use an empty array when the guide has nothing for a field.`;
+
+/**
+ * Asks the model for the guide's structured data and validates it. An invalid
+ * answer is sent back once with the validation errors; if the second answer is
+ * also invalid the guide is saved without structured data.
+ */
+export async function extractGuideData(
+  provider: LLMProvider,
+  fixtureKey: string,
+  guideInstructions: string,
+  content: string
+): Promise<GuideStructuredData | null> {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: `${EXTRACTION_PROMPT}\n\n${guideInstructions}` },
+    { role: 'user', content }
+  ];
+
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    let raw: string;
+    try {
+      raw = await provider.complete({
+        messages,
+        temperature: 0,
+        maxTokens: 2000,
+        fixtureKey: `${fixtureKey}.json`,
+        responseSchema: { name: 'guide_data', schema: GUIDE_DATA_SCHEMA }
+      });
+    } catch (error) {
+      console.error('Structured data extraction call failed:', error);
+      return null;
+    }
+
+    const { data, errors } = validateGuideData(parseJsonResponse(raw));
+    if (data) return data;
+
+    console.warn(`Structured data attempt ${attempt} failed validation:`, errors);
+    messages.push(
+      { role: 'assistant', content: raw },
+      { role: 'user', content: `That JSON is invalid:\n- ${errors.join('\n- ')}\n\nReturn the corrected JSON object only.` }
+    );
+  }
+
+  return null;
+}
+
+export function validateGuideData(value: unknown): { data: GuideStructuredData | null; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { data: null, errors: ['Response is not a JSON object'] };
+  }
+
+  const entity = value.entityRecommendation;
+  if (entity !== null && entity !== undefined) {
+    if (!isObject(entity) || !isText(entity.entityType) || typeof entity.reason !== 'string') {
+      errors.push('entityRecommendation must be null or { entityType, reason } strings');
+    }
+  }
+
+  const checkArray = (field: string, isValidItem: (item: any) => string | null) => {
+    const items = value[field];
+    if (!Array.isArray(items)) {
+      errors.push(`${field} must be an array`);
+      return;
+    }
+    items.forEach((item, index) => {
+      const problem = isValidItem(item);
+      if (problem) errors.push(`${field}[${index}] ${problem}`);
+    });
+  };
+
+  checkArray('highlights', item => isText(item) ? null : 'must be a non-empty string');
+
+  checkArray('timeline', item => {
+    if (!isObject(item) || !isText(item.step)) return 'must have a step';
+    if (!Number.isInteger(item.startDay) || !Number.isInteger(item.endDay)) return 'startDay and endDay must be integers';
+    if (item.startDay < 1 || item.endDay < item.startDay) return 'must satisfy 1 <= startDay <= endDay';
+    return null;
+  });
+
+  checkArray('costs', item => {
+    if (!isObject(item) || !isText(item.item)) return 'must have an item';
+    if (typeof item.minAmountInr !== 'number' || typeof item.maxAmountInr !== 'number') return 'amounts must be numbers';
+    if (item.minAmountInr < 0 || item.maxAmountInr < item.minAmountInr) return 'must satisfy 0 <= minAmountInr <= maxAmountInr';
+    if (!COST_FREQUENCIES.includes(item.frequency)) return `frequency must be one of ${COST_FREQUENCIES.join(', ')}`;
+    return null;
+  });
+
+  checkArray('checklist', item =>
+    isObject(item) && isText(item.item) && isText(item.category) ? null : 'must have item and category strings'
+  );
+
+  checkArray('portals', item => {
+    if (!isObject(item) || !isText(item.name)) return 'must have a name';
+    if (typeof item.url !== 'string' || !/^https?:\/\/\S+$/.test(item.url)) return 'url must be a full http(s) URL';
+    return null;
+  });
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      entityRecommendation: isObject(entity)
+        ? { entityType: String(entity.entityType).trim(), reason: String(entity.reason).trim() }
+        : null,
+      highlights: (value.highlights as string[]).map(point => point.trim()),
+      timeline: value.timeline as GuideStructuredData['timeline'],
+      costs: value.costs as GuideStructuredData['costs'],
+      checklist: value.checklist as GuideStructuredData['checklist'],
+      portals: value.portals as GuideStructuredData['portals']
+    },
+    errors
+  };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+export function formatInr(amount: number): string {
+  return `₹${Math.round(amount).toLocaleString('en-IN')}`;
+}
+
+export function formatCostRange(min: number, max: number): string {
+  return min === max ? formatInr(min) : `${formatInr(min)}-${formatInr(max)}`;
+}
+
+/** Sum of the cost line items with the given frequency, or null if there are none */
+export function totalCost(data: GuideStructuredData, frequency: CostFrequency): { min: number; max: number } | null {
+  const items = data.costs.filter(cost => cost.frequency === frequency);
+  if (items.length === 0) return null;
+  return {
+    min: items.reduce((sum, cost) => sum + cost.minAmountInr, 0),
+    max: items.reduce((sum, cost) => sum + cost.maxAmountInr, 0)
+  };
+}
+
+/** Number of days from the first to the last timeline step, or null without a timeline */
+export function timelineSpanDays(data: GuideStructuredData): number | null {
+  if (data.timeline.length === 0) return null;
+  return Math.max(...data.timeline.map(step => step.endDay));
+}
+
+/**
+ * Fills the guide's computed key points up to `limit` with the model's
+ * highlights, skipping highlights that repeat a point already present.
+ */
+export function withHighlights(keyPoints: string[], data: GuideStructuredData, limit = 6): string[] {
+  const result = [...keyPoints];
+  for (const highlight of data.highlights) {
+    if (result.length >= limit) break;
+    if (!result.some(point => point.toLowerCase() === highlight.toLowerCase())) {
+      result.push(highlight);
+    }
+  }
+  return result.slice(0, limit);
+}
+
+/**
+ * Key points for a guide saved without structured data: the guide's own
+ * section headings, so the dashboard never shows invented placeholders.
+ */
+export function keyPointsFromHeadings(content: string): string[] {
+  return [...content.matchAll(/^##\s+(?:\d+\.\s*)?(.+)$/gm)]
+    .map(match => match[1].replace(/\*/g, '').trim())
+    .filter(Boolean)
+    .slice(0, 6);
+}
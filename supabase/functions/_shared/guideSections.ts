@@ -0,0 +1,80 @@
+/**
+ * A top-level (`##`) section of a guide. `start` and `end` are character
+ * offsets into the guide, so a section can be replaced without touching the
+ * text around it.
+ */
+export interface GuideSection {
+  index: number;
+  /** Heading line as written, e.g. "## 5. Cost Breakdown" */
+  heading: string;
+  /** Heading text without the hashes and numbering, e.g. "Cost Breakdown" */
+  title: string;
+  start: number;
+  end: number;
+  content: string;
+}
+
+/**
+ * Splits a guide into its `##` sections. Text before the first section (the
+ * `#` title and any introduction) is not a section. Headings inside code
+ * fences are ignored. Mirrored in src/lib/guideSections.ts for the viewer.
+ */
+export function splitGuideSections(markdown: string): GuideSection[] {
+  const headings: Array<{ heading: string; start: number }> = [];
+  let offset = 0;
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*```/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence && /^##\s+\S/.test(line)) {
+      headings.push({ heading: line.trim(), start: offset });
+    }
+    offset += line.length + 1;
+  }
+
+  return headings.map((entry, index) => {
+    const end = index + 1 < headings.length ? headings[index + 1].start : markdown.length;
+    return {
+      index,
+      heading: entry.heading,
+      title: sectionTitle(entry.heading),
+      start: entry.start,
+      end,
+      content: markdown.slice(entry.start, end)
+    };
+  });
+}
+
+export function sectionTitle(heading: string): string {
+  return heading
+    .replace(/^#+\s*/, '')
+    .replace(/^\d+\.\s*/, '')
+    .replace(/\*/g, '')
+    .trim();
+}
+
+/**
+ * Returns the guide with one section replaced. The new section keeps the
+ * original heading line, and the blank line that separated it from the next
+ * section is preserved.
+ */
+export function replaceGuideSection(markdown: string, section: GuideSection, newContent: string): string {
+  const trailingWhitespace = section.content.match(/\s*$/)?.[0] ?? '';
+  const replacement = `${withHeading(section.heading, newContent).trimEnd()}${trailingWhitespace || '\n'}`;
+  return markdown.slice(0, section.start) + replacement + markdown.slice(section.end);
+}
+
+/**
+ * Models sometimes drop the heading, repeat the guide title or renumber the
+ * section. Whatever they wrote above the body is replaced with the original
+ * heading so the guide's outline never changes.
+ */
+function withHeading(heading: string, content: string): string {
+  const unfenced = content.trim().replace(/^```(?:markdown|md)?\s*\n/i, '').replace(/\n```$/, '');
+  const lines = unfenced.split('\n');
+  while (lines.length > 0 && (/^#{1,2}\s/.test(lines[0]) || lines[0].trim() === '')) {
+    lines.shift();
+  }
+  return `${heading}\n\n${lines.join('\n').trim()}`;
+}
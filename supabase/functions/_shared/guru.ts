@@ -0,0 +1,580 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { generateAndStorePDF, type PDFGenerationOptions } from './pdfGenerator.ts';
+import { getLLMProvider, type CompletionRequest, type LLMProvider } from './llm.ts';
+import { extractGuideData, keyPointsFromHeadings, type GuideStructuredData } from './guideData.ts';
+import { loadBrandTheme, type BrandTheme } from './brandTheme.ts';
+import { guideLanguageInstruction, loadUserLanguage, resolveLanguage } from './languages.ts';
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+export interface GuruRequestPayload {
+  message: string;
+  sessionId: string;
+  userId: string;
+  businessProfile?: any;
+  /** Language to write the guide in, e.g. "hi"; defaults to the user's saved preference */
+  language?: string;
+}
+
+/**
+ * Declarative description of a document guru. Everything that differs between
+ * the registration, branding, compliance, HR and financial planning guides
+ * lives here; the request handling, model call, PDF upload and persistence
+ * are shared.
+ */
+export interface GuruDefinition {
+  /** Edge function name, used in logs */
+  functionName: string;
+  documentType: PDFGenerationOptions['documentType'];
+  /** Title stored in generated_documents.document_title */
+  documentTitle: string;
+  /** Lowercase label used in user-facing error messages, e.g. "registration guide" */
+  guideLabel: string;
+  systemPrompt: string;
+  temperature: number;
+  maxTokens: number;
+  buildContext: (profile: any) => string;
+  /** Guide-specific notes for the structured data extraction, e.g. what the timeline holds */
+  structuredDataInstructions: string;
+  /** Dashboard highlights, computed from the validated structured data */
+  extractKeyPoints: (data: GuideStructuredData, profile: any) => string[];
+  /** business_profiles columns the guide fills in, e.g. the brand palette from the branding guide */
+  extractProfileFields?: (content: string, profile: any) => Record<string, unknown>;
+}
+
+export interface GuruResult {
+  fullContent: string;
+  keyPoints: string[];
+  structuredData: GuideStructuredData | null;
+  pdfResult: { fileName: string } | null;
+  documentId?: string;
+  versionNumber: number;
+}
+
+export function createServiceClient(): SupabaseClient {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+}
+
+export function getOwnerCount(profile: any): number {
+  if (Array.isArray(profile.partners_info)) return profile.partners_info.length;
+  if (Array.isArray(profile.directors_partners)) return profile.directors_partners.length;
+  return 1;
+}
+
+const RESIDENCY_LABELS: Record<string, string> = {
+  resident: 'resident Indian',
+  nri: 'NRI',
+  foreign_national: 'foreign national'
+};
+
+const DIN_LABELS: Record<string, string> = {
+  has_din: 'has a DIN',
+  needs_din: 'needs a DIN'
+};
+
+/**
+ * Partners for a guide prompt, one per line item. Entries saved by the answer
+ * normalizer have name, role, residency and DIN status; older ones only the
+ * founder's raw text in `info`.
+ */
+export function describePartners(profile: any): string {
+  const partners = Array.isArray(profile.partners_info) ? profile.partners_info
+    : Array.isArray(profile.directors_partners) ? profile.directors_partners
+    : [];
+  if (partners.length === 0) return 'Not provided';
+
+  return partners.map(describePartner).join('; ');
+}
+
+function describePartner(partner: any): string {
+  if (!partner?.name && !partner?.role) {
+    return typeof partner?.info === 'string' ? partner.info : JSON.stringify(partner);
+  }
+  const details = [partner.role, RESIDENCY_LABELS[partner.residency], DIN_LABELS[partner.dinStatus]].filter(Boolean);
+  return `${partner.name || 'Unnamed partner'}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+export function serveGuru(definition: GuruDefinition): void {
+  Deno.serve(createGuruHandler(definition));
+}
+
+export function createGuruHandler(definition: GuruDefinition) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 200,
+        headers: corsHeaders
+      });
+    }
+
+    try {
+      const supabaseClient = createServiceClient();
+      const payload: GuruRequestPayload = await req.json();
+
+      const result = await generateGuide(definition, payload, supabaseClient);
+
+      return new Response(
+        JSON.stringify(buildGuruResponseBody(result)),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    } catch (error) {
+      console.error(`Error in ${definition.functionName} function:`, error);
+      return guruErrorResponse(definition, error);
+    }
+  };
+}
+
+export function buildGuruResponseBody(result: GuruResult) {
+  return {
+    response: result.fullContent,
+    keyPoints: result.keyPoints,
+    fullContent: result.fullContent,
+    structuredData: result.structuredData,
+    hasPdf: !!result.pdfResult,
+    documentId: result.documentId,
+    versionNumber: result.versionNumber,
+    pdfGenerationStatus: result.pdfResult ? 'success' : 'failed',
+    warning: !result.pdfResult ? 'Document saved successfully but PDF generation failed. You can view the content online.' : null
+  };
+}
+
+export function guruErrorResponse(definition: Pick<GuruDefinition, 'guideLabel'>, error: any): Response {
+  let errorMessage = 'Internal server error';
+  let userMessage = `Failed to generate ${definition.guideLabel}. Please try again.`;
+
+  if (error.message === 'API_KEY_NOT_CONFIGURED') {
+    errorMessage = 'OpenRouter API key not configured';
+    userMessage = 'Configuration error: API key missing. Please contact support.';
+  } else if (error.message === 'LLM_BASE_URL_NOT_CONFIGURED' || error.message === 'LLM_PROVIDER_NOT_SUPPORTED') {
+    errorMessage = 'LLM provider not configured';
+    userMessage = 'Configuration error: AI provider is not set up. Please contact support.';
+  } else if (error.message?.startsWith('API_ERROR')) {
+    errorMessage = error.message;
+    userMessage = 'AI service temporarily unavailable. Please try again in a moment.';
+  }
+
+  return new Response(
+    JSON.stringify({
+      error: errorMessage,
+      userMessage: userMessage,
+      details: error.message
+    }),
+    {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+/**
+ * Runs a guru end to end: resolves the business profile, calls the model,
+ * renders and uploads the PDF, stores the result in generated_documents and
+ * records it as a new document version. Passing onToken streams the model
+ * output through it as it is produced.
+ */
+export async function generateGuide(
+  definition: GuruDefinition,
+  payload: GuruRequestPayload,
+  supabaseClient: SupabaseClient,
+  onToken?: (delta: string) => void
+): Promise<GuruResult> {
+  const { sessionId, userId, businessProfile } = payload;
+
+  const profile = businessProfile || await loadBusinessProfile(sessionId, supabaseClient);
+  const contextInfo = buildGuideContext(definition, profile);
+  const language = payload.language ? resolveLanguage(payload.language) : await loadUserLanguage(userId, supabaseClient);
+  const systemPrompt = `${definition.systemPrompt}${guideLanguageInstruction(language)}`;
+
+  const provider = getLLMProvider();
+  console.log(`Generating ${definition.documentType} with ${provider.name} (${provider.model})`);
+  const completionRequest: CompletionRequest = {
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: contextInfo }
+    ],
+    temperature: definition.temperature,
+    maxTokens: definition.maxTokens,
+    fixtureKey: definition.documentType
+  };
+
+  let fullContent = '';
+  if (onToken) {
+    for await (const delta of provider.stream(completionRequest)) {
+      fullContent += delta;
+      onToken(delta);
+    }
+  } else {
+    fullContent = await provider.complete(completionRequest);
+  }
+
+  return persistGuide(
+    definition,
+    {
+      userId,
+      sessionId,
+      profile,
+      fullContent,
+      systemPrompt,
+      userPrompt: contextInfo,
+      provider,
+      language
+    },
+    supabaseClient
+  );
+}
+
+export interface PersistGuideInput {
+  userId: string;
+  sessionId: string;
+  profile: any;
+  fullContent: string;
+  /** Prompts that produced fullContent, kept with the version */
+  systemPrompt: string;
+  userPrompt: string;
+  provider: LLMProvider;
+  /** Language fullContent is written in; picks the PDF's fonts and is stored with the document */
+  language: string;
+}
+
+/**
+ * Everything that happens once the guide's markdown is final: structured data
+ * extraction, key points, PDF upload, saving to generated_documents and
+ * recording a new document version. Shared by full generation and section
+ * regeneration.
+ */
+export async function persistGuide(
+  definition: GuruDefinition,
+  input: PersistGuideInput,
+  supabaseClient: SupabaseClient
+): Promise<GuruResult> {
+  const { userId, sessionId, profile, fullContent, provider, language } = input;
+
+  const structuredData = await extractGuideData(
+    provider,
+    definition.documentType,
+    definition.structuredDataInstructions,
+    fullContent
+  );
+  if (!structuredData) {
+    console.warn(`No valid structured data for ${definition.documentType}, using section headings as key points`);
+  }
+  const keyPoints = structuredData
+    ? definition.extractKeyPoints(structuredData, profile)
+    : keyPointsFromHeadings(fullContent);
+
+  const versionNumber = await getNextVersionNumber(definition, sessionId, supabaseClient);
+
+  if (definition.extractProfileFields) {
+    await saveProfileFields(sessionId, definition.extractProfileFields(fullContent, profile), supabaseClient);
+  }
+
+  console.log('Content generated successfully, starting PDF generation...');
+  let pdfResult: { fileName: string } | null = null;
+
+  try {
+    let brand: BrandTheme | null = null;
+    try {
+      brand = await loadBrandTheme(sessionId, supabaseClient);
+    } catch (brandError) {
+      console.error('Error loading brand theme, using the default look:', brandError);
+    }
+
+    pdfResult = await generateAndStorePDF(
+      {
+        userId,
+        documentType: definition.documentType,
+        content: fullContent,
+        businessName: profile.business_name || 'Your Business',
+        version: { sessionId, number: versionNumber },
+        brand,
+        language
+      },
+      supabaseClient
+    );
+    if (pdfResult) {
+      console.log('PDF generated and stored successfully');
+    } else {
+      console.warn('PDF generation returned null, document will be saved without PDF');
+    }
+  } catch (pdfGenError) {
+    console.error('PDF generation threw error:', pdfGenError);
+  }
+
+  const documentId = await saveGeneratedDocument(
+    definition,
+    { userId, sessionId, fullContent, keyPoints, structuredData, pdfResult, language },
+    supabaseClient
+  );
+
+  if (documentId) {
+    await saveDocumentVersion(
+      {
+        documentId,
+        userId,
+        sessionId,
+        documentType: definition.documentType,
+        versionNumber,
+        fullContent,
+        keyPoints,
+        structuredData,
+        systemPrompt: input.systemPrompt,
+        userPrompt: input.userPrompt,
+        provider: provider.name,
+        model: provider.model,
+        profile,
+        pdfResult
+      },
+      supabaseClient
+    );
+  }
+
+  return { fullContent, keyPoints, structuredData, pdfResult, documentId, versionNumber };
+}
+
+/**
+ * The guide's user prompt: the guru's own context, then the questionnaire
+ * answers that have no profile column (e.g. FSSAI status for food businesses)
+ * and the idea tuning summary, when the founder has them.
+ */
+export function buildGuideContext(definition: Pick<GuruDefinition, 'buildContext'>, profile: any): string {
+  let contextInfo = definition.buildContext(profile).trimEnd();
+
+  const answers = Object.values(profile.questionnaire_answers || {}) as Array<{ question?: string; answer?: unknown }>;
+  const answerLines = answers
+    .filter(entry => entry?.question && entry.answer !== undefined && entry.answer !== null && entry.answer !== '')
+    .map(entry => `- ${entry.question} ${typeof entry.answer === 'boolean' ? (entry.answer ? 'Yes' : 'No') : entry.answer}`);
+  if (answerLines.length > 0) {
+    contextInfo += `\n\nAdditional Questionnaire Answers:\n${answerLines.join('\n')}`;
+  }
+
+  if (profile.idea_tuning_output) {
+    contextInfo += `\n\nIdea Tuning Summary (from an earlier conversation with the founder):\n${profile.idea_tuning_output}`;
+  }
+
+  return `${contextInfo}\n`;
+}
+
+export async function loadBusinessProfile(sessionId: string, supabaseClient: SupabaseClient): Promise<any> {
+  const { data: profileData } = await supabaseClient
+    .from('business_profiles')
+    .select('*')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+  return profileData || {};
+}
+
+/**
+ * Records a guide's generation_status without touching its content, creating
+ * the generated_documents row if the guide has not been generated before.
+ */
+export async function setDocumentStatus(
+  definition: GuruDefinition,
+  target: { userId: string; sessionId: string },
+  status: 'pending' | 'generating' | 'failed',
+  supabaseClient: SupabaseClient
+): Promise<void> {
+  const { data: existingDoc } = await supabaseClient
+    .from('generated_documents')
+    .select('id')
+    .eq('session_id', target.sessionId)
+    .eq('document_type', definition.documentType)
+    .maybeSingle();
+
+  const { error } = existingDoc
+    ? await supabaseClient
+        .from('generated_documents')
+        .update({ generation_status: status })
+        .eq('id', existingDoc.id)
+    : await supabaseClient
+        .from('generated_documents')
+        .insert({
+          user_id: target.userId,
+          session_id: target.sessionId,
+          document_type: definition.documentType,
+          document_title: definition.documentTitle,
+          generation_status: status,
+          service_type: 'confirmed_idea_flow'
+        });
+
+  if (error) {
+    console.error(`Error marking ${definition.documentType} as ${status}:`, error);
+  }
+}
+
+/**
+ * Writes columns a guide fills in to the session's profile, and to the other
+ * profiles of its business so later sessions start from them too.
+ */
+async function saveProfileFields(
+  sessionId: string,
+  fields: Record<string, unknown>,
+  supabaseClient: SupabaseClient
+): Promise<void> {
+  if (Object.keys(fields).length === 0) return;
+
+  const { data: profile } = await supabaseClient
+    .from('business_profiles')
+    .select('business_id')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  const update = supabaseClient.from('business_profiles').update(fields);
+  const { error } = profile?.business_id
+    ? await update.eq('business_id', profile.business_id)
+    : await update.eq('session_id', sessionId);
+
+  if (error) {
+    console.error('Error saving profile fields from the guide:', error);
+  }
+}
+
+interface SaveDocumentInput {
+  userId: string;
+  sessionId: string;
+  fullContent: string;
+  keyPoints: string[];
+  structuredData: GuideStructuredData | null;
+  pdfResult: { fileName: string } | null;
+  language: string;
+}
+
+async function saveGeneratedDocument(
+  definition: GuruDefinition,
+  input: SaveDocumentInput,
+  supabaseClient: SupabaseClient
+): Promise<string | undefined> {
+  const { userId, sessionId, fullContent, keyPoints, structuredData, pdfResult, language } = input;
+
+  const { data: existingDoc } = await supabaseClient
+    .from('generated_documents')
+    .select('id')
+    .eq('session_id', sessionId)
+    .eq('document_type', definition.documentType)
+    .maybeSingle();
+
+  const documentFields = {
+    document_title: definition.documentTitle,
+    key_points: JSON.stringify(keyPoints),
+    full_content: fullContent,
+    structured_data: structuredData,
+    pdf_file_name: pdfResult?.fileName || null,
+    generation_status: 'completed',
+    service_type: 'confirmed_idea_flow',
+    language
+  };
+
+  let docData, docError;
+
+  if (existingDoc) {
+    const result = await supabaseClient
+      .from('generated_documents')
+      .update(documentFields)
+      .eq('id', existingDoc.id)
+      .select()
+      .single();
+    docData = result.data;
+    docError = result.error;
+  } else {
+    const result = await supabaseClient
+      .from('generated_documents')
+      .insert({
+        user_id: userId,
+        session_id: sessionId,
+        document_type: definition.documentType,
+        ...documentFields
+      })
+      .select()
+      .single();
+    docData = result.data;
+    docError = result.error;
+  }
+
+  if (docError) {
+    console.error('Error storing document in database:', docError);
+    throw new Error(`Database error: ${docError.message}`);
+  }
+
+  return docData?.id;
+}
+
+async function getNextVersionNumber(
+  definition: GuruDefinition,
+  sessionId: string,
+  supabaseClient: SupabaseClient
+): Promise<number> {
+  const { data } = await supabaseClient
+    .from('document_versions')
+    .select('version_number')
+    .eq('session_id', sessionId)
+    .eq('document_type', definition.documentType)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data?.version_number ?? 0) + 1;
+}
+
+interface DocumentVersionInput {
+  documentId: string;
+  userId: string;
+  sessionId: string;
+  documentType: string;
+  versionNumber: number;
+  fullContent: string;
+  keyPoints: string[];
+  structuredData: GuideStructuredData | null;
+  systemPrompt: string;
+  userPrompt: string;
+  provider: string;
+  model: string;
+  profile: any;
+  pdfResult: { fileName: string } | null;
+}
+
+/**
+ * Keeps an immutable copy of this generation. A failure here is logged rather
+ * than thrown: the guide itself is already saved and the user should see it.
+ */
+async function saveDocumentVersion(input: DocumentVersionInput, supabaseClient: SupabaseClient): Promise<void> {
+  const { error } = await supabaseClient
+    .from('document_versions')
+    .insert({
+      document_id: input.documentId,
+      user_id: input.userId,
+      session_id: input.sessionId,
+      document_type: input.documentType,
+      version_number: input.versionNumber,
+      full_content: input.fullContent,
+      key_points: input.keyPoints,
+      structured_data: input.structuredData,
+      system_prompt: input.systemPrompt,
+      user_prompt: input.userPrompt,
+      provider: input.provider,
+      model: input.model,
+      profile_snapshot: input.profile,
+      pdf_file_name: input.pdfResult?.fileName || null
+    });
+
+  if (error) {
+    console.error(`Error saving ${input.documentType} version ${input.versionNumber}:`, error);
+    return;
+  }
+
+  const { error: updateError } = await supabaseClient
+    .from('generated_documents')
+    .update({ current_version: input.versionNumber })
+    .eq('id', input.documentId);
+
+  if (updateError) {
+    console.error('Error updating current document version:', updateError);
+  }
+}
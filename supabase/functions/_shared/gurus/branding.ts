@@ -0,0 +1,120 @@
+import { getOwnerCount, type GuruDefinition } from '../guru.ts';
+import { formatCostRange, totalCost, withHighlights, type GuideStructuredData } from '../guideData.ts';
+import { extractBrandKit } from '../brandTheme.ts';
+
+const BRANDING_GUIDE_PROMPT = `You are an expert brand strategist and visual identity designer. Generate a comprehensive branding guide based on the business profile and preferences provided.
+
+IMPORTANT: Analyze the business description, industry, and style preferences to create:
+- Brand concepts that align with the industry standards and target audience
+- Color palettes that match the specified color preference
+- Design styles that reflect the specified style preference
+- Industry-appropriate visual elements and messaging
+
+The guide MUST include:
+
+1. **Brand Name Suggestions**
+   - 5-7 creative brand name options
+   - Brief rationale for each name
+   - Domain availability considerations
+   - Trademark potential assessment
+
+2. **Brand Identity Overview**
+   - Brand positioning statement
+   - Target audience profile
+   - Brand personality and tone
+   - Core brand values
+
+3. **Logo Design Concept** (based on the style preference provided)
+   - Primary logo concept description
+   - Logo variations (horizontal, vertical, icon-only)
+   - Usage guidelines and minimum sizes
+   - Clear space requirements
+
+4. **Color Palette** (aligned with color preference provided)
+   - Primary colors (3-4 colors with HEX, RGB, and CMYK values)
+   - Secondary colors (2-3 supporting colors)
+   - Color psychology and rationale
+   - Color usage guidelines
+
+5. **Typography System**
+   - Primary typeface for headings (with alternatives)
+   - Secondary typeface for body text
+   - Font weights and sizes
+   - Typography hierarchy
+
+6. **Brand Applications**
+   - Business card design concept
+   - Letterhead design concept
+   - Email signature format
+   - Social media profile guidelines
+   - Website design direction
+
+7. **Visual Style Guidelines**
+   - Photography style
+   - Iconography style
+   - Graphic elements and patterns
+   - Do's and Don'ts
+
+8. **Brand Voice and Messaging**
+   - Tone of voice guidelines
+   - Key messaging pillars
+   - Tagline suggestions (3-4 options)
+   - Sample copy examples
+
+9. **Intellectual Property Protection**
+   - Trademark registration process
+   - Trademark classes to consider
+   - Copyright registration for creative assets
+   - Domain name registration recommendations
+   - IP protection timeline and costs
+
+10. **Implementation Roadmap**
+   - Phase 1: Logo and basic identity (Week 1-2)
+   - Phase 2: Marketing collateral (Week 3-4)
+   - Phase 3: Digital presence (Week 5-6)
+   - Phase 4: Brand rollout (Week 7-8)
+
+Format the response in clean markdown with proper headers, bullet points, and visual descriptions. Be specific and actionable.`;
+
+export const brandingGuru: GuruDefinition = {
+  functionName: 'branding-guide-guru',
+  documentType: 'branding',
+  documentTitle: 'Branding Guide',
+  guideLabel: 'branding guide',
+  systemPrompt: BRANDING_GUIDE_PROMPT,
+  temperature: 0.8,
+  maxTokens: 3500,
+  buildContext: (profile) => `
+Business Information:
+- Company Name: ${profile.business_name || 'Company'}
+- Description: ${profile.company_description || profile.business_description || 'Not provided'}
+- Industry: ${profile.industry || profile.business_type || 'General'}
+- Location: ${profile.location || 'India'}
+- Color Preference: ${profile.color_preference || 'Professional'}
+- Style Preference: ${profile.style_preference || 'Modern/Contemporary'}
+- Number of Owners: ${getOwnerCount(profile)}
+
+Generate a comprehensive branding guide for this business that aligns with their preferences.`,
+  structuredDataInstructions: 'For this branding guide: entityRecommendation is null; highlights name the concrete colors (with HEX codes), fonts and tagline; timeline is the implementation roadmap; costs are any design or trademark costs mentioned; checklist is the brand assets and IP registrations to complete; portals are trademark or domain registration sites linked in the guide.',
+  extractKeyPoints,
+  extractProfileFields: extractBrandKit
+};
+
+function extractKeyPoints(data: GuideStructuredData, profile: any): string[] {
+  const keyPoints: string[] = [];
+
+  if (profile.style_preference) {
+    keyPoints.push(`Brand style: ${profile.style_preference}`);
+  }
+
+  if (profile.color_preference) {
+    keyPoints.push(`Color scheme: ${profile.color_preference} tones`);
+  }
+
+  const brandingCost = totalCost(data, 'one-time');
+  if (brandingCost) {
+    keyPoints.push(`Estimated branding cost: ${formatCostRange(brandingCost.min, brandingCost.max)}`);
+  }
+
+  return withHighlights(keyPoints, data);
+}
@@ -0,0 +1,118 @@
+import { describePartners, getOwnerCount, type GuruDefinition } from '../guru.ts';
+import { formatCostRange, totalCost, withHighlights, type GuideStructuredData } from '../guideData.ts';
+
+const COMPLIANCE_GUIDE_PROMPT = `You are an expert compliance and legal consultant for businesses in India. Generate a comprehensive compliance guide based on the business profile provided.
+
+IMPORTANT: Analyze the business description, industry, and location to provide:
+- Industry-specific compliance requirements (e.g., FSSAI for food, RERA for real estate, etc.)
+- Location-specific state regulations and registrations
+- Entity-type specific compliance obligations
+- Scale-appropriate compliance recommendations based on business size
+
+The guide MUST include:
+
+1. **Tax Compliance**
+   - PAN and TAN requirements
+   - GST registration (threshold, process, timeline)
+   - TDS compliance and filing requirements
+   - Income Tax return filing schedule
+   - Professional Tax (state-specific)
+   - Advance tax payment schedule
+
+2. **ROC Compliance (for Companies/LLPs)**
+   - Annual Filing Requirements (AOC-4, MGT-7, etc.)
+   - Board Meeting requirements (frequency, quorum)
+   - Annual General Meeting (AGM) guidelines
+   - Financial statement filing
+   - Director KYC (DIN KYC)
+   - Statutory audit requirements
+
+3. **Labor Law Compliance**
+   - Provident Fund (PF) - when applicable
+   - Employee State Insurance (ESI) - when applicable
+   - Professional Tax registration
+   - Shops and Establishment Act registration
+   - Contract Labor Act (if applicable)
+   - Minimum wages compliance
+
+4. **Industry-Specific Licenses and Permits**
+   - Trade license from municipal corporation
+   - Industry-specific licenses (based on business type)
+   - Environmental clearances (if applicable)
+   - Fire safety NOC
+   - Health and safety compliance
+
+5. **Data Protection and Privacy**
+   - Digital Personal Data Protection Act compliance
+   - Data storage and security requirements
+   - Privacy policy requirements
+   - Customer consent management
+
+6. **Ongoing Compliance Calendar**
+   - Monthly compliance tasks
+   - Quarterly compliance tasks
+   - Annual compliance tasks
+   - Important deadlines and due dates
+
+7. **Penalties and Consequences**
+   - Late filing penalties
+   - Non-compliance consequences
+   - Interest on delayed tax payments
+
+8. **Compliance Costs**
+   - Professional fees (CA, CS, lawyers)
+   - Registration and license fees
+   - Annual maintenance costs
+   - Estimated total compliance budget
+
+9. **Resources and Portals**
+   - Income Tax Portal: https://www.incometax.gov.in/
+   - GST Portal: https://www.gst.gov.in/
+   - MCA Portal: https://www.mca.gov.in/
+   - EPFO Portal: https://www.epfindia.gov.in/
+   - ESI Portal: https://www.esic.gov.in/
+   - Professional help contacts
+
+Format the response in clean markdown with proper headers, bullet points, checklists, and actionable steps. Include location-specific compliance based on the business location provided.`;
+
+export const complianceGuru: GuruDefinition = {
+  functionName: 'compliance-guide-guru',
+  documentType: 'compliance',
+  documentTitle: 'Compliance Guide',
+  guideLabel: 'compliance guide',
+  systemPrompt: COMPLIANCE_GUIDE_PROMPT,
+  temperature: 0.7,
+  maxTokens: 3500,
+  buildContext: (profile) => `
+Business Information:
+- Company Name: ${profile.business_name || 'Company'}
+- Description: ${profile.company_description || profile.business_description || 'Not provided'}
+- Industry: ${profile.industry || profile.business_type || 'General'}
+- Business Type: ${profile.business_type || 'General'}
+- Entity Type: ${profile.entity_type || 'To be determined'}
+- Location: ${profile.location || 'India'}
+- Partners/Employees: ${describePartners(profile)}
+- Number of Owners: ${getOwnerCount(profile)}
+- Color Preference: ${profile.color_preference || 'Not specified'}
+- Style Preference: ${profile.style_preference || 'Not specified'}
+
+Generate a comprehensive compliance guide for this business covering all regulatory requirements in India.`,
+  structuredDataInstructions: 'For this compliance guide: entityRecommendation is null; timeline holds one-time registrations in the order they should be done, only if the guide gives timings; checklist is the compliance calendar and required registrations, with categories such as Monthly, Quarterly, Annually and Registrations; costs are compliance costs, usually yearly; portals are the official portals linked in the guide.',
+  extractKeyPoints
+};
+
+function extractKeyPoints(data: GuideStructuredData): string[] {
+  const keyPoints: string[] = [];
+
+  const yearlyCost = totalCost(data, 'yearly');
+  if (yearlyCost) {
+    keyPoints.push(`Compliance budget: ${formatCostRange(yearlyCost.min, yearlyCost.max)} per year`);
+  }
+
+  if (data.checklist.length > 0) {
+    const categories = new Set(data.checklist.map(item => item.category));
+    keyPoints.push(`${data.checklist.length} obligations across ${[...categories].join(', ')}`);
+  }
+
+  return withHighlights(keyPoints, data);
+}
@@ -0,0 +1,102 @@
+import { describePartners, getOwnerCount, type GuruDefinition } from '../guru.ts';
+import { formatCostRange, totalCost, withHighlights, type GuideStructuredData } from '../guideData.ts';
+
+const FINANCIAL_PLANNING_GUIDE_PROMPT = `You are an expert startup finance advisor and chartered accountant in India. Generate a comprehensive financial planning guide based on the business profile provided.
+
+IMPORTANT: Analyze the business description, industry, location, capital investment and expected turnover to provide:
+- Realistic cost estimates for the industry and city (rent, salaries and services differ widely between metros and smaller cities)
+- A plan that fits the stated capital; if the capital is too low for the plan, say so plainly and show what to cut or raise
+- Figures in Indian Rupees, written as ₹ amounts with lakhs where natural (e.g. ₹4,50,000 or ₹4.5 lakhs)
+
+The guide MUST include:
+
+1. **Financial Snapshot** - Capital available, expected turnover, and the key numbers of this plan in a few bullets
+
+2. **Startup Costs** - One-time costs before launch:
+   - Registration and legal setup
+   - Equipment, fit-out and technology
+   - Initial inventory or development costs
+   - Deposits (rent, utilities)
+   - Total one-time cost
+
+3. **Monthly Operating Budget** - Recurring costs per month:
+   - Rent and utilities
+   - Salaries (founders' drawings and employees)
+   - Marketing
+   - Software, subscriptions and professional fees (CA, compliance)
+   - Total monthly burn
+
+4. **12-36 Month Projection** - A month-by-month table for the first 12 months, then quarterly to month 36:
+   - Revenue (with the growth assumptions stated)
+   - Operating costs
+   - Net cash flow and cumulative cash balance
+   Use markdown tables
+
+5. **Burn Rate and Runway** - Gross and net burn, and how many months the stated capital lasts
+
+6. **Break-even Analysis** - Fixed costs, contribution margin per unit/customer, break-even revenue and the month the business is expected to break even
+
+7. **Funding Options** - Suited to this business and stage, with typical amounts and eligibility:
+   - Bootstrapping and friends & family
+   - Startup India Seed Fund Scheme: https://seedfund.startupindia.gov.in/
+   - MUDRA loans: https://www.mudra.org.in/
+   - CGTMSE-backed bank loans: https://www.cgtmse.in/
+   - Angel investors and venture capital (only if the business fits)
+   - State startup policies for the business's state
+
+8. **Tax and Financial Compliance Costs** - GST, income tax and advance tax, TDS, and the expected yearly cost of a CA
+
+9. **Risks and Contingency** - What happens if revenue is 30% below plan, and the cash buffer to keep
+
+Format the response in clean markdown with proper headers, bullet points, tables and sections.`;
+
+export const financialPlanningGuru: GuruDefinition = {
+  functionName: 'financial-planning-guide-guru',
+  documentType: 'financial_planning',
+  documentTitle: 'Financial Planning Guide',
+  guideLabel: 'financial planning guide',
+  systemPrompt: FINANCIAL_PLANNING_GUIDE_PROMPT,
+  temperature: 0.5,
+  maxTokens: 4000,
+  buildContext: (profile) => `
+Business Information:
+- Company Name: ${profile.business_name || 'Company'}
+- Description: ${profile.company_description || profile.business_description || 'Not provided'}
+- Industry: ${profile.industry || profile.business_type || 'General'}
+- Entity Type: ${profile.entity_type || 'To be determined'}
+- Location: ${profile.location || 'India'}
+- Partners/Directors: ${describePartners(profile)}
+- Number of Owners: ${getOwnerCount(profile)}
+- Capital Investment: ${profile.capital_investment || 'Not specified'}
+- Expected Turnover (first year): ${profile.expected_turnover || 'Not specified'}
+
+Generate a comprehensive financial plan for this business. If the capital investment or expected turnover is not specified, state the assumption you use for it at the top of the guide.`,
+  structuredDataInstructions: 'For this financial planning guide: entityRecommendation is null; timeline holds the financial milestones such as launch, break-even and funding rounds, with days counted from the start (month 6 is day 151-180); costs are the startup costs (one-time) and the monthly operating budget items (monthly), plus yearly compliance costs (yearly), without totals; checklist is the funding options and financial setup tasks, with categories such as Funding and Setup; portals are the funding scheme and government websites linked in the guide.',
+  extractKeyPoints
+};
+
+function extractKeyPoints(data: GuideStructuredData): string[] {
+  const keyPoints: string[] = [];
+
+  const startupCost = totalCost(data, 'one-time');
+  if (startupCost) {
+    keyPoints.push(`Startup costs: ${formatCostRange(startupCost.min, startupCost.max)}`);
+  }
+
+  const monthlyBurn = totalCost(data, 'monthly');
+  if (monthlyBurn) {
+    keyPoints.push(`Monthly burn: ${formatCostRange(monthlyBurn.min, monthlyBurn.max)}`);
+  }
+
+  const breakEven = data.timeline.find(step => /break[\s-]?even/i.test(step.step));
+  if (breakEven) {
+    keyPoints.push(`Break-even expected around month ${Math.ceil(breakEven.endDay / 30)}`);
+  }
+
+  const fundingOptions = data.checklist.filter(item => /fund/i.test(item.category));
+  if (fundingOptions.length > 0) {
+    keyPoints.push(`${fundingOptions.length} funding options to explore`);
+  }
+
+  return withHighlights(keyPoints, data);
+}
@@ -0,0 +1,144 @@
+import { describePartners, getOwnerCount, type GuruDefinition } from '../guru.ts';
+import { formatCostRange, totalCost, withHighlights, type GuideStructuredData } from '../guideData.ts';
+
+const HR_GUIDE_PROMPT = `You are an expert HR consultant specializing in startup and SME human resources management in India. Generate a comprehensive HR setup guide based on the business profile provided.
+
+IMPORTANT: Analyze the business description, industry, and team size to provide:
+- Industry-appropriate organizational structures and roles
+- Compensation benchmarks specific to the industry and location
+- HR policies tailored to the business type and culture
+- Hiring roadmaps aligned with business growth stage
+
+The guide MUST include:
+
+1. **Organizational Structure**
+   - Recommended org chart for the business size
+   - Key roles and responsibilities
+   - Reporting structure
+   - Hiring roadmap (Phase 1, 2, 3)
+
+2. **Employment Documentation**
+   - Offer letter template structure
+   - Employment agreement key clauses
+   - Appointment letter format
+   - Probation period guidelines
+   - Notice period recommendations
+   - Non-disclosure agreement (NDA)
+   - Non-compete clauses
+
+3. **HR Policies**
+   - Leave policy (casual, sick, earned leave)
+   - Work hours and attendance policy
+   - Remote work policy
+   - Code of conduct
+   - Anti-harassment policy
+   - Grievance redressal mechanism
+   - Performance review process
+   - Disciplinary action policy
+
+4. **Compensation and Benefits**
+   - Salary structure components (basic, HRA, special allowance)
+   - Salary benchmarking guidelines
+   - Variable pay and bonus structure
+   - Reimbursement policies (travel, medical, internet)
+   - Insurance benefits (health, accidental)
+   - Retirement benefits (PF, gratuity)
+
+5. **Payroll Management**
+   - Payroll processing timeline
+   - Statutory deductions (PF, PT, TDS)
+   - Payslip format
+   - Form 16 and tax declaration
+   - Reimbursement processing
+   - Payroll software recommendations
+
+6. **Onboarding Process**
+   - Pre-joining checklist
+   - Day 1 onboarding agenda
+   - First week orientation plan
+   - 30-60-90 day goals
+   - Buddy/mentor assignment
+   - Training and development plan
+
+7. **Performance Management**
+   - Goal setting framework (OKRs/KPIs)
+   - Performance review cycle
+   - Feedback mechanisms
+   - Promotion criteria
+   - Performance improvement plans
+
+8. **Employee Engagement**
+   - Team building activities
+   - Recognition and rewards program
+   - Communication channels
+   - Employee satisfaction surveys
+   - Exit interview process
+
+9. **Legal Compliance**
+   - Minimum wages act
+   - Payment of wages act
+   - Gratuity act (after 5 years)
+   - Maternity benefit act
+   - Sexual harassment prevention (POSH Act)
+   - Contract labor regulations
+
+10. **HR Technology Stack**
+    - HRMS software recommendations
+    - Attendance and leave management tools
+    - Payroll software options
+    - Recruitment platforms
+    - Employee engagement tools
+
+11. **Cost Planning**
+    - Per-employee cost breakdown
+    - HR software costs
+    - Recruitment costs
+    - Training and development budget
+    - Total HR budget estimation
+
+Format the response in clean markdown with proper headers, templates, checklists, and actionable guidelines. Make it practical and ready-to-implement.`;
+
+export const hrGuru: GuruDefinition = {
+  functionName: 'hr-guide-guru',
+  documentType: 'hr',
+  documentTitle: 'HR Setup Guide',
+  guideLabel: 'HR guide',
+  systemPrompt: HR_GUIDE_PROMPT,
+  temperature: 0.7,
+  maxTokens: 3500,
+  buildContext: (profile) => `
+Business Information:
+- Company Name: ${profile.business_name || 'Company'}
+- Description: ${profile.company_description || profile.business_description || 'Not provided'}
+- Industry: ${profile.industry || profile.business_type || 'General'}
+- Business Type: ${profile.business_type || 'General'}
+- Location: ${profile.location || 'India'}
+- Team Size: ${describePartners(profile)}
+- Number of Owners: ${getOwnerCount(profile)}
+- Color Preference: ${profile.color_preference || 'Not specified'}
+- Style Preference: ${profile.style_preference || 'Not specified'}
+
+Generate a comprehensive HR setup guide for this business covering policies, documentation, and compliance.`,
+  structuredDataInstructions: 'For this HR guide: entityRecommendation is null; timeline is the hiring roadmap or onboarding plan; costs are the HR budget items with their frequency; checklist is the documents and policies to put in place, grouped by area; portals are statutory portals (EPFO, ESIC and similar) linked in the guide.',
+  extractKeyPoints
+};
+
+function extractKeyPoints(data: GuideStructuredData): string[] {
+  const keyPoints: string[] = [];
+
+  const monthlyCost = totalCost(data, 'monthly');
+  if (monthlyCost) {
+    keyPoints.push(`Running HR costs: ${formatCostRange(monthlyCost.min, monthlyCost.max)} per month`);
+  }
+
+  const yearlyCost = totalCost(data, 'yearly');
+  if (yearlyCost) {
+    keyPoints.push(`Yearly HR costs: ${formatCostRange(yearlyCost.min, yearlyCost.max)}`);
+  }
+
+  if (data.checklist.length > 0) {
+    keyPoints.push(`${data.checklist.length} HR documents and policies to put in place`);
+  }
+
+  return withHighlights(keyPoints, data);
+}
@@ -0,0 +1,19 @@
+import type { GuruDefinition } from '../guru.ts';
+import { registrationGuru } from './registration.ts';
+import { brandingGuru } from './branding.ts';
+import { complianceGuru } from './compliance.ts';
+import { hrGuru } from './hr.ts';
+import { financialPlanningGuru } from './financialPlanning.ts';
+
+/** Every guide the worker can generate, keyed by generated_documents.document_type */
+export const GURUS: Record<string, GuruDefinition> = {
+  registration: registrationGuru,
+  branding: brandingGuru,
+  compliance: complianceGuru,
+  hr: hrGuru,
+  financial_planning: financialPlanningGuru
+};
+
+export function getGuru(documentType: string): GuruDefinition | null {
+  return GURUS[documentType] ?? null;
+}
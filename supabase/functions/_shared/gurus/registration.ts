@@ -0,0 +1,113 @@
+import { describePartners, getOwnerCount, type GuruDefinition } from '../guru.ts';
+import { formatCostRange, timelineSpanDays, totalCost, withHighlights, type GuideStructuredData } from '../guideData.ts';
+
+const REGISTRATION_GUIDE_PROMPT = `You are an expert business registration consultant in India. Generate a comprehensive registration guide based on the business profile provided.
+
+IMPORTANT: Analyze the business description and location to intelligently determine:
+- The specific industry sector (e.g., Technology/Software, Retail/E-commerce, Food & Beverage, Healthcare, Education, Manufacturing, etc.)
+- The most appropriate business entity type based on the business size, partners, and industry
+- Location-specific registration requirements and processes
+
+The guide MUST include:
+
+1. **Recommended Entity Type** - Analyze the business and recommend the best entity type (Proprietorship, Partnership, LLP, Private Limited, etc.) with clear reasoning
+
+2. **Company Name Suggestions** - Provide 3-4 suitable name suggestions based on the business description
+   - Check name availability: https://www.mca.gov.in/mcafoportal/companyLLPNameAvailability.do
+   - Trademark search: https://ipindiaservices.gov.in/publicsearch
+
+3. **Complete Registration Timeline** - Day-by-day process, Analyze the business profile and user details and based on that suggest intelligently what all following steps are required to be taken:
+   - Day 1-2: Apply for DSC (Digital Signature Certificate)
+   - Day 3-4: Apply for DIN/DPIN
+   - Day 5: Reserve company name (RUN form)
+   - Day 6-15: File incorporation forms (SPICe+ for company/LLP)
+   - Day 16: Receive Certificate of Incorporation
+   - Day 17-20: Apply for PAN and TAN
+   - Day 21-25: Open bank account
+   - Day 26-30: GST registration (if turnover > ₹40 lakhs for services or ₹20 lakhs for goods)
+
+4. **Required Documents Checklist**
+   For Directors/Partners: Suggest intelligently the documents based on the business profile and user details.
+   - PAN Card (mandatory)
+   - Aadhaar Card
+   - Passport size photographs
+   - Address proof
+   - Bank statements (last 2 months)
+   
+   For Registered Office: Suggest intelligently the documents based on the business profile and user details.
+   - Rent agreement / NOC from owner
+   - Utility bills (last 2 months)
+   - Property documents
+
+5. **Cost Breakdown** (based on entity type and location):
+   - Government Fees
+   - Professional Fees (optional)
+   - DSC and other costs
+   - Total estimated cost
+
+6. **Official Government Portals**:
+    Analyze the business profile and user details and based on that suggest intelligently the official government portals to be used.
+   - MCA Portal: https://www.mca.gov.in/mcafoportal/
+   - DSC Application: https://www.mca.gov.in/MinistryV2/digitalsignature.html
+   - Name Availability: https://www.mca.gov.in/mcafoportal/companyLLPNameAvailability.do
+   - Trademark Search: https://ipindiaservices.gov.in/publicsearch
+
+7. **Post-Registration Compliance**:
+   - Annual ROC filings (Form AOC-4, MGT-7, etc.)
+   - GST returns (monthly/quarterly)
+   - Income tax returns
+   - Board meetings and AGM requirements
+
+8. **Brand Protection**:
+   - Trademark registration steps
+   - Domain name registration
+   - Copyright for creative content
+
+Format the response in clean markdown with proper headers, bullet points, and sections.`;
+
+export const registrationGuru: GuruDefinition = {
+  functionName: 'registration-guide-guru',
+  documentType: 'registration',
+  documentTitle: 'Registration Guide',
+  guideLabel: 'registration guide',
+  systemPrompt: REGISTRATION_GUIDE_PROMPT,
+  temperature: 0.7,
+  maxTokens: 3000,
+  buildContext: (profile) => `
+Business Information:
+- Company Name: ${profile.business_name || 'To be determined'}
+- Description: ${profile.company_description || profile.business_description || 'Not provided'}
+- Location: ${profile.location || 'India'}
+- Industry: ${profile.industry || 'General'}
+- Business Type: ${profile.business_type || 'General'}
+- Partners/Directors: ${describePartners(profile)}
+- Number of Owners: ${getOwnerCount(profile)}
+
+Generate a comprehensive registration guide for this business.`,
+  structuredDataInstructions: 'For this registration guide: entityRecommendation is the recommended entity type; timeline is the registration steps; costs are the registration fees (usually one-time); checklist is the required documents grouped by who provides them; portals are the government portals linked in the guide.',
+  extractKeyPoints
+};
+
+function extractKeyPoints(data: GuideStructuredData): string[] {
+  const keyPoints: string[] = [];
+
+  if (data.entityRecommendation) {
+    keyPoints.push(`Recommended: ${data.entityRecommendation.entityType}`);
+  }
+
+  const days = timelineSpanDays(data);
+  if (days) {
+    keyPoints.push(`Registration timeline: about ${days} days in ${data.timeline.length} steps`);
+  }
+
+  const setupCost = totalCost(data, 'one-time');
+  if (setupCost) {
+    keyPoints.push(`Estimated cost: ${formatCostRange(setupCost.min, setupCost.max)}`);
+  }
+
+  if (data.checklist.length > 0) {
+    keyPoints.push(`${data.checklist.length} documents to prepare`);
+  }
+
+  return withHighlights(keyPoints, data);
+}
@@ -0,0 +1,57 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * Languages a founder can pick, by ISO 639-1 code. Mirrors src/lib/i18n.ts
+ * and the check on user_preferences.language.
+ */
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  hi: 'Hindi',
+  mr: 'Marathi',
+  ta: 'Tamil'
+};
+
+export const DEFAULT_LANGUAGE = 'en';
+
+/** The language code if it is one we support, otherwise the default */
+export function resolveLanguage(language: unknown): string {
+  return typeof language === 'string' && language in LANGUAGE_NAMES ? language : DEFAULT_LANGUAGE;
+}
+
+/**
+ * System prompt addition asking the model to answer in the founder's
+ * language. Empty for English, so English prompts are unchanged.
+ */
+export function languageInstruction(language: string): string {
+  if (resolveLanguage(language) === DEFAULT_LANGUAGE) return '';
+  const name = LANGUAGE_NAMES[language];
+  return `\n\nLANGUAGE: Write everything meant for the founder in ${name}, in simple everyday ${name} a first-time founder would use. ` +
+    'Keep the names of laws, government schemes, portals, forms and registrations (e.g. GST, MSME Udyam, FSSAI, Companies Act) ' +
+    'in English, and write amounts in ₹ with the digits 0-9 (e.g. ₹25,000).';
+}
+
+/**
+ * languageInstruction for a guide. Headings keep their English title in
+ * brackets, because the brand kit finds the branding guide's palette and
+ * typography sections by their English titles.
+ */
+export function guideLanguageInstruction(language: string): string {
+  const instruction = languageInstruction(language);
+  if (!instruction) return '';
+  return `${instruction} Write every Markdown heading in ${LANGUAGE_NAMES[language]} followed by its English title in brackets, ` +
+    'e.g. "## ... (Color Palette)".';
+}
+
+/** The founder's saved language, or English when they have not picked one */
+export async function loadUserLanguage(userId: string, supabaseClient: SupabaseClient): Promise<string> {
+  const { data, error } = await supabaseClient
+    .from('user_preferences')
+    .select('language')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading language preference, using English:', error);
+  }
+  return resolveLanguage(data?.language);
+}
@@ -0,0 +1,325 @@
+import { MOCK_FIXTURES } from './llmFixtures.ts';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Fixture name the mock provider answers with, usually the document type */
+  fixtureKey?: string;
+  /** Constrains the answer to JSON matching this schema on providers that support it */
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<string>;
+  /** Yields the completion in text deltas as the model produces them */
+  stream(request: CompletionRequest): AsyncGenerator<string>;
+}
+
+const DEFAULT_OPENROUTER_MODEL = 'openai/gpt-4o-mini';
+
+/**
+ * Picks the provider from LLM_PROVIDER:
+ * - `openrouter` (default): OpenRouter, needs OPENROUTER_API_KEY
+ * - `openai-compatible`: any /chat/completions server at LLM_BASE_URL (llama.cpp, Ollama, vLLM...)
+ * - `mock`: deterministic fixtures, no network
+ * LLM_MODEL overrides the model name for the first two.
+ */
+export function getLLMProvider(): LLMProvider {
+  const providerName = (Deno.env.get('LLM_PROVIDER') || 'openrouter').toLowerCase();
+  const model = Deno.env.get('LLM_MODEL');
+
+  switch (providerName) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(model);
+    case 'openrouter':
+      return createOpenRouterProvider(model);
+    default:
+      console.error(`Unknown LLM_PROVIDER "${providerName}"`);
+      throw new Error('LLM_PROVIDER_NOT_SUPPORTED');
+  }
+}
+
+/**
+ * Parses a JSON answer, or returns undefined if it is not valid JSON. Some
+ * models wrap JSON in a markdown code fence even when asked not to.
+ */
+export function parseJsonResponse(raw: string): unknown {
+  const unfenced = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * One JSON object completion, asked again once if the answer does not parse.
+ * Throws INVALID_API_RESPONSE when the second answer is not a JSON object either.
+ */
+export async function completeJson(
+  provider: LLMProvider,
+  request: CompletionRequest & { responseSchema: NonNullable<CompletionRequest['responseSchema']> }
+): Promise<Record<string, any>> {
+  const messages = [...request.messages];
+
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    const raw = await provider.complete({ ...request, messages });
+    const parsed = parseJsonResponse(raw);
+    if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+      return parsed as Record<string, any>;
+    }
+
+    console.warn(`${request.responseSchema.name} attempt ${attempt} was not valid JSON:`, raw.slice(0, 200));
+    messages.push(
+      { role: 'assistant', content: raw },
+      { role: 'user', content: 'Return only the JSON object described above.' }
+    );
+  }
+
+  throw new Error(`INVALID_API_RESPONSE: ${request.responseSchema.name} is not valid JSON`);
+}
+
+function createOpenRouterProvider(model?: string): LLMProvider {
+  const resolvedModel = model || DEFAULT_OPENROUTER_MODEL;
+  const baseUrl = 'https://openrouter.ai/api/v1';
+
+  const getHeaders = (): Record<string, string> => {
+    const openRouterApiKey = Deno.env.get('OPENROUTER_API_KEY');
+
+    if (!openRouterApiKey) {
+      console.error('OPENROUTER_API_KEY not configured in edge function environment');
+      throw new Error('API_KEY_NOT_CONFIGURED');
+    }
+
+    return {
+      'Authorization': `Bearer ${openRouterApiKey}`,
+      'HTTP-Referer': 'https://startup-companion.app',
+      'X-Title': 'StartUP Companion'
+    };
+  };
+
+  return {
+    name: 'openrouter',
+    model: resolvedModel,
+    complete: async (request) => callChatCompletions(baseUrl, resolvedModel, request, getHeaders()),
+    stream: async function* (request) {
+      yield* streamChatCompletions(baseUrl, resolvedModel, request, getHeaders());
+    }
+  };
+}
+
+function createOpenAICompatibleProvider(model?: string): LLMProvider {
+  const resolvedModel = model || 'local-model';
+
+  const getBaseUrl = (): string => {
+    const baseUrl = Deno.env.get('LLM_BASE_URL');
+
+    if (!baseUrl) {
+      console.error('LLM_BASE_URL not configured for openai-compatible provider');
+      throw new Error('LLM_BASE_URL_NOT_CONFIGURED');
+    }
+
+    return baseUrl.replace(/\/+$/, '');
+  };
+
+  const getHeaders = (): Record<string, string> => {
+    const apiKey = Deno.env.get('LLM_API_KEY');
+    return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+  };
+
+  return {
+    name: 'openai-compatible',
+    model: resolvedModel,
+    complete: async (request) => callChatCompletions(getBaseUrl(), resolvedModel, request, getHeaders()),
+    stream: async function* (request) {
+      yield* streamChatCompletions(getBaseUrl(), resolvedModel, request, getHeaders());
+    }
+  };
+}
+
+function createMockProvider(): LLMProvider {
+  const complete = async (request: CompletionRequest): Promise<string> => {
+    const fixture = await loadMockFixture(request.fixtureKey);
+    if (fixture) return fixture;
+
+    // No fixture for this key: echo the prompt so output is still stable
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    return `# Mock Response\n\nThis content was produced by the mock LLM provider.\n\n## Request\n\n${lastUserMessage?.content.trim() || 'No user message'}\n`;
+  };
+
+  return {
+    name: 'mock',
+    model: 'mock-fixtures',
+    complete,
+    stream: async function* (request) {
+      const content = await complete(request);
+      const delayMs = Number(Deno.env.get('LLM_MOCK_STREAM_DELAY_MS') ?? '0');
+      // Split on whitespace boundaries so every run yields the same chunks
+      for (const chunk of content.match(/\S+\s*|\s+/g) ?? []) {
+        if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+        yield chunk;
+      }
+    }
+  };
+}
+
+/**
+ * Fixtures come from LLM_MOCK_FIXTURES_DIR/<key>.md when that directory is set,
+ * otherwise from the built-in set in llmFixtures.ts. Keys that carry their own
+ * extension, such as `registration.json`, are read as-is.
+ */
+async function loadMockFixture(fixtureKey?: string): Promise<string | null> {
+  if (!fixtureKey) return null;
+
+  const fixturesDir = Deno.env.get('LLM_MOCK_FIXTURES_DIR');
+  if (fixturesDir) {
+    try {
+      const fileName = fixtureKey.includes('.') ? fixtureKey : `${fixtureKey}.md`;
+      return await Deno.readTextFile(`${fixturesDir.replace(/\/+$/, '')}/${fileName}`);
+    } catch (error) {
+      console.warn(`Mock fixture for ${fixtureKey} not found in ${fixturesDir}, using built-in fixture`, error);
+    }
+  }
+
+  return MOCK_FIXTURES[fixtureKey] ?? null;
+}
+
+function buildResponseFormat(request: CompletionRequest) {
+  if (!request.responseSchema) return {};
+  return {
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: request.responseSchema.name, strict: true, schema: request.responseSchema.schema }
+    }
+  };
+}
+
+async function callChatCompletions(
+  baseUrl: string,
+  model: string,
+  request: CompletionRequest,
+  extraHeaders: Record<string, string>
+): Promise<string> {
+  try {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...extraHeaders
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens ?? 3000,
+        ...buildResponseFormat(request)
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`LLM API error ${response.status} from ${baseUrl}:`, errorText);
+      throw new Error(`API_ERROR: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.choices || !data.choices[0] || !data.choices[0].message || !data.choices[0].message.content) {
+      console.error('Invalid response structure from LLM API:', data);
+      throw new Error('INVALID_API_RESPONSE');
+    }
+
+    return data.choices[0].message.content;
+
+  } catch (error) {
+    console.error('Error calling LLM API:', error);
+    throw error;
+  }
+}
+
+async function* streamChatCompletions(
+  baseUrl: string,
+  model: string,
+  request: CompletionRequest,
+  extraHeaders: Record<string, string>
+): AsyncGenerator<string> {
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...extraHeaders
+    },
+    body: JSON.stringify({
+      model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 3000,
+      stream: true,
+      ...buildResponseFormat(request)
+    })
+  });
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    console.error(`LLM API error ${response.status} from ${baseUrl}:`, errorText);
+    throw new Error(`API_ERROR: ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let receivedContent = false;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      // Servers send keep-alive comments (": OPENROUTER PROCESSING") between chunks
+      if (!trimmed.startsWith('data:')) continue;
+
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') {
+        if (!receivedContent) throw new Error('INVALID_API_RESPONSE');
+        return;
+      }
+
+      let parsed;
+      try {
+        parsed = JSON.parse(data);
+      } catch {
+        console.warn('Skipping malformed stream chunk:', data);
+        continue;
+      }
+
+      if (parsed.error) {
+        console.error('LLM API stream error:', parsed.error);
+        throw new Error(`API_ERROR: ${parsed.error.code ?? 'stream'}`);
+      }
+
+      const delta = parsed.choices?.[0]?.delta?.content;
+      if (delta) {
+        receivedContent = true;
+        yield delta;
+      }
+    }
+  }
+
+  if (!receivedContent) {
+    throw new Error('INVALID_API_RESPONSE');
+  }
+}
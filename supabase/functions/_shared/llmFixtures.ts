@@ -0,0 +1,462 @@
+// Canned responses for LLM_PROVIDER=mock, keyed by fixture name: the guide's document
+// type for the markdown guide and `<document type>.json` for its structured data.
+// They follow the section layout of the real prompts so key point extraction and PDF
+// rendering behave the same way they do with a live model.
+
+export const MOCK_FIXTURES: Record<string, string> = {
+  registration: `# Company Registration Guide
+
+## 1. Entity Type Recommendation
+
+**Recommended Entity Type: Private Limited Company**
+
+A Private Limited Company suits a founding team of two or more directors that plans to raise outside capital. It offers limited liability and is the structure investors expect.
+
+## 2. Company Name Suggestions
+
+- Option 1 (primary choice)
+- Option 2 (descriptive variant)
+- Option 3 (short brandable variant)
+
+Check name availability: https://www.mca.gov.in/mcafoportal/companyLLPNameAvailability.do
+Trademark search: https://ipindiaservices.gov.in/publicsearch
+
+## 3. Complete Registration Timeline
+
+- Day 1-2: Apply for DSC (Digital Signature Certificate)
+- Day 3-4: Apply for DIN
+- Day 5: Reserve company name (RUN form)
+- Day 6-15: File SPICe+ incorporation forms
+- Day 16: Receive Certificate of Incorporation
+- Day 17-20: Apply for PAN and TAN
+- Day 21-25: Open bank account
+- Day 26-30: GST registration
+
+## 4. Required Documents Checklist
+
+### For Directors
+- PAN Card (mandatory)
+- Aadhaar Card
+- Passport size photographs
+- Bank statements (last 2 months)
+
+### For Registered Office
+- Rent agreement / NOC from owner
+- Utility bills (last 2 months)
+
+## 5. Cost Breakdown
+
+- Government Fees: ₹7,000
+- Professional Fees: ₹10,000
+- DSC and other costs: ₹3,000
+- **Total estimated cost: ₹20,000**
+
+## 6. Official Government Portals
+
+- MCA Portal: https://www.mca.gov.in/mcafoportal/
+- DSC Application: https://www.mca.gov.in/MinistryV2/digitalsignature.html
+
+## 7. Post-Registration Compliance
+
+- Annual ROC filings (AOC-4, MGT-7)
+- GST returns (monthly/quarterly)
+- Income tax returns
+- Board meetings and AGM
+
+## 8. Brand Protection
+
+- File a trademark application in the relevant class
+- Register the matching domain name
+`,
+
+  branding: `# Branding Guide
+
+## 1. Brand Name Suggestions
+
+- Name A - short and memorable
+- Name B - describes the core offering
+- Name C - modern coined word
+
+## 2. Brand Identity Overview
+
+- Positioning: a trustworthy, modern partner for small businesses
+- Personality: confident, helpful, clear
+
+## 3. Logo Design Concept
+
+- Primary logo: wordmark with a simple geometric icon
+- Variations: horizontal, vertical, icon-only
+
+## 4. Color Palette
+
+- Primary: #1E3A8A (RGB 30, 58, 138)
+- Secondary: #F59E0B (RGB 245, 158, 11)
+- Neutral: #F3F4F6 (RGB 243, 244, 246)
+
+## 5. Typography System
+
+- Headings: Montserrat Bold
+- Body text: Inter Regular
+
+## 6. Brand Applications
+
+- Business card, letterhead and email signature templates
+
+## 7. Visual Style Guidelines
+
+- Photography: natural light, real customers
+- Iconography: outlined, 2px stroke
+
+## 8. Brand Voice and Messaging
+
+- Tagline: "Built for what's next"
+
+## 9. Intellectual Property Protection
+
+- Trademark registration in classes 35 and 42
+- Copyright registration for the logo artwork
+
+## 10. Implementation Roadmap
+
+- Phase 1: Logo and basic identity (Week 1-2)
+- Phase 2: Marketing collateral (Week 3-4)
+`,
+
+  compliance: `# Compliance Guide
+
+## 1. Tax Compliance
+
+- PAN and TAN registration
+- GST registration once turnover crosses the threshold
+- TDS deduction and quarterly filing
+- Advance tax in four instalments
+
+## 2. ROC Compliance
+
+- Annual filing of AOC-4 and MGT-7
+- Minimum four board meetings a year
+- Director KYC every year
+
+## 3. Labor Law Compliance
+
+- Provident Fund once 20 employees are on the payroll
+- ESI once 10 employees are on the payroll
+- Shops and Establishment Act registration
+
+## 4. Industry-Specific Licenses and Permits
+
+- Trade license from the municipal corporation
+
+## 5. Data Protection and Privacy
+
+- Digital Personal Data Protection Act: privacy policy and consent records
+
+## 6. Ongoing Compliance Calendar
+
+- Monthly: GST returns, TDS deposit
+- Quarterly: TDS returns
+- Annually: ITR, ROC filings, AGM
+
+## 7. Penalties and Consequences
+
+- Late filing penalty of ₹100 per day for ROC forms
+
+## 8. Compliance Costs
+
+- Professional fees: ₹25,000 per year
+- Government filing fees: ₹15,000 per year
+- **Estimated total compliance budget: ₹40,000 per year**
+
+## 9. Resources and Portals
+
+- GST Portal: https://www.gst.gov.in/
+- Income Tax Portal: https://www.incometax.gov.in/
+`,
+
+  hr: `# HR Setup Guide
+
+## 1. Organizational Structure
+
+- Founders, followed by functional leads as the team grows
+
+## 2. Employment Documentation
+
+- Offer letter, appointment letter, NDA and employment agreement templates
+
+## 3. HR Policies
+
+- Leave policy, attendance and work hours, code of conduct
+
+## 4. Compensation and Benefits
+
+- Salary structure: basic, HRA, special allowance
+- Benefits: health insurance, gratuity
+
+## 5. Payroll and Statutory Compliance
+
+- Monthly payroll with PF, ESI and TDS deductions
+- Payslips issued by the 7th of each month
+
+## 6. Onboarding Process
+
+- Day-one orientation and 30-60-90 day plan
+
+## 7. Performance Management
+
+- Quarterly OKR reviews and annual appraisal
+
+## 8. Employee Engagement
+
+- Monthly recognition and team building
+
+## 9. Legal Compliance
+
+- POSH Act internal committee, minimum wages, maternity benefit
+
+## 10. HR Technology Stack
+
+- HRMS and payroll software
+
+## 11. Cost Planning
+
+- HR software: ₹5,000 per month
+- **Total HR budget estimation: ₹1,50,000 per year**
+`,
+
+  financial_planning: `# Financial Planning Guide
+
+## 1. Financial Snapshot
+
+- Capital available: ₹10,00,000
+- Expected first-year turnover: ₹24,00,000
+- Break-even expected in month 9
+
+## 2. Startup Costs
+
+- Registration and legal setup: ₹20,000
+- Equipment and technology: ₹1,50,000
+- Rent deposit: ₹60,000
+- **Total one-time cost: ₹2,30,000**
+
+## 3. Monthly Operating Budget
+
+- Rent and utilities: ₹25,000
+- Salaries: ₹60,000
+- Marketing: ₹15,000
+- Software and professional fees: ₹10,000
+- **Total monthly burn: ₹1,10,000**
+
+## 4. 12-36 Month Projection
+
+| Month | Revenue | Costs | Net cash flow |
+|-------|---------|-------|---------------|
+| 1 | ₹30,000 | ₹1,10,000 | -₹80,000 |
+| 6 | ₹90,000 | ₹1,10,000 | -₹20,000 |
+| 12 | ₹1,60,000 | ₹1,20,000 | ₹40,000 |
+
+## 5. Burn Rate and Runway
+
+- Net burn in the first six months averages ₹55,000 per month
+- Runway of about 14 months on the remaining capital
+
+## 6. Break-even Analysis
+
+- Fixed costs of ₹1,10,000 per month at a 55% contribution margin
+- Break-even revenue of ₹2,00,000 per month, expected in month 9
+
+## 7. Funding Options
+
+- Bootstrapping with founders' capital
+- Startup India Seed Fund Scheme: https://seedfund.startupindia.gov.in/
+- MUDRA loan (Kishore) up to ₹5,00,000: https://www.mudra.org.in/
+
+## 8. Tax and Financial Compliance Costs
+
+- CA and bookkeeping: ₹36,000 per year
+
+## 9. Risks and Contingency
+
+- Keep a cash buffer of three months of burn
+`,
+
+  // Section regeneration keeps the original heading, so the fixture is only the body
+  'section.md': `- Revised by the mock provider following the instruction
+- The rest of the guide is unchanged
+`,
+  // The ask function cites guide sections by id; S1 is the first section of the first guide
+  'ask.json': JSON.stringify({
+    answer: 'This answer comes from the mock provider. Your registration guide recommends a Private Limited Company; see the cited section for the reasoning.',
+    citations: ['S1']
+  }),
+  // Idea tuning never reports every topic as covered, so typing "done" exercises the summary
+  'idea-tuning.json': JSON.stringify({
+    reply: 'Thanks, that is a clear problem. The mock provider suggests talking to ten potential customers this week. Who exactly would pay for this, and how do they solve the problem today?',
+    coveredTopics: ['problem'],
+    readyToSummarize: false
+  }),
+  'idea-tuning-summary.json': JSON.stringify({
+    summary: '## Problem\nSmall restaurants lose orders because they cannot manage phone and app orders in one place.\n\n## Customer\nIndependent restaurants in Bengaluru with 10-50 tables.\n\n## Competition\nNot discussed yet\n\n## Revenue Model\nNot discussed yet\n\n## Risks\nNot discussed yet\n\n## Next Steps\n- Interview 10 restaurant owners\n- Build a clickable prototype\n- Run a 2-week pilot with one restaurant',
+    businessName: null,
+    companyDescription: 'An order management tool that brings phone, app and walk-in orders for small restaurants into one screen, sold as a monthly subscription.',
+    location: 'Bengaluru',
+    industry: 'Technology/Software'
+  }),
+  'normalize-partners.json': JSON.stringify({
+    partners: [
+      { name: 'Asha Rao', role: 'Director', residency: 'resident', dinStatus: 'needs_din' },
+      { name: null, role: 'Director', residency: 'unknown', dinStatus: 'unknown' }
+    ]
+  }),
+  'normalize-location.json': JSON.stringify({ city: 'Bengaluru', state: 'Karnataka' }),
+  'normalize-industry.json': JSON.stringify({ industry: 'Food & Beverage', detail: 'Cloud kitchen' }),
+  'registration.json': JSON.stringify({
+    entityRecommendation: {
+      entityType: 'Private Limited Company',
+      reason: 'Limited liability for two or more directors and the structure investors expect'
+    },
+    highlights: [
+      'Incorporation certificate expected by day 16',
+      'GST registration completes the setup by day 30'
+    ],
+    timeline: [
+      { step: 'Apply for DSC (Digital Signature Certificate)', startDay: 1, endDay: 2 },
+      { step: 'Apply for DIN', startDay: 3, endDay: 4 },
+      { step: 'Reserve company name (RUN form)', startDay: 5, endDay: 5 },
+      { step: 'File SPICe+ incorporation forms', startDay: 6, endDay: 15 },
+      { step: 'Receive Certificate of Incorporation', startDay: 16, endDay: 16 },
+      { step: 'Apply for PAN and TAN', startDay: 17, endDay: 20 },
+      { step: 'Open bank account', startDay: 21, endDay: 25 },
+      { step: 'GST registration', startDay: 26, endDay: 30 }
+    ],
+    costs: [
+      { item: 'Government Fees', minAmountInr: 7000, maxAmountInr: 7000, frequency: 'one-time' },
+      { item: 'Professional Fees', minAmountInr: 10000, maxAmountInr: 10000, frequency: 'one-time' },
+      { item: 'DSC and other costs', minAmountInr: 3000, maxAmountInr: 3000, frequency: 'one-time' }
+    ],
+    checklist: [
+      { item: 'PAN Card (mandatory)', category: 'For Directors' },
+      { item: 'Aadhaar Card', category: 'For Directors' },
+      { item: 'Passport size photographs', category: 'For Directors' },
+      { item: 'Bank statements (last 2 months)', category: 'For Directors' },
+      { item: 'Rent agreement / NOC from owner', category: 'For Registered Office' },
+      { item: 'Utility bills (last 2 months)', category: 'For Registered Office' }
+    ],
+    portals: [
+      { name: 'MCA Portal', url: 'https://www.mca.gov.in/mcafoportal/' },
+      { name: 'DSC Application', url: 'https://www.mca.gov.in/MinistryV2/digitalsignature.html' },
+      { name: 'Name availability check', url: 'https://www.mca.gov.in/mcafoportal/companyLLPNameAvailability.do' },
+      { name: 'Trademark search', url: 'https://ipindiaservices.gov.in/publicsearch' }
+    ]
+  }),
+
+  'branding.json': JSON.stringify({
+    entityRecommendation: null,
+    highlights: [
+      'Primary color #1E3A8A with secondary #F59E0B',
+      'Headings in Montserrat Bold, body in Inter Regular',
+      'Tagline: "Built for what\'s next"',
+      'Trademark filing in classes 35 and 42'
+    ],
+    timeline: [
+      { step: 'Logo and basic identity', startDay: 1, endDay: 14 },
+      { step: 'Marketing collateral', startDay: 15, endDay: 28 }
+    ],
+    costs: [],
+    checklist: [
+      { item: 'Primary, horizontal, vertical and icon-only logo files', category: 'Logo' },
+      { item: 'Business card, letterhead and email signature templates', category: 'Brand Applications' },
+      { item: 'Trademark registration in classes 35 and 42', category: 'IP Protection' },
+      { item: 'Copyright registration for the logo artwork', category: 'IP Protection' }
+    ],
+    portals: []
+  }),
+
+  'compliance.json': JSON.stringify({
+    entityRecommendation: null,
+    highlights: [
+      'GST returns and TDS deposits every month',
+      'AOC-4 and MGT-7 filed every year',
+      'ROC late filing penalty of ₹100 per day',
+      'Director KYC due every year'
+    ],
+    timeline: [],
+    costs: [
+      { item: 'Professional fees', minAmountInr: 25000, maxAmountInr: 25000, frequency: 'yearly' },
+      { item: 'Government filing fees', minAmountInr: 15000, maxAmountInr: 15000, frequency: 'yearly' }
+    ],
+    checklist: [
+      { item: 'GST returns', category: 'Monthly' },
+      { item: 'TDS deposit', category: 'Monthly' },
+      { item: 'TDS returns', category: 'Quarterly' },
+      { item: 'Income tax return', category: 'Annually' },
+      { item: 'ROC filings (AOC-4, MGT-7)', category: 'Annually' },
+      { item: 'Annual general meeting', category: 'Annually' },
+      { item: 'Shops and Establishment Act registration', category: 'Registrations' },
+      { item: 'Trade license from the municipal corporation', category: 'Registrations' }
+    ],
+    portals: [
+      { name: 'GST Portal', url: 'https://www.gst.gov.in/' },
+      { name: 'Income Tax Portal', url: 'https://www.incometax.gov.in/' }
+    ]
+  }),
+
+  'hr.json': JSON.stringify({
+    entityRecommendation: null,
+    highlights: [
+      'Salary structure of basic, HRA and special allowance',
+      'Payslips issued by the 7th of each month',
+      'POSH internal committee required',
+      'Total HR budget of ₹1,50,000 per year'
+    ],
+    timeline: [
+      { step: 'Day-one orientation', startDay: 1, endDay: 1 },
+      { step: '30-60-90 day onboarding plan', startDay: 1, endDay: 90 }
+    ],
+    costs: [
+      { item: 'HR software', minAmountInr: 5000, maxAmountInr: 5000, frequency: 'monthly' }
+    ],
+    checklist: [
+      { item: 'Offer letter template', category: 'Employment Documentation' },
+      { item: 'Appointment letter template', category: 'Employment Documentation' },
+      { item: 'NDA and employment agreement', category: 'Employment Documentation' },
+      { item: 'Leave policy', category: 'HR Policies' },
+      { item: 'Attendance and work hours policy', category: 'HR Policies' },
+      { item: 'Code of conduct', category: 'HR Policies' },
+      { item: 'PF, ESI and TDS deductions set up in payroll', category: 'Payroll' }
+    ],
+    portals: []
+  }),
+  'financial_planning.json': JSON.stringify({
+    entityRecommendation: null,
+    highlights: [
+      'Capital available of ₹10,00,000',
+      'Runway of about 14 months',
+      'Break-even revenue of ₹2,00,000 per month',
+      'MUDRA Kishore loan up to ₹5,00,000'
+    ],
+    timeline: [
+      { step: 'Launch', startDay: 1, endDay: 30 },
+      { step: 'Break-even', startDay: 241, endDay: 270 }
+    ],
+    costs: [
+      { item: 'Registration and legal setup', minAmountInr: 20000, maxAmountInr: 20000, frequency: 'one-time' },
+      { item: 'Equipment and technology', minAmountInr: 150000, maxAmountInr: 150000, frequency: 'one-time' },
+      { item: 'Rent deposit', minAmountInr: 60000, maxAmountInr: 60000, frequency: 'one-time' },
+      { item: 'Rent and utilities', minAmountInr: 25000, maxAmountInr: 25000, frequency: 'monthly' },
+      { item: 'Salaries', minAmountInr: 60000, maxAmountInr: 60000, frequency: 'monthly' },
+      { item: 'Marketing', minAmountInr: 15000, maxAmountInr: 15000, frequency: 'monthly' },
+      { item: 'Software and professional fees', minAmountInr: 10000, maxAmountInr: 10000, frequency: 'monthly' },
+      { item: 'CA and bookkeeping', minAmountInr: 36000, maxAmountInr: 36000, frequency: 'yearly' }
+    ],
+    checklist: [
+      { item: 'Bootstrapping with founders\' capital', category: 'Funding' },
+      { item: 'Startup India Seed Fund Scheme', category: 'Funding' },
+      { item: 'MUDRA loan (Kishore)', category: 'Funding' },
+      { item: 'Keep a cash buffer of three months of burn', category: 'Setup' }
+    ],
+    portals: [
+      { name: 'Startup India Seed Fund Scheme', url: 'https://seedfund.startupindia.gov.in/' },
+      { name: 'MUDRA', url: 'https://www.mudra.org.in/' }
+    ]
+  })
+};
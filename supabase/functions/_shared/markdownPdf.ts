@@ -0,0 +1,521 @@
+import { marked, type Token, type Tokens } from 'npm:marked@12.0.2';
+import {
+  COURIER,
+  fontRuns,
+  heightOfText,
+  HELVETICA,
+  sharedBaseline,
+  widthOfText,
+  writeText,
+  type PdfFontFamily,
+  type PdfFontStyle
+} from './pdfFonts.ts';
+
+/**
+ * Renders the Markdown the gurus write into a PDFKit document: headings that
+ * never sit alone at the bottom of a page, paragraphs with bold, italic, code
+ * and clickable links, nested bullet, numbered and task lists, bordered tables
+ * that repeat their header on a new page, code blocks, quotes and rules.
+ */
+export interface MarkdownPdfTheme {
+  /** Color of the guide type, used for the top two heading levels */
+  accentColor: string;
+  textColor: string;
+  mutedColor: string;
+  /** Registered families from the brand kit; Helvetica when not given */
+  bodyFont?: PdfFontFamily;
+  headingFont?: PdfFontFamily;
+  /** Tried in order for characters the fonts above lack, e.g. Devanagari or ₹ */
+  fallbackFonts?: PdfFontFamily[];
+}
+
+export interface MarkdownHeading {
+  depth: number;
+  text: string;
+}
+
+export interface MarkdownPdfOptions {
+  /**
+   * Called when a heading is placed, after any page break, so the current page
+   * is the heading's page. index counts headings in the order of collectHeadings.
+   */
+  onHeading?: (heading: MarkdownHeading, index: number) => void;
+}
+
+interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  link?: string;
+}
+
+type SpanStyle = Omit<InlineSpan, 'text'>;
+
+/** Where blocks are written; lists and quotes narrow it */
+interface RenderContext {
+  // pdfkit has no type declarations for Deno
+  doc: any;
+  theme: MarkdownPdfTheme;
+  left: number;
+  width: number;
+  color: string;
+  listDepth: number;
+  // Each family followed by the fallbacks, for fontRuns
+  fonts: PdfFontFamily[];
+  headingFonts: PdfFontFamily[];
+  codeFonts: PdfFontFamily[];
+  onHeading?: MarkdownPdfOptions['onHeading'];
+  // Shared by the narrowed copies of the context in lists and quotes
+  headingCount: { value: number };
+}
+
+const BODY_FONT_SIZE = 11;
+const TABLE_FONT_SIZE = 9.5;
+const CODE_FONT_SIZE = 9;
+const LINE_GAP = 2;
+const LINK_COLOR = '#2563EB';
+const BORDER_COLOR = '#D1D5DB';
+const SHADE_COLOR = '#F3F4F6';
+const HEADING_SIZES: Record<number, number> = { 1: 18, 2: 14, 3: 12 };
+// Body lines that must fit under a heading, or it moves to the next page
+const LINES_KEPT_WITH_HEADING = 3;
+const LIST_BULLETS = ['•', '–', '·'];
+const TABLE_CELL_PADDING = 5;
+const MIN_COLUMN_WIDTH = 40;
+
+// Portals the gurus often name without a scheme, e.g. mca.gov.in or ipindia.gov.in/trademark
+const BARE_PORTAL_PATTERN = /\b(?:[a-z0-9-]+\.)+(?:gov|nic|org|co)\.in(?:\/[^\s)\],;]*)?/gi;
+
+export function renderMarkdown(
+  doc: any,
+  markdown: string,
+  theme: MarkdownPdfTheme,
+  options: MarkdownPdfOptions = {}
+): void {
+  const fallbacks = theme.fallbackFonts ?? [];
+  const context: RenderContext = {
+    doc,
+    theme,
+    left: doc.page.margins.left,
+    width: doc.page.width - doc.page.margins.left - doc.page.margins.right,
+    color: theme.textColor,
+    listDepth: 0,
+    fonts: [theme.bodyFont ?? HELVETICA, ...fallbacks],
+    headingFonts: [theme.headingFont ?? theme.bodyFont ?? HELVETICA, ...fallbacks],
+    codeFonts: [COURIER, ...fallbacks],
+    onHeading: options.onHeading,
+    headingCount: { value: 0 }
+  };
+
+  renderBlocks(context, marked.lexer(markdown, { gfm: true }));
+  resetFont(context);
+}
+
+/** Every heading of the guide in the order renderMarkdown places them, for a table of contents */
+export function collectHeadings(markdown: string): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  const walk = (tokens: Token[]) => {
+    for (const token of tokens) {
+      if (token.type === 'heading') {
+        const heading = token as Tokens.Heading;
+        headings.push({ depth: heading.depth, text: plainText(inlineSpans(heading.tokens)) });
+      } else if (token.type === 'list') {
+        (token as Tokens.List).items.forEach(item => walk(item.tokens));
+      } else if (token.type === 'blockquote') {
+        walk((token as Tokens.Blockquote).tokens);
+      }
+    }
+  };
+
+  walk(marked.lexer(markdown, { gfm: true }));
+  return headings;
+}
+
+function renderBlocks(context: RenderContext, tokens: Token[]): void {
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading':
+        renderHeading(context, token as Tokens.Heading);
+        break;
+      case 'paragraph':
+        writeInline(context, inlineSpans((token as Tokens.Paragraph).tokens));
+        context.doc.moveDown(0.5);
+        break;
+      case 'text': {
+        // Items of tight lists hold their text without a paragraph around it
+        const text = token as Tokens.Text;
+        writeInline(context, text.tokens ? inlineSpans(text.tokens) : plainSpans(text.text));
+        break;
+      }
+      case 'list':
+        renderList(context, token as Tokens.List);
+        break;
+      case 'table':
+        renderTable(context, token as Tokens.Table);
+        break;
+      case 'code':
+        renderCode(context, (token as Tokens.Code).text);
+        break;
+      case 'blockquote':
+        renderBlockquote(context, token as Tokens.Blockquote);
+        break;
+      case 'hr':
+        renderRule(context);
+        break;
+      case 'html': {
+        const text = stripTags((token as Tokens.HTML).text).trim();
+        if (text) {
+          writeInline(context, plainSpans(text));
+          context.doc.moveDown(0.5);
+        }
+        break;
+      }
+      case 'space':
+        break;
+      default:
+        if ('text' in token && typeof token.text === 'string' && token.text.trim()) {
+          writeInline(context, plainSpans(token.text));
+        }
+    }
+  }
+}
+
+function renderHeading(context: RenderContext, heading: Tokens.Heading): void {
+  const { doc } = context;
+  const fontSize = HEADING_SIZES[heading.depth] ?? BODY_FONT_SIZE;
+  const color = heading.depth <= 2 ? context.theme.accentColor : '#374151';
+  const spans = inlineSpans(heading.tokens, { bold: true });
+
+  doc.moveDown(heading.depth === 1 ? 0.8 : heading.depth === 2 ? 0.6 : 0.4);
+
+  doc.fontSize(fontSize);
+  const headingHeight = heightOfText(doc, context.headingFonts, 'bold', plainText(spans), { width: context.width, lineGap: LINE_GAP });
+  doc.font(context.fonts[0].regular).fontSize(BODY_FONT_SIZE);
+  const bodyHeight = doc.currentLineHeight(true) * LINES_KEPT_WITH_HEADING;
+  ensureSpace(context, headingHeight + bodyHeight);
+
+  context.onHeading?.({ depth: heading.depth, text: plainText(spans) }, context.headingCount.value++);
+  writeInline(context, spans, { fontSize, color, fonts: context.headingFonts });
+  doc.moveDown(heading.depth <= 2 ? 0.4 : 0.2);
+}
+
+function renderList(context: RenderContext, list: Tokens.List): void {
+  const { doc } = context;
+  const start = Number(list.start) || 1;
+
+  doc.font(context.fonts[0].regular).fontSize(BODY_FONT_SIZE);
+  const widestMarker = list.ordered ? `${start + list.items.length - 1}.` : '[x]';
+  const markerWidth = Math.max(14, doc.widthOfString(widestMarker) + 6);
+
+  list.items.forEach((item, index) => {
+    const marker = item.task
+      ? (item.checked ? '[x]' : '[ ]')
+      : list.ordered
+        ? `${start + index}.`
+        : LIST_BULLETS[context.listDepth % LIST_BULLETS.length];
+
+    doc.font(context.fonts[0].regular).fontSize(BODY_FONT_SIZE);
+    ensureSpace(context, doc.currentLineHeight(true));
+    const y = doc.y;
+    doc.fillColor(context.color).text(marker, context.left, y, { width: markerWidth, lineBreak: false });
+    doc.y = y;
+
+    renderBlocks(
+      {
+        ...context,
+        left: context.left + markerWidth,
+        width: context.width - markerWidth,
+        listDepth: context.listDepth + 1
+      },
+      item.tokens
+    );
+  });
+
+  if (context.listDepth === 0) {
+    doc.moveDown(0.5);
+  }
+}
+
+function renderTable(context: RenderContext, table: Tokens.Table): void {
+  const { doc } = context;
+  const header = table.header.map(cell => inlineSpans(cell.tokens));
+  const rows = table.rows.map(row => row.map(cell => inlineSpans(cell.tokens)));
+  const widths = columnWidths(context, [header, ...rows]);
+
+  const rowHeight = (cells: InlineSpan[][], bold: boolean) => {
+    doc.fontSize(TABLE_FONT_SIZE);
+    return Math.max(...cells.map((cell, column) =>
+      heightOfText(doc, context.fonts, bold ? 'bold' : 'regular', plainText(cell) || ' ', {
+        width: widths[column] - TABLE_CELL_PADDING * 2,
+        lineGap: LINE_GAP
+      })
+    )) + TABLE_CELL_PADDING * 2;
+  };
+
+  const drawRow = (cells: InlineSpan[][], isHeader: boolean, height: number) => {
+    const y = doc.y;
+    let x = context.left;
+    widths.forEach((width, column) => {
+      doc.lineWidth(0.5).strokeColor(BORDER_COLOR);
+      if (isHeader) {
+        doc.rect(x, y, width, height).fillAndStroke(SHADE_COLOR, BORDER_COLOR);
+      } else {
+        doc.rect(x, y, width, height).stroke();
+      }
+      writeInline(
+        context,
+        (cells[column] ?? []).map(span => (isHeader ? { ...span, bold: true } : span)),
+        {
+          x: x + TABLE_CELL_PADDING,
+          y: y + TABLE_CELL_PADDING,
+          width: width - TABLE_CELL_PADDING * 2,
+          fontSize: TABLE_FONT_SIZE,
+          align: table.align[column] ?? 'left'
+        }
+      );
+      x += width;
+    });
+    doc.y = y + height;
+  };
+
+  const headerHeight = rowHeight(header, true);
+  // The header and the first row stay together
+  ensureSpace(context, headerHeight + (rows.length > 0 ? rowHeight(rows[0], false) : 0));
+  drawRow(header, true, headerHeight);
+
+  for (const row of rows) {
+    const height = rowHeight(row, false);
+    if (!hasSpace(context, height)) {
+      doc.addPage();
+      drawRow(header, true, headerHeight);
+    }
+    drawRow(row, false, height);
+  }
+
+  doc.x = context.left;
+  doc.moveDown(0.8);
+  resetFont(context);
+}
+
+/**
+ * Columns get their natural width when the table fits; otherwise long columns
+ * are capped at half the width and everything is scaled to fill the line.
+ */
+function columnWidths(context: RenderContext, rows: InlineSpan[][][]): number[] {
+  const { doc } = context;
+  const columns = Math.max(...rows.map(row => row.length));
+  doc.fontSize(TABLE_FONT_SIZE);
+
+  const natural = Array.from({ length: columns }, (_, column) =>
+    Math.max(...rows.map(row => widthOfText(doc, context.fonts, 'bold', plainText(row[column] ?? []))), 0) + TABLE_CELL_PADDING * 2
+  );
+  const capped = natural.map(width => Math.max(MIN_COLUMN_WIDTH, Math.min(width, context.width / 2)));
+  const total = capped.reduce((sum, width) => sum + width, 0);
+  return capped.map(width => (width / total) * context.width);
+}
+
+function renderCode(context: RenderContext, code: string): void {
+  const { doc } = context;
+  const padding = 6;
+  const textWidth = context.width - padding * 2;
+  const lines = code.replace(/\n+$/, '').split('\n');
+
+  doc.font(context.codeFonts[0].regular).fontSize(CODE_FONT_SIZE);
+  let index = 0;
+  // Long blocks are split into one shaded box per page
+  while (index < lines.length) {
+    ensureSpace(context, doc.currentLineHeight(true) + padding * 2);
+    const available = pageBottom(doc) - doc.y - padding * 2;
+    const chunk: string[] = [];
+    let height = 0;
+    while (index < lines.length) {
+      const lineHeight = heightOfText(doc, context.codeFonts, 'regular', lines[index] || ' ', { width: textWidth });
+      if (chunk.length > 0 && height + lineHeight > available) break;
+      chunk.push(lines[index] || ' ');
+      height += lineHeight;
+      index++;
+    }
+
+    const y = doc.y;
+    doc.rect(context.left, y, context.width, height + padding * 2).fill(SHADE_COLOR);
+    doc.fillColor('#111827');
+    writeText(doc, context.codeFonts, 'regular', chunk.join('\n'), context.left + padding, y + padding, { width: textWidth });
+    doc.y = y + height + padding * 2;
+  }
+
+  doc.x = context.left;
+  doc.moveDown(0.5);
+  resetFont(context);
+}
+
+function renderBlockquote(context: RenderContext, quote: Tokens.Blockquote): void {
+  const { doc } = context;
+  const indent = 12;
+  const startPage = doc.page;
+  const startY = doc.y;
+
+  renderBlocks(
+    { ...context, left: context.left + indent, width: context.width - indent, color: context.theme.mutedColor },
+    quote.tokens
+  );
+
+  // A quote that ran onto a new page gets its bar from the top margin
+  const barTop = doc.page === startPage ? startY : doc.page.margins.top;
+  doc.lineWidth(2).strokeColor(BORDER_COLOR)
+    .moveTo(context.left + 3, barTop).lineTo(context.left + 3, doc.y).stroke();
+  doc.x = context.left;
+}
+
+function renderRule(context: RenderContext): void {
+  const { doc } = context;
+  ensureSpace(context, 20);
+  doc.moveDown(0.5);
+  doc.lineWidth(1).strokeColor('#E5E7EB')
+    .moveTo(context.left, doc.y).lineTo(context.left + context.width, doc.y).stroke();
+  doc.moveDown(0.8);
+}
+
+/**
+ * Writes a run of styled spans as one flowing paragraph, each span split
+ * further where it needs another font. PDFKit keeps options between continued
+ * calls, so link, underline and strike are set on every run.
+ */
+function writeInline(
+  context: RenderContext,
+  spans: InlineSpan[],
+  options: { x?: number; y?: number; width?: number; fontSize?: number; color?: string; align?: string; fonts?: PdfFontFamily[] } = {}
+): void {
+  const { doc } = context;
+  const parts = spans
+    .filter(span => span.text.length > 0)
+    .flatMap(span => {
+      const fonts = span.code ? context.codeFonts : options.fonts ?? context.fonts;
+      return fontRuns(fonts, fontStyle(span), span.text).map(run => ({ ...span, ...run, fonts }));
+    });
+  if (parts.length === 0) return;
+
+  const color = options.color ?? context.color;
+  doc.fontSize(options.fontSize ?? BODY_FONT_SIZE);
+
+  parts.forEach((span, index) => {
+    const baseline = sharedBaseline(doc, span.fonts, fontStyle(span));
+    doc.font(span.font).fillColor(span.link ? LINK_COLOR : color);
+    const textOptions = {
+      width: options.width ?? context.width,
+      align: options.align ?? 'left',
+      lineGap: LINE_GAP,
+      continued: index < parts.length - 1,
+      link: span.link ?? null,
+      underline: !!span.link,
+      strike: !!span.strike,
+      baseline
+    };
+    if (index === 0) {
+      doc.text(span.text, options.x ?? context.left, options.y, textOptions);
+    } else {
+      doc.text(span.text, textOptions);
+    }
+  });
+
+  resetFont(context);
+}
+
+function inlineSpans(tokens: Token[] = [], style: SpanStyle = {}): InlineSpan[] {
+  return tokens.flatMap((token): InlineSpan[] => {
+    switch (token.type) {
+      case 'strong':
+        return inlineSpans((token as Tokens.Strong).tokens, { ...style, bold: true });
+      case 'em':
+        return inlineSpans((token as Tokens.Em).tokens, { ...style, italic: true });
+      case 'del':
+        return inlineSpans((token as Tokens.Del).tokens, { ...style, strike: true });
+      case 'link': {
+        const link = token as Tokens.Link;
+        return inlineSpans(link.tokens, { ...style, link: safeHref(link.href) });
+      }
+      case 'codespan':
+        return [{ ...style, code: true, text: unescapeHtml((token as Tokens.Codespan).text) }];
+      case 'br':
+        return [{ ...style, text: '\n' }];
+      case 'image':
+        return [{ ...style, text: (token as Tokens.Image).text }];
+      case 'html':
+        return [];
+      case 'text': {
+        const text = token as Tokens.Text;
+        return text.tokens ? inlineSpans(text.tokens, style) : plainSpans(text.text, style);
+      }
+      default:
+        return 'text' in token && typeof token.text === 'string' ? plainSpans(token.text, style) : [];
+    }
+  });
+}
+
+/** Text from the lexer is HTML-escaped and keeps soft line breaks; bare portal domains become links */
+function plainSpans(raw: string, style: SpanStyle = {}): InlineSpan[] {
+  const text = unescapeHtml(raw).replace(/\s*\n\s*/g, ' ');
+  if (style.link || style.code) return [{ ...style, text }];
+
+  const spans: InlineSpan[] = [];
+  let last = 0;
+  for (const match of text.matchAll(BARE_PORTAL_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) spans.push({ ...style, text: text.slice(last, index) });
+    spans.push({ ...style, text: match[0], link: `https://${match[0]}` });
+    last = index + match[0].length;
+  }
+  if (last < text.length) spans.push({ ...style, text: text.slice(last) });
+  return spans;
+}
+
+function safeHref(href: string): string | undefined {
+  if (/^(https?:|mailto:)/i.test(href)) return href;
+  if (/^(www\.|[a-z0-9-]+\.[a-z]{2,})/i.test(href)) return `https://${href}`;
+  return undefined;
+}
+
+function fontStyle(span: InlineSpan): PdfFontStyle {
+  // Code is always upright
+  if (span.code) return span.bold ? 'bold' : 'regular';
+  if (span.bold && span.italic) return 'boldItalic';
+  if (span.bold) return 'bold';
+  if (span.italic) return 'italic';
+  return 'regular';
+}
+
+function plainText(spans: InlineSpan[]): string {
+  return spans.map(span => span.text).join('');
+}
+
+function unescapeHtml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function stripTags(html: string): string {
+  return unescapeHtml(html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ''));
+}
+
+function pageBottom(doc: any): number {
+  return doc.page.height - doc.page.margins.bottom;
+}
+
+function hasSpace(context: RenderContext, height: number): boolean {
+  return context.doc.y + height <= pageBottom(context.doc);
+}
+
+function ensureSpace(context: RenderContext, height: number): void {
+  if (!hasSpace(context, height)) {
+    context.doc.addPage();
+  }
+}
+
+function resetFont(context: RenderContext): void {
+  context.doc.font(context.fonts[0].regular).fontSize(BODY_FONT_SIZE).fillColor(context.color);
+}
@@ -0,0 +1,418 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * Font families for guide PDFs. PDFKit only ships the 14 standard PDF fonts,
+ * which cover Western European text and nothing else, so brand fonts and the
+ * Noto fonts for ₹ and the Indian scripts are fetched from Fontsource (Google
+ * Fonts packaged on npm) and embedded. Each file is copied into the pdf-fonts
+ * bucket the first time it is fetched, so later PDFs do not depend on the CDN.
+ * A brand font that cannot be loaded falls back to the closest standard
+ * family; a missing Indian script font fails the PDF instead, since its text
+ * would not be readable.
+ *
+ * Text is split into runs by the fonts that have glyphs for it (fontRuns):
+ * the family of the text where it can, then the fallback families. PDFKit
+ * shapes each run with fontkit, which handles conjuncts and vowel signs of
+ * the Indic scripts, and wraps lines at spaces.
+ */
+export interface PdfFontFamily {
+  regular: string;
+  bold: string;
+  italic: string;
+  boldItalic: string;
+  /** Whether the family has a glyph for a character */
+  covers: (codePoint: number) => boolean;
+}
+
+export type PdfFontStyle = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+export interface FontFiles {
+  regular: Uint8Array;
+  bold: Uint8Array;
+}
+
+/** A fallback family fetched for a document, ready for registerFontFamily */
+export interface FallbackFontFiles {
+  name: string;
+  files: FontFiles;
+  covers: (codePoint: number) => boolean;
+}
+
+type CodePointRange = [number, number];
+
+const inRanges = (ranges: CodePointRange[]) =>
+  (codePoint: number) => ranges.some(([from, to]) => codePoint >= from && codePoint <= to);
+
+// WinAnsi, the encoding of the standard fonts
+const coversWinAnsi = inRanges([
+  [0x20, 0x7e], [0xa0, 0xff], [0x152, 0x153], [0x160, 0x161], [0x178, 0x178], [0x17d, 0x17e], [0x192, 0x192],
+  [0x2c6, 0x2c6], [0x2dc, 0x2dc], [0x2013, 0x2014], [0x2018, 0x201a], [0x201c, 0x201e], [0x2020, 0x2022],
+  [0x2026, 0x2026], [0x2030, 0x2030], [0x2039, 0x203a], [0x20ac, 0x20ac], [0x2122, 0x2122]
+]);
+
+// Fontsource's latin and latin-ext subsets
+const coversLatin = inRanges([
+  [0x0000, 0x00ff], [0x0131, 0x0131], [0x0152, 0x0153], [0x02bb, 0x02bc], [0x02c6, 0x02c6], [0x02da, 0x02da],
+  [0x02dc, 0x02dc], [0x2000, 0x206f], [0x20ac, 0x20ac], [0x2122, 0x2122], [0x2191, 0x2191], [0x2193, 0x2193],
+  [0x2212, 0x2212], [0x2215, 0x2215], [0xfeff, 0xfeff], [0xfffd, 0xfffd]
+]);
+const coversLatinExtended = inRanges([
+  [0x0100, 0x024f], [0x1e00, 0x1eff], [0x20a0, 0x20ab], [0x20ad, 0x20c0], [0x2c60, 0x2c7f], [0xa720, 0xa7ff]
+]);
+
+export const HELVETICA: PdfFontFamily = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  italic: 'Helvetica-Oblique',
+  boldItalic: 'Helvetica-BoldOblique',
+  covers: coversWinAnsi
+};
+
+export const TIMES: PdfFontFamily = {
+  regular: 'Times-Roman',
+  bold: 'Times-Bold',
+  italic: 'Times-Italic',
+  boldItalic: 'Times-BoldItalic',
+  covers: coversWinAnsi
+};
+
+export const COURIER: PdfFontFamily = {
+  regular: 'Courier',
+  bold: 'Courier-Bold',
+  italic: 'Courier-Oblique',
+  boldItalic: 'Courier-BoldOblique',
+  covers: coversWinAnsi
+};
+
+/**
+ * Fonts a brand can use, all with a 400 and a 700 weight on Fontsource.
+ * Mirrored in src/lib/brand.ts for the brand kit picker.
+ */
+export const BRAND_FONTS: Record<string, { serif: boolean }> = {
+  'Inter': { serif: false },
+  'Roboto': { serif: false },
+  'Open Sans': { serif: false },
+  'Lato': { serif: false },
+  'Montserrat': { serif: false },
+  'Poppins': { serif: false },
+  'Nunito': { serif: false },
+  'Raleway': { serif: false },
+  'Work Sans': { serif: false },
+  'Source Sans 3': { serif: false },
+  'Merriweather': { serif: true },
+  'Playfair Display': { serif: true },
+  'Lora': { serif: true },
+  'PT Serif': { serif: true },
+  'Libre Baskerville': { serif: true },
+  'Roboto Slab': { serif: true }
+};
+
+/**
+ * Indian scripts and their Noto family. Each Fontsource subset holds the
+ * script's Unicode block plus the dandas, the joiners and the dotted circle.
+ */
+export const INDIC_SCRIPTS: Record<string, { family: string; block: CodePointRange }> = {
+  devanagari: { family: 'Noto Sans Devanagari', block: [0x0900, 0x097f] },
+  bengali: { family: 'Noto Sans Bengali', block: [0x0980, 0x09ff] },
+  gurmukhi: { family: 'Noto Sans Gurmukhi', block: [0x0a00, 0x0a7f] },
+  gujarati: { family: 'Noto Sans Gujarati', block: [0x0a80, 0x0aff] },
+  oriya: { family: 'Noto Sans Oriya', block: [0x0b00, 0x0b7f] },
+  tamil: { family: 'Noto Sans Tamil', block: [0x0b80, 0x0bff] },
+  telugu: { family: 'Noto Sans Telugu', block: [0x0c00, 0x0c7f] },
+  kannada: { family: 'Noto Sans Kannada', block: [0x0c80, 0x0cff] },
+  malayalam: { family: 'Noto Sans Malayalam', block: [0x0d00, 0x0d7f] }
+};
+
+/** Script of each document language (ISO 639-1) that is not written in Latin */
+export const LANGUAGE_SCRIPTS: Record<string, string> = {
+  hi: 'devanagari',
+  mr: 'devanagari',
+  ne: 'devanagari',
+  bn: 'bengali',
+  as: 'bengali',
+  pa: 'gurmukhi',
+  gu: 'gujarati',
+  or: 'oriya',
+  ta: 'tamil',
+  te: 'telugu',
+  kn: 'kannada',
+  ml: 'malayalam'
+};
+
+// Written in place of a character no font of the document has
+const SUBSTITUTES: Record<number, string> = {
+  0x20b9: 'Rs.'
+};
+
+const FONTSOURCE_URL = 'https://cdn.jsdelivr.net/npm/@fontsource';
+// Private bucket holding a copy of every font file fetched from Fontsource
+const FONT_BUCKET = 'pdf-fonts';
+const FETCH_TIMEOUT_MS = 5000;
+
+// Kept for the life of the function instance; the same few fonts are used over and over
+const fontFileCache = new Map<string, Promise<Uint8Array | null>>();
+
+/** The Latin regular and bold files of a brand font, or null when it is unknown or unreachable */
+export function fetchBrandFont(family: string, supabaseClient: SupabaseClient): Promise<FontFiles | null> {
+  if (!BRAND_FONTS[family]) return Promise.resolve(null);
+  return fetchFontsourceFiles(family, 'latin', supabaseClient);
+}
+
+/**
+ * The fallback families a document needs: the script of its language, any
+ * other Indian script its text contains, and Noto Sans Latin Extended when
+ * the text has characters beyond WinAnsi such as ₹. Throws FONT_UNAVAILABLE
+ * when an Indian script font cannot be loaded; without Latin Extended, ₹ is
+ * written as Rs.
+ */
+export async function fetchFallbackFonts(
+  text: string,
+  language: string | null | undefined,
+  supabaseClient: SupabaseClient
+): Promise<FallbackFontFiles[]> {
+  const scripts = new Set<string>();
+  const languageScript = language ? LANGUAGE_SCRIPTS[language.split('-')[0].toLowerCase()] : undefined;
+  if (languageScript) scripts.add(languageScript);
+
+  let needsLatinExtended = false;
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    if (coversLatinExtended(codePoint) && !coversWinAnsi(codePoint)) needsLatinExtended = true;
+    for (const [script, { block }] of Object.entries(INDIC_SCRIPTS)) {
+      if (codePoint >= block[0] && codePoint <= block[1]) scripts.add(script);
+    }
+  }
+
+  const wanted: Array<{ name: string; family: string; subset: string; required: boolean; covers: (codePoint: number) => boolean }> = [
+    ...[...scripts].map(script => ({
+      name: INDIC_SCRIPTS[script].family,
+      family: INDIC_SCRIPTS[script].family,
+      subset: script,
+      required: true,
+      covers: inRanges([INDIC_SCRIPTS[script].block, [0x0964, 0x0965], [0x200c, 0x200d], [0x25cc, 0x25cc]])
+    })),
+    ...(needsLatinExtended
+      ? [{ name: 'Noto Sans Latin Extended', family: 'Noto Sans', subset: 'latin-ext', required: false, covers: coversLatinExtended }]
+      : [])
+  ];
+
+  const fetched = await Promise.all(wanted.map(async font => {
+    const files = await fetchFontsourceFiles(font.family, font.subset, supabaseClient);
+    if (!files && font.required) {
+      throw new Error(`FONT_UNAVAILABLE: ${font.family} could not be loaded`);
+    }
+    return files ? { name: font.name, files, covers: font.covers } : null;
+  }));
+  return fetched.filter((font): font is FallbackFontFiles => !!font);
+}
+
+/**
+ * Registers fetched files under `name` and returns the family. Fonts are
+ * fetched without italics, so emphasis keeps the upright face.
+ */
+export function registerFontFamily(
+  doc: any,
+  name: string,
+  files: FontFiles,
+  covers: (codePoint: number) => boolean = coversLatin
+): PdfFontFamily {
+  doc.registerFont(name, files.regular);
+  doc.registerFont(`${name}-Bold`, files.bold);
+  return { regular: name, bold: `${name}-Bold`, italic: name, boldItalic: `${name}-Bold`, covers };
+}
+
+/** The standard family that looks most like a brand font */
+export function fallbackFontFamily(family: string | null | undefined): PdfFontFamily {
+  return family && BRAND_FONTS[family]?.serif ? TIMES : HELVETICA;
+}
+
+/**
+ * Splits text into runs that one font can draw, trying `fonts` in order.
+ * Spaces and joiners stay in the run they are in, so a line of Hindi is one
+ * run and is shaped as a whole.
+ */
+export function fontRuns(fonts: PdfFontFamily[], style: PdfFontStyle, text: string): Array<{ font: string; text: string }> {
+  const runs: Array<{ font: string; text: string }> = [];
+  let current = 0;
+
+  const place = (char: string) => {
+    const codePoint = char.codePointAt(0)!;
+    const neutral = /\s/.test(char) || codePoint === 0x200c || codePoint === 0x200d;
+    if (!neutral && !fonts[current].covers(codePoint)) {
+      const index = fonts.findIndex(family => family.covers(codePoint));
+      if (index === -1 && SUBSTITUTES[codePoint]) {
+        for (const substitute of SUBSTITUTES[codePoint]) place(substitute);
+        return;
+      }
+      if (index !== -1) current = index;
+    }
+
+    const font = fonts[current][style];
+    const last = runs[runs.length - 1];
+    if (last?.font === font) {
+      last.text += char;
+    } else {
+      runs.push({ font, text: char });
+    }
+  };
+
+  for (const char of text) place(char);
+  return runs;
+}
+
+/**
+ * The baseline option that keeps runs from fallback fonts on the line of the
+ * first font. PDFKit places each run by its own font's ascender, which would
+ * drop Devanagari below the Latin text next to it. Leaves the first font
+ * selected.
+ */
+export function sharedBaseline(doc: any, fonts: PdfFontFamily[], style: PdfFontStyle): number | undefined {
+  if (fonts.length < 2) return undefined;
+  // pdfkit has no public accessor for font metrics
+  const ascender = doc.font(fonts[0][style])._font.ascender;
+  return -(ascender / 1000) * doc._fontSize;
+}
+
+/** Width of text at the current font size, each run measured in its own font */
+export function widthOfText(doc: any, fonts: PdfFontFamily[], style: PdfFontStyle, text: string): number {
+  return fontRuns(fonts, style, text).reduce((width, run) => width + doc.font(run.font).widthOfString(run.text), 0);
+}
+
+/**
+ * Height of text wrapped to options.width. Text in one font is measured by
+ * PDFKit; mixed text is wrapped at spaces the way PDFKit wraps it.
+ */
+export function heightOfText(
+  doc: any,
+  fonts: PdfFontFamily[],
+  style: PdfFontStyle,
+  text: string,
+  options: { width: number; lineGap?: number }
+): number {
+  const runs = fontRuns(fonts, style, text);
+  if (runs.length <= 1) {
+    return doc.font(runs[0]?.font ?? fonts[0][style]).heightOfString(runs[0]?.text ?? text, options);
+  }
+
+  let lines = 0;
+  for (const paragraph of text.split('\n')) {
+    let lineWidth = 0;
+    lines++;
+    for (const word of paragraph.match(/\S+\s*/g) ?? []) {
+      const wordWidth = widthOfText(doc, fonts, style, word);
+      if (lineWidth > 0 && lineWidth + wordWidth > options.width) {
+        lines++;
+        lineWidth = 0;
+      }
+      // Words wider than the line are broken across lines
+      lines += Math.max(0, Math.ceil(wordWidth / options.width) - 1);
+      lineWidth = wordWidth > options.width ? wordWidth % options.width : lineWidth + wordWidth;
+    }
+  }
+
+  const lineHeight = Math.max(...runs.map(run => doc.font(run.font).currentLineHeight(true)));
+  return lines * (lineHeight + (options.lineGap ?? 0));
+}
+
+/**
+ * doc.text for text that may need several fonts. PDFKit aligns each
+ * continued run on its own, so centered and right-aligned lines that fit are
+ * positioned here instead.
+ */
+export function writeText(
+  doc: any,
+  fonts: PdfFontFamily[],
+  style: PdfFontStyle,
+  text: string,
+  x?: number,
+  y?: number,
+  options: Record<string, any> = {}
+): void {
+  const runs = fontRuns(fonts, style, text);
+  if (runs.length === 0) return;
+  // pdfkit reads an undefined x as the options object, so pass the position explicitly
+  const start: number = x ?? doc.x;
+  const top: number = y ?? doc.y;
+  const baseline = sharedBaseline(doc, fonts, style);
+  if (runs.length === 1) {
+    doc.font(runs[0].font).text(runs[0].text, start, top, { ...options, baseline });
+    return;
+  }
+
+  let textOptions: Record<string, any> = { ...options, baseline };
+  let first = start;
+  if (options.align === 'center' || options.align === 'right') {
+    const width = options.width ?? doc.page.width - start - doc.page.margins.right;
+    const textWidth = widthOfText(doc, fonts, style, text);
+    if (textWidth <= width) {
+      first = start + (options.align === 'center' ? (width - textWidth) / 2 : width - textWidth);
+      textOptions = { ...textOptions, align: 'left', width: textWidth + 1 };
+    }
+  }
+
+  runs.forEach((run, index) => {
+    const runOptions = { ...textOptions, continued: index < runs.length - 1 || !!options.continued };
+    if (index === 0) {
+      doc.font(run.font).text(run.text, first, top, runOptions);
+    } else {
+      doc.font(run.font).text(run.text, runOptions);
+    }
+  });
+
+  // Text written after this starts at the left edge again, not at the shifted line
+  if (first !== start) doc.x = start;
+}
+
+async function fetchFontsourceFiles(family: string, subset: string, supabaseClient: SupabaseClient): Promise<FontFiles | null> {
+  const id = family.toLowerCase().replace(/\s+/g, '-');
+  const [regular, bold] = await Promise.all([
+    loadFontFile(`${id}/${id}-${subset}-400-normal.woff`, supabaseClient),
+    loadFontFile(`${id}/${id}-${subset}-700-normal.woff`, supabaseClient)
+  ]);
+  return regular && bold ? { regular, bold } : null;
+}
+
+/** A font file from the pdf-fonts bucket, or from Fontsource and then copied into the bucket */
+function loadFontFile(path: string, supabaseClient: SupabaseClient): Promise<Uint8Array | null> {
+  let file = fontFileCache.get(path);
+  if (!file) {
+    file = readStoredFontFile(path, supabaseClient)
+      .then(async stored => stored ?? await fetchAndStoreFontFile(path, supabaseClient))
+      .then(loaded => {
+        // Try again on the next PDF rather than caching the failure
+        if (!loaded) fontFileCache.delete(path);
+        return loaded;
+      });
+    fontFileCache.set(path, file);
+  }
+  return file;
+}
+
+async function readStoredFontFile(path: string, supabaseClient: SupabaseClient): Promise<Uint8Array | null> {
+  const { data, error } = await supabaseClient.storage.from(FONT_BUCKET).download(path);
+  if (error || !data) return null;
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+async function fetchAndStoreFontFile(path: string, supabaseClient: SupabaseClient): Promise<Uint8Array | null> {
+  const [id, fileName] = path.split('/');
+  const url = `${FONTSOURCE_URL}/${id}@5/files/${fileName}`;
+
+  let file: Uint8Array;
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    file = new Uint8Array(await response.arrayBuffer());
+  } catch (error) {
+    console.error(`Could not fetch font ${url}:`, error);
+    return null;
+  }
+
+  const { error: uploadError } = await supabaseClient.storage
+    .from(FONT_BUCKET)
+    .upload(path, file, { contentType: 'font/woff', upsert: true });
+  if (uploadError) {
+    console.warn(`Could not store font ${path}, it will be fetched again:`, uploadError);
+  }
+  return file;
+}
@@ -1,18 +1,44 @@
-import { createClient } from 'npm:@supabase/supabase-js@2';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { collectHeadings, renderMarkdown, type MarkdownHeading } from './markdownPdf.ts';
+import { isReadableOnWhite, type BrandTheme } from './brandTheme.ts';
+import { resolveLanguage } from './languages.ts';
+import {
+  fallbackFontFamily,
+  fetchBrandFont,
+  fetchFallbackFonts,
+  heightOfText,
+  registerFontFamily,
+  writeText,
+  type FallbackFontFiles,
+  type FontFiles,
+  type PdfFontFamily
+} from './pdfFonts.ts';
 
 export interface PDFGenerationOptions {
   userId: string;
-  documentType: 'registration' | 'branding' | 'compliance' | 'hr';
+  documentType: 'registration' | 'branding' | 'compliance' | 'hr' | 'financial_planning';
   content: string;
   businessName?: string;
+  /** With a version, each generation gets its own file instead of overwriting the day's PDF */
+  version?: { sessionId: string; number: number };
+  /** The business's palette, fonts and logo, when it has brand theming turned on */
+  brand?: BrandTheme | null;
+  /** Stores the PDF at this path instead of naming one, e.g. for a restyled copy of a guide */
+  fileName?: string;
+  /** ISO 639-1 code of the language the guide is written in, e.g. "hi"; picks the fonts for its script and the language of the title, contents and footer */
+  language?: string | null;
 }
 
+/**
+ * Renders the guide and uploads it to the private business-documents bucket.
+ * Only the storage path is returned; the documents function signs download URLs.
+ */
 export async function generateAndStorePDF(
   options: PDFGenerationOptions,
-  supabaseClient: ReturnType<typeof createClient>
-): Promise<{ pdfUrl: string; fileName: string } | null> {
+  supabaseClient: SupabaseClient
+): Promise<{ fileName: string } | null> {
   try {
-    const { userId, documentType, content, businessName = 'Business' } = options;
+    const { userId, documentType, content, businessName = 'Business', version, brand = null, language = null } = options;
 
     if (!content || content.trim().length === 0) {
       console.error('Cannot generate PDF: content is empty');
@@ -26,9 +52,11 @@ export async function generateAndStorePDF(
     console.log(`Starting PDF generation for ${documentType}, content length: ${content.length} chars`);
 
     const timestamp = new Date().toISOString().split('T')[0];
-    const fileName = `${userId}/${documentType}/${documentType}-guide-${timestamp}.pdf`;
+    const fileName = options.fileName ?? (version
+      ? `${userId}/${documentType}/${version.sessionId}/${documentType}-guide-v${version.number}-${timestamp}.pdf`
+      : `${userId}/${documentType}/${documentType}-guide-${timestamp}.pdf`);
 
-    const pdfBuffer = await generatePDFBuffer(content, documentType, businessName);
+    const pdfBuffer = await generatePDFBuffer(content, documentType, businessName, brand, language, supabaseClient);
     console.log(`PDF buffer generated successfully, size: ${pdfBuffer.length} bytes`);
 
     // Ensure the folder structure exists by attempting to create it if needed
@@ -66,14 +94,7 @@ export async function generateAndStorePDF(
     console.log(`PDF uploaded successfully to: ${fileName}`);
     console.log(`Upload data:`, JSON.stringify(uploadData));
 
-    const { data: urlData } = supabaseClient.storage
-      .from('business-documents')
-      .getPublicUrl(fileName);
-
-    return {
-      pdfUrl: urlData.publicUrl,
-      fileName: fileName
-    };
+    return { fileName };
   } catch (error) {
     console.error('Error in generateAndStorePDF:', error);
     console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
@@ -82,10 +103,109 @@ export async function generateAndStorePDF(
   }
 }
 
+interface PdfLabels {
+  titles: Record<string, string>;
+  defaultTitle: string;
+  generatedFor: (businessName: string) => string;
+  date: string;
+  /** BCP 47 locale the date is written in */
+  locale: string;
+  contents: string;
+  footer: string;
+  page: (page: number, count: number) => string;
+}
+
+// Text the PDF adds around the guide, in each language a guide can be written in
+const LABELS: Record<string, PdfLabels> = {
+  en: {
+    titles: {
+      registration: 'Company Registration Guide',
+      branding: 'Branding Strategy Guide',
+      compliance: 'Compliance & Legal Guide',
+      hr: 'HR Setup Guide',
+      financial_planning: 'Financial Planning Guide'
+    },
+    defaultTitle: 'Business Guide',
+    generatedFor: businessName => `Generated for: ${businessName}`,
+    date: 'Date',
+    locale: 'en-US',
+    contents: 'Contents',
+    footer: 'Generated by StartUP Companion - Your Business Launch Partner',
+    page: (page, count) => `Page ${page} of ${count}`
+  },
+  hi: {
+    titles: {
+      registration: 'कंपनी रजिस्ट्रेशन गाइड',
+      branding: 'ब्रांडिंग रणनीति गाइड',
+      compliance: 'नियम पालन और कानूनी गाइड',
+      hr: 'HR सेटअप गाइड',
+      financial_planning: 'वित्तीय योजना गाइड'
+    },
+    defaultTitle: 'बिज़नेस गाइड',
+    generatedFor: businessName => `${businessName} के लिए तैयार`,
+    date: 'तारीख',
+    locale: 'hi-IN',
+    contents: 'विषय सूची',
+    footer: 'StartUP Companion द्वारा तैयार - आपके बिज़नेस लॉन्च का साथी',
+    page: (page, count) => `पृष्ठ ${page} / ${count}`
+  },
+  mr: {
+    titles: {
+      registration: 'कंपनी नोंदणी मार्गदर्शक',
+      branding: 'ब्रँडिंग धोरण मार्गदर्शक',
+      compliance: 'नियमपालन व कायदेशीर मार्गदर्शक',
+      hr: 'HR सेटअप मार्गदर्शक',
+      financial_planning: 'आर्थिक नियोजन मार्गदर्शक'
+    },
+    defaultTitle: 'व्यवसाय मार्गदर्शक',
+    generatedFor: businessName => `${businessName} साठी तयार`,
+    date: 'दिनांक',
+    locale: 'mr-IN',
+    contents: 'अनुक्रमणिका',
+    footer: 'StartUP Companion ने तयार केले - तुमच्या व्यवसाय सुरुवातीचा साथीदार',
+    page: (page, count) => `पान ${page} / ${count}`
+  },
+  ta: {
+    titles: {
+      registration: 'நிறுவனப் பதிவு வழிகாட்டி',
+      branding: 'பிராண்டிங் உத்தி வழிகாட்டி',
+      compliance: 'இணக்கம் & சட்ட வழிகாட்டி',
+      hr: 'HR அமைப்பு வழிகாட்டி',
+      financial_planning: 'நிதித் திட்டமிடல் வழிகாட்டி'
+    },
+    defaultTitle: 'தொழில் வழிகாட்டி',
+    generatedFor: businessName => `${businessName} க்காக உருவாக்கப்பட்டது`,
+    date: 'தேதி',
+    locale: 'ta-IN',
+    contents: 'பொருளடக்கம்',
+    footer: 'StartUP Companion உருவாக்கியது - உங்கள் தொழில் தொடக்கத் துணை',
+    page: (page, count) => `பக்கம் ${page} / ${count}`
+  }
+};
+
+const COLORS: Record<string, string> = {
+  registration: '#3B82F6',
+  branding: '#9333EA',
+  compliance: '#10B981',
+  hr: '#F97316',
+  financial_planning: '#14B8A6'
+};
+
+// Headings down to ## go in the contents and the bookmarks
+const CONTENTS_MAX_DEPTH = 2;
+// A guide with fewer sections than this gets no contents page
+const MIN_CONTENTS_ENTRIES = 3;
+const CONTENTS_FONT_SIZE = 10.5;
+
+const sectionDestination = (index: number) => `section-${index}`;
+
 async function generatePDFBuffer(
   content: string,
   documentType: string,
-  businessName: string
+  businessName: string,
+  brand: BrandTheme | null,
+  language: string | null,
+  supabaseClient: SupabaseClient
 ): Promise<Uint8Array> {
   let PDFDocument;
   try {
@@ -95,6 +215,13 @@ async function generatePDFBuffer(
     throw new Error('PDF library import failed');
   }
 
+  // Fetched before rendering starts, since drawing cannot wait on the network
+  const [headingFontFiles, bodyFontFiles, fallbackFontFiles] = await Promise.all([
+    brand?.headingFont ? fetchBrandFont(brand.headingFont, supabaseClient) : null,
+    brand?.bodyFont ? fetchBrandFont(brand.bodyFont, supabaseClient) : null,
+    fetchFallbackFonts(`${businessName}\n${content}`, language, supabaseClient)
+  ]);
+
   return new Promise((resolve, reject) => {
     const timeoutId = setTimeout(() => {
       reject(new Error('PDF generation timeout after 30 seconds'));
@@ -102,9 +229,18 @@ async function generatePDFBuffer(
 
     try {
       const chunks: Uint8Array[] = [];
+      const labels = LABELS[resolveLanguage(language)];
+      const title = labels.titles[documentType] || labels.defaultTitle;
+      const primaryColor = brandAccentColor(brand) ?? COLORS[documentType] ?? '#3B82F6';
+
+      // Buffered pages stay open so the contents and "Page X of Y" can be filled in at the end
       const doc = new PDFDocument({
         size: 'A4',
-        margins: { top: 50, bottom: 50, left: 50, right: 50 }
+        margins: { top: 50, bottom: 50, left: 50, right: 50 },
+        bufferPages: true,
+        displayTitle: true,
+        lang: language || 'en',
+        info: { Title: `${title} - ${businessName}`, Author: 'StartUP Companion' }
       });
 
       doc.on('data', (chunk: Uint8Array) => chunks.push(chunk));
@@ -132,117 +268,79 @@ async function generatePDFBuffer(
         reject(error);
       });
 
-      const titleMap: Record<string, string> = {
-        registration: 'Company Registration Guide',
-        branding: 'Branding Strategy Guide',
-        compliance: 'Compliance & Legal Guide',
-        hr: 'HR Setup Guide'
-      };
-
-      const colorMap: Record<string, string> = {
-        registration: '#3B82F6',
-        branding: '#9333EA',
-        compliance: '#10B981',
-        hr: '#F97316'
-      };
+      const headingFonts = brandFontFamily(doc, 'BrandHeading', brand?.headingFont, headingFontFiles);
+      const bodyFonts = brandFontFamily(doc, 'BrandBody', brand?.bodyFont, bodyFontFiles);
+      const fallbackFonts = registerFallbackFonts(doc, fallbackFontFiles);
+      const headingChain = [headingFonts, ...fallbackFonts];
+      const bodyChain = [bodyFonts, ...fallbackFonts];
 
-      const title = titleMap[documentType] || 'Business Guide';
-      const primaryColor = colorMap[documentType] || '#3B82F6';
+      if (brand) {
+        drawBrandCover(doc, brand, primaryColor);
+      }
 
-      doc.fontSize(24)
-        .fillColor(primaryColor)
-        .text(title, { align: 'center' });
+      doc.fontSize(24).fillColor(primaryColor);
+      writeText(doc, headingChain, 'regular', title, undefined, undefined, { align: 'center' });
 
       doc.moveDown(0.5);
-      doc.fontSize(14)
-        .fillColor('#6B7280')
-        .text(`Generated for: ${businessName}`, { align: 'center' });
+      doc.fontSize(14).fillColor('#6B7280');
+      writeText(doc, bodyChain, 'regular', labels.generatedFor(businessName), undefined, undefined, { align: 'center' });
 
       doc.moveDown(0.3);
-      doc.fontSize(10)
-        .fillColor('#9CA3AF')
-        .text(`Date: ${new Date().toLocaleDateString('en-US', {
-          year: 'numeric',
-          month: 'long',
-          day: 'numeric'
-        })}`, { align: 'center' });
+      doc.fontSize(10).fillColor('#9CA3AF');
+      writeText(doc, bodyChain, 'regular', `${labels.date}: ${new Date().toLocaleDateString(labels.locale, {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric'
+      })}`, undefined, undefined, { align: 'center' });
 
       doc.moveDown(2);
       doc.strokeColor('#E5E7EB').lineWidth(1).moveTo(50, doc.y).lineTo(545, doc.y).stroke();
       doc.moveDown(1);
 
-      const lines = content.split('\n');
-      let currentFontSize = 11;
-      let currentColor = '#1F2937';
+      const headings = collectHeadings(content);
+      const contents = headings
+        .map((heading, index) => ({ ...heading, index }))
+        .filter(heading => heading.depth <= CONTENTS_MAX_DEPTH);
+      const contentsLines = contents.length >= MIN_CONTENTS_ENTRIES ? drawContents(doc, contents, labels.contents, primaryColor, headingChain, bodyChain) : [];
+      if (contentsLines.length > 0) {
+        doc.addPage();
+      }
 
-      for (const line of lines) {
-        if (doc.y > 720) {
-          doc.addPage();
-        }
+      // Pages are counted from 0 here, as switchToPage expects
+      const headingPages = new Map<number, number>();
+      let chapter: any = null;
 
-        const trimmedLine = line.trim();
-
-        if (trimmedLine.startsWith('# ')) {
-          doc.moveDown(0.8);
-          doc.fontSize(18).fillColor(primaryColor).text(trimmedLine.substring(2), {
-            continued: false
-          });
-          doc.moveDown(0.5);
-          currentFontSize = 11;
-          currentColor = '#1F2937';
-        } else if (trimmedLine.startsWith('## ')) {
-          doc.moveDown(0.6);
-          doc.fontSize(14).fillColor(primaryColor).text(trimmedLine.substring(3), {
-            continued: false
-          });
-          doc.moveDown(0.3);
-          currentFontSize = 11;
-          currentColor = '#1F2937';
-        } else if (trimmedLine.startsWith('### ')) {
-          doc.moveDown(0.4);
-          doc.fontSize(12).fillColor('#374151').text(trimmedLine.substring(4), {
-            continued: false
-          });
-          doc.moveDown(0.2);
-          currentFontSize = 11;
-          currentColor = '#1F2937';
-        } else if (trimmedLine.startsWith('- ') || trimmedLine.startsWith('* ')) {
-          doc.fontSize(11).fillColor('#1F2937');
-          const bulletText = trimmedLine.substring(2);
-          doc.list([bulletText], {
-            bulletRadius: 2,
-            textIndent: 20,
-            bulletIndent: 10
-          });
-        } else if (trimmedLine.startsWith('**') && trimmedLine.endsWith('**')) {
-          doc.moveDown(0.2);
-          doc.fontSize(11).fillColor('#374151').font('Helvetica-Bold')
-            .text(trimmedLine.replace(/\*\*/g, ''), { continued: false });
-          doc.font('Helvetica');
-          currentFontSize = 11;
-          currentColor = '#1F2937';
-        } else if (trimmedLine.length > 0) {
-          doc.fontSize(currentFontSize).fillColor(currentColor);
-          const cleanText = trimmedLine.replace(/\*\*/g, '');
-          doc.text(cleanText, {
-            align: 'left',
-            continued: false
-          });
-        } else {
-          doc.moveDown(0.3);
+      renderMarkdown(doc, content, {
+        accentColor: primaryColor,
+        textColor: '#1F2937',
+        mutedColor: '#6B7280',
+        bodyFont: bodyFonts,
+        headingFont: headingFonts,
+        fallbackFonts
+      }, {
+        onHeading: (heading, index) => {
+          if (heading.depth > CONTENTS_MAX_DEPTH) return;
+
+          const { start, count } = doc.bufferedPageRange();
+          headingPages.set(index, start + count - 1);
+          doc.addNamedDestination(sectionDestination(index), 'XYZ', null, doc.y, null);
+
+          // Bookmarks: top-level headings open to show their sections
+          const parent = heading.depth === 1 || !chapter ? doc.outline : chapter;
+          const item = parent.addItem(heading.text, { expanded: true });
+          if (heading.depth === 1) chapter = item;
         }
+      });
+
+      for (const line of contentsLines) {
+        const page = headingPages.get(line.index);
+        if (page === undefined) continue;
+        doc.switchToPage(line.page);
+        doc.font(bodyFonts.regular).fontSize(CONTENTS_FONT_SIZE).fillColor('#6B7280')
+          .text(String(page + 1), 50, line.y, { width: 495, align: 'right', lineBreak: false });
       }
 
-      doc.moveDown(2);
-      const footerY = 750;
-      doc.fontSize(8)
-        .fillColor('#9CA3AF')
-        .text(
-          'Generated by StartUP Companion - Your Business Launch Partner',
-          50,
-          footerY,
-          { align: 'center', width: 495 }
-        );
+      drawRunningHeadersAndFooters(doc, title, businessName, labels, bodyChain);
 
       doc.end();
     } catch (error) {
@@ -252,3 +350,147 @@ async function generatePDFBuffer(
     }
   });
 }
+
+/**
+ * Lists the headings under the title block, each linked to its section. Page
+ * numbers are not known yet, so the position of each line is returned for
+ * writing them once the guide has been rendered.
+ */
+function drawContents(
+  doc: any,
+  headings: Array<MarkdownHeading & { index: number }>,
+  label: string,
+  accentColor: string,
+  headingFonts: PdfFontFamily[],
+  bodyFonts: PdfFontFamily[]
+): Array<{ index: number; page: number; y: number }> {
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const numberWidth = 30;
+
+  doc.fontSize(14).fillColor(accentColor);
+  writeText(doc, headingFonts, 'bold', label, left, doc.y);
+  doc.moveDown(0.5);
+
+  const lines = headings.map(heading => {
+    const indent = heading.depth === 1 ? 0 : 14;
+    const textWidth = width - indent - numberWidth;
+    const style = heading.depth === 1 ? 'bold' : 'regular';
+    doc.fontSize(CONTENTS_FONT_SIZE);
+    const height = heightOfText(doc, bodyFonts, style, heading.text, { width: textWidth });
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+
+    const { start, count } = doc.bufferedPageRange();
+    const y = doc.y;
+    doc.fillColor('#1F2937');
+    writeText(doc, bodyFonts, style, heading.text, left + indent, y, {
+      width: textWidth,
+      goTo: sectionDestination(heading.index)
+    });
+    doc.y = y + height + 4;
+    return { index: heading.index, page: start + count - 1, y };
+  });
+
+  doc.font(bodyFonts[0].regular);
+  return lines;
+}
+
+/**
+ * Business name and guide title above every page but the first, and the
+ * footer with "Page X of Y" below every page. The bottom margin is lifted
+ * while writing the footer, or PDFKit would start a new page for text below it.
+ */
+function drawRunningHeadersAndFooters(doc: any, title: string, businessName: string, labels: PdfLabels, fonts: PdfFontFamily[]): void {
+  const { start, count } = doc.bufferedPageRange();
+
+  for (let page = start; page < start + count; page++) {
+    doc.switchToPage(page);
+    const { margins, height } = doc.page;
+    const left = margins.left;
+    const width = doc.page.width - margins.left - margins.right;
+    const half = width / 2 - 10;
+    const bottomMargin = margins.bottom;
+    margins.bottom = 0;
+
+    doc.font(fonts[0].regular).fontSize(8).fillColor('#9CA3AF');
+    if (page > start) {
+      writeText(doc, fonts, 'regular', businessName, left, margins.top - 28, { width: half, height: 10, ellipsis: true, lineBreak: false });
+      writeText(doc, fonts, 'regular', title, left + width - half, margins.top - 28, { width: half, align: 'right', lineBreak: false });
+      doc.strokeColor('#E5E7EB').lineWidth(0.5)
+        .moveTo(left, margins.top - 14).lineTo(left + width, margins.top - 14).stroke();
+    }
+
+    const footerY = height - bottomMargin + 18;
+    writeText(doc, fonts, 'regular', labels.footer, left, footerY, { width: half, lineBreak: false });
+    writeText(doc, fonts, 'regular', labels.page(page - start + 1, count), left + width - half, footerY, { width: half, align: 'right', lineBreak: false });
+
+    margins.bottom = bottomMargin;
+  }
+}
+
+/**
+ * The brand color used for the cover band and headings: the primary color,
+ * or the secondary when the primary is too pale to read on white paper.
+ */
+function brandAccentColor(brand: BrandTheme | null): string | null {
+  return [brand?.primaryColor, brand?.secondaryColor].find(
+    (color): color is string => !!color && isReadableOnWhite(color)
+  ) ?? null;
+}
+
+/** Registers the fallback families, leaving out any that PDFKit cannot read */
+function registerFallbackFonts(doc: any, fonts: FallbackFontFiles[]): PdfFontFamily[] {
+  return fonts.flatMap(font => {
+    try {
+      return [registerFontFamily(doc, font.name, font.files, font.covers)];
+    } catch (error) {
+      console.error(`Could not embed font ${font.name}:`, error);
+      return [];
+    }
+  });
+}
+
+/** A brand font registered on the document, or the closest standard family */
+function brandFontFamily(doc: any, name: string, family: string | null | undefined, files: FontFiles | null): PdfFontFamily {
+  if (files) {
+    try {
+      return registerFontFamily(doc, name, files);
+    } catch (error) {
+      console.error(`Could not embed font ${family}:`, error);
+    }
+  }
+  return fallbackFontFamily(family);
+}
+
+/**
+ * A band in the brand colors across the top of the first page, where later
+ * pages have their running header, and the logo centered under it. The
+ * title block is written below the logo.
+ */
+function drawBrandCover(doc: any, brand: BrandTheme, accentColor: string): void {
+  const pageWidth = doc.page.width;
+  doc.rect(0, 0, pageWidth, 28).fill(accentColor);
+  if (brand.secondaryColor && brand.secondaryColor !== accentColor) {
+    doc.rect(0, 28, pageWidth, 6).fill(brand.secondaryColor);
+  }
+  doc.y = doc.page.margins.top + 10;
+
+  if (brand.logo) {
+    try {
+      const logoWidth = 160;
+      const logoHeight = 80;
+      // PDFKit takes images as a Buffer or an ArrayBuffer, not a Uint8Array
+      doc.image(brand.logo.slice().buffer, (pageWidth - logoWidth) / 2, doc.y, {
+        fit: [logoWidth, logoHeight],
+        align: 'center',
+        valign: 'center'
+      });
+      doc.y += logoHeight + 20;
+    } catch (error) {
+      console.error('Could not place the logo on the cover:', error);
+    }
+  }
+  doc.x = doc.page.margins.left;
+}
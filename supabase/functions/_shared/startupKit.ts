@@ -0,0 +1,103 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { strToU8, zipSync, type Zippable } from 'npm:fflate@0.8.2';
+import type { GuideStructuredData } from './guideData.ts';
+import { isOwnedStoragePath } from './storagePaths.ts';
+
+export interface KitDocument {
+  user_id: string;
+  document_type: string;
+  document_title: string;
+  full_content: string | null;
+  structured_data: GuideStructuredData | null;
+  pdf_file_name: string | null;
+  current_version: number | null;
+  updated_at: string;
+}
+
+// Spreadsheet apps read the CSVs as UTF-8 (₹, Indic names) only with a byte order mark
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Zips the guides of a business into one download:
+ *
+ *   index.md                          cover listing the guides and their files
+ *   pdf/<type>-guide.pdf
+ *   markdown/<type>-guide.md
+ *   checklists/<type>-checklist.csv   only for guides with a checklist
+ *
+ * A PDF that cannot be read from storage is left out and noted in the index,
+ * so one missing file does not cost the user the whole kit.
+ */
+export async function buildStartupKit(
+  businessName: string,
+  documents: KitDocument[],
+  supabaseClient: SupabaseClient
+): Promise<Uint8Array> {
+  const files: Zippable = {};
+  const indexEntries: string[] = [];
+
+  for (const doc of documents) {
+    const slug = doc.document_type.replace(/_/g, '-');
+    const lines = [`## ${doc.document_title}`, ''];
+    lines.push(`Version ${doc.current_version ?? 1}, updated ${formatDate(doc.updated_at)}.`, '');
+
+    const pdf = doc.pdf_file_name && isOwnedStoragePath(doc.user_id, doc.pdf_file_name)
+      ? await downloadPdf(doc.pdf_file_name, supabaseClient)
+      : null;
+    if (pdf) {
+      files[`pdf/${slug}-guide.pdf`] = pdf;
+      lines.push(`- PDF: pdf/${slug}-guide.pdf`);
+    } else {
+      lines.push('- PDF: not available, read the Markdown copy instead');
+    }
+
+    files[`markdown/${slug}-guide.md`] = strToU8(doc.full_content || '');
+    lines.push(`- Markdown: markdown/${slug}-guide.md`);
+
+    const checklist = doc.structured_data?.checklist ?? [];
+    if (checklist.length > 0) {
+      files[`checklists/${slug}-checklist.csv`] = strToU8(checklistToCsv(checklist));
+      lines.push(`- Checklist: checklists/${slug}-checklist.csv (${checklist.length} items)`);
+    }
+
+    indexEntries.push(lines.join('\n'));
+  }
+
+  const index = [
+    `# ${businessName} - Startup Kit`,
+    '',
+    `Generated on ${formatDate(new Date().toISOString())} by StartUP Companion.`,
+    '',
+    ...indexEntries.flatMap(entry => [entry, ''])
+  ].join('\n');
+  files['index.md'] = strToU8(index);
+
+  return zipSync(files, { level: 6 });
+}
+
+async function downloadPdf(fileName: string, supabaseClient: SupabaseClient): Promise<Uint8Array | null> {
+  const { data, error } = await supabaseClient.storage
+    .from('business-documents')
+    .download(fileName);
+
+  if (error || !data) {
+    console.error(`Error reading ${fileName} for the startup kit:`, error);
+    return null;
+  }
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+function checklistToCsv(checklist: GuideStructuredData['checklist']): string {
+  const rows = [['Done', 'Category', 'Item'], ...checklist.map(entry => ['', entry.category, entry.item])];
+  return UTF8_BOM + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function csvField(value: string): string {
+  // Spreadsheet apps run a cell starting with =, +, -, @ (or a tab or CR) as a formula
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
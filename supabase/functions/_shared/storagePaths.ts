@@ -0,0 +1,10 @@
+/**
+ * Everything a user stores in the business-documents bucket (guide PDFs, kits,
+ * logos) sits under a folder named after their id. Paths read from rows the
+ * owner can write, such as pdf_file_name or logo_design_url, must be checked
+ * with this before the service role signs, downloads or removes them; any
+ * other path could be another user's file.
+ */
+export function isOwnedStoragePath(ownerId: string, path: string): boolean {
+  return path.startsWith(`${ownerId}/`) && !path.split('/').includes('..');
+}
@@ -0,0 +1,294 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, createServiceClient, describePartners, loadBusinessProfile } from '../_shared/guru.ts';
+import { getLLMProvider, parseJsonResponse, type ChatMessage } from '../_shared/llm.ts';
+import { splitGuideSections } from '../_shared/guideSections.ts';
+import { languageInstruction, resolveLanguage } from '../_shared/languages.ts';
+
+interface AskPayload {
+  sessionId: string;
+  question: string;
+  /** Earlier questions and answers of this conversation, oldest first */
+  history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+  /** Language to answer in, e.g. "hi"; English when missing */
+  language?: string;
+}
+
+interface SourceSection {
+  /** Short id the model cites, e.g. "S4" */
+  id: string;
+  documentId: string;
+  documentType: string;
+  documentTitle: string;
+  sectionTitle: string;
+  content: string;
+  score: number;
+}
+
+interface Citation {
+  documentId: string;
+  documentType: string;
+  documentTitle: string;
+  sectionTitle: string;
+}
+
+const MAX_QUESTION_LENGTH = 1000;
+const MAX_HISTORY_MESSAGES = 6;
+const MAX_HISTORY_MESSAGE_LENGTH = 2000;
+// Roughly 6k tokens of guide text, enough for the most relevant sections of all five guides
+const CONTEXT_CHAR_BUDGET = 24_000;
+const DOCUMENT_ORDER = ['registration', 'branding', 'compliance', 'hr', 'financial_planning'];
+// The founder's answers, as the guides read them; the rest of the row (ids, logo
+// paths, generated brand data) stays out of the prompt. Partners are added separately
+const PROFILE_FIELDS = [
+  'business_name', 'company_description', 'business_type', 'industry', 'industry_detail', 'location',
+  'location_city', 'location_state', 'entity_type', 'capital_investment', 'expected_turnover',
+  'color_preference', 'style_preference', 'questionnaire_answers', 'idea_tuning_output'
+];
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'her', 'was', 'one', 'our', 'out', 'has',
+  'have', 'had', 'how', 'its', 'may', 'who', 'did', 'get', 'got', 'does', 'what', 'when', 'where', 'which',
+  'why', 'will', 'with', 'would', 'should', 'could', 'this', 'that', 'these', 'those', 'from', 'into', 'only',
+  'need', 'needs', 'about', 'there', 'their', 'them', 'then', 'than', 'any', 'also', 'just', 'your', 'my', 'i',
+  'do', 'if', 'is', 'it', 'of', 'on', 'or', 'to', 'in', 'a', 'an', 'be', 'we', 'me', 'so', 'as', 'at', 'by'
+]);
+
+const ASK_PROMPT = `You are the follow-up assistant of StartUP Companion, answering a founder's questions about the business guides generated for them. The guides cover starting a business in India.
+
+You are given the founder's business profile and numbered excerpts from their guides, each marked with an id such as [S3]. Answer the question using these excerpts first:
+- Be specific to this business and to India; give numbers, forms and portals when the excerpts have them
+- If the excerpts do not cover the question, say so plainly, then give a short general answer and recommend confirming with a professional (CA, CS or lawyer)
+- Never invent fees, thresholds or deadlines that are not in the excerpts; say when a figure is an estimate
+- Keep the answer under 200 words, in plain text with short paragraphs or "-" bullets, no markdown headings
+
+Return ONLY a JSON object: { "answer": string, "citations": string[] } where citations lists the ids of the excerpts the answer relies on, most relevant first, and is empty when none apply.`;
+
+const ANSWER_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['answer', 'citations'],
+  properties: {
+    answer: { type: 'string' },
+    citations: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    const supabaseClient = createServiceClient();
+
+    // The owner comes from the access token, never from the payload
+    const jwt = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    const { data: { user } } = await supabaseClient.auth.getUser(jwt);
+    if (!user) {
+      return jsonResponse(401, { error: 'UNAUTHORIZED', userMessage: 'Please sign in again to ask a question.' });
+    }
+
+    const payload: AskPayload = await req.json();
+    const question = payload.question?.trim() ?? '';
+
+    if (!payload.sessionId || !question) {
+      return jsonResponse(400, { error: 'INVALID_REQUEST', userMessage: 'Please type a question.' });
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return jsonResponse(400, {
+        error: 'QUESTION_TOO_LONG',
+        userMessage: `Please keep your question under ${MAX_QUESTION_LENGTH} characters.`
+      });
+    }
+
+    const { data: session } = await supabaseClient
+      .from('user_sessions')
+      .select('id')
+      .eq('id', payload.sessionId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!session) {
+      return jsonResponse(404, { error: 'SESSION_NOT_FOUND', userMessage: 'This conversation could not be found.' });
+    }
+
+    const sections = await loadSourceSections(payload.sessionId, supabaseClient);
+    if (sections.length === 0) {
+      return jsonResponse(409, {
+        error: 'NO_DOCUMENTS',
+        userMessage: 'Your guides are not ready yet. Ask again once they have been generated.'
+      });
+    }
+
+    const profile = await loadBusinessProfile(payload.sessionId, supabaseClient);
+    const selected = selectRelevantSections(sections, question);
+    const { answer, citations } = await answerQuestion(question, payload.history ?? [], profile, selected, resolveLanguage(payload.language));
+
+    return jsonResponse(200, { answer, citations });
+  } catch (error: any) {
+    console.error('Error in ask function:', error);
+
+    let userMessage = 'Sorry, I could not answer that right now. Please try again.';
+    if (error.message?.startsWith('API_ERROR')) {
+      userMessage = 'AI service temporarily unavailable. Please try again in a moment.';
+    }
+
+    return jsonResponse(500, { error: 'Internal server error', userMessage, details: error.message });
+  }
+});
+
+async function loadSourceSections(sessionId: string, supabaseClient: SupabaseClient): Promise<SourceSection[]> {
+  const { data: documents, error } = await supabaseClient
+    .from('generated_documents')
+    .select('id, document_type, document_title, full_content')
+    .eq('session_id', sessionId)
+    .eq('generation_status', 'completed');
+
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const sorted = (documents || [])
+    .filter(doc => doc.full_content)
+    .sort((a, b) => DOCUMENT_ORDER.indexOf(a.document_type) - DOCUMENT_ORDER.indexOf(b.document_type));
+
+  const sections: SourceSection[] = [];
+  for (const doc of sorted) {
+    for (const section of splitGuideSections(doc.full_content)) {
+      sections.push({
+        id: `S${sections.length + 1}`,
+        documentId: doc.id,
+        documentType: doc.document_type,
+        documentTitle: doc.document_title,
+        sectionTitle: section.title,
+        content: section.content.trim(),
+        score: 0
+      });
+    }
+  }
+  return sections;
+}
+
+/**
+ * Keeps the sections that share the most words with the question, within
+ * CONTEXT_CHAR_BUDGET, and returns them in guide order. A question with no
+ * matching words gets the guides from the top.
+ */
+function selectRelevantSections(sections: SourceSection[], question: string): SourceSection[] {
+  const terms = [...new Set(
+    // Letters, marks and digits of any script, so Devanagari and Tamil words keep their vowel signs
+    question.toLowerCase().split(/[^\p{L}\p{M}\p{N}₹]+/u).filter(term => term.length > 1 && !STOP_WORDS.has(term))
+  )];
+
+  const scored = sections.map(section => {
+    const title = section.sectionTitle.toLowerCase();
+    const body = section.content.toLowerCase();
+    const score = terms.reduce((sum, term) => sum + (title.includes(term) ? 3 : 0) + (body.includes(term) ? 1 : 0), 0);
+    return { ...section, score };
+  });
+
+  const ranked = [...scored].sort((a, b) => b.score - a.score);
+  const selectedIds = new Set<string>();
+  let used = 0;
+  for (const section of ranked) {
+    if (used + section.content.length > CONTEXT_CHAR_BUDGET) continue;
+    selectedIds.add(section.id);
+    used += section.content.length;
+  }
+
+  return scored.filter(section => selectedIds.has(section.id));
+}
+
+async function answerQuestion(
+  question: string,
+  history: NonNullable<AskPayload['history']>,
+  profile: any,
+  sections: SourceSection[],
+  language: string
+): Promise<{ answer: string; citations: Citation[] }> {
+  const excerpts = sections
+    .map(section => `[${section.id}] ${section.documentTitle} > ${section.sectionTitle}\n${section.content}`)
+    .join('\n\n');
+
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: `${ASK_PROMPT}${languageInstruction(language)}\n\nBusiness profile:\n${describeProfile(profile)}\n\nGuide excerpts:\n\n${excerpts}`
+    },
+    ...history.slice(-MAX_HISTORY_MESSAGES).map(message => ({
+      role: message.role === 'assistant' ? 'assistant' as const : 'user' as const,
+      content: String(message.content).slice(0, MAX_HISTORY_MESSAGE_LENGTH)
+    })),
+    { role: 'user', content: question }
+  ];
+
+  const provider = getLLMProvider();
+  console.log(`Answering follow-up question with ${provider.name} (${provider.model}) using ${sections.length} section(s)`);
+
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    const raw = await provider.complete({
+      messages,
+      temperature: 0.3,
+      maxTokens: 800,
+      fixtureKey: 'ask.json',
+      responseSchema: { name: 'answer', schema: ANSWER_SCHEMA }
+    });
+
+    const parsed = parseJsonResponse(raw) as { answer?: unknown; citations?: unknown } | undefined;
+    if (parsed && typeof parsed.answer === 'string' && parsed.answer.trim() && Array.isArray(parsed.citations)) {
+      return { answer: parsed.answer.trim(), citations: resolveCitations(parsed.citations, sections) };
+    }
+
+    console.warn(`Answer attempt ${attempt} was not valid JSON:`, raw.slice(0, 200));
+    messages.push(
+      { role: 'assistant', content: raw },
+      { role: 'user', content: 'Return only the JSON object { "answer": string, "citations": string[] }.' }
+    );
+  }
+
+  throw new Error('INVALID_API_RESPONSE: answer is not valid JSON');
+}
+
+/** Maps cited ids back to their guide sections, dropping ids that were not provided */
+function resolveCitations(ids: unknown[], sections: SourceSection[]): Citation[] {
+  const citations: Citation[] = [];
+  for (const id of ids) {
+    const section = sections.find(candidate => candidate.id === String(id).replace(/[[\]\s]/g, ''));
+    if (section && !citations.some(citation =>
+      citation.documentId === section.documentId && citation.sectionTitle === section.sectionTitle
+    )) {
+      citations.push({
+        documentId: section.documentId,
+        documentType: section.documentType,
+        documentTitle: section.documentTitle,
+        sectionTitle: section.sectionTitle
+      });
+    }
+  }
+  return citations;
+}
+
+function describeProfile(profile: any): string {
+  if (!profile) return '- Not provided';
+
+  const lines = PROFILE_FIELDS
+    .filter(field => profile[field] !== null && profile[field] !== '' && profile[field] !== undefined)
+    .map(field => `- ${field}: ${typeof profile[field] === 'string' ? profile[field] : JSON.stringify(profile[field])}`);
+  if (Array.isArray(profile.partners_info) || Array.isArray(profile.directors_partners)) {
+    lines.push(`- partners: ${describePartners(profile)}`);
+  }
+  return lines.length > 0 ? lines.join('\n') : '- Not provided';
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
@@ -0,0 +1,370 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, createServiceClient } from '../_shared/guru.ts';
+import { isOwnedStoragePath } from '../_shared/storagePaths.ts';
+
+/**
+ * create   - the signed-in owner creates a link to one guide or to the latest
+ *            guides of a business
+ * open     - anyone with the link opens it, with the passcode when it has one
+ * download - a fresh download URL for the PDF of one guide of an open link,
+ *            checked like open but not logged as a view
+ */
+type SharePayload =
+  | {
+    action: 'create';
+    documentId?: string;
+    businessId?: string;
+    expiresInDays?: number;
+    passcode?: string;
+    label?: string;
+  }
+  | {
+    action: 'open';
+    token: string;
+    passcode?: string;
+  }
+  | {
+    action: 'download';
+    token: string;
+    passcode?: string;
+    documentId: string;
+  };
+
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 90;
+const MIN_PASSCODE_LENGTH = 4;
+const MAX_PASSCODE_LENGTH = 64;
+const MAX_LABEL_LENGTH = 100;
+// Storage URLs handed to viewers stop working after this
+const SIGNED_URL_SECONDS = 300;
+// Wrong passcodes allowed per link in the window before it is locked for a while
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILED_ATTEMPT_WINDOW_MINUTES = 15;
+const PBKDF2_ITERATIONS = 100000;
+
+const DOCUMENT_TYPE_ORDER = ['registration', 'compliance', 'hr', 'branding', 'financial_planning'];
+const SHARED_DOCUMENT_COLUMNS = 'id, document_type, document_title, key_points, full_content, structured_data, pdf_file_name, updated_at';
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    const supabaseClient = createServiceClient();
+    const payload: SharePayload = await req.json();
+
+    if (payload.action === 'create') {
+      return await createShare(req, supabaseClient, payload);
+    }
+    if (payload.action === 'open') {
+      return await openShare(req, supabaseClient, payload);
+    }
+    if (payload.action === 'download' && payload.documentId) {
+      return await downloadSharedPdf(req, supabaseClient, payload);
+    }
+
+    return jsonResponse(400, { error: 'INVALID_REQUEST', userMessage: 'Something went wrong. Please refresh and try again.' });
+  } catch (error: any) {
+    console.error('Error in document-share function:', error);
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      userMessage: 'Sorry, something went wrong with this link. Please try again.',
+      details: error.message
+    });
+  }
+});
+
+async function createShare(
+  req: Request,
+  supabaseClient: SupabaseClient,
+  payload: Extract<SharePayload, { action: 'create' }>
+): Promise<Response> {
+  // The owner comes from the access token, never from the payload
+  const jwt = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  const { data: { user } } = await supabaseClient.auth.getUser(jwt);
+  if (!user) {
+    return jsonResponse(401, { error: 'UNAUTHORIZED', userMessage: 'Please sign in again to share your guides.' });
+  }
+
+  if (!payload.documentId === !payload.businessId) {
+    return jsonResponse(400, { error: 'INVALID_REQUEST', userMessage: 'Choose a guide or a business to share.' });
+  }
+
+  const expiresInDays = payload.expiresInDays ?? DEFAULT_EXPIRY_DAYS;
+  if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS) {
+    return jsonResponse(400, {
+      error: 'INVALID_EXPIRY',
+      userMessage: `Links can last between 1 and ${MAX_EXPIRY_DAYS} days.`
+    });
+  }
+
+  if (payload.passcode !== undefined && payload.passcode !== null && typeof payload.passcode !== 'string') {
+    return jsonResponse(400, {
+      error: 'INVALID_PASSCODE',
+      userMessage: `Passcodes need ${MIN_PASSCODE_LENGTH} to ${MAX_PASSCODE_LENGTH} characters.`
+    });
+  }
+
+  const passcode = payload.passcode?.trim() || null;
+  if (passcode && (passcode.length < MIN_PASSCODE_LENGTH || passcode.length > MAX_PASSCODE_LENGTH)) {
+    return jsonResponse(400, {
+      error: 'INVALID_PASSCODE',
+      userMessage: `Passcodes need ${MIN_PASSCODE_LENGTH} to ${MAX_PASSCODE_LENGTH} characters.`
+    });
+  }
+
+  const { data: target } = payload.documentId
+    ? await supabaseClient.from('generated_documents').select('id').eq('id', payload.documentId).eq('user_id', user.id).maybeSingle()
+    : await supabaseClient.from('businesses').select('id').eq('id', payload.businessId!).eq('user_id', user.id).maybeSingle();
+
+  if (!target) {
+    return jsonResponse(404, { error: 'NOT_FOUND', userMessage: 'This guide could not be found.' });
+  }
+
+  const { data: share, error } = await supabaseClient
+    .from('document_shares')
+    .insert({
+      user_id: user.id,
+      document_id: payload.documentId ?? null,
+      business_id: payload.businessId ?? null,
+      token: createToken(),
+      label: typeof payload.label === 'string' ? payload.label.trim().slice(0, MAX_LABEL_LENGTH) || null : null,
+      passcode_hash: passcode ? await hashPasscode(passcode) : null,
+      expires_at: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+    })
+    .select('id, document_id, business_id, token, label, has_passcode, expires_at, revoked_at, created_at')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create share link: ${error.message}`);
+  }
+
+  console.log(`Share link ${share.id} created by ${user.id}, expires ${share.expires_at}`);
+  return jsonResponse(200, { share });
+}
+
+async function openShare(
+  req: Request,
+  supabaseClient: SupabaseClient,
+  payload: Extract<SharePayload, { action: 'open' }>
+): Promise<Response> {
+  const userAgent = req.headers.get('User-Agent')?.slice(0, 300) ?? null;
+  const access = await authorizeShare(supabaseClient, payload, userAgent);
+  if (access instanceof Response) return access;
+  const share = access;
+
+  const { title, documents } = await loadSharedDocuments(supabaseClient, share);
+
+  const sharedDocuments = await Promise.all(documents.map(async (doc: any) => {
+    const { pdf_file_name, ...rest } = doc;
+    let pdfUrl: string | null = null;
+    if (pdf_file_name && isOwnedStoragePath(share.user_id, pdf_file_name)) {
+      const { data } = await supabaseClient.storage
+        .from('business-documents')
+        .createSignedUrl(pdf_file_name, SIGNED_URL_SECONDS);
+      pdfUrl = data?.signedUrl ?? null;
+    }
+    return {
+      ...rest,
+      key_points: typeof rest.key_points === 'string' ? JSON.parse(rest.key_points) : rest.key_points,
+      pdf_url: pdfUrl
+    };
+  }));
+
+  await supabaseClient.from('document_share_views').insert({ share_id: share.id, succeeded: true, user_agent: userAgent });
+
+  return jsonResponse(200, {
+    share: { title, expires_at: share.expires_at, kind: share.document_id ? 'document' : 'business' },
+    documents: sharedDocuments
+  });
+}
+
+async function downloadSharedPdf(
+  req: Request,
+  supabaseClient: SupabaseClient,
+  payload: Extract<SharePayload, { action: 'download' }>
+): Promise<Response> {
+  const userAgent = req.headers.get('User-Agent')?.slice(0, 300) ?? null;
+  const access = await authorizeShare(supabaseClient, payload, userAgent);
+  if (access instanceof Response) return access;
+  const share = access;
+
+  const { documents } = await loadSharedDocuments(supabaseClient, share);
+  const doc = documents.find((item: any) => item.id === payload.documentId);
+  if (!doc?.pdf_file_name || !isOwnedStoragePath(share.user_id, doc.pdf_file_name)) {
+    return jsonResponse(404, { error: 'NOT_FOUND', userMessage: 'There is no PDF for this guide.' });
+  }
+
+  const downloadName = doc.pdf_file_name.split('/').pop();
+  const { data, error } = await supabaseClient.storage
+    .from('business-documents')
+    .createSignedUrl(doc.pdf_file_name, SIGNED_URL_SECONDS, { download: downloadName });
+
+  if (error || !data) {
+    throw error ?? new Error('No signed URL returned');
+  }
+
+  return jsonResponse(200, { url: data.signedUrl, expiresIn: SIGNED_URL_SECONDS });
+}
+
+/**
+ * The link behind a token when it is live and the passcode, if it has one, is
+ * right; otherwise the response to send. Wrong passcodes are logged as failed
+ * views and count towards the lockout whichever action sent them.
+ */
+async function authorizeShare(
+  supabaseClient: SupabaseClient,
+  payload: { token: string; passcode?: string },
+  userAgent: string | null
+): Promise<any | Response> {
+  if (!payload.token || typeof payload.token !== 'string') {
+    return jsonResponse(400, { error: 'INVALID_REQUEST', userMessage: 'This link is not valid.' });
+  }
+  if (payload.passcode !== undefined && payload.passcode !== null && typeof payload.passcode !== 'string') {
+    return jsonResponse(400, { error: 'INVALID_REQUEST', userMessage: 'Enter the passcode as text.' });
+  }
+
+  const { data: share } = await supabaseClient
+    .from('document_shares')
+    .select('*')
+    .eq('token', payload.token)
+    .maybeSingle();
+
+  // Revoked and expired links look the same to the viewer as missing ones
+  if (!share || share.revoked_at || new Date(share.expires_at).getTime() <= Date.now()) {
+    return jsonResponse(404, { error: 'LINK_UNAVAILABLE', userMessage: 'This link has expired or is no longer available.' });
+  }
+
+  if (share.passcode_hash) {
+    if (!payload.passcode) {
+      return jsonResponse(401, { error: 'PASSCODE_REQUIRED', userMessage: 'Enter the passcode to view these guides.' });
+    }
+
+    const since = new Date(Date.now() - FAILED_ATTEMPT_WINDOW_MINUTES * 60 * 1000).toISOString();
+    const { count } = await supabaseClient
+      .from('document_share_views')
+      .select('id', { count: 'exact', head: true })
+      .eq('share_id', share.id)
+      .eq('succeeded', false)
+      .gte('viewed_at', since);
+
+    if ((count ?? 0) >= MAX_FAILED_ATTEMPTS) {
+      return jsonResponse(429, {
+        error: 'TOO_MANY_ATTEMPTS',
+        userMessage: `Too many wrong passcodes. Please try again in ${FAILED_ATTEMPT_WINDOW_MINUTES} minutes.`
+      });
+    }
+
+    if (!(await verifyPasscode(payload.passcode, share.passcode_hash))) {
+      await supabaseClient.from('document_share_views').insert({ share_id: share.id, succeeded: false, user_agent: userAgent });
+      return jsonResponse(401, { error: 'PASSCODE_INVALID', userMessage: 'That passcode is not correct.' });
+    }
+  }
+
+  return share;
+}
+
+function loadSharedDocuments(supabaseClient: SupabaseClient, share: any) {
+  return share.document_id
+    ? loadSharedDocument(supabaseClient, share.user_id, share.document_id)
+    : loadSharedBusiness(supabaseClient, share.user_id, share.business_id);
+}
+
+// Both loaders only return what the link's owner owns, whatever the share row points at
+async function loadSharedDocument(supabaseClient: SupabaseClient, ownerId: string, documentId: string) {
+  const { data: doc } = await supabaseClient
+    .from('generated_documents')
+    .select(SHARED_DOCUMENT_COLUMNS)
+    .eq('id', documentId)
+    .eq('user_id', ownerId)
+    .eq('generation_status', 'completed')
+    .maybeSingle();
+
+  return { title: doc?.document_title ?? 'Shared guide', documents: doc ? [doc] : [] };
+}
+
+// The latest completed guide of each type across the business's sessions
+async function loadSharedBusiness(supabaseClient: SupabaseClient, ownerId: string, businessId: string) {
+  const { data: business } = await supabaseClient
+    .from('businesses')
+    .select('name')
+    .eq('id', businessId)
+    .eq('user_id', ownerId)
+    .maybeSingle();
+
+  if (!business) {
+    return { title: 'Shared business guides', documents: [] };
+  }
+
+  const { data: docs } = await supabaseClient
+    .from('generated_documents')
+    .select(`${SHARED_DOCUMENT_COLUMNS}, user_sessions!inner(business_id)`)
+    .eq('user_sessions.business_id', businessId)
+    .eq('user_id', ownerId)
+    .eq('generation_status', 'completed')
+    .order('updated_at', { ascending: false });
+
+  const latest = new Map<string, any>();
+  for (const { user_sessions: _session, ...doc } of docs ?? []) {
+    if (!latest.has(doc.document_type)) latest.set(doc.document_type, doc);
+  }
+
+  const documents = [...latest.values()].sort((a, b) =>
+    DOCUMENT_TYPE_ORDER.indexOf(a.document_type) - DOCUMENT_TYPE_ORDER.indexOf(b.document_type)
+  );
+  return { title: business.name, documents };
+}
+
+function createToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return toBase64Url(bytes);
+}
+
+/** Stored as pbkdf2$<iterations>$<salt>$<hash> so the cost can be raised later */
+async function hashPasscode(passcode: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePasscodeKey(passcode, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toBase64Url(salt)}$${toBase64Url(hash)}`;
+}
+
+async function verifyPasscode(passcode: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, expected] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !expected) return false;
+
+  const actual = toBase64Url(await derivePasscodeKey(passcode.trim(), fromBase64Url(salt), Number(iterations)));
+  // Compare every character so the time taken does not reveal how much matched
+  let difference = actual.length ^ expected.length;
+  for (let i = 0; i < Math.min(actual.length, expected.length); i++) {
+    difference |= actual.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+async function derivePasscodeKey(passcode: string, salt: BufferSource, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(passcode), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
@@ -0,0 +1,304 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, createServiceClient } from '../_shared/guru.ts';
+import { buildStartupKit } from '../_shared/startupKit.ts';
+import { loadBrandTheme } from '../_shared/brandTheme.ts';
+import { generateAndStorePDF } from '../_shared/pdfGenerator.ts';
+import { isOwnedStoragePath } from '../_shared/storagePaths.ts';
+
+/**
+ * The bucket is private, so these are the only ways to a stored file:
+ *
+ * download - signs a URL for the PDF of a guide, or of one of its versions
+ *            when versionId is given
+ * kit      - zips the latest of each guide type among documentIds into a
+ *            startup kit and signs a URL for it
+ *
+ * restyle re-renders the latest PDF of each guide type of a business after the
+ * founder changes its brand kit or turns brand theming on or off. The new PDF
+ * replaces the guide's current one; its versions keep the PDFs they had. The
+ * response lists the outcome for each guide.
+ */
+type DocumentsPayload =
+  | {
+    action: 'download';
+    documentId: string;
+    versionId?: string;
+  }
+  | {
+    action: 'kit';
+    documentIds: string[];
+  }
+  | {
+    action: 'restyle';
+    businessId: string;
+  };
+
+/** What happened to one guide of a restyle; a failed guide keeps its previous PDF */
+interface RestyleResult {
+  documentId: string;
+  documentType: string;
+  restyled: boolean;
+  error?: string;
+}
+
+// Long enough to start the download, short enough that a pasted URL soon stops working
+const SIGNED_URL_SECONDS = 60;
+
+const DOCUMENT_TYPE_ORDER = ['registration', 'compliance', 'hr', 'branding', 'financial_planning'];
+// Restyled copies of a guide's PDF, which no document version refers to
+const STYLED_PDF_PATTERN = /-styled-\d+\.pdf$/;
+const KIT_DOCUMENT_COLUMNS = 'id, user_id, session_id, document_type, document_title, full_content, structured_data, pdf_file_name, current_version, updated_at';
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    const supabaseClient = createServiceClient();
+
+    // The owner comes from the access token, never from the payload
+    const jwt = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    const { data: { user } } = await supabaseClient.auth.getUser(jwt);
+    if (!user) {
+      return jsonResponse(401, { error: 'UNAUTHORIZED', userMessage: 'Please sign in again to download your guides.' });
+    }
+
+    const payload: DocumentsPayload = await req.json();
+
+    if (payload.action === 'download' && payload.documentId) {
+      return await downloadDocument(supabaseClient, user.id, payload);
+    }
+    if (payload.action === 'kit' && Array.isArray(payload.documentIds) && payload.documentIds.length > 0) {
+      return await downloadKit(supabaseClient, user.id, payload);
+    }
+    if (payload.action === 'restyle' && payload.businessId) {
+      return await restyleBusinessGuides(supabaseClient, user.id, payload);
+    }
+
+    return jsonResponse(400, { error: 'INVALID_REQUEST', userMessage: 'Something went wrong. Please refresh and try again.' });
+  } catch (error: any) {
+    console.error('Error in documents function:', error);
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      userMessage: 'Sorry, the download could not be prepared. Please try again.',
+      details: error.message
+    });
+  }
+});
+
+async function downloadDocument(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  payload: Extract<DocumentsPayload, { action: 'download' }>
+): Promise<Response> {
+  const { data: doc } = await supabaseClient
+    .from('generated_documents')
+    .select('id, user_id, document_title, pdf_file_name')
+    .eq('id', payload.documentId)
+    .maybeSingle();
+
+  // Someone else's guide looks the same as a missing one
+  if (!doc || doc.user_id !== userId) {
+    return jsonResponse(404, { error: 'NOT_FOUND', userMessage: 'This guide could not be found.' });
+  }
+
+  let pdfFileName: string | null = doc.pdf_file_name;
+  if (payload.versionId) {
+    const { data: version } = await supabaseClient
+      .from('document_versions')
+      .select('pdf_file_name')
+      .eq('id', payload.versionId)
+      .eq('document_id', doc.id)
+      .maybeSingle();
+
+    if (!version) {
+      return jsonResponse(404, { error: 'NOT_FOUND', userMessage: 'This version could not be found.' });
+    }
+    pdfFileName = version.pdf_file_name;
+  }
+
+  if (!pdfFileName || !isOwnedStoragePath(doc.user_id, pdfFileName)) {
+    return jsonResponse(404, { error: 'PDF_NOT_AVAILABLE', userMessage: 'There is no PDF for this guide yet.' });
+  }
+
+  const downloadName = pdfFileName.split('/').pop() || `${doc.document_title.replace(/\s+/g, '_')}.pdf`;
+  return await signedDownloadResponse(supabaseClient, pdfFileName, downloadName);
+}
+
+async function downloadKit(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  payload: Extract<DocumentsPayload, { action: 'kit' }>
+): Promise<Response> {
+  // Filtering on the owner drops ids of other users' guides
+  const { data: docs, error } = await supabaseClient
+    .from('generated_documents')
+    .select(KIT_DOCUMENT_COLUMNS)
+    .in('id', payload.documentIds)
+    .eq('user_id', userId)
+    .eq('generation_status', 'completed')
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+
+  // The history can hold several guides of a type for one business; the kit takes the latest
+  const latest = new Map<string, any>();
+  for (const doc of docs ?? []) {
+    if (!latest.has(doc.document_type)) latest.set(doc.document_type, doc);
+  }
+  if (latest.size === 0) {
+    return jsonResponse(404, { error: 'NOT_FOUND', userMessage: 'There are no finished guides to download yet.' });
+  }
+
+  const documents = [...latest.values()].sort((a, b) =>
+    DOCUMENT_TYPE_ORDER.indexOf(a.document_type) - DOCUMENT_TYPE_ORDER.indexOf(b.document_type)
+  );
+
+  const [{ data: profile }, { data: session }] = await Promise.all([
+    supabaseClient.from('business_profiles').select('business_name').eq('session_id', documents[0].session_id).maybeSingle(),
+    supabaseClient.from('user_sessions').select('business_id').eq('id', documents[0].session_id).maybeSingle()
+  ]);
+  const businessName = profile?.business_name || 'Your Business';
+
+  const zip = await buildStartupKit(businessName, documents, supabaseClient);
+
+  // One kit per business, replaced on every download. The path is keyed on ids because
+  // names in other scripts all slug to "business"; the slug only names the download
+  const slug = businessName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'business';
+  const fileName = `${userId}/kits/${session?.business_id ?? documents[0].session_id}-startup-kit.zip`;
+  const { error: uploadError } = await supabaseClient.storage
+    .from('business-documents')
+    .upload(fileName, zip, { contentType: 'application/zip', upsert: true });
+
+  if (uploadError) throw uploadError;
+
+  return await signedDownloadResponse(supabaseClient, fileName, `${slug}-startup-kit.zip`);
+}
+
+async function restyleBusinessGuides(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  payload: Extract<DocumentsPayload, { action: 'restyle' }>
+): Promise<Response> {
+  const { data: business } = await supabaseClient
+    .from('businesses')
+    .select('id, name')
+    .eq('id', payload.businessId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!business) {
+    return jsonResponse(404, { error: 'NOT_FOUND', userMessage: 'This business could not be found.' });
+  }
+
+  const { data: docs, error } = await supabaseClient
+    .from('generated_documents')
+    .select('id, session_id, document_type, full_content, pdf_file_name, current_version, language, user_sessions!inner(business_id)')
+    .eq('user_sessions.business_id', business.id)
+    .eq('user_id', userId)
+    .eq('generation_status', 'completed')
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+
+  // Older guides keep the look they were downloaded with; only the ones shown on the dashboard change
+  const latest = new Map<string, any>();
+  for (const doc of docs ?? []) {
+    if (!latest.has(doc.document_type) && doc.pdf_file_name && doc.full_content) {
+      latest.set(doc.document_type, doc);
+    }
+  }
+
+  // Each guide is restyled on its own, so one that fails keeps its PDF without holding up the rest
+  const results: RestyleResult[] = [];
+  for (const doc of latest.values()) {
+    try {
+      results.push(await restyleGuide(supabaseClient, userId, business.name, doc));
+    } catch (restyleError: any) {
+      console.error(`Error restyling ${doc.id}:`, restyleError);
+      results.push({ documentId: doc.id, documentType: doc.document_type, restyled: false, error: restyleError.message });
+    }
+  }
+
+  return jsonResponse(200, {
+    restyled: results.filter(result => result.restyled).length,
+    total: results.length,
+    results
+  });
+}
+
+async function restyleGuide(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  businessName: string,
+  doc: any
+): Promise<RestyleResult> {
+  const failed = (error: string): RestyleResult => ({ documentId: doc.id, documentType: doc.document_type, restyled: false, error });
+
+  const [brand, { data: profile }] = await Promise.all([
+    loadBrandTheme(doc.session_id, supabaseClient),
+    supabaseClient.from('business_profiles').select('business_name').eq('session_id', doc.session_id).maybeSingle()
+  ]);
+
+  // The version's own PDF is history, so the restyled copy gets a new path and only the guide points at it
+  const result = await generateAndStorePDF(
+    {
+      userId,
+      documentType: doc.document_type,
+      content: doc.full_content,
+      businessName: profile?.business_name || businessName,
+      brand,
+      fileName: `${userId}/${doc.document_type}/${doc.session_id}/${doc.document_type}-guide-v${doc.current_version ?? 1}-styled-${Date.now()}.pdf`,
+      language: doc.language
+    },
+    supabaseClient
+  );
+  if (!result) return failed('PDF_GENERATION_FAILED');
+
+  const { error: updateError } = await supabaseClient
+    .from('generated_documents')
+    .update({ pdf_file_name: result.fileName })
+    .eq('id', doc.id);
+
+  if (updateError) {
+    console.error(`Error saving the restyled PDF of ${doc.id}:`, updateError);
+    await supabaseClient.storage.from('business-documents').remove([result.fileName]);
+    return failed(updateError.message);
+  }
+
+  // An earlier restyled copy belongs to no version, so nothing else points at it
+  if (STYLED_PDF_PATTERN.test(doc.pdf_file_name) && isOwnedStoragePath(userId, doc.pdf_file_name)) {
+    await supabaseClient.storage.from('business-documents').remove([doc.pdf_file_name]);
+  }
+  return { documentId: doc.id, documentType: doc.document_type, restyled: true };
+}
+
+async function signedDownloadResponse(
+  supabaseClient: SupabaseClient,
+  fileName: string,
+  downloadName: string
+): Promise<Response> {
+  const { data, error } = await supabaseClient.storage
+    .from('business-documents')
+    .createSignedUrl(fileName, SIGNED_URL_SECONDS, { download: downloadName });
+
+  if (error || !data) {
+    throw error ?? new Error('No signed URL returned');
+  }
+
+  return jsonResponse(200, { url: data.signedUrl, fileName: downloadName, expiresIn: SIGNED_URL_SECONDS });
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
@@ -0,0 +1,4 @@
+import { serveGuru } from '../_shared/guru.ts';
+import { financialPlanningGuru } from '../_shared/gurus/financialPlanning.ts';
+
+serveGuru(financialPlanningGuru);
@@ -0,0 +1,220 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, createServiceClient, generateGuide, setDocumentStatus } from '../_shared/guru.ts';
+import { getGuru } from '../_shared/gurus/index.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+// A claimed job is considered abandoned once its lease expires
+const LOCK_SECONDS = 300;
+// Stop claiming new jobs after this long so the invocation ends within the platform limit
+const RUN_BUDGET_MS = 90_000;
+const RETRY_BASE_DELAY_SECONDS = 15;
+const PROGRESS_INTERVAL_MS = 1000;
+const RETRYABLE_ERRORS = ['API_ERROR', 'INVALID_API_RESPONSE'];
+
+interface GenerationJob {
+  id: string;
+  user_id: string;
+  session_id: string;
+  document_type: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+type JobOutcome = 'completed' | 'retrying' | 'failed';
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders
+    });
+  }
+
+  const supabaseClient = createServiceClient();
+  const work = drainQueue(supabaseClient);
+
+  // Keep working after the response so the caller does not have to hold the request open
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(work.catch(error => console.error('Error in generation-worker function:', error)));
+    return new Response(
+      JSON.stringify({ accepted: true }),
+      {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    const processed = await work;
+    return new Response(
+      JSON.stringify({ processed }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error: any) {
+    console.error('Error in generation-worker function:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
+
+/**
+ * Claims and runs jobs one after another until the queue is empty or the run
+ * budget is spent. A retry that comes due within the budget is waited for
+ * rather than left for the next invocation.
+ */
+async function drainQueue(supabaseClient: SupabaseClient) {
+  const startedAt = Date.now();
+  const processed: Array<{ jobId: string; documentType: string; outcome: JobOutcome }> = [];
+
+  while (Date.now() - startedAt < RUN_BUDGET_MS) {
+    const job = await claimNextJob(supabaseClient);
+
+    if (!job) {
+      const waitMs = await getNextRetryDelay(supabaseClient);
+      if (waitMs === null || Date.now() - startedAt + waitMs > RUN_BUDGET_MS) break;
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+      continue;
+    }
+
+    console.log(`Claimed job ${job.id} (${job.document_type}, attempt ${job.attempts}/${job.max_attempts})`);
+    const outcome = await runJob(job, supabaseClient);
+    processed.push({ jobId: job.id, documentType: job.document_type, outcome });
+  }
+
+  console.log(`Generation worker finished, processed ${processed.length} job(s)`);
+  return processed;
+}
+
+async function claimNextJob(supabaseClient: SupabaseClient): Promise<GenerationJob | null> {
+  const { data, error } = await supabaseClient.rpc('claim_generation_job', { lock_seconds: LOCK_SECONDS });
+
+  if (error) {
+    console.error('Error claiming generation job:', error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return data?.[0] ?? null;
+}
+
+async function getNextRetryDelay(supabaseClient: SupabaseClient): Promise<number | null> {
+  const { data } = await supabaseClient
+    .from('generation_jobs')
+    .select('run_after')
+    .eq('status', 'pending')
+    .order('run_after', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (!data) return null;
+  return Math.max(0, new Date(data.run_after).getTime() - Date.now());
+}
+
+async function runJob(job: GenerationJob, supabaseClient: SupabaseClient): Promise<JobOutcome> {
+  const definition = getGuru(job.document_type);
+
+  if (!definition) {
+    console.error(`No guru registered for document type ${job.document_type}`);
+    await updateJob(supabaseClient, job.id, { status: 'failed', locked_until: null, last_error: 'UNKNOWN_DOCUMENT_TYPE' });
+    return 'failed';
+  }
+
+  const target = { userId: job.user_id, sessionId: job.session_id };
+  await setDocumentStatus(definition, target, 'generating', supabaseClient);
+
+  const progress = createProgressBroadcaster(supabaseClient, job);
+
+  try {
+    const result = await generateGuide(
+      definition,
+      { message: 'generate_document', ...target },
+      supabaseClient,
+      progress.onToken
+    );
+
+    await updateJob(supabaseClient, job.id, {
+      status: 'completed',
+      locked_until: null,
+      last_error: null,
+      document_id: result.documentId ?? null,
+      completed_at: new Date().toISOString()
+    });
+    return 'completed';
+  } catch (error: any) {
+    const errorCode: string = error.message || 'UNKNOWN_ERROR';
+    console.error(`Job ${job.id} (${job.document_type}) failed:`, error);
+
+    if (isRetryable(errorCode) && job.attempts < job.max_attempts) {
+      const delaySeconds = RETRY_BASE_DELAY_SECONDS * 2 ** (job.attempts - 1);
+      console.log(`Retrying job ${job.id} in ${delaySeconds}s`);
+      await updateJob(supabaseClient, job.id, {
+        status: 'pending',
+        locked_until: null,
+        last_error: errorCode,
+        run_after: new Date(Date.now() + delaySeconds * 1000).toISOString()
+      });
+      await setDocumentStatus(definition, target, 'pending', supabaseClient);
+      return 'retrying';
+    }
+
+    await updateJob(supabaseClient, job.id, { status: 'failed', locked_until: null, last_error: errorCode });
+    await setDocumentStatus(definition, target, 'failed', supabaseClient);
+    return 'failed';
+  } finally {
+    await progress.close();
+  }
+}
+
+function isRetryable(errorCode: string): boolean {
+  return RETRYABLE_ERRORS.some(code => errorCode.startsWith(code));
+}
+
+async function updateJob(supabaseClient: SupabaseClient, jobId: string, fields: Record<string, unknown>): Promise<void> {
+  const { error } = await supabaseClient
+    .from('generation_jobs')
+    .update(fields)
+    .eq('id', jobId);
+
+  if (error) {
+    console.error(`Error updating generation job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Broadcasts the text written so far on the private `generation:<session id>`
+ * Realtime channel, at most once per PROGRESS_INTERVAL_MS. Each message carries
+ * the whole text rather than a delta so a client that joins late catches up.
+ * Only the session's owner may join the channel.
+ */
+function createProgressBroadcaster(supabaseClient: SupabaseClient, job: GenerationJob) {
+  const channel = supabaseClient.channel(`generation:${job.session_id}`, { config: { private: true } });
+  let content = '';
+  let lastSentAt = 0;
+
+  const send = () => {
+    lastSentAt = Date.now();
+    channel.send({
+      type: 'broadcast',
+      event: 'progress',
+      payload: { jobId: job.id, documentType: job.document_type, content }
+    }).catch(error => console.warn('Failed to broadcast generation progress:', error));
+  };
+
+  return {
+    onToken: (delta: string) => {
+      content += delta;
+      if (Date.now() - lastSentAt >= PROGRESS_INTERVAL_MS) send();
+    },
+    close: async () => {
+      await supabaseClient.removeChannel(channel);
+    }
+  };
+}
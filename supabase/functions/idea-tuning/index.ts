@@ -0,0 +1,297 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, createServiceClient } from '../_shared/guru.ts';
+import { completeJson, getLLMProvider, type ChatMessage, type LLMProvider } from '../_shared/llm.ts';
+import { languageInstruction, resolveLanguage } from '../_shared/languages.ts';
+
+interface IdeaTuningPayload {
+  sessionId: string;
+  /** The idea tuning conversation so far, oldest first, without the opening question */
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  /** Set when the founder asks to wrap up before every topic is covered */
+  finish?: boolean;
+  /** Language the mentor replies and summarises in, e.g. "hi"; English when missing */
+  language?: string;
+}
+
+type IdeaTopic = 'problem' | 'customer' | 'competition' | 'revenue_model' | 'risks';
+
+/** Profile fields the summary fills in for the Confirmed Idea questionnaire */
+interface IdeaPrefill {
+  business_name: string | null;
+  company_description: string;
+  location: string | null;
+  industry: string | null;
+}
+
+const IDEA_TOPICS: IdeaTopic[] = ['problem', 'customer', 'competition', 'revenue_model', 'risks'];
+// After this many founder messages the idea is summarised with whatever has been covered
+const MAX_FOUNDER_MESSAGES = 12;
+const MAX_MESSAGE_LENGTH = 2000;
+
+const OPENING_QUESTION = `Let's tune your idea together. I'll ask about five things: the problem you solve, your customer, the competition, how you'll make money and the main risks. Type "done" at any point to wrap up with what we have.
+
+To start: what problem does your business solve, and who has this problem today?`;
+
+// The opening question in each language, naming the word that finishes early in that language
+const OPENING_QUESTIONS: Record<string, string> = {
+  en: OPENING_QUESTION,
+  hi: `आइए मिलकर आपके आइडिया को निखारें। मैं पाँच बातें पूछूँगा: आप कौन-सी समस्या हल करते हैं, आपके ग्राहक, प्रतिस्पर्धा, आप पैसे कैसे कमाएँगे और मुख्य जोखिम। जो अब तक है उसी से सारांश बनाने के लिए कभी भी "हो गया" लिखें।
+
+शुरुआत के लिए: आपका बिज़नेस कौन-सी समस्या हल करता है, और आज यह समस्या किसे है?`,
+  mr: `चला, मिळून तुमची कल्पना अधिक धारदार करूया. मी पाच गोष्टी विचारेन: तुम्ही कोणती समस्या सोडवता, तुमचे ग्राहक, स्पर्धा, तुम्ही पैसे कसे कमवाल आणि मुख्य धोके. आतापर्यंतच्या माहितीवरून सारांश हवा असल्यास कधीही "झाले" लिहा.
+
+सुरुवातीला: तुमचा व्यवसाय कोणती समस्या सोडवतो, आणि आज ही समस्या कोणाला आहे?`,
+  ta: `உங்கள் யோசனையை ஒன்றாகச் செம்மைப்படுத்துவோம். நான் ஐந்து விஷயங்களைக் கேட்பேன்: நீங்கள் தீர்க்கும் பிரச்சனை, உங்கள் வாடிக்கையாளர், போட்டி, நீங்கள் எப்படி வருமானம் ஈட்டுவீர்கள், முக்கிய அபாயங்கள். இதுவரை உள்ளதை வைத்து சுருக்கம் பெற எப்போது வேண்டுமானாலும் "முடிந்தது" என்று தட்டச்சு செய்யுங்கள்.
+
+தொடங்க: உங்கள் வணிகம் எந்தப் பிரச்சனையைத் தீர்க்கிறது, இன்று இந்தப் பிரச்சனை யாருக்கு உள்ளது?`
+};
+
+const COACH_PROMPT = `You are an experienced startup mentor in India helping a founder refine a business idea before they register the company. Work through these topics one at a time, in this order:
+- problem: the problem, how painful and frequent it is
+- customer: the target customer segment, who pays, and the first customers to reach
+- competition: existing alternatives and competitors, and why this idea is different
+- revenue_model: pricing, who pays and how often, rough unit economics
+- risks: the biggest risks (market, regulatory, execution) and how to test them cheaply
+
+For each founder message:
+- Briefly reflect back what you understood and give one concrete, honest suggestion (challenge weak assumptions, mention Indian market specifics)
+- Then ask ONE question about the first topic that is not yet answered well enough
+- Keep the reply under 120 words, plain text, no markdown headings
+
+Return ONLY a JSON object: { "reply": string, "coveredTopics": string[], "readyToSummarize": boolean } where coveredTopics lists the topics the founder has answered well enough so far (from: ${IDEA_TOPICS.join(', ')}), and readyToSummarize is true once all five are covered.`;
+
+const SUMMARY_PROMPT = `Summarise the idea tuning conversation below for the founder and for the guides that will be generated next.
+
+Return ONLY a JSON object with:
+- summary: markdown with the sections "## Problem", "## Customer", "## Competition", "## Revenue Model", "## Risks" and "## Next Steps" (3 concrete validation steps). Use only what the founder said plus your suggestions from the conversation; write "Not discussed yet" for a topic that was not covered
+- businessName: the business or brand name if the founder gave one, otherwise null
+- companyDescription: 2-3 sentences describing what the business does, for whom, and how it makes money
+- location: the city or state the business will operate in if mentioned, otherwise null
+- industry: a short industry label such as "Food & Beverage" or "Technology/Software", or null if unclear`;
+
+const TURN_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['reply', 'coveredTopics', 'readyToSummarize'],
+  properties: {
+    reply: { type: 'string' },
+    coveredTopics: { type: 'array', items: { type: 'string', enum: IDEA_TOPICS } },
+    readyToSummarize: { type: 'boolean' }
+  }
+};
+
+const SUMMARY_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['summary', 'businessName', 'companyDescription', 'location', 'industry'],
+  properties: {
+    summary: { type: 'string' },
+    businessName: { type: ['string', 'null'] },
+    companyDescription: { type: 'string' },
+    location: { type: ['string', 'null'] },
+    industry: { type: ['string', 'null'] }
+  }
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    const supabaseClient = createServiceClient();
+
+    // The owner comes from the access token, never from the payload
+    const jwt = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    const { data: { user } } = await supabaseClient.auth.getUser(jwt);
+    if (!user) {
+      return jsonResponse(401, { error: 'UNAUTHORIZED', userMessage: 'Please sign in again to continue.' });
+    }
+
+    const payload: IdeaTuningPayload = await req.json();
+
+    if (!payload.sessionId || !Array.isArray(payload.messages)) {
+      return jsonResponse(400, { error: 'INVALID_REQUEST', userMessage: 'Something went wrong. Please refresh and try again.' });
+    }
+
+    const { data: session } = await supabaseClient
+      .from('user_sessions')
+      .select('id')
+      .eq('id', payload.sessionId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!session) {
+      return jsonResponse(404, { error: 'SESSION_NOT_FOUND', userMessage: 'This conversation could not be found.' });
+    }
+
+    const language = resolveLanguage(payload.language);
+    const conversation: ChatMessage[] = payload.messages.map(message => ({
+      role: message.role === 'assistant' ? 'assistant' as const : 'user' as const,
+      content: String(message.content).slice(0, MAX_MESSAGE_LENGTH)
+    }));
+
+    if (conversation.length === 0) {
+      return jsonResponse(200, { reply: OPENING_QUESTIONS[language], coveredTopics: [], complete: false });
+    }
+
+    const provider = getLLMProvider();
+    const founderMessages = conversation.filter(message => message.role === 'user').length;
+    let reply = '';
+    let coveredTopics: IdeaTopic[] = [];
+    let readyToSummarize = false;
+
+    if (!payload.finish && founderMessages < MAX_FOUNDER_MESSAGES) {
+      ({ reply, coveredTopics, readyToSummarize } = await coachTurn(provider, conversation, language));
+    }
+
+    const complete = payload.finish || founderMessages >= MAX_FOUNDER_MESSAGES ||
+      (readyToSummarize && IDEA_TOPICS.every(topic => coveredTopics.includes(topic)));
+
+    if (!complete) {
+      return jsonResponse(200, { reply, coveredTopics, complete: false });
+    }
+
+    // The summary replaces the coach's reply, which would only ask about a topic already covered
+    const { summary, prefill } = await summarizeIdea(provider, conversation, language);
+    await saveIdeaTuningOutput(user.id, payload.sessionId, summary, prefill, supabaseClient);
+
+    return jsonResponse(200, { coveredTopics, complete: true, summary, prefill });
+  } catch (error: any) {
+    console.error('Error in idea-tuning function:', error);
+
+    let userMessage = 'Sorry, something went wrong while tuning your idea. Please try again.';
+    if (error.message?.startsWith('API_ERROR')) {
+      userMessage = 'AI service temporarily unavailable. Please try again in a moment.';
+    }
+
+    return jsonResponse(500, { error: 'Internal server error', userMessage, details: error.message });
+  }
+});
+
+async function coachTurn(
+  provider: LLMProvider,
+  conversation: ChatMessage[],
+  language: string
+): Promise<{ reply: string; coveredTopics: IdeaTopic[]; readyToSummarize: boolean }> {
+  const parsed = await completeJson(provider, {
+    messages: [
+      { role: 'system', content: `${COACH_PROMPT}${languageInstruction(language)}` },
+      { role: 'assistant', content: OPENING_QUESTIONS[language] },
+      ...conversation
+    ],
+    temperature: 0.7,
+    maxTokens: 600,
+    fixtureKey: 'idea-tuning.json',
+    responseSchema: { name: 'idea_tuning_turn', schema: TURN_SCHEMA }
+  });
+
+  if (typeof parsed.reply !== 'string' || !parsed.reply.trim()) {
+    throw new Error('INVALID_API_RESPONSE: idea tuning reply is missing');
+  }
+
+  return {
+    reply: parsed.reply.trim(),
+    coveredTopics: Array.isArray(parsed.coveredTopics)
+      ? IDEA_TOPICS.filter(topic => parsed.coveredTopics.includes(topic))
+      : [],
+    readyToSummarize: parsed.readyToSummarize === true
+  };
+}
+
+async function summarizeIdea(
+  provider: LLMProvider,
+  conversation: ChatMessage[],
+  language: string
+): Promise<{ summary: string; prefill: IdeaPrefill }> {
+  // Location and industry are matched against English city, state and industry names later on
+  const instruction = languageInstruction(language);
+  const systemPrompt = instruction
+    ? `${SUMMARY_PROMPT}${instruction} This applies to summary and companyDescription; write location and industry in English.`
+    : SUMMARY_PROMPT;
+  const transcript = [{ role: 'assistant', content: OPENING_QUESTIONS[language] }, ...conversation]
+    .map(message => `${message.role === 'user' ? 'Founder' : 'Mentor'}: ${message.content}`)
+    .join('\n\n');
+
+  const parsed = await completeJson(provider, {
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: transcript }
+    ],
+    temperature: 0.3,
+    maxTokens: 1500,
+    fixtureKey: 'idea-tuning-summary.json',
+    responseSchema: { name: 'idea_tuning_summary', schema: SUMMARY_SCHEMA }
+  });
+
+  if (typeof parsed.summary !== 'string' || !parsed.summary.trim() || typeof parsed.companyDescription !== 'string') {
+    throw new Error('INVALID_API_RESPONSE: idea tuning summary is missing');
+  }
+
+  const optionalText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+  return {
+    summary: parsed.summary.trim(),
+    prefill: {
+      business_name: optionalText(parsed.businessName),
+      company_description: parsed.companyDescription.trim(),
+      location: optionalText(parsed.location),
+      industry: optionalText(parsed.industry)
+    }
+  };
+}
+
+/**
+ * Stores the summary on the session's business profile and fills in the
+ * fields the Confirmed Idea questionnaire would otherwise ask for.
+ */
+async function saveIdeaTuningOutput(
+  userId: string,
+  sessionId: string,
+  summary: string,
+  prefill: IdeaPrefill,
+  supabaseClient: SupabaseClient
+): Promise<void> {
+  const fields: Record<string, unknown> = {
+    has_idea_tuning: true,
+    idea_tuning_output: summary,
+    company_description: prefill.company_description,
+    updated_at: new Date().toISOString()
+  };
+  if (prefill.business_name) fields.business_name = prefill.business_name;
+  if (prefill.location) fields.location = prefill.location;
+  if (prefill.industry) fields.industry = prefill.industry;
+
+  const { data: existingProfile } = await supabaseClient
+    .from('business_profiles')
+    .select('id')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  const { error } = existingProfile
+    ? await supabaseClient
+        .from('business_profiles')
+        .update(fields)
+        .eq('id', existingProfile.id)
+    : await supabaseClient
+        .from('business_profiles')
+        .insert({ user_id: userId, session_id: sessionId, ...fields });
+
+  if (error) {
+    console.error('Error saving idea tuning output:', error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
@@ -0,0 +1,303 @@
+import { corsHeaders, createServiceClient, loadBusinessProfile } from '../_shared/guru.ts';
+import { completeJson, getLLMProvider } from '../_shared/llm.ts';
+import { resolveLanguage } from '../_shared/languages.ts';
+
+type NormalizeKind = 'partners' | 'location' | 'industry';
+
+interface NormalizePayload {
+  sessionId: string;
+  kind: NormalizeKind;
+  /** The founder's answer as typed */
+  answer: string;
+  /** UI language of the founder, for the confirmation summary */
+  language?: string;
+}
+
+interface NormalizedPartner {
+  name: string | null;
+  role: string | null;
+  residency: 'resident' | 'nri' | 'foreign_national' | 'unknown';
+  dinStatus: 'has_din' | 'needs_din' | 'unknown';
+  /** One-line description, the shape partners_info entries had before normalization */
+  info: string;
+}
+
+const MAX_ANSWER_LENGTH = 1000;
+const MAX_PARTNERS = 20;
+const RESIDENCIES: NormalizedPartner['residency'][] = ['resident', 'nri', 'foreign_national', 'unknown'];
+const DIN_STATUSES: NormalizedPartner['dinStatus'][] = ['has_din', 'needs_din', 'unknown'];
+
+const INDIAN_STATES = [
+  'Andhra Pradesh', 'Arunachal Pradesh', 'Assam', 'Bihar', 'Chhattisgarh', 'Goa', 'Gujarat', 'Haryana',
+  'Himachal Pradesh', 'Jharkhand', 'Karnataka', 'Kerala', 'Madhya Pradesh', 'Maharashtra', 'Manipur',
+  'Meghalaya', 'Mizoram', 'Nagaland', 'Odisha', 'Punjab', 'Rajasthan', 'Sikkim', 'Tamil Nadu', 'Telangana',
+  'Tripura', 'Uttar Pradesh', 'Uttarakhand', 'West Bengal', 'Andaman and Nicobar Islands', 'Chandigarh',
+  'Dadra and Nagar Haveli and Daman and Diu', 'Delhi', 'Jammu and Kashmir', 'Ladakh', 'Lakshadweep', 'Puducherry'
+];
+
+// Matches the industry options of the Confirmed Idea questionnaire
+const INDUSTRIES = [
+  'Technology/Software', 'Food & Beverage', 'Retail/E-commerce', 'Manufacturing',
+  'Professional Services', 'Healthcare', 'Education', 'Other'
+];
+
+interface SummaryLabels {
+  owners: (count: number) => string;
+  unnamedPartner: string;
+  residency: Record<string, string>;
+  dinStatus: Record<string, string>;
+  location: string;
+  unrecognisedLocation: string;
+  industry: string;
+}
+
+// Labels of the confirmation summary in each UI language. Names, roles,
+// places and the industry options stay as saved.
+const SUMMARY_LABELS: Record<string, SummaryLabels> = {
+  en: {
+    owners: count => `${count} ${count === 1 ? 'owner' : 'owners'}:`,
+    unnamedPartner: 'Unnamed partner',
+    residency: { resident: 'resident Indian', nri: 'NRI', foreign_national: 'foreign national' },
+    dinStatus: { has_din: 'has a DIN', needs_din: 'needs a DIN' },
+    location: 'Location',
+    unrecognisedLocation: 'not recognised as an Indian city or state',
+    industry: 'Industry'
+  },
+  hi: {
+    owners: count => `${count} मालिक:`,
+    unnamedPartner: 'बिना नाम के पार्टनर',
+    residency: { resident: 'भारतीय निवासी', nri: 'NRI', foreign_national: 'विदेशी नागरिक' },
+    dinStatus: { has_din: 'DIN है', needs_din: 'DIN चाहिए' },
+    location: 'जगह',
+    unrecognisedLocation: 'भारत का शहर या राज्य नहीं पहचाना गया',
+    industry: 'उद्योग'
+  },
+  mr: {
+    owners: count => `${count} मालक:`,
+    unnamedPartner: 'नाव नसलेला भागीदार',
+    residency: { resident: 'भारतीय रहिवासी', nri: 'NRI', foreign_national: 'परदेशी नागरिक' },
+    dinStatus: { has_din: 'DIN आहे', needs_din: 'DIN हवा' },
+    location: 'ठिकाण',
+    unrecognisedLocation: 'भारतातील शहर किंवा राज्य म्हणून ओळखले नाही',
+    industry: 'उद्योग'
+  },
+  ta: {
+    owners: count => `${count} ${count === 1 ? 'உரிமையாளர்' : 'உரிமையாளர்கள்'}:`,
+    unnamedPartner: 'பெயரில்லாத கூட்டாளர்',
+    residency: { resident: 'இந்தியாவில் வசிப்பவர்', nri: 'NRI', foreign_national: 'வெளிநாட்டவர்' },
+    dinStatus: { has_din: 'DIN உள்ளது', needs_din: 'DIN தேவை' },
+    location: 'இடம்',
+    unrecognisedLocation: 'இந்திய நகரமாகவோ மாநிலமாகவோ அடையாளம் காணப்படவில்லை',
+    industry: 'தொழில்துறை'
+  }
+};
+
+const PROMPTS: Record<NormalizeKind, string> = {
+  partners: `Extract the partners or directors of a new Indian business from the founder's answer. The founder is writing about themselves ("me", "I") and the people starting the business with them.
+
+Return ONLY a JSON object: { "partners": [{ "name": string | null, "role": string | null, "residency": "resident" | "nri" | "foreign_national" | "unknown", "dinStatus": "has_din" | "needs_din" | "unknown" }] }
+- One entry per person, including the founder. "Me and my brother" is two people; "3 co-founders" is three
+- name: as written, or null if not given ("my brother" has no name; use null)
+- role: e.g. Director, CEO, Partner, Designated Partner; null if not given
+- residency: nri or foreign_national only when the answer says so; resident when the answer says they live in India; otherwise unknown
+- dinStatus: has_din only when the answer says the person already has a DIN (Director Identification Number) or is already a director of another company; needs_din when it says they do not; otherwise unknown`,
+  location: `Turn the founder's answer about where the business will operate into a canonical Indian city and state.
+
+Return ONLY a JSON object: { "city": string | null, "state": string | null }
+- city: the city or town, with the current official spelling (Bengaluru, Mumbai, Gurugram); null if only a state is given
+- state: the state or union territory the city is in, exactly as one of: ${INDIAN_STATES.join(', ')}; null if it is outside India or unclear`,
+  industry: `Classify the business into one industry from the founder's answer and the business description.
+
+Return ONLY a JSON object: { "industry": string, "detail": string | null }
+- industry: exactly one of: ${INDUSTRIES.join(', ')}. Restaurants, cafes, cloud kitchens and packaged food are Food & Beverage
+- detail: a short sub-sector such as "Cloud kitchen" or "B2B SaaS", or null`
+};
+
+const SCHEMAS: Record<NormalizeKind, Record<string, unknown>> = {
+  partners: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['partners'],
+    properties: {
+      partners: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['name', 'role', 'residency', 'dinStatus'],
+          properties: {
+            name: { type: ['string', 'null'] },
+            role: { type: ['string', 'null'] },
+            residency: { type: 'string', enum: RESIDENCIES },
+            dinStatus: { type: 'string', enum: DIN_STATUSES }
+          }
+        }
+      }
+    }
+  },
+  location: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['city', 'state'],
+    properties: {
+      city: { type: ['string', 'null'] },
+      state: { type: ['string', 'null'] }
+    }
+  },
+  industry: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['industry', 'detail'],
+    properties: {
+      industry: { type: 'string', enum: INDUSTRIES },
+      detail: { type: ['string', 'null'] }
+    }
+  }
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    const supabaseClient = createServiceClient();
+
+    // The owner comes from the access token, never from the payload
+    const jwt = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    const { data: { user } } = await supabaseClient.auth.getUser(jwt);
+    if (!user) {
+      return jsonResponse(401, { error: 'UNAUTHORIZED', userMessage: 'Please sign in again to continue.' });
+    }
+
+    const payload: NormalizePayload = await req.json();
+    const answer = typeof payload.answer === 'string' ? payload.answer.trim() : '';
+
+    if (!payload.sessionId || !answer || !Object.hasOwn(PROMPTS, payload.kind)) {
+      return jsonResponse(400, { error: 'INVALID_REQUEST', userMessage: 'Something went wrong. Please refresh and try again.' });
+    }
+    if (answer.length > MAX_ANSWER_LENGTH) {
+      return jsonResponse(400, {
+        error: 'ANSWER_TOO_LONG',
+        userMessage: `Please keep your answer under ${MAX_ANSWER_LENGTH} characters.`
+      });
+    }
+
+    const { data: session } = await supabaseClient
+      .from('user_sessions')
+      .select('id')
+      .eq('id', payload.sessionId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!session) {
+      return jsonResponse(404, { error: 'SESSION_NOT_FOUND', userMessage: 'This conversation could not be found.' });
+    }
+
+    let userContent = `Founder's answer: ${answer}`;
+    if (payload.kind === 'industry') {
+      const profile = await loadBusinessProfile(payload.sessionId, supabaseClient);
+      userContent += `\n\nBusiness description: ${profile.company_description || profile.business_description || 'Not provided'}`;
+    }
+
+    const provider = getLLMProvider();
+    console.log(`Normalizing ${payload.kind} answer with ${provider.name} (${provider.model})`);
+    const parsed = await completeJson(provider, {
+      messages: [
+        { role: 'system', content: PROMPTS[payload.kind] },
+        { role: 'user', content: userContent }
+      ],
+      temperature: 0,
+      maxTokens: 800,
+      fixtureKey: `normalize-${payload.kind}.json`,
+      responseSchema: { name: `normalized_${payload.kind}`, schema: SCHEMAS[payload.kind] }
+    });
+
+    const labels = SUMMARY_LABELS[resolveLanguage(payload.language)];
+    const result = payload.kind === 'partners' ? normalizePartners(parsed, labels)
+      : payload.kind === 'location' ? normalizeLocation(parsed, answer, labels)
+      : normalizeIndustry(parsed, answer, labels);
+
+    return jsonResponse(200, { kind: payload.kind, ...result });
+  } catch (error: any) {
+    console.error('Error in normalize-answer function:', error);
+
+    let userMessage = 'Sorry, I could not read that answer. Please try again.';
+    if (error.message?.startsWith('API_ERROR')) {
+      userMessage = 'AI service temporarily unavailable. Please try again in a moment.';
+    }
+
+    return jsonResponse(500, { error: 'Internal server error', userMessage, details: error.message });
+  }
+});
+
+/**
+ * Each normalizer returns the business_profiles fields to save and a summary
+ * in the founder's language, which they confirm in the chat before the fields
+ * are saved.
+ */
+function normalizePartners(parsed: Record<string, any>, labels: SummaryLabels): { fields: Record<string, unknown>; summary: string } {
+  const optionalText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+  const partners: NormalizedPartner[] = (Array.isArray(parsed.partners) ? parsed.partners : [])
+    .slice(0, MAX_PARTNERS)
+    .map((entry: any) => {
+      const name = optionalText(entry?.name);
+      const role = optionalText(entry?.role);
+      const residency = RESIDENCIES.includes(entry?.residency) ? entry.residency : 'unknown';
+      const dinStatus = DIN_STATUSES.includes(entry?.dinStatus) ? entry.dinStatus : 'unknown';
+      return { name, role, residency, dinStatus, info: [name || 'Unnamed partner', role].filter(Boolean).join(' - ') };
+    });
+
+  if (partners.length === 0) {
+    throw new Error('INVALID_API_RESPONSE: no partners found in the answer');
+  }
+
+  const lines = partners.map((partner, index) => {
+    const details = [partner.role, labels.residency[partner.residency], labels.dinStatus[partner.dinStatus]].filter(Boolean);
+    return `${index + 1}. ${partner.name || labels.unnamedPartner}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+  });
+
+  return {
+    fields: { partners_info: partners },
+    summary: `${labels.owners(partners.length)}\n${lines.join('\n')}`
+  };
+}
+
+function normalizeLocation(parsed: Record<string, any>, answer: string, labels: SummaryLabels): { fields: Record<string, unknown>; summary: string } {
+  const city = typeof parsed.city === 'string' && parsed.city.trim() ? parsed.city.trim() : null;
+  const state = INDIAN_STATES.find(candidate => candidate.toLowerCase() === String(parsed.state ?? '').trim().toLowerCase()) ?? null;
+
+  if (!city && !state) {
+    // Outside India or unclear: keep the answer as typed rather than guess
+    return { fields: { location: answer, location_city: null, location_state: null }, summary: `${labels.location}: ${answer} (${labels.unrecognisedLocation})` };
+  }
+
+  const location = [city, state].filter(Boolean).join(', ');
+  return { fields: { location, location_city: city, location_state: state }, summary: `${labels.location}: ${location}` };
+}
+
+function normalizeIndustry(parsed: Record<string, any>, answer: string, labels: SummaryLabels): { fields: Record<string, unknown>; summary: string } {
+  const industry = INDUSTRIES.find(candidate => candidate.toLowerCase() === String(parsed.industry ?? '').trim().toLowerCase()) ?? 'Other';
+  const detail = typeof parsed.detail === 'string' && parsed.detail.trim()
+    ? parsed.detail.trim()
+    : industry === 'Other' ? answer : null;
+
+  return {
+    fields: { industry, industry_detail: detail },
+    summary: `${labels.industry}: ${industry}${detail ? ` (${detail})` : ''}`
+  };
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
@@ -0,0 +1,157 @@
+import {
+  buildGuideContext,
+  buildGuruResponseBody,
+  corsHeaders,
+  createServiceClient,
+  guruErrorResponse,
+  loadBusinessProfile,
+  persistGuide
+} from '../_shared/guru.ts';
+import { getGuru } from '../_shared/gurus/index.ts';
+import { getLLMProvider } from '../_shared/llm.ts';
+import { replaceGuideSection, splitGuideSections } from '../_shared/guideSections.ts';
+import { guideLanguageInstruction, resolveLanguage } from '../_shared/languages.ts';
+
+interface RegenerateSectionPayload {
+  documentId: string;
+  /** Index of the section among the guide's `##` sections */
+  sectionIndex: number;
+  /** Title the client saw at that index, to detect a guide that changed meanwhile */
+  sectionTitle: string;
+  /** Extra instruction from the user, e.g. "assume 3 directors, one NRI" */
+  instruction: string;
+}
+
+const MAX_INSTRUCTION_LENGTH = 1000;
+const SECTION_MAX_TOKENS = 1500;
+
+const SECTION_PROMPT = `You are now revising a single section of a guide you already wrote. Rewrite ONLY the section you are given, following the user's instruction and keeping the rest of the guide consistent with your answer.
+
+Rules:
+- Start with the section's heading exactly as given, then the section body
+- Do not write any other section, introduction or closing remarks
+- Keep the same markdown style as the rest of the guide`;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    const supabaseClient = createServiceClient();
+
+    // The owner comes from the access token, never from the payload
+    const jwt = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    const { data: { user } } = await supabaseClient.auth.getUser(jwt);
+    if (!user) {
+      return jsonResponse(401, { error: 'UNAUTHORIZED', userMessage: 'Please sign in again to edit this guide.' });
+    }
+
+    const payload: RegenerateSectionPayload = await req.json();
+    const instruction = payload.instruction?.trim() ?? '';
+
+    if (!payload.documentId || !Number.isInteger(payload.sectionIndex)) {
+      return jsonResponse(400, { error: 'INVALID_REQUEST', userMessage: 'Missing document or section.' });
+    }
+    if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+      return jsonResponse(400, {
+        error: 'INSTRUCTION_TOO_LONG',
+        userMessage: `Please keep the instruction under ${MAX_INSTRUCTION_LENGTH} characters.`
+      });
+    }
+
+    const { data: document, error: documentError } = await supabaseClient
+      .from('generated_documents')
+      .select('id, user_id, session_id, document_type, full_content, generation_status, language')
+      .eq('id', payload.documentId)
+      .maybeSingle();
+
+    if (documentError) {
+      throw new Error(`Database error: ${documentError.message}`);
+    }
+    if (!document || document.user_id !== user.id) {
+      return jsonResponse(404, { error: 'DOCUMENT_NOT_FOUND', userMessage: 'This guide could not be found.' });
+    }
+    if (document.generation_status !== 'completed' || !document.full_content) {
+      return jsonResponse(409, {
+        error: 'DOCUMENT_NOT_READY',
+        userMessage: 'This guide is still being generated. Please wait until it is complete.'
+      });
+    }
+
+    const definition = getGuru(document.document_type);
+    if (!definition) {
+      return jsonResponse(400, { error: 'UNKNOWN_DOCUMENT_TYPE', userMessage: 'This guide cannot be edited.' });
+    }
+
+    const section = splitGuideSections(document.full_content)[payload.sectionIndex];
+    if (!section || section.title !== payload.sectionTitle) {
+      return jsonResponse(409, {
+        error: 'SECTION_CHANGED',
+        userMessage: 'This guide has changed since you opened it. Please reopen it and try again.'
+      });
+    }
+
+    const profile = await loadBusinessProfile(document.session_id, supabaseClient);
+    // The section is rewritten in the language the rest of the guide is in
+    const language = resolveLanguage(document.language);
+    const systemPrompt = `${definition.systemPrompt}${guideLanguageInstruction(language)}\n\n${SECTION_PROMPT}`;
+    const userPrompt = `${buildGuideContext(definition, profile)}
+
+Current guide:
+
+${document.full_content}
+
+Section to rewrite:
+
+${section.content.trim()}
+
+Instruction: ${instruction || 'Improve this section with more specific, accurate detail for this business.'}`;
+
+    const provider = getLLMProvider();
+    console.log(`Regenerating "${section.title}" of ${definition.documentType} ${document.id} with ${provider.name} (${provider.model})`);
+
+    const sectionContent = await provider.complete({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: definition.temperature,
+      maxTokens: Math.min(definition.maxTokens, SECTION_MAX_TOKENS),
+      fixtureKey: 'section.md'
+    });
+
+    const result = await persistGuide(
+      definition,
+      {
+        userId: document.user_id,
+        sessionId: document.session_id,
+        profile,
+        fullContent: replaceGuideSection(document.full_content, section, sectionContent),
+        systemPrompt,
+        userPrompt,
+        provider,
+        language
+      },
+      supabaseClient
+    );
+
+    return jsonResponse(200, buildGuruResponseBody(result));
+  } catch (error: any) {
+    console.error('Error in regenerate-guide-section function:', error);
+    return guruErrorResponse({ guideLabel: 'section' }, error);
+  }
+});
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
@@ -0,0 +1,122 @@
+/*
+  # Create Generation Jobs Queue
+
+  ## Overview
+  Guide generation used to run inside four parallel requests from the browser,
+  so closing the tab lost the work. The client now enqueues one job per guide
+  and the generation-worker edge function processes the queue server-side.
+
+  ## New Tables
+
+  ### generation_jobs
+  - `id` (uuid, primary key) - Job identifier
+  - `user_id` (uuid, foreign key → users) - Owner of the session
+  - `session_id` (uuid, foreign key → user_sessions) - Session whose profile is used
+  - `document_type` (text) - Guide to generate: registration/branding/compliance/hr
+  - `status` (text) - pending/running/completed/failed
+  - `attempts` (integer) - Number of times a worker has claimed the job
+  - `max_attempts` (integer) - Attempts allowed before the job is marked failed
+  - `run_after` (timestamptz) - Earliest time the job may be claimed (retry backoff)
+  - `locked_until` (timestamptz) - Lease of the running worker; expired leases are reclaimed
+  - `last_error` (text) - Error code from the most recent failed attempt
+  - `document_id` (uuid, foreign key → generated_documents) - Result once completed
+
+  ## New Functions
+  - `claim_generation_job(lock_seconds)` - Atomically claims the next runnable job
+    (pending and due, or running with an expired lease) using FOR UPDATE SKIP LOCKED,
+    so several workers can drain the queue without picking the same job.
+
+  ## Security
+  - RLS enabled; users can view and enqueue jobs for their own sessions only
+  - Status transitions are made by the worker with the service role
+  - The claim function is only executable by the service role
+
+  ## Realtime
+  - generation_jobs is added to the supabase_realtime publication so the client can
+    follow job progress without polling
+*/
+
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  session_id uuid REFERENCES user_sessions(id) ON DELETE CASCADE NOT NULL,
+  document_type text NOT NULL CHECK (document_type IN ('registration', 'branding', 'compliance', 'hr')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  run_after timestamptz NOT NULL DEFAULT now(),
+  locked_until timestamptz,
+  last_error text,
+  document_id uuid REFERENCES generated_documents(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'generation_jobs' AND policyname = 'Users can view own generation jobs') THEN
+    CREATE POLICY "Users can view own generation jobs" ON generation_jobs FOR SELECT TO authenticated USING (auth.uid() = user_id);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'generation_jobs' AND policyname = 'Users can enqueue own generation jobs') THEN
+    CREATE POLICY "Users can enqueue own generation jobs" ON generation_jobs FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id AND status = 'pending');
+  END IF;
+END $$;
+
+-- Only one active job per guide per session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_jobs_active_unique
+  ON generation_jobs(session_id, document_type)
+  WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_session_id ON generation_jobs(session_id);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_runnable ON generation_jobs(status, run_after);
+
+CREATE OR REPLACE FUNCTION update_generation_job_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS generation_job_updated_at_trigger ON generation_jobs;
+CREATE TRIGGER generation_job_updated_at_trigger
+  BEFORE UPDATE ON generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_generation_job_updated_at();
+
+CREATE OR REPLACE FUNCTION claim_generation_job(lock_seconds integer DEFAULT 300)
+RETURNS SETOF generation_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE generation_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_until = now() + make_interval(secs => lock_seconds)
+  WHERE id = (
+    SELECT id FROM generation_jobs
+    WHERE (status = 'pending' AND run_after <= now())
+       OR (status = 'running' AND locked_until < now())
+    ORDER BY run_after, created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION claim_generation_job(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_generation_job(integer) TO service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'generation_jobs'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE generation_jobs;
+  END IF;
+END $$;
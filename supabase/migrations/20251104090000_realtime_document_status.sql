@@ -0,0 +1,94 @@
+/*
+  # Realtime Document Status
+
+  ## Overview
+  The chat used to poll generated_documents every 2 seconds and gave up after a
+  minute, so slow guides were reported as failed while still running. The client
+  now subscribes to generated_documents over Realtime instead, which needs every
+  state of a guide to be visible as a row change.
+
+  ## Changes
+
+  ### 1. 'pending' generation status
+  - generation_status accepts 'pending' for guides that are queued but not started
+    (also used while a failed attempt waits to be retried)
+
+  ### 2. Pending rows on enqueue
+  - Inserting a generation_jobs row creates or resets the matching
+    generated_documents row to 'pending', so the guide shows up as queued
+    before a worker picks it up
+
+  ### 3. Realtime publication
+  - generated_documents is added to the supabase_realtime publication
+
+  ## Security
+  - Maintains existing RLS policies; Realtime only delivers rows the user can select
+  - The enqueue trigger runs as the table owner, so it raises unless the job's
+    user owns the job's session and only resets that user's guide
+*/
+
+-- Allow 'pending' as a generation status
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'generated_documents_generation_status_check'
+  ) THEN
+    ALTER TABLE generated_documents DROP CONSTRAINT generated_documents_generation_status_check;
+  END IF;
+
+  ALTER TABLE generated_documents ADD CONSTRAINT generated_documents_generation_status_check
+  CHECK (generation_status IN ('pending', 'generating', 'completed', 'failed'));
+END $$;
+
+-- Mark the guide as pending as soon as its job is queued
+CREATE OR REPLACE FUNCTION mark_document_pending_for_job()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_sessions
+    WHERE id = NEW.session_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Session % does not belong to user %', NEW.session_id, NEW.user_id
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO generated_documents (user_id, session_id, document_type, document_title, generation_status, service_type)
+  VALUES (
+    NEW.user_id,
+    NEW.session_id,
+    NEW.document_type,
+    CASE NEW.document_type
+      WHEN 'registration' THEN 'Registration Guide'
+      WHEN 'branding' THEN 'Branding Guide'
+      WHEN 'compliance' THEN 'Compliance Guide'
+      WHEN 'hr' THEN 'HR Setup Guide'
+      ELSE initcap(NEW.document_type) || ' Guide'
+    END,
+    'pending',
+    'confirmed_idea_flow'
+  )
+  ON CONFLICT (session_id, document_type)
+  DO UPDATE SET generation_status = 'pending'
+  WHERE generated_documents.user_id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS generation_job_mark_document_pending_trigger ON generation_jobs;
+CREATE TRIGGER generation_job_mark_document_pending_trigger
+  AFTER INSERT ON generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_document_pending_for_job();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'generated_documents'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE generated_documents;
+  END IF;
+END $$;
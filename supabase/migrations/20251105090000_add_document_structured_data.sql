@@ -0,0 +1,29 @@
+/*
+  # Add Structured Data to Generated Documents
+
+  ## Overview
+  Each guru now asks the model for a JSON summary of the guide it wrote
+  (entity recommendation, timeline steps with day ranges, cost line items,
+  checklist items and portal links). The summary is validated in the edge
+  function and stored next to the markdown, and the dashboard key points and
+  the viewer's timeline, cost and checklist panels are rendered from it.
+
+  ## Modified Tables
+
+  ### generated_documents
+  - `structured_data` (jsonb, nullable) - Validated guide data; null for guides
+    generated before this change or when extraction failed
+
+  ## Security
+  - Maintains existing RLS policies
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generated_documents' AND column_name = 'structured_data'
+  ) THEN
+    ALTER TABLE generated_documents ADD COLUMN structured_data jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,108 @@
+/*
+  # Create Document Versions
+
+  ## Overview
+  Regenerating a guide used to overwrite the generated_documents row and the
+  day's PDF, so the previous guide was lost. Every generation is now also kept
+  as an immutable version with everything needed to explain how it was made,
+  and PDFs are stored under a per-version path.
+
+  ## New Tables
+
+  ### document_versions
+  - `id` (uuid, primary key) - Version identifier
+  - `document_id` (uuid, foreign key → generated_documents) - Guide this version belongs to
+  - `user_id` (uuid, foreign key → users) - Owner
+  - `session_id` (uuid, foreign key → user_sessions) - Session the guide was generated in
+  - `document_type` (text) - registration/branding/compliance/hr
+  - `version_number` (integer) - 1 for the first generation, increasing by one
+  - `full_content` (text) - Markdown of this version
+  - `key_points` (jsonb) - Dashboard highlights of this version
+  - `structured_data` (jsonb) - Validated structured data of this version
+  - `system_prompt` (text) - System prompt sent to the model
+  - `user_prompt` (text) - Business context sent to the model
+  - `model` (text) - Model name, e.g. openai/gpt-4o-mini
+  - `provider` (text) - LLM provider, e.g. openrouter
+  - `profile_snapshot` (jsonb) - Business profile as it was when the version was generated
+  - `pdf_url` / `pdf_file_name` (text) - PDF of this version
+
+  ## Modified Tables
+
+  ### generated_documents
+  - `current_version` (integer) - Version number the row currently holds
+
+  ## Data Migration
+  - Existing completed guides are recorded as version 1, with the current
+    business profile as their snapshot
+
+  ## Security
+  - RLS enabled; users can view versions of their own documents
+  - Versions are written by the edge functions with the service role and are never updated
+*/
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid REFERENCES generated_documents(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  session_id uuid REFERENCES user_sessions(id) ON DELETE CASCADE NOT NULL,
+  document_type text NOT NULL,
+  version_number integer NOT NULL,
+  full_content text NOT NULL,
+  key_points jsonb DEFAULT '[]'::jsonb,
+  structured_data jsonb,
+  system_prompt text,
+  user_prompt text,
+  model text,
+  provider text,
+  profile_snapshot jsonb,
+  pdf_url text,
+  pdf_file_name text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT document_versions_document_version_unique UNIQUE (document_id, version_number)
+);
+
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'document_versions' AND policyname = 'Users can view own document versions') THEN
+    CREATE POLICY "Users can view own document versions" ON document_versions FOR SELECT TO authenticated USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_document_versions_document_id ON document_versions(document_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_document_versions_user_id ON document_versions(user_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generated_documents' AND column_name = 'current_version'
+  ) THEN
+    ALTER TABLE generated_documents ADD COLUMN current_version integer;
+  END IF;
+END $$;
+
+-- Record existing guides as their first version
+INSERT INTO document_versions (
+  document_id, user_id, session_id, document_type, version_number,
+  full_content, key_points, structured_data, profile_snapshot,
+  pdf_url, pdf_file_name, created_at
+)
+SELECT
+  d.id, d.user_id, d.session_id, d.document_type, 1,
+  d.full_content,
+  CASE WHEN jsonb_typeof(d.key_points) = 'string' THEN (d.key_points #>> '{}')::jsonb ELSE d.key_points END,
+  d.structured_data,
+  to_jsonb(p) - 'id' - 'user_id' - 'session_id',
+  d.pdf_url, d.pdf_file_name, d.updated_at
+FROM generated_documents d
+LEFT JOIN business_profiles p ON p.session_id = d.session_id
+WHERE d.generation_status = 'completed'
+  AND d.full_content IS NOT NULL
+ON CONFLICT (document_id, version_number) DO NOTHING;
+
+UPDATE generated_documents
+SET current_version = 1
+WHERE current_version IS NULL
+  AND id IN (SELECT document_id FROM document_versions);
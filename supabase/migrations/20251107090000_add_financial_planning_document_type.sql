@@ -0,0 +1,82 @@
+/*
+  # Financial Planning Document Type
+
+  ## Overview
+  Adds the Financial Planning guide as a fifth document type: a 12-36 month
+  budget, burn rate, break-even analysis and funding options built from the
+  business profile's capital investment and expected turnover.
+
+  ## Changes
+
+  ### 1. Document type constraints
+  - generated_documents.document_type and generation_jobs.document_type accept
+    'financial_planning'
+
+  ### 2. Pending rows on enqueue
+  - mark_document_pending_for_job() titles the new guide "Financial Planning Guide"
+
+  ## Security
+  - No policy changes; existing RLS on both tables applies to the new type
+  - mark_document_pending_for_job() keeps its session-ownership check
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'generated_documents_document_type_check'
+  ) THEN
+    ALTER TABLE generated_documents DROP CONSTRAINT generated_documents_document_type_check;
+  END IF;
+
+  ALTER TABLE generated_documents ADD CONSTRAINT generated_documents_document_type_check
+  CHECK (document_type IN ('registration', 'branding', 'compliance', 'hr', 'financial_planning'));
+END $$;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'generation_jobs_document_type_check'
+  ) THEN
+    ALTER TABLE generation_jobs DROP CONSTRAINT generation_jobs_document_type_check;
+  END IF;
+
+  ALTER TABLE generation_jobs ADD CONSTRAINT generation_jobs_document_type_check
+  CHECK (document_type IN ('registration', 'branding', 'compliance', 'hr', 'financial_planning'));
+END $$;
+
+CREATE OR REPLACE FUNCTION mark_document_pending_for_job()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_sessions
+    WHERE id = NEW.session_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Session % does not belong to user %', NEW.session_id, NEW.user_id
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO generated_documents (user_id, session_id, document_type, document_title, generation_status, service_type)
+  VALUES (
+    NEW.user_id,
+    NEW.session_id,
+    NEW.document_type,
+    CASE NEW.document_type
+      WHEN 'registration' THEN 'Registration Guide'
+      WHEN 'branding' THEN 'Branding Guide'
+      WHEN 'compliance' THEN 'Compliance Guide'
+      WHEN 'hr' THEN 'HR Setup Guide'
+      WHEN 'financial_planning' THEN 'Financial Planning Guide'
+      ELSE initcap(NEW.document_type) || ' Guide'
+    END,
+    'pending',
+    'confirmed_idea_flow'
+  )
+  ON CONFLICT (session_id, document_type)
+  DO UPDATE SET generation_status = 'pending'
+  WHERE generated_documents.user_id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
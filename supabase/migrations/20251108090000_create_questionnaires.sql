@@ -0,0 +1,190 @@
+/*
+  # Create Questionnaires
+
+  ## Overview
+  The Confirmed Idea questions used to be a fixed list in the chat component,
+  so every wording change needed a frontend deploy. The questionnaire is now a
+  JSON definition stored in the database and rendered by a generic engine in
+  the client (src/lib/questionnaire.ts). Product can edit the definition, or
+  insert a new version and activate it, without touching the app.
+
+  ## New Tables
+
+  ### questionnaires
+  - `id` (uuid, primary key) - Definition identifier
+  - `slug` (text) - Which questionnaire this is, e.g. 'confirmed_idea'
+  - `version` (integer) - Increases with every published change of a slug
+  - `title` (text) - Human readable name
+  - `definition` (jsonb) - `{ "questions": [...] }`; each question has an `id`,
+    the profile `field` it fills, a `type` (text, long_text, choice, yes_no,
+    amount, list), the `prompt`, optional `helpText`, `required`, `options`,
+    `allowOther`, `validation` ({ minLength, maxLength, pattern, message }),
+    `showIf` condition ({ field, equals | in | matches } or { all | any: [...] })
+    and `storage` ('profile' for business_profiles columns, 'answers' for
+    questionnaire_answers)
+  - `is_active` (boolean) - The version the app uses; at most one per slug
+
+  ## Changes
+  - business_profiles.questionnaire_answers (jsonb) keeps answers that have no
+    column of their own, keyed by question id with the question text, so the
+    guides can use them without knowing the definition
+  - Seeds version 1 of 'confirmed_idea' with the existing questions, an
+    industry question, and an FSSAI question asked only for food businesses
+
+  ## Security
+  - RLS enabled; signed-in users can read active questionnaires
+  - Changes are made with the service role (dashboard or SQL), not from the app
+*/
+
+CREATE TABLE IF NOT EXISTS questionnaires (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text NOT NULL,
+  version integer NOT NULL DEFAULT 1,
+  title text NOT NULL,
+  definition jsonb NOT NULL,
+  is_active boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (slug, version),
+  CHECK (jsonb_typeof(definition -> 'questions') = 'array')
+);
+
+ALTER TABLE questionnaires ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'questionnaires' AND policyname = 'Authenticated users can view active questionnaires') THEN
+    CREATE POLICY "Authenticated users can view active questionnaires" ON questionnaires FOR SELECT TO authenticated USING (is_active = true);
+  END IF;
+END $$;
+
+-- Only one active version per questionnaire
+CREATE UNIQUE INDEX IF NOT EXISTS idx_questionnaires_active_slug
+  ON questionnaires(slug)
+  WHERE is_active;
+
+CREATE OR REPLACE FUNCTION update_questionnaire_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS questionnaires_updated_at ON questionnaires;
+CREATE TRIGGER questionnaires_updated_at
+  BEFORE UPDATE ON questionnaires
+  FOR EACH ROW
+  EXECUTE FUNCTION update_questionnaire_updated_at();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_profiles' AND column_name = 'questionnaire_answers'
+  ) THEN
+    ALTER TABLE business_profiles ADD COLUMN questionnaire_answers jsonb DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+-- Version 1 mirrors DEFAULT_QUESTIONNAIRE in src/lib/defaultQuestionnaire.ts,
+-- which the app falls back to when the table cannot be read
+INSERT INTO questionnaires (slug, version, title, is_active, definition)
+VALUES (
+  'confirmed_idea',
+  1,
+  'Confirmed Idea',
+  true,
+  $json${
+    "questions": [
+      {
+        "id": "business_name",
+        "field": "business_name",
+        "type": "text",
+        "prompt": "What is the company name or preferred company name?",
+        "helpText": "A working name is fine if you have not decided yet - the registration guide explains how to check that it is available.",
+        "validation": { "minLength": 2, "maxLength": 120 }
+      },
+      {
+        "id": "company_description",
+        "field": "company_description",
+        "type": "long_text",
+        "prompt": "Please provide a brief description of the company or company website",
+        "helpText": "A sentence or two on what you sell, to whom and how you make money. A website address works too.",
+        "validation": { "minLength": 10, "maxLength": 2000, "message": "Please describe the business in at least a few words." }
+      },
+      {
+        "id": "industry",
+        "field": "industry",
+        "type": "choice",
+        "prompt": "Which industry is the business in?",
+        "helpText": "Licences and compliance depend on the industry. Pick the closest one, or type your own.",
+        "options": [
+          "Technology/Software",
+          "Food & Beverage",
+          "Retail/E-commerce",
+          "Manufacturing",
+          "Professional Services",
+          "Healthcare",
+          "Education",
+          "Other"
+        ],
+        "allowOther": true
+      },
+      {
+        "id": "fssai_license",
+        "field": "fssai_license",
+        "storage": "answers",
+        "type": "yes_no",
+        "prompt": "Do you already have an FSSAI registration or licence?",
+        "helpText": "Every food business in India needs FSSAI basic registration or a State/Central licence, depending on turnover. Answer no if you have not applied yet - the compliance guide will cover it.",
+        "showIf": { "field": "industry", "matches": "food|beverage|restaurant|cafe|bakery|catering|cloud kitchen|sweets|dairy" }
+      },
+      {
+        "id": "location",
+        "field": "location",
+        "type": "text",
+        "prompt": "Which location will the business operate in?",
+        "helpText": "City and state, e.g. Pune, Maharashtra. State rules decide several registrations and taxes.",
+        "validation": { "minLength": 2, "maxLength": 200 }
+      },
+      {
+        "id": "partners_info",
+        "field": "partners_info",
+        "type": "list",
+        "prompt": "Who will be the partners or directors? (How many and their roles?)",
+        "helpText": "Separate people with a semicolon, e.g. \"Asha - CEO, 60%; Ravi - CTO, 40%\". Type \"just me\" if you are the only founder."
+      },
+      {
+        "id": "capital_investment",
+        "field": "capital_investment",
+        "type": "amount",
+        "prompt": "How much capital do you plan to invest to start the business? (e.g. ₹10 lakhs)",
+        "helpText": "Include your own money and any loans or investment you expect before launch. Type \"not sure\" if you have no figure yet."
+      },
+      {
+        "id": "expected_turnover",
+        "field": "expected_turnover",
+        "type": "amount",
+        "prompt": "What turnover do you expect in the first year? (e.g. ₹25 lakhs, or \"not sure\")",
+        "helpText": "A rough figure is enough. It decides GST registration and the financial plan."
+      },
+      {
+        "id": "color_preference",
+        "field": "color_preference",
+        "type": "choice",
+        "prompt": "What color tone would you prefer for branding?",
+        "options": ["Earthy", "Bright", "Professional", "Pastel", "Monochrome"],
+        "allowOther": true
+      },
+      {
+        "id": "style_preference",
+        "field": "style_preference",
+        "type": "choice",
+        "prompt": "What style would you prefer?",
+        "options": ["Conservative/Classic", "Modern/Contemporary", "Expressive/Bold"]
+      }
+    ]
+  }$json$::jsonb
+)
+ON CONFLICT (slug, version) DO NOTHING;
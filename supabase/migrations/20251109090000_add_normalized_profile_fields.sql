@@ -0,0 +1,88 @@
+/*
+  # Normalized Profile Fields
+
+  ## Overview
+  Questionnaire answers for partners, location and industry used to be saved
+  as typed, so "me and my brother, both directors" became a single
+  partners_info entry and every guide counted one owner. The normalize-answer
+  edge function now turns these answers into structured values, which the
+  founder confirms in the chat before they are saved.
+
+  ## Changes
+
+  ### 1. business_profiles
+  - `location_city` (text) - Canonical city, e.g. Bengaluru
+  - `location_state` (text) - Indian state or union territory; `location` keeps
+    the combined "City, State" text the guides already read
+  - `industry_detail` (text) - Sub-sector next to the `industry` category,
+    e.g. "Cloud kitchen"
+  - partners_info entries gain `name`, `role`, `residency`
+    (resident/nri/foreign_national/unknown) and `dinStatus`
+    (has_din/needs_din/unknown) next to the existing `info` text; it is jsonb,
+    so no column change is needed
+
+  ### 2. Confirmed Idea questionnaire version 2
+  - Copies the active version 1 and adds `"normalize"` to the industry,
+    location and partners questions, then makes version 2 the active one
+
+  ## Security
+  - No policy changes
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_profiles' AND column_name = 'location_city'
+  ) THEN
+    ALTER TABLE business_profiles ADD COLUMN location_city text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_profiles' AND column_name = 'location_state'
+  ) THEN
+    ALTER TABLE business_profiles ADD COLUMN location_state text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_profiles' AND column_name = 'industry_detail'
+  ) THEN
+    ALTER TABLE business_profiles ADD COLUMN industry_detail text;
+  END IF;
+END $$;
+
+INSERT INTO questionnaires (slug, version, title, is_active, definition)
+SELECT
+  slug,
+  2,
+  title,
+  false,
+  jsonb_build_object('questions', (
+    SELECT jsonb_agg(
+      CASE question ->> 'id'
+        WHEN 'industry' THEN question || '{"normalize": "industry"}'::jsonb
+        WHEN 'location' THEN question || '{"normalize": "location"}'::jsonb
+        WHEN 'partners_info' THEN question || jsonb_build_object(
+          'normalize', 'partners',
+          'helpText', 'Names, roles and where they live, e.g. "Asha (CEO) and her brother Ravi, who lives in Dubai". Mention anyone who already has a DIN. Type "just me" if you are the only founder.'
+        )
+        ELSE question
+      END
+      ORDER BY position
+    )
+    FROM jsonb_array_elements(definition -> 'questions') WITH ORDINALITY AS questions(question, position)
+  ))
+FROM questionnaires
+WHERE slug = 'confirmed_idea' AND version = 1
+ON CONFLICT (slug, version) DO NOTHING;
+
+-- Two statements, since only one version per slug may be active at any time
+UPDATE questionnaires SET is_active = false
+WHERE slug = 'confirmed_idea' AND version <> 2 AND EXISTS (
+  SELECT 1 FROM questionnaires WHERE slug = 'confirmed_idea' AND version = 2
+);
+
+UPDATE questionnaires SET is_active = true
+WHERE slug = 'confirmed_idea' AND version = 2;
@@ -0,0 +1,126 @@
+/*
+  # Create Business Workspaces
+
+  ## Overview
+  A user can already have one business profile per session, and the document
+  history groups guides by business_name, but the chat had no idea which
+  business it was working on. A business is now a first-class workspace that
+  sessions belong to, so the chat can switch between businesses, show each
+  business's guides, and start new guides for a business from its saved
+  answers instead of asking the questionnaire again.
+
+  ## New Tables
+
+  ### businesses
+  - `id` (uuid, primary key) - Workspace identifier
+  - `user_id` (uuid, foreign key → users) - Owner
+  - `name` (text) - Shown in the switcher; starts as the profile's business_name
+  - `created_at` / `updated_at` (timestamptz) - updated_at moves to the top of
+    the switcher when a session is added
+
+  ## Changes
+  - user_sessions.business_id (uuid, foreign key → businesses) - Business the
+    session works on; null until the guides are generated
+  - business_profiles.business_id (uuid, foreign key → businesses) - Same
+    business as the profile's session, so the latest answers of a business can
+    be found without going through its sessions
+
+  ## Data Migration
+  - Existing profiles with a business_name get one business per user and name
+    (case-insensitive), and their sessions are linked to it
+
+  ## Security
+  - RLS enabled; users can view, create, rename and delete their own businesses
+  - Deleting a business keeps its sessions, profiles and guides
+*/
+
+CREATE TABLE IF NOT EXISTS businesses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE businesses ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'businesses' AND policyname = 'Users can view own businesses') THEN
+    CREATE POLICY "Users can view own businesses" ON businesses FOR SELECT TO authenticated USING (auth.uid() = user_id);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'businesses' AND policyname = 'Users can insert own businesses') THEN
+    CREATE POLICY "Users can insert own businesses" ON businesses FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'businesses' AND policyname = 'Users can update own businesses') THEN
+    CREATE POLICY "Users can update own businesses" ON businesses FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'businesses' AND policyname = 'Users can delete own businesses') THEN
+    CREATE POLICY "Users can delete own businesses" ON businesses FOR DELETE TO authenticated USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_businesses_user_id ON businesses(user_id, updated_at DESC);
+
+CREATE OR REPLACE FUNCTION update_business_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS businesses_updated_at ON businesses;
+CREATE TRIGGER businesses_updated_at
+  BEFORE UPDATE ON businesses
+  FOR EACH ROW
+  EXECUTE FUNCTION update_business_updated_at();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_sessions' AND column_name = 'business_id'
+  ) THEN
+    ALTER TABLE user_sessions ADD COLUMN business_id uuid REFERENCES businesses(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'business_profiles' AND column_name = 'business_id'
+  ) THEN
+    ALTER TABLE business_profiles ADD COLUMN business_id uuid REFERENCES businesses(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_business_id ON user_sessions(business_id);
+CREATE INDEX IF NOT EXISTS idx_business_profiles_business_id ON business_profiles(business_id, updated_at DESC);
+
+-- One business per user and business name for the existing profiles
+INSERT INTO businesses (user_id, name, created_at, updated_at)
+SELECT p.user_id, min(trim(p.business_name)), min(p.created_at), max(p.updated_at)
+FROM business_profiles p
+WHERE p.business_id IS NULL
+  AND nullif(trim(p.business_name), '') IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM businesses b
+    WHERE b.user_id = p.user_id AND lower(b.name) = lower(trim(p.business_name))
+  )
+GROUP BY p.user_id, lower(trim(p.business_name));
+
+UPDATE business_profiles p
+SET business_id = b.id
+FROM businesses b
+WHERE p.business_id IS NULL
+  AND b.user_id = p.user_id
+  AND lower(b.name) = lower(trim(p.business_name));
+
+UPDATE user_sessions s
+SET business_id = p.business_id
+FROM business_profiles p
+WHERE p.session_id = s.id
+  AND s.business_id IS NULL
+  AND p.business_id IS NOT NULL;
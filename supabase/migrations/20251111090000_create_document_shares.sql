@@ -0,0 +1,91 @@
+/*
+  # Create Document Share Links
+
+  ## Overview
+  The only way to show a guide to an accountant or co-founder was its public
+  storage URL, which never expires and cannot be taken back. Owners can now
+  create share links for one guide or for all guides of a business. A link
+  has an expiry, an optional passcode and can be revoked; it is opened through
+  the document-share edge function, which checks it, hands out storage URLs
+  that are only valid for a few minutes, and records every view.
+
+  ## New Tables
+
+  ### document_shares
+  - `id` (uuid, primary key) - Share identifier
+  - `user_id` (uuid, foreign key → users) - Owner who created the link
+  - `document_id` (uuid, foreign key → generated_documents) - Shared guide, or
+  - `business_id` (uuid, foreign key → businesses) - Business whose latest guides are shared
+  - `token` (text, unique) - Random value in the link, /share/<token>
+  - `label` (text) - Who the link is for, shown to the owner
+  - `passcode_hash` (text) - PBKDF2 hash of the passcode; null when none is needed
+  - `has_passcode` (boolean, generated) - Lets the owner's list show a lock without reading the hash
+  - `expires_at` (timestamptz) - The link stops working after this
+  - `revoked_at` (timestamptz) - Set when the owner revokes the link
+
+  ### document_share_views
+  - `id` (uuid, primary key) - View identifier
+  - `share_id` (uuid, foreign key → document_shares) - Link that was opened
+  - `succeeded` (boolean) - False for a wrong passcode
+  - `user_agent` (text) - Browser of the viewer
+  - `viewed_at` (timestamptz) - When the link was opened
+
+  ## Security
+  - RLS enabled; owners can view their links and their view log, and revoke
+    their links
+  - Links are created and opened by the edge function with the service role,
+    so tokens and passcode hashes never come from the browser
+*/
+
+CREATE TABLE IF NOT EXISTS document_shares (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  document_id uuid REFERENCES generated_documents(id) ON DELETE CASCADE,
+  business_id uuid REFERENCES businesses(id) ON DELETE CASCADE,
+  token text UNIQUE NOT NULL,
+  label text,
+  passcode_hash text,
+  has_passcode boolean GENERATED ALWAYS AS (passcode_hash IS NOT NULL) STORED,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT document_shares_one_target CHECK ((document_id IS NULL) <> (business_id IS NULL))
+);
+
+ALTER TABLE document_shares ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'document_shares' AND policyname = 'Users can view own document shares') THEN
+    CREATE POLICY "Users can view own document shares" ON document_shares FOR SELECT TO authenticated USING (auth.uid() = user_id);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'document_shares' AND policyname = 'Users can revoke own document shares') THEN
+    CREATE POLICY "Users can revoke own document shares" ON document_shares FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_document_shares_document_id ON document_shares(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_shares_business_id ON document_shares(business_id);
+
+CREATE TABLE IF NOT EXISTS document_share_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  share_id uuid REFERENCES document_shares(id) ON DELETE CASCADE NOT NULL,
+  succeeded boolean NOT NULL DEFAULT true,
+  user_agent text,
+  viewed_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE document_share_views ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'document_share_views' AND policyname = 'Users can view the log of own document shares') THEN
+    CREATE POLICY "Users can view the log of own document shares" ON document_share_views FOR SELECT TO authenticated
+      USING (EXISTS (
+        SELECT 1 FROM document_shares s
+        WHERE s.id = document_share_views.share_id AND s.user_id = auth.uid()
+      ));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_document_share_views_share_id ON document_share_views(share_id, viewed_at DESC);
@@ -0,0 +1,58 @@
+/*
+  # Make Business Documents Private
+
+  ## Overview
+  The business-documents bucket was created public, with a "Public can view all
+  documents" policy, and every guide stored its public URL in pdf_url. Anyone
+  holding that URL could read the PDF forever. The bucket is now private and
+  PDFs are downloaded through the documents edge function, which checks the
+  owner and signs a URL that is only valid for a minute.
+
+  ## Changes
+  - storage.buckets: business-documents is no longer public
+  - storage.objects: "Public can view all documents" policy dropped; the
+    owner policies keyed on the user's folder stay
+  - generated_documents.pdf_url and document_versions.pdf_url dropped;
+    pdf_file_name (the storage path) is all the edge function needs
+
+  ## Data Migration
+  - Rows with a pdf_url but no pdf_file_name get the storage path taken from
+    the public URL before the column is dropped
+
+  ## Security
+  - PDFs can no longer be read without a signed URL from the documents or
+    document-share edge functions
+*/
+
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'business-documents';
+
+DROP POLICY IF EXISTS "Public can view all documents" ON storage.objects;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generated_documents' AND column_name = 'pdf_url'
+  ) THEN
+    UPDATE generated_documents
+    SET pdf_file_name = substring(pdf_url FROM '/business-documents/([^?]+)')
+    WHERE pdf_file_name IS NULL
+      AND pdf_url LIKE '%/business-documents/%';
+
+    ALTER TABLE generated_documents DROP COLUMN pdf_url;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'document_versions' AND column_name = 'pdf_url'
+  ) THEN
+    UPDATE document_versions
+    SET pdf_file_name = substring(pdf_url FROM '/business-documents/([^?]+)')
+    WHERE pdf_file_name IS NULL
+      AND pdf_url LIKE '%/business-documents/%';
+
+    ALTER TABLE document_versions DROP COLUMN pdf_url;
+  END IF;
+END $$;
@@ -0,0 +1,22 @@
+/*
+  # Allow Startup Kits in Business Documents Storage
+
+  ## Overview
+  The documents edge function now zips a business's guides (PDFs, Markdown,
+  checklist CSVs and a cover index) into a startup kit and stores it next to
+  the PDFs, at {user_id}/kits/{business}-startup-kit.zip, so it can be handed
+  out through a signed URL like any other download.
+
+  ## Changes
+  - storage.buckets: business-documents also accepts application/zip. Buckets
+    created without a MIME type list already accept it and are left alone
+
+  ## Security
+  - Unchanged; kits sit in the owner's folder of the private bucket
+*/
+
+UPDATE storage.buckets
+SET allowed_mime_types = array_append(allowed_mime_types, 'application/zip')
+WHERE id = 'business-documents'
+  AND allowed_mime_types IS NOT NULL
+  AND NOT ('application/zip' = ANY(allowed_mime_types));
@@ -0,0 +1,45 @@
+/*
+  # Add Brand Theming to Businesses
+
+  ## Overview
+  Guide PDFs can now be rendered in a business's own palette, fonts and logo
+  instead of the fixed color of each guide type, so founders can hand them
+  out as their own material. The palette and fonts live in the existing
+  business_profiles.color_palette and typography columns, filled from the
+  branding guide or set by the founder in the brand kit, and the logo in
+  business_profiles.logo_design_url. Theming is off until the founder turns
+  it on for the business.
+
+  ## Changes
+  - businesses.use_brand_theme (boolean, default false) - Render this
+    business's guides with its brand
+  - storage.buckets: business-documents also accepts PNG and JPEG images, for
+    logos uploaded to {user_id}/brand/{business_id}/. Buckets created without
+    a MIME type list already accept them and are left alone
+
+  ## Security
+  - Unchanged; users can already update their own businesses and profiles,
+    and logos sit in the owner's folder of the private bucket
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'businesses' AND column_name = 'use_brand_theme'
+  ) THEN
+    ALTER TABLE businesses ADD COLUMN use_brand_theme boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+UPDATE storage.buckets
+SET allowed_mime_types = array_append(allowed_mime_types, 'image/png')
+WHERE id = 'business-documents'
+  AND allowed_mime_types IS NOT NULL
+  AND NOT ('image/png' = ANY(allowed_mime_types));
+
+UPDATE storage.buckets
+SET allowed_mime_types = array_append(allowed_mime_types, 'image/jpeg')
+WHERE id = 'business-documents'
+  AND allowed_mime_types IS NOT NULL
+  AND NOT ('image/jpeg' = ANY(allowed_mime_types));
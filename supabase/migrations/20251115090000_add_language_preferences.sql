@@ -0,0 +1,243 @@
+/*
+  # Add Language Preferences
+
+  ## Overview
+  Everything the founder saw was in English: the app, the questionnaire, the
+  chat and the guides. Each user can now choose the language they work in.
+  The app shows its text in that language, the questionnaire is asked in it,
+  the chat answers in it and the guides are written in it. The language a
+  guide was written in is stored with it, so the history shows it.
+
+  ## New Tables
+
+  ### user_preferences
+  - `user_id` (uuid, primary key, foreign key → users) - Whose preferences these are
+  - `language` (text) - ISO 639-1 code of the app and guide language: en, hi
+    (Hindi), mr (Marathi) or ta (Tamil)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes
+
+  ### 1. generated_documents
+  - `language` (text, default 'en') - Language the guide is written in.
+    Existing guides are English
+
+  ### 2. Confirmed Idea questionnaire version 3
+  - Copies the active version 2 and gives every question `translations` with
+    its prompt, help text and option labels in Hindi, Marathi and Tamil. The
+    stored answers stay the English options, so conditions and guides read
+    them as before. Version 3 becomes the active one
+
+  ## Security
+  - RLS enabled on user_preferences; users can view, create and update only
+    their own row
+*/
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  language text NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'hi', 'mr', 'ta')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'user_preferences' AND policyname = 'Users can view own preferences') THEN
+    CREATE POLICY "Users can view own preferences" ON user_preferences FOR SELECT TO authenticated USING (auth.uid() = user_id);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'user_preferences' AND policyname = 'Users can create own preferences') THEN
+    CREATE POLICY "Users can create own preferences" ON user_preferences FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'user_preferences' AND policyname = 'Users can update own preferences') THEN
+    CREATE POLICY "Users can update own preferences" ON user_preferences FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generated_documents' AND column_name = 'language'
+  ) THEN
+    ALTER TABLE generated_documents ADD COLUMN language text NOT NULL DEFAULT 'en';
+  END IF;
+END $$;
+
+INSERT INTO questionnaires (slug, version, title, is_active, definition)
+SELECT
+  slug,
+  3,
+  title,
+  false,
+  jsonb_build_object('questions', (
+    SELECT jsonb_agg(
+      question || jsonb_build_object('translations', COALESCE(translations.value, '{}'::jsonb))
+      ORDER BY position
+    )
+    FROM jsonb_array_elements(definition -> 'questions') WITH ORDINALITY AS questions(question, position)
+    LEFT JOIN LATERAL (
+      SELECT value FROM jsonb_each($translations${
+        "business_name": {
+          "hi": {
+            "prompt": "कंपनी का नाम या पसंदीदा नाम क्या है?",
+            "helpText": "अगर अभी तय नहीं किया है तो कामचलाऊ नाम भी चलेगा - रजिस्ट्रेशन गाइड बताएगी कि नाम उपलब्ध है या नहीं, यह कैसे जाँचें।"
+          },
+          "mr": {
+            "prompt": "कंपनीचे नाव किंवा पसंतीचे नाव काय आहे?",
+            "helpText": "अजून ठरवले नसेल तर तात्पुरते नाव चालेल - नाव उपलब्ध आहे का ते कसे तपासायचे ते नोंदणी मार्गदर्शक सांगेल."
+          },
+          "ta": {
+            "prompt": "நிறுவனத்தின் பெயர் அல்லது விரும்பும் பெயர் என்ன?",
+            "helpText": "இன்னும் முடிவு செய்யவில்லை என்றால் தற்காலிகப் பெயர் போதும் - பெயர் கிடைக்கிறதா என்று எப்படிச் சரிபார்ப்பது என்பதைப் பதிவு வழிகாட்டி விளக்கும்."
+          }
+        },
+        "company_description": {
+          "hi": {
+            "prompt": "कृपया कंपनी का छोटा सा विवरण या कंपनी की वेबसाइट बताएँ",
+            "helpText": "एक-दो वाक्य में बताएँ कि आप क्या बेचते हैं, किसे बेचते हैं और कमाई कैसे होती है। वेबसाइट का पता भी चलेगा।",
+            "message": "कृपया व्यवसाय के बारे में कम से कम कुछ शब्द लिखें।"
+          },
+          "mr": {
+            "prompt": "कृपया कंपनीचे थोडक्यात वर्णन किंवा कंपनीची वेबसाइट सांगा",
+            "helpText": "तुम्ही काय विकता, कोणाला विकता आणि पैसे कसे मिळवता हे एक-दोन वाक्यांत सांगा. वेबसाइटचा पत्ताही चालेल.",
+            "message": "कृपया व्यवसायाबद्दल किमान काही शब्द लिहा."
+          },
+          "ta": {
+            "prompt": "நிறுவனத்தைப் பற்றிய சிறு விளக்கம் அல்லது நிறுவனத்தின் இணையதளத்தைத் தாருங்கள்",
+            "helpText": "நீங்கள் என்ன விற்கிறீர்கள், யாருக்கு விற்கிறீர்கள், எப்படி வருமானம் ஈட்டுகிறீர்கள் என்பதை ஓரிரு வாக்கியங்களில் சொல்லுங்கள். இணையதள முகவரியும் போதும்.",
+            "message": "தயவுசெய்து வணிகத்தைப் பற்றிச் சில வார்த்தைகளாவது எழுதுங்கள்."
+          }
+        },
+        "industry": {
+          "hi": {
+            "prompt": "व्यवसाय किस उद्योग में है?",
+            "helpText": "लाइसेंस और अनुपालन उद्योग पर निर्भर करते हैं। सबसे नज़दीकी विकल्प चुनें, या अपना लिखें।",
+            "options": ["टेक्नोलॉजी/सॉफ़्टवेयर", "खाद्य और पेय", "रिटेल/ई-कॉमर्स", "मैन्युफ़ैक्चरिंग", "प्रोफ़ेशनल सेवाएँ", "स्वास्थ्य सेवा", "शिक्षा", "अन्य"]
+          },
+          "mr": {
+            "prompt": "व्यवसाय कोणत्या उद्योगात आहे?",
+            "helpText": "परवाने आणि अनुपालन उद्योगावर अवलंबून असतात. सर्वात जवळचा पर्याय निवडा, किंवा तुमचा स्वतःचा लिहा.",
+            "options": ["तंत्रज्ञान/सॉफ्टवेअर", "अन्न आणि पेये", "रिटेल/ई-कॉमर्स", "उत्पादन", "व्यावसायिक सेवा", "आरोग्य सेवा", "शिक्षण", "इतर"]
+          },
+          "ta": {
+            "prompt": "வணிகம் எந்தத் தொழில்துறையைச் சேர்ந்தது?",
+            "helpText": "உரிமங்களும் இணக்கமும் தொழில்துறையைப் பொறுத்தது. மிக நெருக்கமானதைத் தேர்ந்தெடுங்கள், அல்லது உங்களுடையதைத் தட்டச்சு செய்யுங்கள்.",
+            "options": ["தொழில்நுட்பம்/மென்பொருள்", "உணவு & பானங்கள்", "சில்லறை/மின்வணிகம்", "உற்பத்தி", "தொழில்முறை சேவைகள்", "சுகாதாரம்", "கல்வி", "மற்றவை"]
+          }
+        },
+        "fssai_license": {
+          "hi": {
+            "prompt": "क्या आपके पास पहले से FSSAI रजिस्ट्रेशन या लाइसेंस है?",
+            "helpText": "भारत में हर खाद्य व्यवसाय को टर्नओवर के हिसाब से FSSAI बेसिक रजिस्ट्रेशन या राज्य/केंद्रीय लाइसेंस चाहिए। अगर अभी आवेदन नहीं किया है तो \"नहीं\" लिखें - अनुपालन गाइड इसे समझाएगी।"
+          },
+          "mr": {
+            "prompt": "तुमच्याकडे आधीच FSSAI नोंदणी किंवा परवाना आहे का?",
+            "helpText": "भारतातील प्रत्येक खाद्य व्यवसायाला उलाढालीनुसार FSSAI मूलभूत नोंदणी किंवा राज्य/केंद्रीय परवाना लागतो. अजून अर्ज केला नसेल तर \"नाही\" लिहा - अनुपालन मार्गदर्शक ते समजावेल."
+          },
+          "ta": {
+            "prompt": "உங்களிடம் ஏற்கனவே FSSAI பதிவு அல்லது உரிமம் உள்ளதா?",
+            "helpText": "இந்தியாவில் ஒவ்வொரு உணவு வணிகத்திற்கும் விற்றுமுதலைப் பொறுத்து FSSAI அடிப்படைப் பதிவு அல்லது மாநில/மத்திய உரிமம் தேவை. இன்னும் விண்ணப்பிக்கவில்லை என்றால் \"இல்லை\" என்று பதிலளியுங்கள் - இணக்க வழிகாட்டி அதை விளக்கும்."
+          }
+        },
+        "location": {
+          "hi": {
+            "prompt": "व्यवसाय किस जगह से चलेगा?",
+            "helpText": "शहर और राज्य, जैसे पुणे, महाराष्ट्र। कई रजिस्ट्रेशन और टैक्स राज्य के नियमों पर निर्भर करते हैं।"
+          },
+          "mr": {
+            "prompt": "व्यवसाय कोणत्या ठिकाणाहून चालेल?",
+            "helpText": "शहर आणि राज्य, उदा. पुणे, महाराष्ट्र. अनेक नोंदण्या आणि कर राज्याच्या नियमांवर अवलंबून असतात."
+          },
+          "ta": {
+            "prompt": "வணிகம் எந்த இடத்தில் செயல்படும்?",
+            "helpText": "நகரம் மற்றும் மாநிலம், எ.கா. சென்னை, தமிழ்நாடு. பல பதிவுகளும் வரிகளும் மாநில விதிகளைப் பொறுத்தவை."
+          }
+        },
+        "partners_info": {
+          "hi": {
+            "prompt": "पार्टनर या डायरेक्टर कौन होंगे? (कितने और उनकी भूमिकाएँ क्या हैं?)",
+            "helpText": "नाम, भूमिका और वे कहाँ रहते हैं, जैसे \"आशा (CEO) और उनका भाई रवि, जो दुबई में रहता है\"। जिसके पास पहले से DIN है, उसका ज़िक्र करें। अगर आप अकेले संस्थापक हैं तो \"सिर्फ मैं\" लिखें।"
+          },
+          "mr": {
+            "prompt": "भागीदार किंवा संचालक कोण असतील? (किती आणि त्यांच्या भूमिका काय?)",
+            "helpText": "नावे, भूमिका आणि ते कुठे राहतात, उदा. \"आशा (CEO) आणि तिचा भाऊ रवी, जो दुबईत राहतो\". ज्यांच्याकडे आधीच DIN आहे त्यांचा उल्लेख करा. तुम्ही एकटेच संस्थापक असाल तर \"फक्त मी\" लिहा."
+          },
+          "ta": {
+            "prompt": "பங்குதாரர்கள் அல்லது இயக்குநர்கள் யார்? (எத்தனை பேர், அவர்களின் பொறுப்புகள் என்ன?)",
+            "helpText": "பெயர்கள், பொறுப்புகள், அவர்கள் வசிக்கும் இடம், எ.கா. \"ஆஷா (CEO) மற்றும் துபாயில் வசிக்கும் அவரது சகோதரர் ரவி\". ஏற்கனவே DIN உள்ளவர்களைக் குறிப்பிடுங்கள். நீங்கள் மட்டுமே நிறுவனர் என்றால் \"நான் மட்டும்\" என்று தட்டச்சு செய்யுங்கள்."
+          }
+        },
+        "capital_investment": {
+          "hi": {
+            "prompt": "व्यवसाय शुरू करने के लिए आप कितनी पूंजी लगाने की योजना बना रहे हैं? (जैसे ₹10 लाख)",
+            "helpText": "अपना पैसा और लॉन्च से पहले मिलने वाला कोई भी लोन या निवेश शामिल करें। अगर अभी कोई आंकड़ा नहीं है तो \"पता नहीं\" लिखें।"
+          },
+          "mr": {
+            "prompt": "व्यवसाय सुरू करण्यासाठी तुम्ही किती भांडवल गुंतवण्याचा विचार करत आहात? (उदा. ₹10 लाख)",
+            "helpText": "तुमचे स्वतःचे पैसे आणि सुरुवातीपूर्वी अपेक्षित कर्ज किंवा गुंतवणूक यांचा समावेश करा. अजून आकडा नसेल तर \"माहित नाही\" लिहा."
+          },
+          "ta": {
+            "prompt": "வணிகத்தைத் தொடங்க எவ்வளவு முதலீடு செய்யத் திட்டமிட்டுள்ளீர்கள்? (எ.கா. ₹10 லட்சம்)",
+            "helpText": "உங்கள் சொந்தப் பணம் மற்றும் தொடக்கத்திற்கு முன் எதிர்பார்க்கும் கடன் அல்லது முதலீட்டைச் சேர்க்கவும். இன்னும் தொகை தெரியவில்லை என்றால் \"தெரியாது\" என்று தட்டச்சு செய்யுங்கள்."
+          }
+        },
+        "expected_turnover": {
+          "hi": {
+            "prompt": "पहले साल में आप कितने टर्नओवर की उम्मीद करते हैं? (जैसे ₹25 लाख, या \"पता नहीं\")",
+            "helpText": "मोटा-मोटा आंकड़ा काफ़ी है। इसी से GST रजिस्ट्रेशन और वित्तीय योजना तय होती है।"
+          },
+          "mr": {
+            "prompt": "पहिल्या वर्षी तुम्हाला किती उलाढाल अपेक्षित आहे? (उदा. ₹25 लाख, किंवा \"माहित नाही\")",
+            "helpText": "अंदाजे आकडा पुरेसा आहे. त्यावरून GST नोंदणी आणि आर्थिक नियोजन ठरते."
+          },
+          "ta": {
+            "prompt": "முதல் ஆண்டில் எவ்வளவு விற்றுமுதலை எதிர்பார்க்கிறீர்கள்? (எ.கா. ₹25 லட்சம், அல்லது \"தெரியாது\")",
+            "helpText": "தோராயமான தொகை போதும். அதுவே GST பதிவையும் நிதித் திட்டத்தையும் தீர்மானிக்கிறது."
+          }
+        },
+        "color_preference": {
+          "hi": {
+            "prompt": "ब्रांडिंग के लिए आप कौन सा रंग पसंद करेंगे?",
+            "options": ["मिट्टी जैसे", "चटकीले", "प्रोफ़ेशनल", "हल्के (पेस्टल)", "एक रंग (मोनोक्रोम)"]
+          },
+          "mr": {
+            "prompt": "ब्रँडिंगसाठी तुम्हाला कोणती रंगछटा आवडेल?",
+            "options": ["मातीसारखे", "भडक", "व्यावसायिक", "फिकट (पेस्टल)", "एकरंगी (मोनोक्रोम)"]
+          },
+          "ta": {
+            "prompt": "பிராண்டிங்கிற்கு எந்த வண்ணத் தொனியை விரும்புகிறீர்கள்?",
+            "options": ["மண் நிறங்கள்", "பளிச்சென்ற", "தொழில்முறை", "மென்மையான (பேஸ்டல்)", "ஒற்றை நிறம் (மோனோக்ரோம்)"]
+          }
+        },
+        "style_preference": {
+          "hi": {
+            "prompt": "आप कौन सी शैली पसंद करेंगे?",
+            "options": ["पारंपरिक/क्लासिक", "आधुनिक/समकालीन", "अभिव्यंजक/बोल्ड"]
+          },
+          "mr": {
+            "prompt": "तुम्हाला कोणती शैली आवडेल?",
+            "options": ["पारंपरिक/क्लासिक", "आधुनिक/समकालीन", "ठळक/बोल्ड"]
+          },
+          "ta": {
+            "prompt": "எந்தப் பாணியை விரும்புகிறீர்கள்?",
+            "options": ["பாரம்பரிய/கிளாசிக்", "நவீன/சமகால", "துணிச்சலான/போல்ட்"]
+          }
+        }
+      }$translations$::jsonb)
+      WHERE key = question ->> 'id'
+    ) AS translations ON true
+  ))
+FROM questionnaires
+WHERE slug = 'confirmed_idea' AND version = 2
+ON CONFLICT (slug, version) DO NOTHING;
+
+-- Two statements, since only one version per slug may be active at any time
+UPDATE questionnaires SET is_active = false
+WHERE slug = 'confirmed_idea' AND version <> 3 AND EXISTS (
+  SELECT 1 FROM questionnaires WHERE slug = 'confirmed_idea' AND version = 3
+);
+
+UPDATE questionnaires SET is_active = true
+WHERE slug = 'confirmed_idea' AND version = 3;
@@ -0,0 +1,71 @@
+/*
+  # Fix Generation Job Enqueue and Claim
+
+  ## Overview
+  Closes two gaps in the generation_jobs queue: users could enqueue jobs for a
+  session that is not theirs, and a job whose worker crashed or timed out on
+  every attempt was reclaimed forever.
+
+  ## Changes
+
+  ### 1. Enqueue policy
+  - "Users can enqueue own generation jobs" also requires the job's session to
+    belong to the user, as the original migration intended
+
+  ### 2. claim_generation_job(lock_seconds)
+  - An expired lease is only reclaimed while attempts < max_attempts
+  - Expired jobs that have used up their attempts are marked 'failed' with
+    last_error 'LEASE_EXPIRED', and their guide's generation_status is set to
+    'failed', in the same call
+
+  ## Security
+  - The claim function stays executable by the service role only
+*/
+
+DROP POLICY IF EXISTS "Users can enqueue own generation jobs" ON generation_jobs;
+CREATE POLICY "Users can enqueue own generation jobs" ON generation_jobs FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND EXISTS (SELECT 1 FROM user_sessions s WHERE s.id = session_id AND s.user_id = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION claim_generation_job(lock_seconds integer DEFAULT 300)
+RETURNS SETOF generation_jobs AS $$
+BEGIN
+  -- A lease that expired on the last attempt means the job crashed or timed out every time
+  WITH exhausted AS (
+    UPDATE generation_jobs
+    SET status = 'failed',
+        locked_until = NULL,
+        last_error = 'LEASE_EXPIRED'
+    WHERE status = 'running'
+      AND locked_until < now()
+      AND attempts >= max_attempts
+    RETURNING session_id, document_type
+  )
+  UPDATE generated_documents d
+  SET generation_status = 'failed'
+  FROM exhausted e
+  WHERE d.session_id = e.session_id
+    AND d.document_type = e.document_type;
+
+  RETURN QUERY
+  UPDATE generation_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_until = now() + make_interval(secs => lock_seconds)
+  WHERE id = (
+    SELECT id FROM generation_jobs
+    WHERE (status = 'pending' AND run_after <= now())
+       OR (status = 'running' AND locked_until < now() AND attempts < max_attempts)
+    ORDER BY run_after, created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION claim_generation_job(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_generation_job(integer) TO service_role;
@@ -0,0 +1,43 @@
+/*
+  # Limit Document Share Updates to Revoking
+
+  ## Overview
+  "Users can revoke own document shares" allowed any UPDATE of an owner's own
+  link, so an owner could point a link at someone else's guide or business and
+  open it through the document-share edge function.
+
+  ## Changes
+
+  ### 1. document_shares_revoke_only trigger
+  - Rejects an update that changes any column other than revoked_at
+  - Rejects clearing or changing revoked_at once a link is revoked
+
+  ## Security
+  - Owners can still revoke their links through RLS, as the app does
+  - The document-share function also only loads guides and businesses owned by
+    the link's owner
+*/
+
+CREATE OR REPLACE FUNCTION document_shares_revoke_only()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- has_passcode is generated, so it is not compared
+  IF (to_jsonb(NEW) - 'revoked_at' - 'has_passcode') IS DISTINCT FROM (to_jsonb(OLD) - 'revoked_at' - 'has_passcode') THEN
+    RAISE EXCEPTION 'Share links can only be revoked'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.revoked_at IS NOT NULL AND NEW.revoked_at IS DISTINCT FROM OLD.revoked_at THEN
+    RAISE EXCEPTION 'Share link % is already revoked', OLD.id
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS document_shares_revoke_only_trigger ON document_shares;
+CREATE TRIGGER document_shares_revoke_only_trigger
+  BEFORE UPDATE ON document_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION document_shares_revoke_only();
@@ -0,0 +1,20 @@
+/*
+  # Create PDF Fonts Bucket
+
+  ## Overview
+  Guide PDFs embed Noto and brand fonts fetched from Fontsource. Each font
+  file is now copied into this bucket the first time it is fetched, so PDFs
+  keep rendering when the CDN cannot be reached.
+
+  ## Changes
+  - storage.buckets: private pdf-fonts bucket, holding
+    {fontsource id}/{file name}.woff
+
+  ## Security
+  - No storage policies; only the edge functions, with the service role, read
+    and write it
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('pdf-fonts', 'pdf-fonts', false)
+ON CONFLICT (id) DO NOTHING;
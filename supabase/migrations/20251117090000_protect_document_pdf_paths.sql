@@ -0,0 +1,25 @@
+/*
+  # Protect Document PDF Paths
+
+  ## Overview
+  "Users can update own generated documents" let an owner rewrite any column
+  of their guide, including pdf_file_name. The edge functions read that path
+  with the service role, so a guide pointed at another user's file would
+  sign, zip or remove it.
+
+  ## Changes
+
+  ### 1. generated_documents privileges
+  - anon and authenticated lose INSERT and UPDATE on the table; guides are
+    only written by the edge functions
+  - authenticated keeps UPDATE on generation_status, the one column the app
+    changes (updateDocumentStatus)
+
+  ## Security
+  - The RLS policies stay as they are; the column grant limits what they allow
+  - The documents and document-share functions also refuse any stored path
+    outside the owner's folder
+*/
+
+REVOKE INSERT, UPDATE ON generated_documents FROM anon, authenticated;
+GRANT UPDATE (generation_status) ON generated_documents TO authenticated;
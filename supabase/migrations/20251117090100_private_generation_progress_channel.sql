@@ -0,0 +1,44 @@
+/*
+  # Private Generation Progress Channel
+
+  ## Overview
+  The generation worker broadcasts the text of a guide as it is written on the
+  Realtime channel generation:<session id>. The channel was public, so anyone
+  who knew a session id could subscribe and read the guide. The worker and the
+  app now use a private channel, and Realtime checks this policy on join.
+
+  ## Changes
+
+  ### 1. realtime.messages policy
+  - "Users can receive generation progress of own sessions": authenticated
+    users may receive broadcasts on generation:<session id> only when they own
+    the session
+
+  ## Security
+  - There is no INSERT policy, so clients cannot send on the channel; the
+    worker sends with the service role
+  - Skipped where the realtime schema does not exist, as in the other
+    Realtime migrations
+*/
+
+DO $$
+BEGIN
+  IF to_regclass('realtime.messages') IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_policies
+      WHERE schemaname = 'realtime' AND tablename = 'messages'
+        AND policyname = 'Users can receive generation progress of own sessions'
+    ) THEN
+    CREATE POLICY "Users can receive generation progress of own sessions"
+      ON realtime.messages FOR SELECT TO authenticated
+      USING (
+        realtime.messages.extension = 'broadcast'
+        AND realtime.topic() LIKE 'generation:%'
+        AND EXISTS (
+          SELECT 1 FROM public.user_sessions
+          WHERE user_sessions.id::text = substring(realtime.topic() FROM length('generation:') + 1)
+            AND user_sessions.user_id = auth.uid()
+        )
+      );
+  END IF;
+END $$;